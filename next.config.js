@@ -1,3 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Compiled at request time for published stylesheets
+    serverComponentsExternalPackages: ['tailwindcss', 'postcss'],
+  },
+}
+
 module.exports = nextConfig
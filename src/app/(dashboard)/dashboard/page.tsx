@@ -3,8 +3,22 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import Link from "next/link"
-import { Plus, FolderKanban, Globe, Activity, FolderPlus, Sparkles } from "lucide-react"
+import { Plus, FolderKanban, Globe, Activity, FolderPlus, Sparkles, Cpu, Stethoscope } from "lucide-react"
 import { createClient } from "@/lib/supabase/server"
+import {
+  getPeriodUsageTotals,
+  getQuotaLimits,
+  getUsagePeriod,
+  sumUsageTotals,
+  type UsageTotals,
+} from "@/lib/claude/usage"
+import { findOverdueContent } from "@/lib/healthcare/freshness"
+
+const CONTENT_TYPE_LABELS = {
+  health_article: "Article",
+  medical_service: "Service page",
+  location_service_page: "Local page",
+} as const
 
 export default async function DashboardPage() {
   const supabase = await createClient()
@@ -44,6 +58,33 @@ export default async function DashboardPage() {
     },
   ]
 
+  // AI usage for the current billing month
+  const usageByProject = user
+    ? await getPeriodUsageTotals(supabase, user.id).catch((error) => {
+        console.error("AI usage fetch error:", error)
+        return new Map<string, UsageTotals>()
+      })
+    : new Map<string, UsageTotals>()
+  const usageTotals = sumUsageTotals(usageByProject.values())
+  const quotaLimits = user
+    ? await getQuotaLimits(supabase, user.id).catch((error) => {
+        console.error("AI quota fetch error:", error)
+        return { user: null, project: null }
+      })
+    : { user: null, project: null }
+  const usagePeriod = getUsagePeriod()
+
+  const projectUsage = Array.from(usageByProject, ([projectId, totals]) => ({
+    projectId,
+    name: projects?.find(p => p.id === projectId)?.name || (projectId ? "Deleted project" : "No project"),
+    totals,
+  })).sort((a, b) => b.totals.totalTokens - a.totals.totalTokens)
+
+  // Medical content past its re-review cadence
+  const overdueContent = projects && projects.length > 0
+    ? await findOverdueContent(supabase, { projectIds: projects.map(p => p.id) })
+    : []
+
   // Get user's first name for greeting
   const firstName = user?.user_metadata?.full_name?.split(' ')[0] || 'there'
 
@@ -87,6 +128,133 @@ export default async function DashboardPage() {
         ))}
       </div>
 
+      {/* AI Usage */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>AI Usage</CardTitle>
+            <CardDescription>
+              {usagePeriod.start.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })}
+              {" · "}
+              {usageTotals.calls} {usageTotals.calls === 1 ? "request" : "requests"}
+            </CardDescription>
+          </div>
+          <Cpu className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Input tokens</p>
+              <p className="text-2xl font-bold">{usageTotals.inputTokens.toLocaleString("en-US")}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Output tokens</p>
+              <p className="text-2xl font-bold">{usageTotals.outputTokens.toLocaleString("en-US")}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Estimated cost</p>
+              <p className="text-2xl font-bold">${usageTotals.costUsd.toFixed(2)}</p>
+            </div>
+          </div>
+
+          {quotaLimits.user !== null && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Monthly quota</span>
+                <span>
+                  {usageTotals.totalTokens.toLocaleString("en-US")} / {quotaLimits.user.toLocaleString("en-US")} tokens
+                </span>
+              </div>
+              <Progress
+                value={Math.min(100, (usageTotals.totalTokens / quotaLimits.user) * 100)}
+                className="h-2"
+              />
+            </div>
+          )}
+
+          {projectUsage.length > 0 && (
+            <div className="rounded-lg border">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="p-3 font-medium">Project</th>
+                    <th className="p-3 font-medium text-right">Requests</th>
+                    <th className="p-3 font-medium text-right">Tokens</th>
+                    <th className="p-3 font-medium text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {projectUsage.map(({ projectId, name, totals }) => (
+                    <tr key={projectId || "none"} className="border-b last:border-0">
+                      <td className="p-3">{name}</td>
+                      <td className="p-3 text-right">{totals.calls}</td>
+                      <td className="p-3 text-right">{totals.totalTokens.toLocaleString("en-US")}</td>
+                      <td className="p-3 text-right">${totals.costUsd.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Content Due for Review */}
+      {overdueContent.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle>Content due for review</CardTitle>
+              <CardDescription>
+                {overdueContent.length} medical {overdueContent.length === 1 ? "page is" : "pages are"} past their review date
+              </CardDescription>
+            </div>
+            <Stethoscope className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-lg border">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="p-3 font-medium">Content</th>
+                    <th className="p-3 font-medium">Practice</th>
+                    <th className="p-3 font-medium">Last reviewed</th>
+                    <th className="p-3 font-medium text-right">Overdue</th>
+                    <th className="p-3 font-medium text-right">Review</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overdueContent.slice(0, 10).map((item) => (
+                    <tr key={`${item.contentType}:${item.contentId}`} className="border-b last:border-0">
+                      <td className="p-3">
+                        <span className="font-medium">{item.title}</span>
+                        <span className="ml-2 text-muted-foreground">{CONTENT_TYPE_LABELS[item.contentType]}</span>
+                      </td>
+                      <td className="p-3">{item.practiceName}</td>
+                      <td className="p-3">
+                        {item.lastReviewedAt
+                          ? new Date(item.lastReviewedAt).toLocaleDateString("en-US", { dateStyle: "medium" })
+                          : "Never"}
+                      </td>
+                      <td className="p-3 text-right">
+                        {item.daysOverdue} {item.daysOverdue === 1 ? "day" : "days"}
+                      </td>
+                      <td className="p-3 text-right">
+                        {item.pendingReview ? (
+                          <Badge variant="secondary">{item.pendingReview.reviewerName}</Badge>
+                        ) : (
+                          <Badge variant="outline">Not assigned</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Projects or Empty State */}
       <Card>
         <CardHeader>
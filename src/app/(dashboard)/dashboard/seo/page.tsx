@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,129 +24,13 @@ import {
   Wrench,
   Clock,
   Target,
+  TrendingDown,
 } from 'lucide-react';
 import Link from 'next/link';
-
-// Mock data for demo
-const mockAuditResult = {
-  score: 78,
-  timestamp: new Date().toISOString(),
-  projectId: 'demo-project',
-  breakdown: {
-    technical: { score: 85, weight: 0.25, passed: 12, failed: 1, warnings: 2, issues: [] },
-    content: { score: 78, weight: 0.25, passed: 10, failed: 1, warnings: 2, issues: [] },
-    localSeo: { score: 72, weight: 0.25, passed: 8, failed: 2, warnings: 1, issues: [] },
-    schema: { score: 80, weight: 0.15, passed: 9, failed: 0, warnings: 2, issues: [] },
-    eeat: { score: 75, weight: 0.10, passed: 6, failed: 0, warnings: 2, issues: [] },
-  },
-  issues: [
-    {
-      id: 'local-1',
-      type: 'critical' as const,
-      category: 'local_seo',
-      code: 'MISSING_NAP',
-      title: 'NAP not on all pages',
-      description: 'Name, Address, and Phone number are not visible in the footer of 3 pages.',
-      affectedPages: ['/health-library/article-1', '/health-library/article-2', '/book-appointment'],
-      howToFix: 'Add the business NAP information to the footer component on all pages.',
-      autoFixAvailable: false,
-      impact: 'high' as const,
-      effort: 'low' as const,
-    },
-    {
-      id: 'eeat-1',
-      type: 'warning' as const,
-      category: 'eeat',
-      code: 'MISSING_MEDICAL_REVIEWER',
-      title: 'Articles missing medical reviewer',
-      description: '4 health articles are missing a medical reviewer attribution.',
-      affectedPages: ['/health-library/article-1', '/health-library/article-2'],
-      howToFix: 'Add medical reviewer badge to all health articles.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'high' as const,
-      effort: 'low' as const,
-    },
-    {
-      id: 'tech-1',
-      type: 'warning' as const,
-      category: 'technical',
-      code: 'META_TITLE_LENGTH',
-      title: 'Meta titles need optimization',
-      description: '3 pages have meta titles outside the optimal 50-60 character range.',
-      affectedPages: ['/treatments/ed', '/treatments/trt', '/about'],
-      howToFix: 'Edit the meta titles to be between 50-60 characters.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'medium' as const,
-      effort: 'low' as const,
-    },
-    {
-      id: 'schema-1',
-      type: 'warning' as const,
-      category: 'schema',
-      code: 'MISSING_FAQ_SCHEMA',
-      title: 'Missing FAQPage schema',
-      description: '3 pages with FAQ sections are missing FAQPage structured data.',
-      affectedPages: ['/treatments/ed', '/treatments/trt', '/treatments/weight-loss'],
-      howToFix: 'Add FAQPage schema markup to pages that contain FAQ sections.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'medium' as const,
-      effort: 'low' as const,
-    },
-    {
-      id: 'local-2',
-      type: 'warning' as const,
-      category: 'local_seo',
-      code: 'MISSING_LOCATION_PAGES',
-      title: 'Location×Service pages incomplete',
-      description: '4 location×service combinations are missing dedicated pages.',
-      affectedPages: [],
-      howToFix: 'Generate local SEO pages for all location and service combinations.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/generate-local-pages',
-      impact: 'high' as const,
-      effort: 'medium' as const,
-    },
-    {
-      id: 'content-1',
-      type: 'info' as const,
-      category: 'content',
-      code: 'THIN_CONTENT',
-      title: 'Thin content detected',
-      description: '2 service pages have less than 500 words of content.',
-      affectedPages: ['/treatments/b12-injections', '/treatments/nutritional-counseling'],
-      howToFix: 'Expand the content to at least 500 words with helpful, relevant information.',
-      autoFixAvailable: false,
-      impact: 'medium' as const,
-      effort: 'medium' as const,
-    },
-  ],
-  recommendations: [
-    {
-      priority: 1,
-      title: 'Fix critical SEO issues',
-      description: 'You have 1 critical issue that needs immediate attention.',
-      expectedImpact: 'High - fixing these will significantly improve search rankings',
-      relatedIssues: ['local-1'],
-    },
-    {
-      priority: 2,
-      title: 'Apply automatic fixes',
-      description: '4 issues can be automatically fixed. This is a quick win.',
-      expectedImpact: 'Medium - quick improvements with minimal effort',
-      relatedIssues: ['eeat-1', 'tech-1', 'schema-1', 'local-2'],
-    },
-    {
-      priority: 3,
-      title: 'Address quick wins',
-      description: '3 high-impact, low-effort improvements available.',
-      expectedImpact: 'High - significant improvement with minimal time investment',
-      relatedIssues: ['local-1', 'eeat-1', 'tech-1'],
-    },
-  ],
-};
+import { AuditResultCard, ScoreTrendChart } from '@/components/seo/audit';
+import { useSEOAudit } from '@/hooks/useSEOAudit';
+import { useSEOAuditHistory } from '@/hooks/useSEOAuditHistory';
+import { getScoreTrend } from '@/lib/seo/audit/scoring';
 
 const categoryConfig = {
   technical: { icon: Code, label: 'Technical', color: 'text-blue-500' },
@@ -196,24 +81,47 @@ function getSeverityBadge(type: 'critical' | 'warning' | 'info') {
 }
 
 export default function SEODashboardPage() {
-  const [isRunning, setIsRunning] = useState(false);
+  const searchParams = useSearchParams();
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [projectId, setProjectId] = useState(searchParams.get('projectId') || '');
   const [activeTab, setActiveTab] = useState('overview');
-  const auditResult = mockAuditResult;
+
+  const { runAudit, isRunning, error: auditError } = useSEOAudit({ projectId, cacheTime: 0 });
+  const history = useSEOAuditHistory({ projectId });
+  const latest = history.latest;
+  const auditResult = latest?.summary;
+
+  useEffect(() => {
+    fetch('/api/projects')
+      .then((response) => (response.ok ? response.json() : { projects: [] }))
+      .then((data) => {
+        const list: Array<{ id: string; name: string }> = data.projects || [];
+        setProjects(list);
+        setProjectId((current) => current || list[0]?.id || '');
+      })
+      .catch(() => setProjects([]));
+  }, []);
 
   const stats = {
-    criticalIssues: auditResult.issues.filter((i) => i.type === 'critical').length,
-    warningIssues: auditResult.issues.filter((i) => i.type === 'warning').length,
-    infoIssues: auditResult.issues.filter((i) => i.type === 'info').length,
-    autoFixable: auditResult.issues.filter((i) => i.autoFixAvailable).length,
+    criticalIssues: auditResult?.issues.filter((i) => i.type === 'critical').length ?? 0,
+    warningIssues: auditResult?.issues.filter((i) => i.type === 'warning').length ?? 0,
+    infoIssues: auditResult?.issues.filter((i) => i.type === 'info').length ?? 0,
+    autoFixable: auditResult?.issues.filter((i) => i.autoFixAvailable).length ?? 0,
   };
 
+  const scoreTrend = latest && history.previous ? getScoreTrend(latest.score, history.previous.score) : null;
+
   const handleRunAudit = async () => {
-    setIsRunning(true);
-    // Simulate audit running
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setIsRunning(false);
+    try {
+      await runAudit('full');
+      await history.refresh();
+    } catch {
+      // Shown from the hook's error state
+    }
   };
 
+  const error = auditError || history.error;
+
   return (
     <div className="p-8 space-y-8">
       {/* Header */}
@@ -224,242 +132,338 @@ export default function SEODashboardPage() {
             Monitor and improve your healthcare website&apos;s search visibility.
           </p>
         </div>
-        <Button onClick={handleRunAudit} disabled={isRunning}>
-          <RefreshCw className={`mr-2 h-4 w-4 ${isRunning ? 'animate-spin' : ''}`} />
-          {isRunning ? 'Running Audit...' : 'Run Full Audit'}
-        </Button>
+        <div className="flex items-center gap-2">
+          {projects.length > 1 && (
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+            >
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <Button onClick={handleRunAudit} disabled={isRunning || !projectId}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRunning ? 'animate-spin' : ''}`} />
+            {isRunning ? 'Running Audit...' : 'Run Full Audit'}
+          </Button>
+        </div>
       </div>
 
-      {/* Score Overview */}
-      <div className="grid gap-6 md:grid-cols-4">
-        <Card className="md:col-span-1">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Overall Score
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center gap-4">
-              <div className={`text-5xl font-bold ${getScoreColor(auditResult.score)}`}>
-                {auditResult.score}
-              </div>
-              <div className="flex flex-col">
-                <Badge variant="outline" className={getScoreColor(auditResult.score)}>
-                  Grade: {getScoreGrade(auditResult.score)}
-                </Badge>
-                <span className="text-xs text-muted-foreground mt-1">
-                  Last audit: {new Date(auditResult.timestamp).toLocaleString()}
-                </span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Critical Issues
-            </CardTitle>
-            <AlertTriangle className="h-4 w-4 text-red-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-red-500">{stats.criticalIssues}</div>
-            <p className="text-xs text-muted-foreground">Needs immediate attention</p>
-          </CardContent>
-        </Card>
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
 
+      {!auditResult ? (
         <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Warnings</CardTitle>
-            <AlertTriangle className="h-4 w-4 text-yellow-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-yellow-500">{stats.warningIssues}</div>
-            <p className="text-xs text-muted-foreground">Should be addressed</p>
+          <CardContent className="py-12 text-center">
+            <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {!projectId
+                ? 'Create a project to audit its pages.'
+                : history.isLoading
+                  ? 'Loading audit history...'
+                  : 'No audits yet. Run the first audit to start tracking your scores.'}
+            </p>
           </CardContent>
         </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Auto-Fixable
-            </CardTitle>
-            <Zap className="h-4 w-4 text-green-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-green-500">{stats.autoFixable}</div>
-            <p className="text-xs text-muted-foreground">Quick wins available</p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Category Breakdown */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Category Breakdown</CardTitle>
-          <CardDescription>Performance across different SEO categories</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {Object.entries(auditResult.breakdown).map(([key, category]) => {
-              const config = categoryConfig[key as keyof typeof categoryConfig] || {
-                icon: Search,
-                label: key,
-                color: 'text-gray-500',
-              };
-              const Icon = config.icon;
-
-              return (
-                <div key={key} className="flex items-center gap-4">
-                  <div className={`p-2 rounded-lg bg-muted ${config.color}`}>
-                    <Icon className="h-4 w-4" />
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="font-medium">{config.label}</span>
-                      <span className={`font-bold ${getScoreColor(category.score)}`}>
-                        {category.score}%
-                      </span>
-                    </div>
-                    <Progress value={category.score} className="h-2" />
-                    <div className="flex gap-4 mt-1 text-xs text-muted-foreground">
-                      <span className="flex items-center gap-1">
-                        <CheckCircle2 className="h-3 w-3 text-green-500" />
-                        {category.passed} passed
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <AlertTriangle className="h-3 w-3 text-yellow-500" />
-                        {category.warnings} warnings
-                      </span>
-                      {category.failed > 0 && (
-                        <span className="flex items-center gap-1">
-                          <AlertTriangle className="h-3 w-3 text-red-500" />
-                          {category.failed} failed
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Issues and Recommendations */}
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList>
-          <TabsTrigger value="overview">Recommendations</TabsTrigger>
-          <TabsTrigger value="issues">All Issues ({auditResult.issues.length})</TabsTrigger>
-          <TabsTrigger value="quick-wins">Quick Wins</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="overview" className="mt-4 space-y-4">
-          {auditResult.recommendations.map((rec) => (
-            <Alert key={rec.priority} className="border-l-4 border-l-primary">
-              <Target className="h-4 w-4" />
-              <AlertTitle className="flex items-center gap-2">
-                <Badge variant="outline">Priority {rec.priority}</Badge>
-                {rec.title}
+      ) : (
+        <>
+          {/* Regressions */}
+          {latest.regressions.length > 0 && (
+            <Alert variant="destructive">
+              <TrendingDown className="h-4 w-4" />
+              <AlertTitle>
+                {latest.regressions.length} check(s) regressed since the previous audit
               </AlertTitle>
-              <AlertDescription className="mt-2">
-                <p>{rec.description}</p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  <TrendingUp className="inline h-3 w-3 mr-1" />
-                  {rec.expectedImpact}
-                </p>
+              <AlertDescription>
+                {latest.regressions
+                  .slice(0, 3)
+                  .map((change) => change.checkName)
+                  .join(', ')}
+                {latest.regressions.length > 3 && ` and ${latest.regressions.length - 3} more`}.{' '}
+                <button className="underline" onClick={() => setActiveTab('report')}>
+                  See what changed
+                </button>
               </AlertDescription>
             </Alert>
-          ))}
-        </TabsContent>
+          )}
 
-        <TabsContent value="issues" className="mt-4 space-y-4">
-          {auditResult.issues.map((issue) => (
-            <Card key={issue.id}>
+          {/* Score Overview */}
+          <div className="grid gap-6 md:grid-cols-4">
+            <Card className="md:col-span-1">
               <CardHeader className="pb-2">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center gap-2">
-                    {getSeverityIcon(issue.type)}
-                    <CardTitle className="text-base">{issue.title}</CardTitle>
-                    {getSeverityBadge(issue.type)}
-                  </div>
-                  {issue.autoFixAvailable && (
-                    <Button size="sm" variant="outline">
-                      <Wrench className="h-3 w-3 mr-1" />
-                      Auto-Fix
-                    </Button>
-                  )}
-                </div>
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Overall Score
+                </CardTitle>
               </CardHeader>
               <CardContent>
-                <p className="text-sm text-muted-foreground mb-3">{issue.description}</p>
-                <div className="flex flex-wrap gap-2 mb-3">
-                  <Badge variant="secondary">
-                    Impact: {issue.impact}
-                  </Badge>
-                  <Badge variant="secondary">
-                    <Clock className="h-3 w-3 mr-1" />
-                    Effort: {issue.effort}
-                  </Badge>
-                </div>
-                {issue.affectedPages && issue.affectedPages.length > 0 && (
-                  <div className="text-sm">
-                    <span className="font-medium">Affected pages:</span>
-                    <ul className="list-disc list-inside text-muted-foreground mt-1">
-                      {issue.affectedPages.slice(0, 3).map((page) => (
-                        <li key={page}>{page}</li>
-                      ))}
-                      {issue.affectedPages.length > 3 && (
-                        <li>+{issue.affectedPages.length - 3} more</li>
-                      )}
-                    </ul>
+                <div className="flex items-center gap-4">
+                  <div className={`text-5xl font-bold ${getScoreColor(auditResult.score)}`}>
+                    {auditResult.score}
+                  </div>
+                  <div className="flex flex-col">
+                    <Badge variant="outline" className={getScoreColor(auditResult.score)}>
+                      Grade: {getScoreGrade(auditResult.score)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground mt-1">
+                      Last audit: {new Date(auditResult.timestamp).toLocaleString()}
+                    </span>
+                    {scoreTrend && (
+                      <span
+                        className={`text-xs mt-1 ${
+                          scoreTrend.direction === 'down' ? 'text-red-500' : 'text-green-500'
+                        }`}
+                      >
+                        {scoreTrend.label} since the previous audit
+                      </span>
+                    )}
                   </div>
-                )}
-                <div className="mt-3 p-3 bg-muted rounded-lg">
-                  <span className="font-medium text-sm">How to fix:</span>
-                  <p className="text-sm text-muted-foreground mt-1">{issue.howToFix}</p>
                 </div>
               </CardContent>
             </Card>
-          ))}
-        </TabsContent>
-
-        <TabsContent value="quick-wins" className="mt-4">
-          <div className="grid gap-4 md:grid-cols-2">
-            {auditResult.issues
-              .filter((i) => i.impact === 'high' && i.effort === 'low')
-              .map((issue) => (
-                <Card key={issue.id} className="border-l-4 border-l-green-500">
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Critical Issues
+                </CardTitle>
+                <AlertTriangle className="h-4 w-4 text-red-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-500">{stats.criticalIssues}</div>
+                <p className="text-xs text-muted-foreground">Needs immediate attention</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Warnings</CardTitle>
+                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-yellow-500">{stats.warningIssues}</div>
+                <p className="text-xs text-muted-foreground">Should be addressed</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Auto-Fixable
+                </CardTitle>
+                <Zap className="h-4 w-4 text-green-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-500">{stats.autoFixable}</div>
+                <p className="text-xs text-muted-foreground">Quick wins available</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Score Trends */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Score Trends</CardTitle>
+              <CardDescription>
+                Scores per category across the last {history.audits.length} audit(s)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScoreTrendChart points={history.trend} />
+            </CardContent>
+          </Card>
+
+          {/* Category Breakdown */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Category Breakdown</CardTitle>
+              <CardDescription>Performance across different SEO categories</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {Object.entries(auditResult.breakdown).map(([key, category]) => {
+                  const config = categoryConfig[key as keyof typeof categoryConfig] || {
+                    icon: Search,
+                    label: key,
+                    color: 'text-gray-500',
+                  };
+                  const Icon = config.icon;
+
+                  return (
+                    <div key={key} className="flex items-center gap-4">
+                      <div className={`p-2 rounded-lg bg-muted ${config.color}`}>
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-medium">{config.label}</span>
+                          <span className={`font-bold ${getScoreColor(category.score)}`}>
+                            {category.score}%
+                          </span>
+                        </div>
+                        <Progress value={category.score} className="h-2" />
+                        <div className="flex gap-4 mt-1 text-xs text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <CheckCircle2 className="h-3 w-3 text-green-500" />
+                            {category.passed} passed
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3 text-yellow-500" />
+                            {category.warnings} warnings
+                          </span>
+                          {category.failed > 0 && (
+                            <span className="flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3 text-red-500" />
+                              {category.failed} failed
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Issues and Recommendations */}
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList>
+              <TabsTrigger value="overview">Recommendations</TabsTrigger>
+              <TabsTrigger value="issues">All Issues ({auditResult.issues.length})</TabsTrigger>
+              <TabsTrigger value="quick-wins">Quick Wins</TabsTrigger>
+              <TabsTrigger value="report">
+                Full Report
+                {latest.regressions.length > 0 && ` (${latest.regressions.length} regressed)`}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="mt-4 space-y-4">
+              {auditResult.recommendations.map((rec) => (
+                <Alert key={rec.priority} className="border-l-4 border-l-primary">
+                  <Target className="h-4 w-4" />
+                  <AlertTitle className="flex items-center gap-2">
+                    <Badge variant="outline">Priority {rec.priority}</Badge>
+                    {rec.title}
+                  </AlertTitle>
+                  <AlertDescription className="mt-2">
+                    <p>{rec.description}</p>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      <TrendingUp className="inline h-3 w-3 mr-1" />
+                      {rec.expectedImpact}
+                    </p>
+                  </AlertDescription>
+                </Alert>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="issues" className="mt-4 space-y-4">
+              {auditResult.issues.map((issue) => (
+                <Card key={issue.id}>
                   <CardHeader className="pb-2">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-base">{issue.title}</CardTitle>
-                      {getSeverityBadge(issue.type)}
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center gap-2">
+                        {getSeverityIcon(issue.type)}
+                        <CardTitle className="text-base">{issue.title}</CardTitle>
+                        {getSeverityBadge(issue.type)}
+                      </div>
+                      {issue.autoFixAvailable && (
+                        <Button size="sm" variant="outline">
+                          <Wrench className="h-3 w-3 mr-1" />
+                          Auto-Fix
+                        </Button>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-muted-foreground mb-3">{issue.description}</p>
-                    <div className="flex items-center justify-between">
-                      <div className="flex gap-2">
-                        <Badge variant="outline" className="text-green-600">
-                          High Impact
-                        </Badge>
-                        <Badge variant="outline" className="text-green-600">
-                          Low Effort
-                        </Badge>
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      <Badge variant="secondary">
+                        Impact: {issue.impact}
+                      </Badge>
+                      <Badge variant="secondary">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Effort: {issue.effort}
+                      </Badge>
+                    </div>
+                    {issue.affectedPages && issue.affectedPages.length > 0 && (
+                      <div className="text-sm">
+                        <span className="font-medium">Affected pages:</span>
+                        <ul className="list-disc list-inside text-muted-foreground mt-1">
+                          {issue.affectedPages.slice(0, 3).map((page) => (
+                            <li key={page}>{page}</li>
+                          ))}
+                          {issue.affectedPages.length > 3 && (
+                            <li>+{issue.affectedPages.length - 3} more</li>
+                          )}
+                        </ul>
                       </div>
-                      {issue.autoFixAvailable && (
-                        <Button size="sm">
-                          <Zap className="h-3 w-3 mr-1" />
-                          Fix Now
-                        </Button>
-                      )}
+                    )}
+                    <div className="mt-3 p-3 bg-muted rounded-lg">
+                      <span className="font-medium text-sm">How to fix:</span>
+                      <p className="text-sm text-muted-foreground mt-1">{issue.howToFix}</p>
                     </div>
                   </CardContent>
                 </Card>
               ))}
-          </div>
-        </TabsContent>
-      </Tabs>
+            </TabsContent>
+
+            <TabsContent value="quick-wins" className="mt-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                {auditResult.issues
+                  .filter((i) => i.impact === 'high' && i.effort === 'low')
+                  .map((issue) => (
+                    <Card key={issue.id} className="border-l-4 border-l-green-500">
+                      <CardHeader className="pb-2">
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-base">{issue.title}</CardTitle>
+                          {getSeverityBadge(issue.type)}
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground mb-3">{issue.description}</p>
+                        <div className="flex items-center justify-between">
+                          <div className="flex gap-2">
+                            <Badge variant="outline" className="text-green-600">
+                              High Impact
+                            </Badge>
+                            <Badge variant="outline" className="text-green-600">
+                              Low Effort
+                            </Badge>
+                          </div>
+                          {issue.autoFixAvailable && (
+                            <Button size="sm">
+                              <Zap className="h-3 w-3 mr-1" />
+                              Fix Now
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="report" className="mt-4">
+              <AuditResultCard
+                results={latest.results}
+                previousResults={history.previous?.results}
+                industry="healthcare"
+                onRerun={handleRunAudit}
+                isRunning={isRunning}
+              />
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
 
       {/* Quick Actions */}
       <Card>
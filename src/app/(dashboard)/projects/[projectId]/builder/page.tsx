@@ -1,14 +1,32 @@
 'use client';
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { AIChat } from '@/components/builder/AIChat';
 import { PreviewPanel } from '@/components/builder/PreviewPanel';
+import { VersionHistory } from '@/components/builder/VersionHistory';
 import { createClient } from '@/lib/supabase/client';
 import { detectIndustry } from '@/lib/ai/knowledge-base';
+import { toast } from '@/hooks/use-toast';
+import type { CompiledStylesheet } from '@/lib/export';
+import {
+  applyInlineEdit,
+  applyOperations,
+  collectSiteImages,
+  createDefaultSite,
+  findPage,
+  loadProjectSite,
+  refreshSelection,
+  renderPage,
+  type EditOperation,
+  type ElementSelection,
+  type InlineEdit,
+  type SiteModel,
+  type VersionSource,
+} from '@/lib/builder';
 import {
   ArrowLeft,
   Play,
@@ -20,6 +38,7 @@ import {
   Sparkles,
   CheckCircle2,
   Loader2,
+  History,
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -29,39 +48,16 @@ interface BuildState {
   currentStep: string;
 }
 
-const DEFAULT_CODE = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>My Website</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-</head>
-<body class="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
-  <div class="container mx-auto px-4 py-16">
-    <div class="text-center">
-      <h1 class="text-5xl font-bold text-white mb-6">
-        Welcome to Your Website
-      </h1>
-      <p class="text-xl text-slate-300 max-w-2xl mx-auto mb-8">
-        Start describing your website in the AI chat, and watch it come to life!
-      </p>
-      <div class="flex justify-center gap-4">
-        <button class="px-6 py-3 bg-white text-slate-900 rounded-lg font-semibold hover:bg-slate-100 transition">
-          Get Started
-        </button>
-        <button class="px-6 py-3 border border-slate-500 text-white rounded-lg font-semibold hover:bg-slate-700 transition">
-          Learn More
-        </button>
-      </div>
-    </div>
-  </div>
-</body>
-</html>`;
+interface SiteHistory {
+  entries: SiteModel[];
+  index: number;
+}
 
 interface Project {
   id: string;
   name: string;
+  slug?: string;
+  status?: 'draft' | 'building' | 'deployed';
   settings?: {
     businessName?: string;
     industry?: string;
@@ -70,6 +66,11 @@ interface Project {
     discoveryAnswers?: Record<string, string>;
     selectedFeatures?: string[];
     importedFromUrl?: string;
+    site?: SiteModel;
+    generatedCode?: string;
+    domain?: string;
+    indexNowKey?: string;
+    stylesheet?: CompiledStylesheet;
   };
 }
 
@@ -85,14 +86,30 @@ export default function BuilderPage() {
   // Layout state
   const [showChat, setShowChat] = useState(true);
 
-  // Code state
-  const [generatedCode, setGeneratedCode] = useState<string>(DEFAULT_CODE);
-  const [codeHistory, setCodeHistory] = useState<string[]>([DEFAULT_CODE]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  // Site state - undo/redo walks through whole-site snapshots
+  const [history, setHistory] = useState<SiteHistory>(() => ({
+    entries: [createDefaultSite()],
+    index: 0,
+  }));
+  const [activePage, setActivePage] = useState('/');
+  const site = history.entries[history.index];
+  const historyIndex = history.index;
+  // Latest site for callbacks that finish after a long-running stream
+  const siteRef = useRef(site);
+  siteRef.current = site;
+
+  // Element picked in the preview as the target of the next prompt
+  const [selectedElement, setSelectedElement] = useState<ElementSelection | null>(null);
 
   // Save state
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [isDeploying, setIsDeploying] = useState(false);
+
+  // Version history state
+  const [showHistory, setShowHistory] = useState(false);
+  const [versionsKey, setVersionsKey] = useState(0);
+  const pendingAiVersion = useRef(false);
 
   // Build state
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -114,6 +131,7 @@ export default function BuilderPage() {
 
         if (data && !error) {
           setProject(data);
+          setHistory({ entries: [loadProjectSite(data)], index: 0 });
         }
       } catch (err) {
         console.error('Failed to fetch project:', err);
@@ -178,31 +196,104 @@ export default function BuilderPage() {
     setBuildState(state);
   }, []);
 
-  // Code generated handler
-  const handleCodeGenerated = useCallback(
-    (code: string) => {
-      // Wrap component code in full HTML if needed
-      let fullCode = code;
-      if (!code.includes('<!DOCTYPE') && !code.includes('<html')) {
-        fullCode = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>My Website</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-</head>
-<body>
-${code}
-</body>
-</html>`;
+  // Record a new site snapshot, discarding any redo entries
+  const commitSite = useCallback((update: (prev: SiteModel) => SiteModel) => {
+    setHistory((prev) => ({
+      entries: [...prev.entries.slice(0, prev.index + 1), update(prev.entries[prev.index])],
+      index: prev.index + 1,
+    }));
+  }, []);
+
+  // Apply streamed edit operations surgically to the current site
+  const handleOperations = useCallback(
+    (operations: EditOperation[], fallbackPage?: string) => {
+      const result = applyOperations(siteRef.current, operations, fallbackPage || activePage);
+
+      if (result.applied.length > 0) {
+        commitSite(() => result.site);
+        pendingAiVersion.current = true;
+
+        // Show the page that was edited
+        const edited = result.applied.find((op) => 'page' in op && op.page);
+        if (edited && 'page' in edited && edited.page) {
+          setActivePage(edited.page);
+        }
       }
 
-      setGeneratedCode(fullCode);
-      setCodeHistory((prev) => [...prev.slice(0, historyIndex + 1), fullCode]);
-      setHistoryIndex((prev) => prev + 1);
+      return result;
+    },
+    [activePage, commitSite]
+  );
+
+  // Apply text and image edits made directly in the preview
+  const handleInlineEdit = useCallback(
+    (edit: InlineEdit) => {
+      const { site: next, error } = applyInlineEdit(siteRef.current, edit);
+      if (error) {
+        toast({ title: 'Edit not applied', description: error, variant: 'destructive' });
+        return;
+      }
+      commitSite(() => next);
     },
-    [historyIndex]
+    [commitSite]
+  );
+
+  // Images offered when replacing an image in the preview
+  const siteImages = useMemo(() => {
+    const analysis = (project?.settings?.importAnalysis || project?.settings?.analysisData || {}) as {
+      images?: Array<{ src?: string }>;
+    };
+    const imported = (analysis.images || []).map((image) => image.src).filter((src): src is string => !!src);
+    return Array.from(new Set([...collectSiteImages(site), ...imported]));
+  }, [site, project]);
+
+  // Preview document for the active page
+  const generatedCode = useMemo(
+    () => renderPage(site, activePage, { preview: true }),
+    [site, activePage]
+  );
+
+  // Persist a version of the site on the server
+  const recordVersion = useCallback(
+    async (snapshot: SiteModel, source: VersionSource, label?: string) => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/versions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ site: snapshot, source, label }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `Version request failed (${response.status})`);
+        }
+        setVersionsKey((prev) => prev + 1);
+      } catch (error) {
+        console.error('Failed to record version:', error);
+        toast({
+          title: 'Version not saved',
+          description: error instanceof Error ? error.message : 'The change is not in the version history.',
+          variant: 'destructive',
+        });
+      }
+    },
+    [projectId]
+  );
+
+  // Record a version once AI-generated code has been applied
+  useEffect(() => {
+    if (pendingAiVersion.current) {
+      pendingAiVersion.current = false;
+      recordVersion(site, 'ai_generation');
+    }
+  }, [site, recordVersion]);
+
+  // Restored versions become a new undoable history entry
+  const handleRestore = useCallback(
+    (restored: SiteModel) => {
+      commitSite(() => restored);
+      setShowHistory(false);
+    },
+    [commitSite]
   );
 
   // Preview ready handler
@@ -213,47 +304,135 @@ ${code}
   // Undo/Redo handlers
   const handleUndo = () => {
     if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      setGeneratedCode(codeHistory[newIndex]);
+      setHistory((prev) => ({ ...prev, index: prev.index - 1 }));
     }
   };
 
   const handleRedo = () => {
-    if (historyIndex < codeHistory.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      setGeneratedCode(codeHistory[newIndex]);
+    if (historyIndex < history.entries.length - 1) {
+      setHistory((prev) => ({ ...prev, index: prev.index + 1 }));
     }
   };
 
-  // Save handler
-  const handleSave = async () => {
+  // Keep the active page valid when undo/redo removes it
+  useEffect(() => {
+    if (!site.pages.some((page) => page.path === activePage)) {
+      setActivePage('/');
+    }
+  }, [site, activePage]);
+
+  // Drop the selection when leaving its page
+  useEffect(() => {
+    setSelectedElement((prev) => (prev && prev.page !== activePage ? null : prev));
+  }, [activePage]);
+
+  // Re-read the selected markup after edits, dropping it once the element is gone
+  useEffect(() => {
+    setSelectedElement((prev) => {
+      if (!prev) return prev;
+      const page = findPage(site, prev.page);
+      return page ? refreshSelection(prev, page.html) : null;
+    });
+  }, [site]);
+
+  // Save handler; resolves to whether the site was saved
+  const handleSave = async (): Promise<boolean> => {
     setIsSaving(true);
     setSaveStatus('saving');
 
     try {
       // Save to Supabase
-      await supabase
+      const { error: saveError } = await supabase
         .from('projects')
         .update({
           settings: {
             ...project?.settings,
-            generatedCode,
+            site,
+            // Homepage document kept for consumers of the single-page format
+            generatedCode: renderPage(site, '/'),
           },
         })
         .eq('id', projectId);
+      if (saveError) throw new Error(saveError.message);
+
+      await recordVersion(site, 'save');
+
+      // Compile the published stylesheet now so exports can reuse it
+      try {
+        const response = await fetch(`/api/projects/${projectId}/stylesheet`, { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setProject((prev) =>
+          prev
+            ? { ...prev, settings: { ...prev.settings, site, stylesheet: data.stylesheet ?? undefined } }
+            : prev
+        );
+      } catch (error) {
+        console.error('Stylesheet compile failed:', error);
+      }
 
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
+      return true;
     } catch (error) {
       console.error('Save failed:', error);
       setSaveStatus('idle');
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+      return false;
     } finally {
       setIsSaving(false);
     }
   };
 
+  // Deploy handler - saves, then downloads the static export
+  const handleDeploy = async () => {
+    setIsDeploying(true);
+
+    try {
+      // Export only what was saved
+      if (!(await handleSave())) return;
+
+      const response = await fetch(`/api/projects/${projectId}/export`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${project?.slug || 'site'}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      // The export stores its IndexNow key and status on the project
+      const { data } = await supabase.from('projects').select('*').eq('id', projectId).single();
+      if (data) setProject(data);
+
+      const skipped = response.headers.get('X-Skipped-Pages');
+      toast({
+        title: 'Site exported',
+        description: skipped
+          ? `Dynamic pages were skipped: ${skipped.split(',').join(', ')}`
+          : 'Your static site has been downloaded.',
+      });
+    } catch (error) {
+      console.error('Deploy failed:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
   // Loading state
   if (projectLoading) {
     return (
@@ -317,7 +496,7 @@ ${code}
             <Button
               variant="ghost"
               size="icon"
-              disabled={historyIndex >= codeHistory.length - 1}
+              disabled={historyIndex >= history.entries.length - 1}
               onClick={handleRedo}
               title="Redo"
               className="rounded-full"
@@ -327,6 +506,19 @@ ${code}
 
             <Separator orientation="vertical" className="h-6 mx-2 dark:bg-white/10" />
 
+            {/* Version History */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowHistory(true)}
+              title="Version history"
+              className="rounded-full"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+
+            <Separator orientation="vertical" className="h-6 mx-2 dark:bg-white/10" />
+
             {/* Toggle Chat */}
             <Button
               variant="ghost"
@@ -368,9 +560,15 @@ ${code}
             </Button>
             <Button
               size="sm"
+              onClick={handleDeploy}
+              disabled={isDeploying || isSaving}
               className="rounded-full bg-gradient-to-r from-brand-500 to-purple-600 hover:from-brand-600 hover:to-purple-700 border-0"
             >
-              <Play className="h-4 w-4 mr-2" />
+              {isDeploying ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
               Deploy
             </Button>
           </div>
@@ -382,6 +580,13 @@ ${code}
             html={generatedCode}
             previewUrl={previewUrl}
             isLoading={buildState.isBuilding}
+            pages={site.pages}
+            activePage={activePage}
+            onPageChange={setActivePage}
+            selection={selectedElement}
+            onSelect={setSelectedElement}
+            onInlineEdit={handleInlineEdit}
+            images={siteImages}
           />
         </div>
       </div>
@@ -396,13 +601,28 @@ ${code}
           <AIChat
             projectId={projectId}
             projectContext={projectContext}
-            onCodeGenerated={handleCodeGenerated}
+            pages={site.pages}
+            targetPage={activePage}
+            onTargetPageChange={setActivePage}
+            targetElement={selectedElement}
+            onClearTargetElement={() => setSelectedElement(null)}
+            onOperations={handleOperations}
             onPreviewReady={handlePreviewReady}
             onBuildStateChange={handleBuildStateChange}
           />
         )}
       </div>
 
+      {/* Version History Dialog */}
+      <VersionHistory
+        projectId={projectId}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        refreshKey={versionsKey}
+        onCreateSnapshot={(label) => recordVersion(site, 'snapshot', label)}
+        onRestore={handleRestore}
+      />
+
       {/* Floating Chat Button when hidden */}
       {!showChat && (
         <Button
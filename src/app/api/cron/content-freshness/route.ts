@@ -0,0 +1,30 @@
+/**
+ * Content Freshness Cron
+ *
+ * GET /api/cron/content-freshness - Open re-reviews for overdue content across every practice
+ *
+ * Scheduled daily at 06:00 UTC by the Vercel cron in vercel.json, which
+ * sends `Authorization: Bearer $CRON_SECRET`. On other hosts, call it
+ * daily with that header from any scheduler. Runs with the service role,
+ * so reviews are requested on behalf of each project's owner.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, apiSuccess, handleApiError } from '@/lib/healthcare/api';
+import { scheduleFreshnessReviews } from '@/lib/healthcare/freshness';
+import { getReviewNotifier } from '@/lib/healthcare/notifiers';
+import { createAdminClient } from '@/lib/supabase/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return apiError('UNAUTHORIZED', 'Invalid cron secret', 401);
+    }
+
+    const summary = await scheduleFreshnessReviews(createAdminClient(), { notifier: getReviewNotifier() });
+    return apiSuccess(summary);
+  } catch (error) {
+    return handleApiError(error, 'schedule freshness reviews');
+  }
+}
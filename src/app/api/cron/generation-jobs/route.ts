@@ -0,0 +1,35 @@
+/**
+ * Generation Jobs Worker
+ *
+ * GET /api/cron/generation-jobs - Generate pages for queued generation jobs
+ *
+ * Run every minute by the Vercel cron in vercel.json, which sends
+ * `Authorization: Bearer $CRON_SECRET`. On other hosts, call it every
+ * minute with that header from any scheduler. Each run stops claiming
+ * pages after WORKER_BUDGET_MS, leaving time for the pages in progress to
+ * finish, and puts unfinished jobs back in the queue for the next run.
+ * Runs with the service role, since no user session is available.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, apiSuccess, handleApiError } from '@/lib/healthcare/api';
+import { runQueuedGenerationJobs } from '@/lib/healthcare/jobs';
+import { createAdminClient } from '@/lib/supabase/server';
+
+export const maxDuration = 300;
+
+const WORKER_BUDGET_MS = 3 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return apiError('UNAUTHORIZED', 'Invalid cron secret', 401);
+    }
+
+    const summary = await runQueuedGenerationJobs(createAdminClient(), { budgetMs: WORKER_BUDGET_MS });
+    return apiSuccess(summary);
+  } catch (error) {
+    return handleApiError(error, 'run generation jobs');
+  }
+}
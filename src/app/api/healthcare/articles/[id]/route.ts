@@ -0,0 +1,42 @@
+/**
+ * Single Health Article API Routes
+ *
+ * GET /api/healthcare/articles/[id]?projectId= - Get an article
+ * PATCH /api/healthcare/articles/[id]?projectId= - Update an article
+ * DELETE /api/healthcare/articles/[id]?projectId= - Delete an article
+ *
+ * Editing the title, excerpt, content or citations of an approved article
+ * takes it back to draft until a new review is approved.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  handleDeleteRequest,
+  handleGetRequest,
+  handleUpdateRequest,
+} from '@/lib/healthcare/api';
+import { ARTICLE_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleGetRequest(request, ARTICLE_RESOURCE, id);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleUpdateRequest(request, ARTICLE_RESOURCE, id);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleDeleteRequest(request, ARTICLE_RESOURCE, id);
+}
@@ -0,0 +1,18 @@
+/**
+ * Health Articles API Routes
+ *
+ * GET /api/healthcare/articles?projectId= - List the practice's health articles
+ * POST /api/healthcare/articles?projectId= - Create an article
+ */
+
+import { NextRequest } from 'next/server';
+import { handleCreateRequest, handleListRequest } from '@/lib/healthcare/api';
+import { ARTICLE_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(request: NextRequest) {
+  return handleListRequest(request, ARTICLE_RESOURCE);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCreateRequest(request, ARTICLE_RESOURCE);
+}
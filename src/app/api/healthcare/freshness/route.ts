@@ -0,0 +1,39 @@
+/**
+ * Content Freshness API Routes
+ *
+ * GET /api/healthcare/freshness?projectId= - List published content overdue for medical re-review
+ * POST /api/healthcare/freshness?projectId= - Open re-reviews for overdue content and remind reviewers
+ */
+
+import { NextRequest } from 'next/server';
+import { apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { findOverdueContent, scheduleFreshnessReviews } from '@/lib/healthcare/freshness';
+import { getReviewNotifier } from '@/lib/healthcare/notifiers';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    return apiSuccess(await findOverdueContent(context.supabase, { projectIds: [context.projectId] }));
+  } catch (error) {
+    return handleApiError(error, 'list overdue content');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    return apiSuccess(
+      await scheduleFreshnessReviews(context.supabase, {
+        projectIds: [context.projectId],
+        notifier: getReviewNotifier(),
+        requestedBy: context.user.id,
+      })
+    );
+  } catch (error) {
+    return handleApiError(error, 'schedule freshness reviews');
+  }
+}
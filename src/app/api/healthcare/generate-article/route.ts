@@ -1,14 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { GenerateArticleRequest, GenerateArticleResponse } from '@/types/healthcare';
-import { generateSlug, calculateReadingTime, countWords } from '@/lib/prompts/healthcare';
+import { createClient } from '@/lib/supabase/server';
+import { checkQuota, createUsageRecorder, getQuotaExceededMessage } from '@/lib/claude/usage';
+import { HEALTHCARE_SYSTEM_PROMPT, streamMessage } from '@/lib/claude/client';
+import { describeLLMError } from '@/lib/claude/resilience';
+import {
+  collectCitations,
+  fitColumn,
+  loadPracticeContext,
+  selectMedicalReviewer,
+  stripMarkdown,
+  toBusinessInfo,
+  uniqueSlug,
+} from '@/lib/healthcare/generation';
+import {
+  ARTICLE_FAQ_FIELDS,
+  ARTICLE_FIELDS,
+  fromRow,
+  type DatabaseRow,
+} from '@/lib/healthcare/mappers';
+import type {
+  ArticleFAQ,
+  GenerateArticleRequest,
+  GenerateArticleResponse,
+  HealthArticle,
+} from '@/types/healthcare';
+import {
+  calculateReadingTime,
+  countWords,
+  generateHealthArticlePrompt,
+  parseHealthArticleResponse,
+} from '@/lib/prompts/healthcare';
+
+/** A 1,500 word article plus FAQs and citations as JSON fits comfortably */
+const ARTICLE_MAX_TOKENS = 8192;
+const MAX_CONTINUATIONS = 2;
 
 /**
  * POST /api/healthcare/generate-article
  *
- * Generate a health library article with E-E-A-T compliance.
+ * Generate a health library article with E-E-A-T compliance and store it
+ * as a draft with its FAQs. The practice's medical director (or another
+ * credentialed physician) is named in the prompt; the article is only
+ * credited to a reviewer once they approve it (see `@/lib/healthcare/reviews`).
  */
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
     const body: GenerateArticleRequest = await request.json();
     const {
       projectId,
@@ -41,94 +92,151 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // TODO: Implement actual AI generation using Claude API
-    // This is a placeholder implementation
-
-    // 1. Fetch practice info and medical reviewer
-    // 2. Generate prompt using generateHealthArticlePrompt
-    // 3. Call Claude API
-    // 4. Parse response using parseHealthArticleResponse
-    // 5. Store in database
+    // Enforce monthly AI quotas before generating
+    const quota = await checkQuota(supabase, user.id, projectId);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { success: false, error: { code: 'QUOTA_EXCEEDED', message: getQuotaExceededMessage(quota) } },
+        { status: 429 }
+      );
+    }
 
-    const slug = generateSlug(topic);
+    // Load the practice and the physician who will review the draft
+    const context = await loadPracticeContext(supabase, projectId);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'PRACTICE_NOT_FOUND', message: 'Set up the practice for this project first' } },
+        { status: 404 }
+      );
+    }
 
-    // Mock content for demonstration
-    const mockContent = `
-## Understanding ${topic}
+    const { data: existingArticles, error: existingError } = await supabase
+      .from('health_articles')
+      .select('title, slug')
+      .eq('practice_id', context.practice.id);
 
-${topic} is an important health topic that affects many people. In this comprehensive guide, we'll explore everything you need to know about ${topic}.
+    if (existingError) throw existingError;
 
-## What is ${topic}?
+    const medicalReviewer = selectMedicalReviewer(context);
+    const relatedServiceIds = (relatedServices ?? []).filter((id) =>
+      context.services.some((service) => service.id === id)
+    );
 
-${topic} refers to a condition or treatment that has gained significant attention in recent years. Understanding the basics can help you make informed decisions about your health.
+    const prompt = [
+      generateHealthArticlePrompt({
+        topic,
+        targetKeywords,
+        articleType,
+        wordCount,
+        businessInfo: toBusinessInfo(context),
+        medicalReviewer,
+        existingArticles: (existingArticles ?? []).map((article) => article.title),
+      }),
+      relatedServiceIds.length > 0 &&
+        `## Related Services\nLink to these services where relevant: ${context.services
+          .filter((service) => relatedServiceIds.includes(service.id))
+          .map((service) => `${service.name} (/services/${service.slug})`)
+          .join(', ')}`,
+      customInstructions && `## Additional Instructions\n${customInstructions}`,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
 
-## Who is Affected?
+    // Long articles can hit max_tokens - let the model continue where it stopped
+    let output = '';
+    let stopReason: string | null = null;
+    for await (const chunk of streamMessage([{ role: 'user', content: prompt }], {
+      systemPrompt: HEALTHCARE_SYSTEM_PROMPT,
+      maxTokens: ARTICLE_MAX_TOKENS,
+      maxContinuations: MAX_CONTINUATIONS,
+      onUsage: createUsageRecorder(supabase, {
+        userId: user.id,
+        projectId,
+        route: 'healthcare/generate-article',
+      }),
+      onStop: (reason) => {
+        stopReason = reason;
+      },
+    })) {
+      output += chunk;
+    }
 
-Many individuals may experience issues related to ${topic}. Risk factors include age, lifestyle choices, and genetic predisposition.
+    if (stopReason === 'max_tokens') {
+      return NextResponse.json(
+        { success: false, error: { code: 'GENERATION_INCOMPLETE', message: 'The article was too long to generate. Try a lower word count.' } },
+        { status: 502 }
+      );
+    }
 
-## Treatment Options
+    const generated = parseHealthArticleResponse(output);
+    if (!generated.title || !generated.content.trim() || generated.content === output) {
+      return NextResponse.json(
+        { success: false, error: { code: 'PARSE_ERROR', message: 'The generated article could not be read. Please try again.' } },
+        { status: 502 }
+      );
+    }
 
-Several treatment options are available for addressing ${topic}. Your healthcare provider can help determine the best approach for your specific situation.
+    const content = generated.content.trim();
+    const visibleText = stripMarkdown(content);
+    const categories = ['conditions', 'treatments', 'wellness', 'news'];
 
-## What to Expect
+    const { data: articleRow, error: insertError } = await supabase
+      .from('health_articles')
+      .insert({
+        practice_id: context.practice.id,
+        title: fitColumn(generated.title, 255),
+        slug: uniqueSlug(
+          generated.slug || generated.title,
+          (existingArticles ?? []).map((article) => article.slug)
+        ),
+        excerpt: generated.excerpt?.trim() || null,
+        content,
+        citations: collectCitations(content, generated.suggestedCitations),
+        related_services: relatedServiceIds,
+        category: categories.includes(generated.category ?? '') ? generated.category : null,
+        tags: (generated.tags ?? []).filter((tag) => typeof tag === 'string' && tag.trim()),
+        meta_title: fitColumn(generated.metaTitle, 70) ?? null,
+        meta_description: fitColumn(generated.metaDescription, 160) ?? null,
+        word_count: countWords(visibleText),
+        reading_time: calculateReadingTime(visibleText),
+        status: 'draft',
+      })
+      .select()
+      .single();
 
-Treatment experiences vary from person to person. Most patients report positive outcomes when following their recommended treatment plan.
+    if (insertError) throw insertError;
 
-## Conclusion
+    const faqRows = (generated.faqs ?? [])
+      .filter((faq) => faq?.question?.trim() && faq?.answer?.trim())
+      .map((faq, index) => ({
+        article_id: articleRow.id,
+        question: faq.question.trim(),
+        answer: faq.answer.trim(),
+        display_order: index,
+      }));
 
-${topic} is a manageable condition with proper care and treatment. Consult with a healthcare provider to discuss your options.
+    let faqs: ArticleFAQ[] = [];
+    if (faqRows.length > 0) {
+      const { data: faqData, error: faqError } = await supabase
+        .from('article_faqs')
+        .insert(faqRows)
+        .select()
+        .order('display_order');
 
-*This information is provided for educational purposes only and is not intended as medical advice. Always consult with a qualified healthcare provider.*
-`;
+      if (faqError) {
+        // Don't leave a draft without the FAQs it was generated with
+        await supabase.from('health_articles').delete().eq('id', articleRow.id);
+        throw faqError;
+      }
+      faqs = (faqData as DatabaseRow[]).map((row) => fromRow<ArticleFAQ>(row, ARTICLE_FAQ_FIELDS));
+    }
 
     const response: GenerateArticleResponse = {
       success: true,
       article: {
-        id: `article-${Date.now()}`,
-        title: `Understanding ${topic}: A Comprehensive Guide`,
-        slug,
-        content: mockContent,
-        metaTitle: `${topic} Guide | Expert Information & Treatment Options`,
-        metaDescription: `Learn about ${topic}, including causes, symptoms, and treatment options. Expert medical information to help you make informed health decisions.`,
-        faqs: [
-          {
-            question: `What is ${topic}?`,
-            answer: `${topic} is a health condition that affects many individuals. Understanding its causes and treatments can help you manage it effectively.`,
-          },
-          {
-            question: `What are the treatment options for ${topic}?`,
-            answer: `Treatment options vary based on individual circumstances. Common approaches include medication, lifestyle changes, and medical procedures. Consult with your healthcare provider for personalized recommendations.`,
-          },
-          {
-            question: `How long does ${topic} treatment take?`,
-            answer: `Treatment duration varies by individual and approach. Some patients see improvement within weeks, while others may require longer treatment periods.`,
-          },
-          {
-            question: `Is treatment for ${topic} covered by insurance?`,
-            answer: `Insurance coverage varies by plan and provider. Contact your insurance company to verify coverage for specific treatments.`,
-          },
-          {
-            question: `When should I see a doctor about ${topic}?`,
-            answer: `Consult a healthcare provider if you're experiencing symptoms that affect your quality of life or if over-the-counter solutions haven't provided relief.`,
-          },
-        ],
-        suggestedCitations: [
-          {
-            title: `${topic} - Overview`,
-            source: 'Mayo Clinic',
-            url: 'https://www.mayoclinic.org',
-          },
-          {
-            title: `${topic} Information`,
-            source: 'National Institutes of Health',
-            url: 'https://www.nih.gov',
-          },
-          {
-            title: `Understanding ${topic}`,
-            source: 'Cleveland Clinic',
-            url: 'https://my.clevelandclinic.org',
-          },
-        ],
+        ...fromRow<HealthArticle>(articleRow as DatabaseRow, ARTICLE_FIELDS),
+        faqs,
+        internalLinks: generated.internalLinks ?? [],
       },
     };
 
@@ -140,7 +248,7 @@ ${topic} is a manageable condition with proper care and treatment. Consult with
         success: false,
         error: {
           code: 'GENERATION_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to generate article',
+          message: describeLLMError(error),
         },
       },
       { status: 500 }
@@ -1,15 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { GenerateFAQsRequest, GenerateFAQsResponse } from '@/types/healthcare';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { checkQuota, createUsageRecorder, getQuotaExceededMessage } from '@/lib/claude/usage';
+import { HEALTHCARE_SYSTEM_PROMPT, getCompletion } from '@/lib/claude/client';
+import { describeLLMError } from '@/lib/claude/resilience';
+import { getPracticeId, getPracticeLocationIds } from '@/lib/healthcare/api';
+import { dedupeFaqsSemantic } from '@/lib/healthcare/faqs';
+import { withdrawPageApprovalOnEdit } from '@/lib/healthcare/reviews';
+import { generateFaqPrompt, parseFaqResponse } from '@/lib/prompts/healthcare';
+import { generateFAQSchema, validateSchema } from '@/lib/seo/schema';
+import type {
+  FAQItem,
+  FAQPageSchema,
+  FAQTarget,
+  GenerateFAQsRequest,
+  GenerateFAQsResponse,
+} from '@/types/healthcare';
+
+const MAX_FAQS = 20;
+
+/**
+ * A page that FAQs are stored on
+ */
+interface LoadedTarget {
+  topic: string;
+  pageType: string;
+  faqs: FAQItem[];
+  /** Append FAQs after the existing ones */
+  append: (faqs: FAQItem[]) => Promise<void>;
+}
 
 /**
  * POST /api/healthcare/generate-faqs
  *
- * Generate FAQs for any page type.
+ * Generate FAQs for any page type. With a `target` the FAQs are added to a
+ * service (`service_faqs`), article (`article_faqs`) or location service
+ * page (its `faqs` column), skipping questions the page already answers,
+ * including ones asked in other words (see `dedupeFaqsSemantic`).
+ * New FAQs take a published location service page back to draft for review.
  */
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
     const body: GenerateFAQsRequest = await request.json();
-    const { projectId, topic, pageType, count = 7, existingFaqs = [] } = body;
+    const { projectId, target, existingFaqs = [], targetKeywords = [] } = body;
+    const count = Math.min(Math.max(Math.round(body.count ?? 7), 1), MAX_FAQS);
 
     if (!projectId) {
       return NextResponse.json(
@@ -18,22 +67,101 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!topic) {
+    if (!body.topic && !target) {
       return NextResponse.json(
         { success: false, error: { code: 'MISSING_TOPIC', message: 'Topic is required' } },
         { status: 400 }
       );
     }
 
-    // TODO: Implement actual AI generation using Claude API
-    // This is a placeholder implementation
+    let loaded: LoadedTarget | null = null;
+    if (target) {
+      loaded = await loadTarget(supabase, projectId, target);
+      if (!loaded) {
+        return NextResponse.json(
+          { success: false, error: { code: 'TARGET_NOT_FOUND', message: 'The page to add FAQs to was not found' } },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Enforce monthly AI quotas before generating
+    const quota = await checkQuota(supabase, user.id, projectId);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { success: false, error: { code: 'QUOTA_EXCEEDED', message: getQuotaExceededMessage(quota) } },
+        { status: 429 }
+      );
+    }
+
+    const topic = body.topic || loaded?.topic || '';
+    const existingQuestions = [
+      ...(loaded?.faqs ?? []).map((faq) => faq.question),
+      ...existingFaqs,
+    ];
+
+    const recordUsage = createUsageRecorder(supabase, {
+      userId: user.id,
+      projectId,
+      route: 'healthcare/generate-faqs',
+    });
+
+    const output = await getCompletion(
+      generateFaqPrompt({
+        topic,
+        pageType: body.pageType || loaded?.pageType || 'service',
+        count,
+        existingFaqs: existingQuestions,
+        targetKeywords,
+      }),
+      {
+        systemPrompt: HEALTHCARE_SYSTEM_PROMPT,
+        onUsage: recordUsage,
+      }
+    );
+
+    const generated = parseFaqResponse(output)
+      .map((faq) => ({ question: faq.question.trim(), answer: faq.answer.trim() }))
+      .filter((faq) => faq.question && faq.answer);
+
+    if (generated.length === 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'PARSE_ERROR', message: 'The generated FAQs could not be read. Please try again.' } },
+        { status: 502 }
+      );
+    }
+
+    // The prompt asks to avoid existing questions; rephrasings still slip through
+    const { unique, duplicates } = await dedupeFaqsSemantic(generated, existingQuestions, {
+      topic,
+      onUsage: recordUsage,
+    });
+    const faqs = unique.slice(0, count);
 
-    // Generate FAQs based on topic and page type
-    const faqs = generateMockFaqs(topic, pageType, count, existingFaqs);
+    if (loaded && faqs.length > 0) {
+      await loaded.append(faqs);
+    }
+
+    const schema = generateFAQSchema(
+      [...(loaded?.faqs ?? []), ...faqs].map((faq, index) => ({ id: String(index), ...faq }))
+    );
+    const validation = validateSchema(schema as unknown as Record<string, unknown>);
 
     const response: GenerateFAQsResponse = {
       success: true,
       faqs,
+      duplicates: duplicates.map(({ faq, matches, similarity, method }) => ({
+        question: faq.question,
+        matches,
+        similarity,
+        method,
+      })),
+      schema: schema as FAQPageSchema,
+      richResults: {
+        eligible: validation.valid && schema.mainEntity.length > 0,
+        errors: validation.errors.map((issue) => issue.message),
+        warnings: validation.warnings.map((issue) => issue.message),
+      },
     };
 
     return NextResponse.json(response);
@@ -44,7 +172,7 @@ export async function POST(request: NextRequest) {
         success: false,
         error: {
           code: 'GENERATION_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to generate FAQs',
+          message: describeLLMError(error),
         },
       },
       { status: 500 }
@@ -53,61 +181,98 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Generate mock FAQs for demonstration
+ * Load the page FAQs are added to, checking it belongs to the project's
+ * practice; null when it does not exist
  */
-function generateMockFaqs(
-  topic: string,
-  pageType: string,
-  count: number,
-  existingFaqs: string[]
-): Array<{ question: string; answer: string }> {
-  const templates = [
-    {
-      question: `What is ${topic}?`,
-      answer: `${topic} is a healthcare service/condition that our medical team specializes in. We provide comprehensive evaluation and treatment options tailored to each patient's needs.`,
-    },
-    {
-      question: `How much does ${topic} treatment cost?`,
-      answer: `The cost of ${topic} treatment varies depending on the specific approach and individual needs. We offer transparent pricing and financing options. Contact us for a personalized quote.`,
-    },
-    {
-      question: `Is ${topic} treatment covered by insurance?`,
-      answer: `Insurance coverage for ${topic} varies by plan. Our team can help verify your benefits and discuss payment options that work for your situation.`,
-    },
-    {
-      question: `How long does ${topic} treatment take?`,
-      answer: `Treatment duration for ${topic} depends on the individual case and chosen approach. During your consultation, we'll provide a personalized timeline based on your specific needs.`,
-    },
-    {
-      question: `What are the side effects of ${topic} treatment?`,
-      answer: `Side effects vary by treatment type. Our medical team will discuss potential effects and how to manage them during your consultation. Most patients experience minimal discomfort.`,
-    },
-    {
-      question: `Who is a good candidate for ${topic}?`,
-      answer: `Good candidates for ${topic} are individuals experiencing related symptoms who are in generally good health. A consultation with our medical team can determine if this treatment is right for you.`,
-    },
-    {
-      question: `How do I schedule a ${topic} consultation?`,
-      answer: `You can schedule a consultation by calling our office or using our online booking system. We offer convenient appointment times to fit your schedule.`,
-    },
-    {
-      question: `What should I expect during my first ${topic} appointment?`,
-      answer: `During your first appointment, our medical team will conduct a thorough evaluation, discuss your health history, and recommend a personalized treatment plan.`,
-    },
-    {
-      question: `Are results from ${topic} treatment permanent?`,
-      answer: `Results vary by treatment type and individual. Our team will discuss expected outcomes and any maintenance requirements during your consultation.`,
-    },
-    {
-      question: `Is ${topic} treatment painful?`,
-      answer: `Most patients experience minimal discomfort during ${topic} treatment. We use various techniques to ensure your comfort throughout the process.`,
+async function loadTarget(
+  supabase: SupabaseClient,
+  projectId: string,
+  target: FAQTarget
+): Promise<LoadedTarget | null> {
+  if (target.type === 'location_service_page') {
+    return loadLocationServicePage(supabase, projectId, target.id);
+  }
+
+  const practiceId = await getPracticeId(supabase, projectId);
+  if (!practiceId) return null;
+
+  const config =
+    target.type === 'service'
+      ? { table: 'medical_services', titleColumn: 'name', faqTable: 'service_faqs', foreignKey: 'service_id', pageType: 'service' }
+      : { table: 'health_articles', titleColumn: 'title', faqTable: 'article_faqs', foreignKey: 'article_id', pageType: 'article' };
+
+  const { data: page, error } = await supabase
+    .from(config.table)
+    .select('*')
+    .eq('id', target.id)
+    .eq('practice_id', practiceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!page) return null;
+
+  const { data: rows, error: faqError } = await supabase
+    .from(config.faqTable)
+    .select('question, answer, display_order')
+    .eq(config.foreignKey, target.id)
+    .order('display_order');
+
+  if (faqError) throw faqError;
+
+  const existing = (rows ?? []) as Array<FAQItem & { display_order: number | null }>;
+  const nextOrder = existing.reduce((max, row) => Math.max(max, (row.display_order ?? 0) + 1), 0);
+
+  return {
+    topic: String(page[config.titleColumn] ?? ''),
+    pageType: config.pageType,
+    faqs: existing.map(({ question, answer }) => ({ question, answer })),
+    append: async (faqs) => {
+      const { error: insertError } = await supabase.from(config.faqTable).insert(
+        faqs.map((faq, index) => ({
+          [config.foreignKey]: target.id,
+          question: faq.question,
+          answer: faq.answer,
+          display_order: nextOrder + index,
+        }))
+      );
+      if (insertError) throw insertError;
     },
-  ];
+  };
+}
+
+async function loadLocationServicePage(
+  supabase: SupabaseClient,
+  projectId: string,
+  pageId: string
+): Promise<LoadedTarget | null> {
+  const locationIds = await getPracticeLocationIds(supabase, projectId);
+  if (locationIds.length === 0) return null;
 
-  // Filter out questions that already exist
-  const availableTemplates = templates.filter(
-    (t) => !existingFaqs.some((eq) => eq.toLowerCase().includes(t.question.toLowerCase().slice(0, 20)))
-  );
+  const { data: page, error } = await supabase
+    .from('location_service_pages')
+    .select('id, status, faqs, practice_locations(city), medical_services(name)')
+    .eq('id', pageId)
+    .in('location_id', locationIds)
+    .maybeSingle();
 
-  return availableTemplates.slice(0, count);
+  if (error) throw error;
+  if (!page) return null;
+
+  // PostgREST returns to-one embeds as objects, but types them as arrays
+  const location = page.practice_locations as unknown as { city: string } | null;
+  const service = page.medical_services as unknown as { name: string } | null;
+  const existing = (Array.isArray(page.faqs) ? page.faqs : []) as FAQItem[];
+
+  return {
+    topic: [service?.name, location?.city].filter(Boolean).join(' in '),
+    pageType: 'location service',
+    faqs: existing,
+    append: async (faqs) => {
+      const { error: updateError } = await supabase
+        .from('location_service_pages')
+        .update(withdrawPageApprovalOnEdit({ faqs: [...existing, ...faqs] }, { status: page.status, faqs: existing }))
+        .eq('id', pageId);
+      if (updateError) throw updateError;
+    },
+  };
 }
@@ -1,15 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkQuota, getQuotaExceededMessage } from '@/lib/claude/usage';
+import { loadPracticeContext } from '@/lib/healthcare/generation';
+import { createLocalPagesJob } from '@/lib/healthcare/jobs';
 import type { GenerateLocalPagesRequest, GenerateLocalPagesResponse } from '@/types/healthcare';
 
 /**
  * POST /api/healthcare/generate-local-pages
  *
- * Bulk generate local SEO pages for all location × service combinations.
+ * Queue a background job generating local SEO pages for all location ×
+ * service combinations (or the selected ones). The generation worker
+ * (/api/cron/generation-jobs) picks it up within a minute. Responds
+ * immediately with the job; follow its progress with
+ * GET /api/healthcare/generation-jobs/[jobId] or its `/stream` endpoint.
  */
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
     const body: GenerateLocalPagesRequest = await request.json();
-    const { projectId, locationIds, serviceIds, overwrite = false } = body;
+    const { projectId, locationIds, serviceIds, overwrite = false, concurrency } = body;
 
     if (!projectId) {
       return NextResponse.json(
@@ -18,43 +41,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // TODO: Implement actual database queries and AI generation
-    // This is a placeholder implementation
+    const context = await loadPracticeContext(supabase, projectId);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'PRACTICE_NOT_FOUND', message: 'Set up the practice for this project first' } },
+        { status: 404 }
+      );
+    }
 
-    // 1. Get all locations for the project (or filter by locationIds)
-    // 2. Get all services for the project (or filter by serviceIds)
-    // 3. Generate page combinations
-    // 4. For each combination, generate content using Claude with localSeoPage prompt
-    // 5. Create/update location_service_pages records
+    const locations = context.locations.filter((location) => !locationIds || locationIds.includes(location.id));
+    const services = context.services.filter((service) => !serviceIds || serviceIds.includes(service.id));
 
-    const mockPages: GenerateLocalPagesResponse['pages'] = [
-      {
-        locationId: 'loc-1',
-        serviceId: 'svc-1',
-        slug: 'green-bay/erectile-dysfunction',
-        status: 'created',
-      },
-      {
-        locationId: 'loc-1',
-        serviceId: 'svc-2',
-        slug: 'green-bay/testosterone-therapy',
-        status: 'created',
-      },
-      {
-        locationId: 'loc-2',
-        serviceId: 'svc-1',
-        slug: 'appleton/erectile-dysfunction',
-        status: overwrite ? 'updated' : 'skipped',
-      },
-    ];
+    if (locations.length === 0 || services.length === 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NO_COMBINATIONS', message: 'No locations or services to generate pages for' } },
+        { status: 400 }
+      );
+    }
+
+    // Enforce monthly AI quotas before generating
+    const quota = await checkQuota(supabase, user.id, projectId);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { success: false, error: { code: 'QUOTA_EXCEEDED', message: getQuotaExceededMessage(quota) } },
+        { status: 429 }
+      );
+    }
 
-    const response: GenerateLocalPagesResponse = {
-      success: true,
-      pagesGenerated: mockPages.filter((p) => p.status !== 'skipped').length,
-      pages: mockPages,
-    };
+    const progress = await createLocalPagesJob(supabase, {
+      projectId,
+      userId: user.id,
+      locations,
+      services,
+      overwrite,
+      concurrency,
+    });
 
-    return NextResponse.json(response);
+    const response: GenerateLocalPagesResponse = { success: true, data: progress };
+    return NextResponse.json(response, { status: 202 });
   } catch (error) {
     console.error('Error generating local pages:', error);
     return NextResponse.json(
@@ -0,0 +1,54 @@
+/**
+ * Generation Job API Routes
+ *
+ * GET /api/healthcare/generation-jobs/[jobId]?projectId= - Job progress
+ * DELETE /api/healthcare/generation-jobs/[jobId]?projectId= - Cancel the job
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { cancelJob, getJobProgress } from '@/lib/healthcare/jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const { jobId } = await params;
+    const progress = await getJobProgress(context.supabase, jobId, context.projectId);
+    if (!progress) {
+      return apiError('JOB_NOT_FOUND', 'Generation job not found', 404);
+    }
+
+    return apiSuccess(progress);
+  } catch (error) {
+    return handleApiError(error, 'fetch generation job');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const { jobId } = await params;
+    const progress = await getJobProgress(context.supabase, jobId, context.projectId);
+    if (!progress) {
+      return apiError('JOB_NOT_FOUND', 'Generation job not found', 404);
+    }
+
+    if (!progress.done) {
+      await cancelJob(context.supabase, jobId);
+    }
+
+    return apiSuccess(await getJobProgress(context.supabase, jobId, context.projectId));
+  } catch (error) {
+    return handleApiError(error, 'cancel generation job');
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * POST /api/healthcare/generation-jobs/[jobId]/run?projectId=
+ *
+ * Put a job whose worker stopped (e.g. the server restarted) back in the
+ * queue for the generation worker. Items already generated are kept.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { canRunJob, getJobProgress, requeueJob } from '@/lib/healthcare/jobs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const { jobId } = await params;
+    const progress = await getJobProgress(context.supabase, jobId, context.projectId);
+    if (!progress) {
+      return apiError('JOB_NOT_FOUND', 'Generation job not found', 404);
+    }
+
+    if (!canRunJob(progress.job)) {
+      return progress.done
+        ? apiError('JOB_FINISHED', `The job is already ${progress.job.status}`, 409)
+        : apiError('JOB_RUNNING', 'The job is still running', 409);
+    }
+
+    await requeueJob(context.supabase, jobId);
+
+    const requeued = await getJobProgress(context.supabase, jobId, context.projectId);
+    return apiSuccess(requeued, 202);
+  } catch (error) {
+    return handleApiError(error, 'resume generation job');
+  }
+}
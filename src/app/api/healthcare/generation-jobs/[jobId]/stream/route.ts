@@ -0,0 +1,90 @@
+/**
+ * GET /api/healthcare/generation-jobs/[jobId]/stream?projectId=
+ *
+ * Stream a job's progress as newline-delimited JSON. A `progress` event
+ * with the full GenerationJobProgress is sent whenever something changes,
+ * then `done` once the job is finished.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { getJobProgress } from '@/lib/healthcare/jobs';
+import { BUILD_STREAM_CONTENT_TYPE } from '@/lib/builder/operations';
+import type { GenerationJobStreamEvent } from '@/types/healthcare';
+
+const POLL_INTERVAL_MS = 1500;
+/** Clients reconnect after this; keeps a forgotten stream from running forever */
+const MAX_STREAM_MS = 10 * 60 * 1000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const { supabase, projectId } = context;
+    const { jobId } = await params;
+
+    const initial = await getJobProgress(supabase, jobId, projectId);
+    if (!initial) {
+      return apiError('JOB_NOT_FOUND', 'Generation job not found', 404);
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: GenerationJobStreamEvent) => {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        };
+
+        const deadline = Date.now() + MAX_STREAM_MS;
+        let progress = initial;
+        let last = '';
+
+        try {
+          while (!request.signal.aborted) {
+            const snapshot = JSON.stringify(progress);
+            if (snapshot !== last) {
+              send({ type: 'progress', progress });
+              last = snapshot;
+            }
+
+            if (progress.done) {
+              send({ type: 'done' });
+              break;
+            }
+
+            if (Date.now() > deadline) {
+              send({ type: 'timeout' });
+              break;
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+            const next = await getJobProgress(supabase, jobId, projectId);
+            if (!next) {
+              send({ type: 'error', message: 'Generation job not found' });
+              break;
+            }
+            progress = next;
+          }
+        } catch (error) {
+          console.error('Generation job stream error:', error);
+          send({ type: 'error', message: 'Failed to read job progress' });
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': BUILD_STREAM_CONTENT_TYPE,
+        'Transfer-Encoding': 'chunked',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'stream generation job');
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Single Location Service Page API Routes
+ *
+ * GET /api/healthcare/location-service-pages/[id]?projectId= - Get a local page
+ * PATCH /api/healthcare/location-service-pages/[id]?projectId= - Update a local page
+ * DELETE /api/healthcare/location-service-pages/[id]?projectId= - Delete a local page
+ *
+ * A page's location and service are fixed once created; delete the page
+ * and create a new one to move it. Editing the heading, content or FAQs of
+ * a published page takes it back to draft until a new review approves it.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getPracticeLocationIds,
+  handleApiError,
+  invalidBodyError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import {
+  LOCATION_SERVICE_PAGE_FIELDS,
+  fromRow,
+  toRow,
+  type DatabaseRow,
+} from '@/lib/healthcare/mappers';
+import { reviewRequiredError, withdrawPageApprovalOnEdit } from '@/lib/healthcare/reviews';
+import type { LocationServicePage } from '@/types/healthcare';
+
+function pageNotFound() {
+  return apiError('NOT_FOUND', 'Location service page not found', 404);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const locationIds = await getPracticeLocationIds(context.supabase, context.projectId);
+    if (locationIds.length === 0) return pageNotFound();
+
+    const { data, error } = await context.supabase
+      .from('location_service_pages')
+      .select('*')
+      .eq('id', id)
+      .in('location_id', locationIds)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return pageNotFound();
+
+    return apiSuccess(fromRow<LocationServicePage>(data as DatabaseRow, LOCATION_SERVICE_PAGE_FIELDS));
+  } catch (error) {
+    return handleApiError(error, 'fetch location service page');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<LocationServicePage>(request);
+    if (!body) return invalidBodyError();
+
+    const locationIds = await getPracticeLocationIds(context.supabase, context.projectId);
+    if (locationIds.length === 0) return pageNotFound();
+
+    const invalid = reviewRequiredError(body.status);
+    if (invalid) return invalid;
+
+    // Publishing is recorded by the review workflow
+    const {
+      locationId: _locationId,
+      serviceId: _serviceId,
+      publishedAt: _publishedAt,
+      lastReviewedAt: _lastReviewedAt,
+      ...changes
+    } = body;
+
+    const { data: currentRow, error: currentError } = await context.supabase
+      .from('location_service_pages')
+      .select('*')
+      .eq('id', id)
+      .in('location_id', locationIds)
+      .maybeSingle();
+
+    if (currentError) throw currentError;
+    if (!currentRow) return pageNotFound();
+
+    const current = fromRow<LocationServicePage>(currentRow as DatabaseRow, LOCATION_SERVICE_PAGE_FIELDS);
+    const { data, error } = await context.supabase
+      .from('location_service_pages')
+      .update(withdrawPageApprovalOnEdit(toRow(changes, LOCATION_SERVICE_PAGE_FIELDS), current))
+      .eq('id', id)
+      .in('location_id', locationIds)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return pageNotFound();
+
+    return apiSuccess(fromRow<LocationServicePage>(data as DatabaseRow, LOCATION_SERVICE_PAGE_FIELDS));
+  } catch (error) {
+    return handleApiError(error, 'update location service page');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const locationIds = await getPracticeLocationIds(context.supabase, context.projectId);
+    if (locationIds.length === 0) return pageNotFound();
+
+    const { data, error } = await context.supabase
+      .from('location_service_pages')
+      .delete()
+      .eq('id', id)
+      .in('location_id', locationIds)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) return pageNotFound();
+
+    return apiSuccess({ id });
+  } catch (error) {
+    return handleApiError(error, 'delete location service page');
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Location Service Pages API Routes
+ *
+ * GET /api/healthcare/location-service-pages?projectId= - List the practice's local pages
+ * POST /api/healthcare/location-service-pages?projectId= - Create a page for a location and service
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getMissingFields,
+  getPracticeId,
+  getPracticeLocationIds,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  practiceNotFoundError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import {
+  LOCATION_SERVICE_PAGE_FIELDS,
+  fromRow,
+  toRow,
+  type DatabaseRow,
+} from '@/lib/healthcare/mappers';
+import { reviewRequiredError } from '@/lib/healthcare/reviews';
+import type { LocationServicePage } from '@/types/healthcare';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const locationIds = await getPracticeLocationIds(context.supabase, context.projectId);
+    if (locationIds.length === 0) return apiSuccess([]);
+
+    const { data, error } = await context.supabase
+      .from('location_service_pages')
+      .select('*')
+      .in('location_id', locationIds)
+      .order('slug');
+
+    if (error) throw error;
+    return apiSuccess(
+      (data as DatabaseRow[]).map((row) =>
+        fromRow<LocationServicePage>(row, LOCATION_SERVICE_PAGE_FIELDS)
+      )
+    );
+  } catch (error) {
+    return handleApiError(error, 'list location service pages');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<LocationServicePage>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, ['locationId', 'serviceId']);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const invalid = reviewRequiredError(body.status);
+    if (invalid) return invalid;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return practiceNotFoundError();
+
+    // Both ends of the page must belong to this practice
+    const [{ data: location, error: locationError }, { data: service, error: serviceError }] =
+      await Promise.all([
+        context.supabase
+          .from('practice_locations')
+          .select('id, slug')
+          .eq('id', body.locationId)
+          .eq('practice_id', practiceId)
+          .maybeSingle(),
+        context.supabase
+          .from('medical_services')
+          .select('id, slug')
+          .eq('id', body.serviceId)
+          .eq('practice_id', practiceId)
+          .maybeSingle(),
+      ]);
+
+    if (locationError) throw locationError;
+    if (serviceError) throw serviceError;
+    if (!location) return apiError('LOCATION_NOT_FOUND', 'Location not found', 404);
+    if (!service) return apiError('SERVICE_NOT_FOUND', 'Service not found', 404);
+
+    // Publishing is recorded by the review workflow
+    const { publishedAt: _publishedAt, lastReviewedAt: _lastReviewedAt, ...fields } = body;
+    const row = toRow(fields, LOCATION_SERVICE_PAGE_FIELDS);
+    const { data, error } = await context.supabase
+      .from('location_service_pages')
+      .insert({
+        ...row,
+        slug: row.slug || `${location.slug}/${service.slug}`,
+      })
+      .select()
+      .single();
+
+    if (error?.code === '23505') {
+      return apiError('DUPLICATE', 'A page already exists for this location and service', 409);
+    }
+    if (error) throw error;
+
+    return apiSuccess(
+      fromRow<LocationServicePage>(data as DatabaseRow, LOCATION_SERVICE_PAGE_FIELDS),
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, 'create location service page');
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Single Practice Location API Routes
+ *
+ * GET /api/healthcare/locations/[id]?projectId= - Get a location
+ * PATCH /api/healthcare/locations/[id]?projectId= - Update a location
+ * DELETE /api/healthcare/locations/[id]?projectId= - Delete a location
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  handleDeleteRequest,
+  handleGetRequest,
+  handleUpdateRequest,
+} from '@/lib/healthcare/api';
+import { LOCATION_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleGetRequest(request, LOCATION_RESOURCE, id);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleUpdateRequest(request, LOCATION_RESOURCE, id);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleDeleteRequest(request, LOCATION_RESOURCE, id);
+}
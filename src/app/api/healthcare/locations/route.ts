@@ -0,0 +1,18 @@
+/**
+ * Practice Locations API Routes
+ *
+ * GET /api/healthcare/locations?projectId= - List the practice's locations
+ * POST /api/healthcare/locations?projectId= - Create a location
+ */
+
+import { NextRequest } from 'next/server';
+import { handleCreateRequest, handleListRequest } from '@/lib/healthcare/api';
+import { LOCATION_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(request: NextRequest) {
+  return handleListRequest(request, LOCATION_RESOURCE);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCreateRequest(request, LOCATION_RESOURCE);
+}
@@ -0,0 +1,40 @@
+/**
+ * POST /api/healthcare/physicians/[id]/enrich?projectId=
+ *
+ * Check a physician's NPI against the registry, fill in blank credentials,
+ * specialties and state licences, and record any mismatches between the
+ * profile and the registry.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getPracticeResource,
+  handleApiError,
+} from '@/lib/healthcare/api';
+import { enrichPhysician, getNpiRegistry } from '@/lib/healthcare/npi';
+import { PHYSICIAN_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const physician = await getPracticeResource(PHYSICIAN_RESOURCE, context, id);
+    if (!physician) return apiError('NOT_FOUND', 'Physician not found', 404);
+
+    if (!physician.npiNumber?.trim()) {
+      return apiError('NPI_REQUIRED', `Add ${physician.name}'s NPI number before checking their credentials`, 400);
+    }
+
+    return apiSuccess(await enrichPhysician(context.supabase, getNpiRegistry(), physician));
+  } catch (error) {
+    return handleApiError(error, 'enrich physician');
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/healthcare/physicians/[id]/page?projectId=&baseUrl=
+ *
+ * Page data for the physician's profile page (`/team/[physician]` in the
+ * practice's template), with its Physician JSON-LD and validation result.
+ * baseUrl is the site's public origin and defaults to the project domain.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  handleApiError,
+  practiceNotFoundError,
+} from '@/lib/healthcare/api';
+import { loadPracticeContext } from '@/lib/healthcare/generation';
+import { buildPhysicianPage } from '@/lib/healthcare/team';
+import { toOrigin } from '@/lib/utils';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practice = await loadPracticeContext(context.supabase, context.projectId);
+    if (!practice) return practiceNotFoundError();
+
+    const physician = practice.physicians.find((candidate) => candidate.id === id);
+    if (!physician) return apiError('NOT_FOUND', 'Physician not found', 404);
+
+    let baseUrl = toOrigin(request.nextUrl.searchParams.get('baseUrl'));
+    if (!baseUrl) {
+      const { data: project } = await context.supabase
+        .from('projects')
+        .select('settings')
+        .eq('id', context.projectId)
+        .single();
+      baseUrl = toOrigin(project?.settings?.domain);
+    }
+
+    return apiSuccess(buildPhysicianPage(practice, physician, { baseUrl: baseUrl ?? undefined }));
+  } catch (error) {
+    return handleApiError(error, 'build physician page');
+  }
+}
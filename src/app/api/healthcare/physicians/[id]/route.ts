@@ -0,0 +1,39 @@
+/**
+ * Single Physician Profile API Routes
+ *
+ * GET /api/healthcare/physicians/[id]?projectId= - Get a physician
+ * PATCH /api/healthcare/physicians/[id]?projectId= - Update a physician
+ * DELETE /api/healthcare/physicians/[id]?projectId= - Delete a physician
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  handleDeleteRequest,
+  handleGetRequest,
+  handleUpdateRequest,
+} from '@/lib/healthcare/api';
+import { PHYSICIAN_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleGetRequest(request, PHYSICIAN_RESOURCE, id);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleUpdateRequest(request, PHYSICIAN_RESOURCE, id);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleDeleteRequest(request, PHYSICIAN_RESOURCE, id);
+}
@@ -0,0 +1,18 @@
+/**
+ * Physician Profiles API Routes
+ *
+ * GET /api/healthcare/physicians?projectId= - List the practice's physician profiles
+ * POST /api/healthcare/physicians?projectId= - Create a physician
+ */
+
+import { NextRequest } from 'next/server';
+import { handleCreateRequest, handleListRequest } from '@/lib/healthcare/api';
+import { PHYSICIAN_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(request: NextRequest) {
+  return handleListRequest(request, PHYSICIAN_RESOURCE);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCreateRequest(request, PHYSICIAN_RESOURCE);
+}
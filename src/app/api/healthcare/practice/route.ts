@@ -0,0 +1,138 @@
+/**
+ * Medical Practice API Routes
+ *
+ * A project has at most one practice; every other healthcare record
+ * belongs to it.
+ *
+ * GET /api/healthcare/practice?projectId= - Get the practice (null if not set up)
+ * POST /api/healthcare/practice?projectId= - Create the practice
+ * PATCH /api/healthcare/practice?projectId= - Update the practice, creating it if needed
+ * DELETE /api/healthcare/practice?projectId= - Delete the practice and all its records
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getMissingFields,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { PRACTICE_FIELDS, fromRow, toRow, type DatabaseRow } from '@/lib/healthcare/mappers';
+import type { MedicalPractice } from '@/types/healthcare';
+
+const REQUIRED_FIELDS: Array<keyof MedicalPractice & string> = ['name'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const { data, error } = await context.supabase
+      .from('medical_practices')
+      .select('*')
+      .eq('project_id', context.projectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return apiSuccess(data ? fromRow<MedicalPractice>(data as DatabaseRow, PRACTICE_FIELDS) : null);
+  } catch (error) {
+    return handleApiError(error, 'fetch practice');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<MedicalPractice>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, REQUIRED_FIELDS);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const { data, error } = await context.supabase
+      .from('medical_practices')
+      .insert({ ...toRow(body, PRACTICE_FIELDS), project_id: context.projectId })
+      .select()
+      .single();
+
+    if (error?.code === '23505') {
+      return apiError('PRACTICE_EXISTS', 'This project already has a practice', 409);
+    }
+    if (error) throw error;
+
+    return apiSuccess(fromRow<MedicalPractice>(data as DatabaseRow, PRACTICE_FIELDS), 201);
+  } catch (error) {
+    return handleApiError(error, 'create practice');
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<MedicalPractice>(request);
+    if (!body) return invalidBodyError();
+
+    const { data: existing, error: fetchError } = await context.supabase
+      .from('medical_practices')
+      .select('id')
+      .eq('project_id', context.projectId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    // The settings form saves before a practice exists - create it then
+    const missing = getMissingFields(body, REQUIRED_FIELDS).filter(
+      (field) => !existing || field in body
+    );
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const row = toRow(body, PRACTICE_FIELDS);
+    const { data, error } = existing
+      ? await context.supabase
+          .from('medical_practices')
+          .update(row)
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await context.supabase
+          .from('medical_practices')
+          .insert({ ...row, project_id: context.projectId })
+          .select()
+          .single();
+
+    if (error) throw error;
+    return apiSuccess(fromRow<MedicalPractice>(data as DatabaseRow, PRACTICE_FIELDS));
+  } catch (error) {
+    return handleApiError(error, 'update practice');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const { data, error } = await context.supabase
+      .from('medical_practices')
+      .delete()
+      .eq('project_id', context.projectId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      return apiError('PRACTICE_NOT_FOUND', 'Practice not found', 404);
+    }
+
+    return apiSuccess({ id: data[0].id as string });
+  } catch (error) {
+    return handleApiError(error, 'delete practice');
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * POST /api/healthcare/reviews/[id]/comments?projectId=
+ *
+ * Add a comment to a review. Comments can be added after the decision,
+ * e.g. to record follow-up edits.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getMissingFields,
+  getPracticeId,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { addReviewComment, getReview } from '@/lib/healthcare/reviews';
+import type { ContentReviewCommentRequest } from '@/types/healthcare';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<ContentReviewCommentRequest>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, ['body']);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    const review = practiceId && (await getReview(context.supabase, practiceId, id));
+    if (!review) return apiError('REVIEW_NOT_FOUND', 'Review not found', 404);
+
+    const comment = await addReviewComment(
+      context.supabase,
+      review,
+      {
+        id: context.user.id,
+        name: body.authorName?.trim() || context.user.email || 'Editor',
+      },
+      body.body!.trim()
+    );
+
+    return apiSuccess(comment, 201);
+  } catch (error) {
+    return handleApiError(error, 'add review comment');
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * POST /api/healthcare/reviews/[id]/decision?projectId=
+ *
+ * Record the reviewer's decision. Approving publishes the content with the
+ * reviewer's name and the review date; rejecting (with a note explaining
+ * what to change) sends it back to draft.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getPracticeId,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { closeReview, getReview, loadReviewableContent } from '@/lib/healthcare/reviews';
+import type { ContentReviewDecisionRequest } from '@/types/healthcare';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<ContentReviewDecisionRequest>(request);
+    if (!body) return invalidBodyError();
+
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return apiError('INVALID_DECISION', "Decision must be 'approve' or 'reject'", 400);
+    }
+    if (body.decision === 'reject' && !body.note?.trim()) {
+      return missingFieldsError(['note']);
+    }
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    const review = practiceId && (await getReview(context.supabase, practiceId, id));
+    if (!review) return apiError('REVIEW_NOT_FOUND', 'Review not found', 404);
+
+    if (review.status !== 'pending') {
+      return apiError('REVIEW_CLOSED', `The review was already ${review.status}`, 409);
+    }
+
+    const content = await loadReviewableContent(
+      context.supabase,
+      context.projectId,
+      review.contentType,
+      review.contentId
+    );
+    if (!content) return apiError('CONTENT_NOT_FOUND', 'The reviewed content no longer exists', 404);
+
+    const decided = await closeReview(context.supabase, review, content, {
+      status: body.decision === 'approve' ? 'approved' : 'rejected',
+      userId: context.user.id,
+      note: body.note?.trim() || undefined,
+    });
+    if (!decided) return apiError('REVIEW_CLOSED', 'The review was closed in the meantime', 409);
+
+    return apiSuccess(decided);
+  } catch (error) {
+    return handleApiError(error, 'record review decision');
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Single Content Review API Routes
+ *
+ * GET /api/healthcare/reviews/[id]?projectId= - A review with its comments and content
+ * DELETE /api/healthcare/reviews/[id]?projectId= - Cancel a pending review
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getPracticeId,
+  handleApiError,
+} from '@/lib/healthcare/api';
+import {
+  closeReview,
+  getReview,
+  listReviewComments,
+  loadReviewableContent,
+} from '@/lib/healthcare/reviews';
+import type { ContentReviewDetail } from '@/types/healthcare';
+
+function reviewNotFound() {
+  return apiError('REVIEW_NOT_FOUND', 'Review not found', 404);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return reviewNotFound();
+
+    const review = await getReview(context.supabase, practiceId, id);
+    if (!review) return reviewNotFound();
+
+    const [comments, content] = await Promise.all([
+      listReviewComments(context.supabase, review.id),
+      loadReviewableContent(context.supabase, context.projectId, review.contentType, review.contentId),
+    ]);
+
+    const detail: ContentReviewDetail = {
+      review,
+      comments,
+      content: content && { type: content.type, id: content.id, title: content.title, status: content.status },
+    };
+    return apiSuccess(detail);
+  } catch (error) {
+    return handleApiError(error, 'fetch content review');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return reviewNotFound();
+
+    const review = await getReview(context.supabase, practiceId, id);
+    if (!review) return reviewNotFound();
+
+    const content = await loadReviewableContent(
+      context.supabase,
+      context.projectId,
+      review.contentType,
+      review.contentId
+    );
+    if (!content) return apiError('CONTENT_NOT_FOUND', 'The reviewed content no longer exists', 404);
+
+    const cancelled = await closeReview(context.supabase, review, content, {
+      status: 'cancelled',
+      userId: context.user.id,
+    });
+    if (!cancelled) return apiError('REVIEW_CLOSED', `The review was already ${review.status}`, 409);
+
+    return apiSuccess(cancelled);
+  } catch (error) {
+    return handleApiError(error, 'cancel content review');
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Content Review API Routes
+ *
+ * GET /api/healthcare/reviews?projectId=&status=&contentType=&contentId= - List reviews
+ * POST /api/healthcare/reviews?projectId= - Ask a physician to review an article, service or local page
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getMissingFields,
+  getPracticeId,
+  getPracticeResource,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { getReviewNotifier } from '@/lib/healthcare/notifiers';
+import { PHYSICIAN_RESOURCE } from '@/lib/healthcare/resources';
+import {
+  REVIEWABLE_CONTENT_TYPES,
+  addReviewComment,
+  listReviews,
+  loadReviewableContent,
+  notifyReviewer,
+  requestReview,
+} from '@/lib/healthcare/reviews';
+import type {
+  ContentReviewStatus,
+  RequestContentReviewRequest,
+  ReviewableContentType,
+} from '@/types/healthcare';
+
+const REVIEW_STATUSES: ContentReviewStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return apiSuccess([]);
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status') as ContentReviewStatus | null;
+    const contentType = params.get('contentType') as ReviewableContentType | null;
+
+    if (status && !REVIEW_STATUSES.includes(status)) {
+      return apiError('INVALID_STATUS', `Status must be one of: ${REVIEW_STATUSES.join(', ')}`, 400);
+    }
+    if (contentType && !REVIEWABLE_CONTENT_TYPES.includes(contentType)) {
+      return apiError('INVALID_CONTENT_TYPE', `Content type must be one of: ${REVIEWABLE_CONTENT_TYPES.join(', ')}`, 400);
+    }
+
+    return apiSuccess(
+      await listReviews(context.supabase, practiceId, {
+        status: status ?? undefined,
+        contentType: contentType ?? undefined,
+        contentId: params.get('contentId') ?? undefined,
+      })
+    );
+  } catch (error) {
+    return handleApiError(error, 'list content reviews');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<RequestContentReviewRequest>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, ['contentType', 'contentId', 'reviewerId']);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    if (!REVIEWABLE_CONTENT_TYPES.includes(body.contentType!)) {
+      return apiError('INVALID_CONTENT_TYPE', `Content type must be one of: ${REVIEWABLE_CONTENT_TYPES.join(', ')}`, 400);
+    }
+
+    const content = await loadReviewableContent(
+      context.supabase,
+      context.projectId,
+      body.contentType!,
+      body.contentId!
+    );
+    if (!content) return apiError('CONTENT_NOT_FOUND', 'The content to review was not found', 404);
+
+    const reviewer = await getPracticeResource(PHYSICIAN_RESOURCE, context, body.reviewerId!);
+    if (!reviewer) return apiError('REVIEWER_NOT_FOUND', 'Reviewer not found', 404);
+
+    // YMYL content must be reviewed by a credentialed clinician
+    if (!reviewer.credentials?.trim()) {
+      return apiError(
+        'REVIEWER_NOT_CREDENTIALED',
+        `Add ${reviewer.name}'s credentials (e.g. MD, DO, NP) before assigning them as a medical reviewer`,
+        400
+      );
+    }
+
+    const pending = await listReviews(context.supabase, content.practiceId, {
+      status: 'pending',
+      contentType: content.type,
+      contentId: content.id,
+    });
+    if (pending.length > 0) {
+      return apiError('REVIEW_PENDING', `${pending[0].reviewerName} is already reviewing this content`, 409, {
+        reviewId: pending[0].id,
+      });
+    }
+
+    const review = await requestReview(context.supabase, content, reviewer, context.user.id);
+
+    if (body.comment?.trim()) {
+      await addReviewComment(
+        context.supabase,
+        review,
+        { id: context.user.id, name: context.user.email ?? 'Editor' },
+        body.comment.trim()
+      );
+    }
+
+    // The review stands even if the reviewer couldn't be told about it
+    try {
+      await notifyReviewer(context.supabase, getReviewNotifier(), review, {
+        kind: 'assigned',
+        projectId: context.projectId,
+        title: content.title,
+      });
+    } catch (error) {
+      console.error('Review notification error:', error);
+    }
+
+    return apiSuccess(review, 201);
+  } catch (error) {
+    return handleApiError(error, 'request content review');
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * GET /api/healthcare/seo-audit/compare?projectId=&from=&to=
+ *
+ * Compare two stored audit runs: score and per-category trends, checks
+ * that regressed and checks that were fixed. `to` defaults to the latest
+ * run and `from` to the run before it.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { getAuditRun, getLatestAuditRun } from '@/lib/healthcare/seo-audit/history';
+import { compareAudits } from '@/lib/seo/audit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const { searchParams } = request.nextUrl;
+    const toId = searchParams.get('to');
+    const to = toId
+      ? await getAuditRun(context.supabase, context.projectId, toId)
+      : await getLatestAuditRun(context.supabase, context.projectId);
+    if (!to) {
+      return apiError('AUDIT_NOT_FOUND', 'SEO audit not found', 404);
+    }
+
+    const fromId = searchParams.get('from') || to.previousAuditId;
+    if (!fromId) {
+      return apiError('NO_PREVIOUS_AUDIT', 'There is no earlier audit to compare with', 404);
+    }
+
+    const from = await getAuditRun(context.supabase, context.projectId, fromId);
+    if (!from) {
+      return apiError('AUDIT_NOT_FOUND', 'SEO audit not found', 404);
+    }
+
+    return apiSuccess({
+      from: from.id,
+      to: to.id,
+      ...compareAudits(from.results, to.results),
+    });
+  } catch (error) {
+    return handleApiError(error, 'compare SEO audits');
+  }
+}
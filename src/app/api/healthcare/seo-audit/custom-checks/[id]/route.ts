@@ -0,0 +1,98 @@
+/**
+ * Single Custom Audit Check API Routes
+ *
+ * GET /api/healthcare/seo-audit/custom-checks/[id] - Get a custom check
+ * PATCH /api/healthcare/seo-audit/custom-checks/[id] - Update a custom check
+ * DELETE /api/healthcare/seo-audit/custom-checks/[id] - Delete a custom check
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeUser,
+  handleApiError,
+  invalidBodyError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import {
+  deleteCustomCheck,
+  getCustomCheck,
+  updateCustomCheck,
+  type CustomAuditCheck,
+} from '@/lib/healthcare/seo-audit/custom-checks';
+import { validateCustomCheck } from '@/lib/seo/audit';
+
+function checkNotFoundError() {
+  return apiError('NOT_FOUND', 'Custom audit check not found', 404);
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { context, response } = await authorizeUser();
+    if (!context) return response;
+
+    const { id } = await params;
+    const check = await getCustomCheck(context.supabase, context.user.id, id);
+    if (!check) return checkNotFoundError();
+
+    return apiSuccess(check);
+  } catch (error) {
+    return handleApiError(error, 'fetch custom audit check');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { context, response } = await authorizeUser();
+    if (!context) return response;
+
+    const body = await readJsonBody<CustomAuditCheck>(request);
+    if (!body) return invalidBodyError();
+
+    const { id } = await params;
+    const existing = await getCustomCheck(context.supabase, context.user.id, id);
+    if (!existing) return checkNotFoundError();
+
+    // Validate the check as it will be after the update
+    const errors = validateCustomCheck({ ...existing, ...body });
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+    if (errors.length > 0) {
+      return apiError('INVALID_CHECK', errors.join('; '), 400, { errors });
+    }
+
+    const check = await updateCustomCheck(context.supabase, context.user.id, id, body);
+    if (!check) return checkNotFoundError();
+
+    return apiSuccess(check);
+  } catch (error) {
+    return handleApiError(error, 'update custom audit check');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { context, response } = await authorizeUser();
+    if (!context) return response;
+
+    const { id } = await params;
+    if (!(await deleteCustomCheck(context.supabase, context.user.id, id))) {
+      return checkNotFoundError();
+    }
+
+    return apiSuccess({ id });
+  } catch (error) {
+    return handleApiError(error, 'delete custom audit check');
+  }
+}
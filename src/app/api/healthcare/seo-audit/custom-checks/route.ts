@@ -0,0 +1,59 @@
+/**
+ * Custom Audit Check API Routes
+ *
+ * GET /api/healthcare/seo-audit/custom-checks - The workspace's custom checks
+ * POST /api/healthcare/seo-audit/custom-checks - Add a custom check
+ *
+ * Custom checks belong to the signed-in account and run in the SEO audits
+ * of all its projects.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeUser,
+  handleApiError,
+  invalidBodyError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import {
+  createCustomCheck,
+  listCustomChecks,
+  type CustomAuditCheckInput,
+} from '@/lib/healthcare/seo-audit/custom-checks';
+import { validateCustomCheck } from '@/lib/seo/audit';
+
+export async function GET() {
+  try {
+    const { context, response } = await authorizeUser();
+    if (!context) return response;
+
+    return apiSuccess(await listCustomChecks(context.supabase, context.user.id));
+  } catch (error) {
+    return handleApiError(error, 'fetch custom audit checks');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeUser();
+    if (!context) return response;
+
+    const body = await readJsonBody<CustomAuditCheckInput>(request);
+    if (!body) return invalidBodyError();
+
+    const errors = validateCustomCheck(body);
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+    if (errors.length > 0) {
+      return apiError('INVALID_CHECK', errors.join('; '), 400, { errors });
+    }
+
+    const check = await createCustomCheck(context.supabase, context.user.id, body as CustomAuditCheckInput);
+    return apiSuccess(check, 201);
+  } catch (error) {
+    return handleApiError(error, 'create custom audit check');
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * GET /api/healthcare/seo-audit/history/[auditId]?projectId=
+ *
+ * One stored audit run with its full results and dashboard summary.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { getAuditRun } from '@/lib/healthcare/seo-audit/history';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const { auditId } = await params;
+    const run = await getAuditRun(context.supabase, context.projectId, auditId);
+    if (!run) {
+      return apiError('AUDIT_NOT_FOUND', 'SEO audit not found', 404);
+    }
+
+    return apiSuccess(run);
+  } catch (error) {
+    return handleApiError(error, 'fetch SEO audit');
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/healthcare/seo-audit/history?projectId=&limit=
+ *
+ * Stored audit runs of the project, newest first, without their results,
+ * and the overall and per-category scores as trend points, oldest first.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { clampHistoryLimit, listAuditRuns, toTrendPoints } from '@/lib/healthcare/seo-audit/history';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (!context) return response;
+
+    const limit = clampHistoryLimit(request.nextUrl.searchParams.get('limit'));
+    const audits = await listAuditRuns(context.supabase, context.projectId, limit);
+
+    return apiSuccess({ audits, trend: toTrendPoints(audits) });
+  } catch (error) {
+    return handleApiError(error, 'fetch SEO audit history');
+  }
+}
@@ -1,356 +1,99 @@
-import { NextRequest, NextResponse } from 'next/server';
-import type { SEOAuditResult, SEOIssue, SEOCategoryResult, SEORecommendation } from '@/types/healthcare';
-
 /**
- * GET /api/healthcare/seo-audit
+ * SEO Audit API Routes
+ *
+ * GET /api/healthcare/seo-audit?projectId= - The project's latest stored audit
+ * POST /api/healthcare/seo-audit?projectId=&scope=&baseUrl= - Run and store an audit
  *
- * Run SEO audit on project.
+ * POST crawls the project's published pages from the homepage and runs the
+ * page and site-wide SEO checks, with the practice records as business
+ * context. scope is 'full' (default), 'quick' or a comma-separated list of
+ * check categories (technical, content, local, schema, eeat, ai-search).
+ * baseUrl is the site's public origin and defaults to the project domain.
+ *
+ * The account's enabled custom checks (./custom-checks) run with the
+ * built-in checks. Each run is stored in seo_audits with the checks that
+ * regressed since the previous run; see ./history and ./compare.
  */
+
+import { NextRequest } from 'next/server';
+import { loadProjectSite } from '@/lib/builder';
+import { apiError, apiSuccess, authorizeProject, handleApiError } from '@/lib/healthcare/api';
+import { loadPracticeContext } from '@/lib/healthcare/generation';
+import { parseAuditScope, runSiteAudit } from '@/lib/healthcare/seo-audit/audit';
+import { listCustomChecks } from '@/lib/healthcare/seo-audit/custom-checks';
+import { getLatestAuditRun, saveAuditRun } from '@/lib/healthcare/seo-audit/history';
+import { toOrigin } from '@/lib/utils';
+
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const projectId = searchParams.get('projectId');
-    const scope = searchParams.get('scope') || 'full';
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
 
-    if (!projectId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'MISSING_PROJECT_ID', message: 'Project ID is required' } },
-        { status: 400 }
-      );
+    const run = await getLatestAuditRun(context.supabase, context.projectId);
+    if (!run) {
+      return apiError('AUDIT_NOT_FOUND', 'The project has not been audited yet', 404);
     }
 
-    // TODO: Implement actual SEO audit logic
-    // This is a placeholder implementation that demonstrates the structure
-
-    // Run checks based on scope
-    const technical = runTechnicalChecks();
-    const content = runContentChecks();
-    const localSeo = runLocalSeoChecks();
-    const schema = runSchemaChecks();
-    const eeat = runEeatChecks();
-
-    // Calculate overall score (weighted)
-    const weights = {
-      technical: 0.25,
-      content: 0.25,
-      localSeo: 0.25,
-      schema: 0.15,
-      eeat: 0.10,
-    };
-
-    const overallScore = Math.round(
-      technical.score * weights.technical +
-      content.score * weights.content +
-      localSeo.score * weights.localSeo +
-      schema.score * weights.schema +
-      eeat.score * weights.eeat
-    );
-
-    // Collect all issues
-    const allIssues = [
-      ...technical.issues,
-      ...content.issues,
-      ...localSeo.issues,
-      ...schema.issues,
-      ...eeat.issues,
-    ];
-
-    // Generate recommendations
-    const recommendations = generateRecommendations(allIssues);
-
-    const result: SEOAuditResult = {
-      score: overallScore,
-      timestamp: new Date().toISOString(),
-      projectId,
-      breakdown: {
-        technical,
-        content,
-        localSeo,
-        schema,
-        eeat,
-      },
-      issues: allIssues,
-      recommendations,
-    };
-
-    return NextResponse.json({ success: true, data: result });
+    return apiSuccess({ ...run.summary, auditId: run.id });
   } catch (error) {
-    console.error('Error running SEO audit:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: {
-          code: 'AUDIT_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to run SEO audit',
-        },
-      },
-      { status: 500 }
-    );
+    return handleApiError(error, 'fetch SEO audit');
   }
 }
 
-/**
- * Run technical SEO checks
- */
-function runTechnicalChecks(): SEOCategoryResult {
-  const issues: SEOIssue[] = [
-    {
-      id: 'tech-1',
-      type: 'warning',
-      category: 'technical',
-      code: 'META_TITLE_LENGTH',
-      title: 'Meta titles need optimization',
-      description: '3 pages have meta titles outside the optimal 50-60 character range.',
-      affectedPages: ['/treatments/ed', '/treatments/trt', '/about'],
-      howToFix: 'Edit the meta titles to be between 50-60 characters for optimal display in search results.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'medium',
-      effort: 'low',
-    },
-    {
-      id: 'tech-2',
-      type: 'info',
-      category: 'technical',
-      code: 'MISSING_CANONICAL',
-      title: 'Missing canonical URLs',
-      description: '2 pages are missing self-referencing canonical URLs.',
-      affectedPages: ['/health-library/article-1', '/health-library/article-2'],
-      howToFix: 'Add <link rel="canonical" href="..."> to each page pointing to itself.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'low',
-      effort: 'low',
-    },
-  ];
-
-  return {
-    score: 85,
-    weight: 0.25,
-    passed: 12,
-    failed: 1,
-    warnings: 2,
-    issues,
-  };
-}
-
-/**
- * Run content SEO checks
- */
-function runContentChecks(): SEOCategoryResult {
-  const issues: SEOIssue[] = [
-    {
-      id: 'content-1',
-      type: 'warning',
-      category: 'content',
-      code: 'THIN_CONTENT',
-      title: 'Thin content detected',
-      description: '2 service pages have less than 500 words of content.',
-      affectedPages: ['/treatments/b12-injections', '/treatments/nutritional-counseling'],
-      howToFix: 'Expand the content to at least 500 words with helpful, relevant information.',
-      autoFixAvailable: false,
-      impact: 'medium',
-      effort: 'medium',
-    },
-    {
-      id: 'content-2',
-      type: 'info',
-      category: 'content',
-      code: 'MISSING_ALT_TEXT',
-      title: 'Images missing alt text',
-      description: '5 images are missing descriptive alt text.',
-      affectedPages: ['/treatments/ed', '/about', '/locations/green-bay'],
-      howToFix: 'Add descriptive alt text to all images that describes the image content.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'low',
-      effort: 'low',
-    },
-  ];
-
-  return {
-    score: 78,
-    weight: 0.25,
-    passed: 10,
-    failed: 1,
-    warnings: 2,
-    issues,
-  };
-}
-
-/**
- * Run local SEO checks
- */
-function runLocalSeoChecks(): SEOCategoryResult {
-  const issues: SEOIssue[] = [
-    {
-      id: 'local-1',
-      type: 'critical',
-      category: 'local_seo',
-      code: 'MISSING_NAP',
-      title: 'NAP not on all pages',
-      description: 'Name, Address, and Phone number are not visible in the footer of 3 pages.',
-      affectedPages: ['/health-library/article-1', '/health-library/article-2', '/book-appointment'],
-      howToFix: 'Add the business NAP information to the footer component on all pages.',
-      autoFixAvailable: false,
-      impact: 'high',
-      effort: 'low',
-    },
-    {
-      id: 'local-2',
-      type: 'warning',
-      category: 'local_seo',
-      code: 'MISSING_LOCATION_PAGES',
-      title: 'Location×Service pages incomplete',
-      description: '4 location×service combinations are missing dedicated pages.',
-      affectedPages: [],
-      howToFix: 'Generate local SEO pages for all location and service combinations using the Quick Action.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/generate-local-pages',
-      impact: 'high',
-      effort: 'medium',
-    },
-  ];
-
-  return {
-    score: 72,
-    weight: 0.25,
-    passed: 8,
-    failed: 2,
-    warnings: 1,
-    issues,
-  };
-}
-
-/**
- * Run schema markup checks
- */
-function runSchemaChecks(): SEOCategoryResult {
-  const issues: SEOIssue[] = [
-    {
-      id: 'schema-1',
-      type: 'warning',
-      category: 'schema',
-      code: 'MISSING_FAQ_SCHEMA',
-      title: 'Missing FAQPage schema',
-      description: '3 pages with FAQ sections are missing FAQPage structured data.',
-      affectedPages: ['/treatments/ed', '/treatments/trt', '/treatments/weight-loss'],
-      howToFix: 'Add FAQPage schema markup to pages that contain FAQ sections.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'medium',
-      effort: 'low',
-    },
-    {
-      id: 'schema-2',
-      type: 'info',
-      category: 'schema',
-      code: 'INCOMPLETE_PHYSICIAN_SCHEMA',
-      title: 'Physician schema missing fields',
-      description: 'Physician schema is missing education and certification fields.',
-      affectedPages: ['/team/dr-smith'],
-      howToFix: 'Add alumniOf and hasCredential properties to Physician schema.',
-      autoFixAvailable: false,
-      impact: 'low',
-      effort: 'low',
-    },
-  ];
-
-  return {
-    score: 80,
-    weight: 0.15,
-    passed: 9,
-    failed: 0,
-    warnings: 2,
-    issues,
-  };
-}
-
-/**
- * Run E-E-A-T compliance checks
- */
-function runEeatChecks(): SEOCategoryResult {
-  const issues: SEOIssue[] = [
-    {
-      id: 'eeat-1',
-      type: 'warning',
-      category: 'eeat',
-      code: 'MISSING_MEDICAL_REVIEWER',
-      title: 'Articles missing medical reviewer',
-      description: '4 health articles are missing a medical reviewer attribution.',
-      affectedPages: ['/health-library/article-1', '/health-library/article-2'],
-      howToFix: 'Add medical reviewer badge to all health articles using the MedicalReviewer component.',
-      autoFixAvailable: true,
-      autoFixAction: '/api/healthcare/auto-fix',
-      impact: 'high',
-      effort: 'low',
-    },
-    {
-      id: 'eeat-2',
-      type: 'info',
-      category: 'eeat',
-      code: 'STALE_CONTENT',
-      title: 'Content needs review',
-      description: '2 articles haven\'t been reviewed in over 12 months.',
-      affectedPages: ['/health-library/old-article-1', '/health-library/old-article-2'],
-      howToFix: 'Review and update content, then update the lastReviewedAt date.',
-      autoFixAvailable: false,
-      impact: 'medium',
-      effort: 'medium',
-    },
-  ];
-
-  return {
-    score: 75,
-    weight: 0.10,
-    passed: 6,
-    failed: 0,
-    warnings: 2,
-    issues,
-  };
-}
-
-/**
- * Generate prioritized recommendations from issues
- */
-function generateRecommendations(issues: SEOIssue[]): SEORecommendation[] {
-  const recommendations: SEORecommendation[] = [];
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const { searchParams } = request.nextUrl;
+    const categories = parseAuditScope(searchParams.get('scope'));
+    if (!categories) {
+      return apiError(
+        'INVALID_SCOPE',
+        "scope must be 'full', 'quick' or a list of technical, content, local, schema, eeat, ai-search",
+        400
+      );
+    }
 
-  // Critical issues first
-  const criticalIssues = issues.filter((i) => i.type === 'critical');
-  if (criticalIssues.length > 0) {
-    recommendations.push({
-      priority: 1,
-      title: 'Fix critical SEO issues',
-      description: `You have ${criticalIssues.length} critical issue(s) that need immediate attention. These are severely impacting your search visibility.`,
-      expectedImpact: 'High - fixing these will significantly improve search rankings',
-      relatedIssues: criticalIssues.map((i) => i.id),
+    const { data: project, error } = await context.supabase
+      .from('projects')
+      .select('name, settings')
+      .eq('id', context.projectId)
+      .single();
+    if (error) throw error;
+
+    const settings = project.settings || {};
+    const baseUrl =
+      toOrigin(searchParams.get('baseUrl')) ||
+      toOrigin(settings.domain) ||
+      toOrigin(settings.importedFromUrl) ||
+      request.nextUrl.origin;
+
+    const [practice, customChecks] = await Promise.all([
+      loadPracticeContext(context.supabase, context.projectId),
+      listCustomChecks(context.supabase, context.user.id, { enabledOnly: true }),
+    ]);
+    const audit = await runSiteAudit(context.projectId, loadProjectSite(project), {
+      baseUrl,
+      categories,
+      practice,
+      customChecks,
     });
-  }
 
-  // Auto-fixable issues
-  const autoFixable = issues.filter((i) => i.autoFixAvailable);
-  if (autoFixable.length > 0) {
-    recommendations.push({
-      priority: 2,
-      title: 'Apply automatic fixes',
-      description: `${autoFixable.length} issue(s) can be automatically fixed. This is a quick win to improve your SEO score.`,
-      expectedImpact: 'Medium - quick improvements with minimal effort',
-      relatedIssues: autoFixable.map((i) => i.id),
-    });
-  }
+    if (!audit) {
+      return apiError('NO_PAGES', 'The site has no pages that can be audited', 400);
+    }
 
-  // High impact, low effort
-  const quickWins = issues.filter((i) => i.impact === 'high' && i.effort === 'low');
-  if (quickWins.length > 0) {
-    recommendations.push({
-      priority: 3,
-      title: 'Address quick wins',
-      description: `${quickWins.length} high-impact, low-effort improvement(s) available. These provide the best ROI for your time.`,
-      expectedImpact: 'High - significant improvement with minimal time investment',
-      relatedIssues: quickWins.map((i) => i.id),
+    const run = await saveAuditRun(context.supabase, {
+      projectId: context.projectId,
+      userId: context.user.id,
+      baseUrl,
+      categories,
+      ...audit,
     });
-  }
 
-  return recommendations;
+    return apiSuccess({ ...audit.summary, auditId: run.id });
+  } catch (error) {
+    return handleApiError(error, 'run SEO audit');
+  }
 }
@@ -0,0 +1,39 @@
+/**
+ * Single Medical Service API Routes
+ *
+ * GET /api/healthcare/services/[id]?projectId= - Get a service
+ * PATCH /api/healthcare/services/[id]?projectId= - Update a service
+ * DELETE /api/healthcare/services/[id]?projectId= - Delete a service
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  handleDeleteRequest,
+  handleGetRequest,
+  handleUpdateRequest,
+} from '@/lib/healthcare/api';
+import { SERVICE_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleGetRequest(request, SERVICE_RESOURCE, id);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleUpdateRequest(request, SERVICE_RESOURCE, id);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleDeleteRequest(request, SERVICE_RESOURCE, id);
+}
@@ -0,0 +1,18 @@
+/**
+ * Medical Services API Routes
+ *
+ * GET /api/healthcare/services?projectId= - List the practice's services
+ * POST /api/healthcare/services?projectId= - Create a service
+ */
+
+import { NextRequest } from 'next/server';
+import { handleCreateRequest, handleListRequest } from '@/lib/healthcare/api';
+import { SERVICE_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(request: NextRequest) {
+  return handleListRequest(request, SERVICE_RESOURCE);
+}
+
+export async function POST(request: NextRequest) {
+  return handleCreateRequest(request, SERVICE_RESOURCE);
+}
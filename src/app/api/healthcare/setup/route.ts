@@ -0,0 +1,59 @@
+/**
+ * POST /api/healthcare/setup?projectId=
+ *
+ * Instantiate a healthcare template from its setup wizard: creates the
+ * practice, locations, services and treatment options, the medical
+ * director's profile and the template's page skeleton. A project can be
+ * set up once; edit the records afterwards through their own routes.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getMissingFields,
+  getPracticeId,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { instantiateTemplate, validateTemplateSetup } from '@/lib/healthcare/scaffold';
+import { getTemplateById } from '@/lib/templates/healthcare';
+import type { TemplateSetupRequest } from '@/types/healthcare';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<TemplateSetupRequest>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, ['templateId', 'practice', 'locations', 'services']);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const template = getTemplateById(body.templateId!);
+    if (!template) return apiError('TEMPLATE_NOT_FOUND', `Unknown template "${body.templateId}"`, 404);
+
+    const setup = body as TemplateSetupRequest;
+    const invalid = validateTemplateSetup(template, setup);
+    if (invalid) return apiError('INVALID_SETUP', invalid, 400);
+
+    if (await getPracticeId(context.supabase, context.projectId)) {
+      return apiError('PRACTICE_EXISTS', 'This project already has a practice', 409);
+    }
+
+    const { data: project, error } = await context.supabase
+      .from('projects')
+      .select('id, name, settings')
+      .eq('id', context.projectId)
+      .single();
+    if (error) throw error;
+
+    return apiSuccess(await instantiateTemplate(context.supabase, project, template, setup), 201);
+  } catch (error) {
+    return handleApiError(error, 'set up practice from template');
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * POST /api/healthcare/testimonials/[id]/moderation?projectId=
+ *
+ * Approve a testimonial, publishing it and counting it in the practice's
+ * ratings, or reject it. Optionally marks the reviewer as a verified patient.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getPracticeResource,
+  handleApiError,
+  invalidBodyError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { TESTIMONIAL_RESOURCE } from '@/lib/healthcare/resources';
+import { moderateTestimonial } from '@/lib/healthcare/testimonials';
+import type { TestimonialModerationRequest } from '@/types/healthcare';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<TestimonialModerationRequest>(request);
+    if (!body) return invalidBodyError();
+
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return apiError('INVALID_DECISION', "Decision must be 'approve' or 'reject'", 400);
+    }
+    if (body.verified !== undefined && typeof body.verified !== 'boolean') {
+      return apiError('INVALID_INPUT', 'verified must be true or false', 400);
+    }
+
+    const testimonial = await getPracticeResource(TESTIMONIAL_RESOURCE, context, id);
+    if (!testimonial) return apiError('NOT_FOUND', 'Testimonial not found', 404);
+
+    return apiSuccess(
+      await moderateTestimonial(context.supabase, testimonial, {
+        decision: body.decision,
+        note: body.note?.trim() || undefined,
+        verified: body.verified,
+        userId: context.user.id,
+      })
+    );
+  } catch (error) {
+    return handleApiError(error, 'moderate testimonial');
+  }
+}
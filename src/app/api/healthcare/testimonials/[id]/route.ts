@@ -0,0 +1,42 @@
+/**
+ * Single Testimonial API Routes
+ *
+ * GET /api/healthcare/testimonials/[id]?projectId= - Get a testimonial
+ * PATCH /api/healthcare/testimonials/[id]?projectId= - Update a testimonial
+ * DELETE /api/healthcare/testimonials/[id]?projectId= - Delete a testimonial
+ *
+ * Updates are redacted like new testimonials: a changed patient name is
+ * stored as initials and removed from the title and content.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  handleDeleteRequest,
+  handleGetRequest,
+  handleUpdateRequest,
+} from '@/lib/healthcare/api';
+import { TESTIMONIAL_RESOURCE } from '@/lib/healthcare/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleGetRequest(request, TESTIMONIAL_RESOURCE, id);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleUpdateRequest(request, TESTIMONIAL_RESOURCE, id);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleDeleteRequest(request, TESTIMONIAL_RESOURCE, id);
+}
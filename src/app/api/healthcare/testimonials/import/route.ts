@@ -0,0 +1,73 @@
+/**
+ * POST /api/healthcare/testimonials/import?projectId=
+ *
+ * Import a CSV or JSON review export from Google, Healthgrades, Facebook,
+ * Yelp or a practice survey. Patient names are reduced to initials,
+ * reviews imported before are skipped and the rest wait for moderation.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getMissingFields,
+  getPracticeId,
+  getPracticeResource,
+  handleApiError,
+  invalidBodyError,
+  missingFieldsError,
+  practiceNotFoundError,
+  readJsonBody,
+} from '@/lib/healthcare/api';
+import { LOCATION_RESOURCE, SERVICE_RESOURCE } from '@/lib/healthcare/resources';
+import {
+  TESTIMONIAL_SOURCE_ADAPTERS,
+  getTestimonialSourceAdapter,
+  importTestimonials,
+  readImportRecords,
+} from '@/lib/healthcare/testimonials';
+import type { ImportTestimonialsRequest } from '@/types/healthcare';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<ImportTestimonialsRequest>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, ['source', 'format', 'data']);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const adapter = getTestimonialSourceAdapter(body.source!);
+    if (!adapter) {
+      return apiError('INVALID_SOURCE', `Source must be one of: ${Object.keys(TESTIMONIAL_SOURCE_ADAPTERS).join(', ')}`, 400);
+    }
+    if (body.format !== 'csv' && body.format !== 'json') {
+      return apiError('INVALID_FORMAT', "Format must be 'csv' or 'json'", 400);
+    }
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return practiceNotFoundError();
+
+    if (body.locationId && !(await getPracticeResource(LOCATION_RESOURCE, context, body.locationId))) {
+      return apiError('LOCATION_NOT_FOUND', 'Location not found', 404);
+    }
+    if (body.serviceId && !(await getPracticeResource(SERVICE_RESOURCE, context, body.serviceId))) {
+      return apiError('SERVICE_NOT_FOUND', 'Service not found', 404);
+    }
+
+    const parsed = readImportRecords(adapter, body.format, body.data!);
+    if (!parsed.records) return apiError('INVALID_IMPORT', parsed.error, 400);
+
+    const result = await importTestimonials(context.supabase, practiceId, adapter, parsed.records, {
+      locationId: body.locationId,
+      serviceId: body.serviceId,
+    });
+
+    return apiSuccess(result, result.imported > 0 ? 201 : 200);
+  } catch (error) {
+    return handleApiError(error, 'import testimonials');
+  }
+}
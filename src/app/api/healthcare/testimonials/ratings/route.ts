@@ -0,0 +1,24 @@
+/**
+ * GET /api/healthcare/testimonials/ratings?projectId=
+ *
+ * Rating value and review count of approved testimonials for the practice
+ * and for each location and service, as used in AggregateRating schema.
+ */
+
+import { NextRequest } from 'next/server';
+import { apiSuccess, authorizeProject, getPracticeId, handleApiError } from '@/lib/healthcare/api';
+import { getTestimonialRatings } from '@/lib/healthcare/testimonials';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return apiSuccess({ practice: null, locations: {}, services: {} });
+
+    return apiSuccess(await getTestimonialRatings(context.supabase, practiceId));
+  } catch (error) {
+    return handleApiError(error, 'fetch testimonial ratings');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Testimonials API Routes
+ *
+ * GET /api/healthcare/testimonials?projectId=&status=&locationId=&serviceId= - List testimonials,
+ *   e.g. status=pending for the moderation queue
+ * POST /api/healthcare/testimonials?projectId= - Add a testimonial (queued for moderation)
+ *
+ * Patient names are stored as initials and removed from the title and
+ * content, as for imported reviews.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  apiError,
+  apiSuccess,
+  authorizeProject,
+  getPracticeId,
+  handleApiError,
+  handleCreateRequest,
+} from '@/lib/healthcare/api';
+import { TESTIMONIAL_RESOURCE } from '@/lib/healthcare/resources';
+import { TESTIMONIAL_MODERATION_STATUSES, listTestimonials } from '@/lib/healthcare/testimonials';
+import type { TestimonialModerationStatus } from '@/types/healthcare';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return apiSuccess([]);
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status') as TestimonialModerationStatus | null;
+    if (status && !TESTIMONIAL_MODERATION_STATUSES.includes(status)) {
+      return apiError('INVALID_STATUS', `Status must be one of: ${TESTIMONIAL_MODERATION_STATUSES.join(', ')}`, 400);
+    }
+
+    return apiSuccess(
+      await listTestimonials(context.supabase, practiceId, {
+        moderationStatus: status ?? undefined,
+        locationId: params.get('locationId') ?? undefined,
+        serviceId: params.get('serviceId') ?? undefined,
+      })
+    );
+  } catch (error) {
+    return handleApiError(error, 'list testimonials');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return handleCreateRequest(request, TESTIMONIAL_RESOURCE);
+}
@@ -3,14 +3,34 @@
  *
  * POST /api/projects/[projectId]/build
  *
- * Streams AI responses for building website components.
+ * Streams AI responses for building website components as NDJSON events:
+ * `text` deltas for the chat transcript and `operation` events describing
+ * targeted edits to the site (see `@/lib/builder/operations`).
+ *
+ * Responses cut off at max_tokens are continued automatically a few times.
+ * If output is still cut off, or the stream fails part-way, open blocks are
+ * auto-completed and an `incomplete` event carries the raw output so the
+ * client can resume with `continueFrom`. A resumed response emits the block
+ * that was cut off again in full, so clients apply auto-completed operations
+ * only when no `incomplete` event follows.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { streamMessage } from '@/lib/claude/client';
+import { checkQuota, createUsageRecorder, getQuotaExceededMessage } from '@/lib/claude/usage';
+import { describeLLMError, getLLMErrorCode } from '@/lib/claude/resilience';
 import { buildSystemPrompt, type ProjectContext } from '@/lib/ai/system-prompt';
 import { detectIndustry } from '@/lib/ai/knowledge-base';
+import {
+  BUILD_STREAM_CONTENT_TYPE,
+  createOperationParser,
+  encodeStreamEvent,
+  type BuildStreamEvent,
+} from '@/lib/builder';
+
+/** Automatic continuations when the model stops at max_tokens */
+const MAX_CONTINUATIONS = 2;
 
 export async function POST(
   request: NextRequest,
@@ -44,7 +64,17 @@ export async function POST(
 
     // Parse request body
     const body = await request.json();
-    const { message, history = [], siteAnalysis, projectContext: clientContext } = body;
+    const {
+      message,
+      history = [],
+      siteAnalysis,
+      projectContext: clientContext,
+      sitePages,
+      targetPage,
+      currentPageHtml,
+      targetElement,
+      continueFrom,
+    } = body;
 
     if (!message) {
       return NextResponse.json(
@@ -53,6 +83,15 @@ export async function POST(
       );
     }
 
+    // Enforce monthly AI quotas before generating
+    const quota = await checkQuota(supabase, user.id, projectId);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { error: getQuotaExceededMessage(quota), quota },
+        { status: 429 }
+      );
+    }
+
     // Build comprehensive project context
     const settings = project.settings || {};
 
@@ -106,6 +145,10 @@ export async function POST(
         mobileScore: mergedAnalysis.mobileScore,
       },
       customInstructions: settings.customInstructions,
+      sitePages,
+      targetPage,
+      currentPageHtml,
+      targetElement,
     };
 
     // Build comprehensive system prompt
@@ -117,25 +160,71 @@ export async function POST(
       { role: 'user' as const, content: message },
     ];
 
-    // Create streaming response
+    // Create streaming response - model text is parsed into edit operations as it arrives
     const encoder = new TextEncoder();
+    const parser = createOperationParser();
+    const prefill: string = typeof continueFrom === 'string' ? continueFrom : '';
+
+    // A resumed response picks up mid-block - prime the parser with the output the client already has
+    if (prefill) parser.push(prefill);
+
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (event: BuildStreamEvent) => {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        };
+        const result = { output: prefill, stopReason: null as string | null };
+
         try {
-          for await (const chunk of streamMessage(messages, { systemPrompt })) {
-            controller.enqueue(encoder.encode(chunk));
+          for await (const chunk of streamMessage(messages, {
+            systemPrompt,
+            prefill,
+            maxContinuations: MAX_CONTINUATIONS,
+            onRetry: ({ attempt, delayMs, code }) => send({ type: 'retry', attempt, delayMs, reason: code }),
+            onStop: (stopReason) => {
+              result.stopReason = stopReason;
+            },
+            onUsage: createUsageRecorder(supabase, { userId: user.id, projectId, route: 'build' }),
+          })) {
+            result.output += chunk;
+            parser.push(chunk).forEach(send);
           }
-          controller.close();
+          parser.flush().forEach(send);
+
+          if (result.stopReason === 'max_tokens') {
+            send({
+              type: 'incomplete',
+              reason: 'max_tokens',
+              message: 'The response reached the length limit before it finished.',
+              partial: result.output,
+            });
+          }
+          send({ type: 'done' });
         } catch (error) {
           console.error('Streaming error:', error);
-          controller.error(error);
+
+          if (result.output.length > prefill.length) {
+            // Keep what was generated - complete open blocks and let the client resume
+            parser.flush().forEach(send);
+            send({
+              type: 'incomplete',
+              reason: getLLMErrorCode(error) === 'timeout' ? 'timeout' : 'error',
+              message: describeLLMError(error),
+              partial: result.output,
+            });
+            send({ type: 'done' });
+          } else {
+            send({ type: 'error', message: describeLLMError(error) });
+          }
+        } finally {
+          controller.close();
         }
       },
     });
 
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Type': BUILD_STREAM_CONTENT_TYPE,
         'Transfer-Encoding': 'chunked',
       },
     });
@@ -0,0 +1,217 @@
+/**
+ * Static Export API Route
+ *
+ * GET /api/projects/[projectId]/export - Download the site as a ZIP of static files
+ * POST /api/projects/[projectId]/export - Deploy: download the ZIP and record the export
+ *
+ * Query parameters:
+ * - baseUrl: public origin of the deployed site (defaults to the project domain)
+ *
+ * GET only reads the project; it includes the IndexNow key file once a
+ * deploy has stored a key. POST marks the project as deployed and stores
+ * the IndexNow key, compiled stylesheet and export details in its settings.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { deflateRawSync } from 'zlib';
+import { createClient } from '@/lib/supabase/server';
+import { loadProjectSite } from '@/lib/builder';
+import {
+  createZip,
+  ensureSiteStylesheet,
+  exportStaticSite,
+  usesTailwindRuntime,
+  type CompiledStylesheet,
+} from '@/lib/export';
+import { generateApiKey } from '@/lib/seo/ai-search/indexnow';
+import type { BusinessProfile } from '@/lib/seo/schema/types';
+import { toOrigin } from '@/lib/utils';
+
+type ExportOutcome =
+  | { response: NextResponse; export?: undefined }
+  | { response?: undefined; export: SiteExport };
+
+interface SiteExport {
+  supabase: SupabaseClient;
+  slug?: string;
+  settings: Record<string, unknown>;
+  baseUrl: string;
+  archive: Uint8Array<ArrayBuffer>;
+  pages: string[];
+  skipped: string[];
+  stylesheet: CompiledStylesheet | null;
+  indexNowKey?: string;
+  exportedAt: Date;
+}
+
+/**
+ * Load the project and export its site; `indexNowKey` is used when the
+ * project has none yet
+ */
+async function exportProject(
+  request: NextRequest,
+  projectId: string,
+  indexNowKey?: string
+): Promise<ExportOutcome> {
+  const supabase = await createClient();
+
+  // Check authentication
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  // Get the project
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (projectError || !project) {
+    return { response: NextResponse.json({ error: 'Project not found' }, { status: 404 }) };
+  }
+
+  const settings = project.settings || {};
+  const analysis = settings.importAnalysis || settings.analysisData || {};
+
+  const baseUrl =
+    toOrigin(request.nextUrl.searchParams.get('baseUrl')) ||
+    toOrigin(settings.domain) ||
+    toOrigin(settings.importedFromUrl);
+
+  if (!baseUrl) {
+    return {
+      response: NextResponse.json({ error: 'Set a domain for the project before exporting' }, { status: 400 }),
+    };
+  }
+
+  const site = loadProjectSite(project);
+  // Sites styled through the Tailwind CDN ship a compiled stylesheet instead
+  const stylesheet = usesTailwindRuntime(site.layout.head)
+    ? await ensureSiteStylesheet(site, settings.stylesheet)
+    : null;
+  const key: string | undefined = settings.indexNowKey || indexNowKey;
+  const exportedAt = new Date();
+
+  const business: BusinessProfile = {
+    id: project.id,
+    name: settings.businessName || analysis.businessName || site.name,
+    description: project.description || analysis.description,
+    industry: settings.industry || 'general',
+    specialty: settings.specialty,
+    phone: settings.phone || analysis.contactInfo?.phone || '',
+    email: settings.email || analysis.contactInfo?.email,
+    website: baseUrl,
+  };
+
+  const { files, pages, skipped } = exportStaticSite(site, {
+    baseUrl,
+    business,
+    indexNowKey: key,
+    exportedAt,
+    tailwindCss: stylesheet?.css,
+  });
+
+  if (pages.length === 0) {
+    return {
+      response: NextResponse.json({ error: 'The site has no pages that can be exported' }, { status: 400 }),
+    };
+  }
+
+  return {
+    export: {
+      supabase,
+      slug: project.slug,
+      settings,
+      baseUrl,
+      archive: createZip(files, (data) => deflateRawSync(data, { level: 9 })),
+      pages: pages.map((page) => page.path),
+      skipped,
+      stylesheet,
+      indexNowKey: key,
+      exportedAt,
+    },
+  };
+}
+
+function archiveResponse(result: SiteExport): NextResponse {
+  return new NextResponse(result.archive, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${result.slug || 'site'}.zip"`,
+      'Content-Length': String(result.archive.length),
+      'Cache-Control': 'no-store',
+      'X-Exported-Pages': String(result.pages.length),
+      'X-Skipped-Pages': result.skipped.join(','),
+    },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const { response, export: result } = await exportProject(request, projectId);
+    if (response) return response;
+
+    return archiveResponse(result);
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const { response, export: result } = await exportProject(request, projectId, generateApiKey());
+    if (response) return response;
+
+    // Exporting is the deploy step - record it on the project
+    const { error: updateError } = await result.supabase
+      .from('projects')
+      .update({
+        status: 'deployed',
+        settings: {
+          ...result.settings,
+          ...(result.stylesheet && { stylesheet: result.stylesheet }),
+          indexNowKey: result.indexNowKey,
+          lastExport: {
+            exportedAt: result.exportedAt.toISOString(),
+            baseUrl: result.baseUrl,
+            pageCount: result.pages.length,
+            skippedPages: result.skipped,
+          },
+        },
+        updated_at: result.exportedAt.toISOString(),
+      })
+      .eq('id', projectId);
+
+    if (updateError) {
+      console.error('Project export update error:', updateError);
+    }
+
+    return archiveResponse(result);
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
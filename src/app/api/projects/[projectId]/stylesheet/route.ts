@@ -0,0 +1,78 @@
+/**
+ * Project Stylesheet API Route
+ *
+ * POST /api/projects/[projectId]/stylesheet - Compile the purged Tailwind stylesheet
+ *
+ * Called after each save so exports can reuse the cached stylesheet. The
+ * cache is keyed by a hash of the site's class names, so unchanged sites
+ * are not recompiled.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { loadProjectSite } from '@/lib/builder';
+import { ensureSiteStylesheet, usesTailwindRuntime } from '@/lib/export';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the project
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const settings = project.settings || {};
+    const site = loadProjectSite(project);
+
+    if (!usesTailwindRuntime(site.layout.head)) {
+      return NextResponse.json({ stylesheet: null });
+    }
+
+    const stylesheet = await ensureSiteStylesheet(site, settings.stylesheet);
+
+    if (stylesheet !== settings.stylesheet) {
+      const { error: updateError } = await supabase
+        .from('projects')
+        .update({ settings: { ...settings, stylesheet } })
+        .eq('id', projectId);
+
+      if (updateError) {
+        console.error('Stylesheet update error:', updateError);
+        return NextResponse.json(
+          { error: 'Failed to save stylesheet' },
+          { status: 500 }
+        );
+      }
+    }
+
+    return NextResponse.json({ stylesheet });
+  } catch (error) {
+    console.error('Stylesheet compile error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
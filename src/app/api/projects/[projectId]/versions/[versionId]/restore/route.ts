@@ -0,0 +1,101 @@
+/**
+ * Restore Project Version API Route
+ *
+ * POST /api/projects/[projectId]/versions/[versionId]/restore
+ *
+ * Makes the version's site the current project site and records the
+ * restore as a new version, so restoring can itself be undone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { mapVersionRow, renderPage, type SiteModel } from '@/lib/builder';
+import { insertVersion } from '@/lib/builder/version-store';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; versionId: string }> }
+) {
+  try {
+    const { projectId, versionId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the project to verify ownership and merge settings
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: source, error: versionError } = await supabase
+      .from('project_versions')
+      .select('version_number, site')
+      .eq('id', versionId)
+      .eq('project_id', projectId)
+      .single();
+
+    if (versionError || !source) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const site = source.site as SiteModel;
+
+    // Update the project with the restored site
+    const { data: updatedProject, error: updateError } = await supabase
+      .from('projects')
+      .update({
+        settings: {
+          ...(project.settings || {}),
+          site,
+          generatedCode: renderPage(site, '/'),
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', projectId)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('Project restore error:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to restore version' },
+        { status: 500 }
+      );
+    }
+
+    const version = await insertVersion(supabase, {
+      projectId,
+      userId: user.id,
+      site,
+      source: 'restore',
+      label: `Restored from v${source.version_number}`,
+    });
+
+    return NextResponse.json({
+      project: updatedProject,
+      site,
+      version: version ? mapVersionRow(version) : null,
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Single Project Version API Routes
+ *
+ * GET /api/projects/[projectId]/versions/[versionId] - Get a version with its site snapshot
+ * PATCH /api/projects/[projectId]/versions/[versionId] - Update a version label
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { mapVersionRow, type ProjectVersionRow } from '@/lib/builder';
+import { VERSION_SUMMARY_COLUMNS } from '@/lib/builder/version-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; versionId: string }> }
+) {
+  try {
+    const { projectId, versionId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: version, error: versionError } = await supabase
+      .from('project_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('project_id', projectId)
+      .single();
+
+    if (versionError || !version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version: mapVersionRow(version as ProjectVersionRow) });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; versionId: string }> }
+) {
+  try {
+    const { projectId, versionId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Parse request body
+    const body: unknown = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { label: requested } = body as { label?: unknown };
+    if (requested != null && typeof requested !== 'string') {
+      return NextResponse.json(
+        { error: 'Label must be a string' },
+        { status: 400 }
+      );
+    }
+    const label = requested?.trim() || null;
+
+    const { data: version, error: updateError } = await supabase
+      .from('project_versions')
+      .update({ label })
+      .eq('id', versionId)
+      .eq('project_id', projectId)
+      .select(VERSION_SUMMARY_COLUMNS)
+      .single();
+
+    if (updateError || !version) {
+      console.error('Version update error:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update version' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ version: mapVersionRow(version as ProjectVersionRow) });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Project Version Diff API Route
+ *
+ * GET /api/projects/[projectId]/versions/diff?from=<versionId>&to=<versionId|current>
+ *
+ * Returns a side-by-side line diff of every page's rendered HTML.
+ * `to` defaults to the project's current saved site.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { diffSites, type SiteModel } from '@/lib/builder';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the project to verify ownership and read the current site
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') || 'current';
+    const page = searchParams.get('page');
+
+    if (!from) {
+      return NextResponse.json(
+        { error: 'from parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const loadSite = async (ref: string): Promise<SiteModel | null> => {
+      if (ref === 'current') {
+        return (project.settings?.site as SiteModel) || null;
+      }
+      const { data } = await supabase
+        .from('project_versions')
+        .select('site')
+        .eq('id', ref)
+        .eq('project_id', projectId)
+        .single();
+      return (data?.site as SiteModel) || null;
+    };
+
+    const [before, after] = await Promise.all([loadSite(from), loadSite(to)]);
+
+    if (!before || !after) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const pages = diffSites(before, after).filter((diff) => !page || diff.path === page);
+
+    return NextResponse.json({
+      diff: {
+        from,
+        to,
+        pages,
+        additions: pages.reduce((sum, p) => sum + p.additions, 0),
+        deletions: pages.reduce((sum, p) => sum + p.deletions, 0),
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
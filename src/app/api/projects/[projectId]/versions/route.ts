@@ -0,0 +1,173 @@
+/**
+ * Project Versions API Routes
+ *
+ * GET /api/projects/[projectId]/versions - List versions (newest first)
+ * POST /api/projects/[projectId]/versions - Create a version from a site snapshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  mapVersionRow,
+  type ProjectVersionRow,
+  type SiteModel,
+  type VersionSource,
+} from '@/lib/builder';
+import { insertVersion, VERSION_SUMMARY_COLUMNS } from '@/lib/builder/version-store';
+
+const VERSION_SOURCES: VersionSource[] = ['save', 'ai_generation', 'snapshot', 'restore'];
+
+const DEFAULT_VERSIONS_LIMIT = 50;
+const MAX_VERSIONS_LIMIT = 200;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const requested = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const limit = requested > 0 ? Math.min(requested, MAX_VERSIONS_LIMIT) : DEFAULT_VERSIONS_LIMIT;
+
+    // List versions without the site payload
+    const { data: rows, error: versionsError } = await supabase
+      .from('project_versions')
+      .select(VERSION_SUMMARY_COLUMNS)
+      .eq('project_id', projectId)
+      .order('version_number', { ascending: false })
+      .limit(limit);
+
+    if (versionsError) {
+      console.error('Versions fetch error:', versionsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch versions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      versions: (rows as ProjectVersionRow[]).map(mapVersionRow),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify ownership
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Parse request body
+    const body: unknown = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { site, label, source = 'save' } = body as {
+      site?: SiteModel;
+      label?: unknown;
+      source?: VersionSource;
+    };
+
+    if (!site || typeof site !== 'object' || !Array.isArray(site.pages)) {
+      return NextResponse.json(
+        { error: 'Site snapshot is required' },
+        { status: 400 }
+      );
+    }
+
+    if (label != null && typeof label !== 'string') {
+      return NextResponse.json(
+        { error: 'Label must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (!VERSION_SOURCES.includes(source)) {
+      return NextResponse.json(
+        { error: `Invalid source. Must be one of: ${VERSION_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const version = await insertVersion(supabase, {
+      projectId,
+      userId: user.id,
+      site,
+      source,
+      label: label?.trim() || null,
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Failed to create version' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ version: mapVersionRow(version) }, { status: 201 });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
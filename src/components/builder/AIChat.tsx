@@ -21,8 +21,24 @@ import {
   FolderPlus,
   Code2,
   Eye,
+  FileText,
+  MousePointerClick,
+  X,
+  AlertTriangle,
+  PlayCircle,
 } from 'lucide-react';
 import { buildInitialMessage, type ProjectContext } from '@/lib/ai/system-prompt';
+import {
+  createStreamEventDecoder,
+  describeOperation,
+  type ApplyOperationsResult,
+  type BuildStreamEvent,
+  stripBridgeAttributes,
+  type EditOperation,
+  type ElementSelection,
+  type IncompleteReason,
+  type SitePage,
+} from '@/lib/builder';
 
 interface Message {
   id: string;
@@ -30,8 +46,21 @@ interface Message {
   content: string;
   timestamp: Date;
   isStreaming?: boolean;
+  operations?: EditOperation[];
+  failedOperations?: ApplyOperationsResult['failed'];
+  /** Operations auto-completed from a truncated block */
+  repairedCount?: number;
+  /** Set when the response was cut off; `body` and `partial` resume it */
+  incomplete?: {
+    reason: IncompleteReason;
+    message: string;
+    partial: string;
+    body: BuildRequestBody;
+  };
 }
 
+type BuildRequestBody = Record<string, unknown>;
+
 interface BuildSummary {
   filesCreated: number;
   componentsCreated: number;
@@ -54,12 +83,29 @@ interface SiteAnalysis {
 interface AIChatProps {
   projectId: string;
   projectContext?: Partial<ProjectContext>;
-  onCodeGenerated?: (code: string, language: string) => void;
+  pages?: SitePage[];
+  targetPage?: string;
+  onTargetPageChange?: (path: string) => void;
+  /** Element picked in the preview; edits are scoped to it when set */
+  targetElement?: ElementSelection | null;
+  onClearTargetElement?: () => void;
+  onOperations?: (operations: EditOperation[], fallbackPage?: string) => ApplyOperationsResult | void;
   onPreviewReady?: (url: string) => void;
   onBuildStateChange?: (state: { isBuilding: boolean; progress: number; currentStep: string }) => void;
 }
 
-export function AIChat({ projectId, projectContext, onCodeGenerated, onPreviewReady, onBuildStateChange }: AIChatProps) {
+export function AIChat({
+  projectId,
+  projectContext,
+  pages,
+  targetPage,
+  onTargetPageChange,
+  targetElement,
+  onClearTargetElement,
+  onOperations,
+  onPreviewReady,
+  onBuildStateChange,
+}: AIChatProps) {
   // Generate smart initial message based on project context
   const initialMessage = useMemo(() => {
     if (projectContext?.businessName && projectContext?.industry) {
@@ -198,21 +244,6 @@ export function AIChat({ projectId, projectContext, onCodeGenerated, onPreviewRe
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const extractCodeBlocks = (content: string) => {
-    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
-    const blocks: { language: string; code: string }[] = [];
-    let match;
-
-    while ((match = codeBlockRegex.exec(content)) !== null) {
-      blocks.push({
-        language: match[1] || 'text',
-        code: match[2].trim(),
-      });
-    }
-
-    return blocks;
-  };
-
   // Estimate build time based on prompt complexity
   const estimateBuildTime = (prompt: string): number => {
     const wordCount = prompt.split(/\s+/).length;
@@ -295,28 +326,131 @@ User's request: ${userMessage.content}
 IMPORTANT: You have all the data you need from the analysis above. Generate code immediately based on this data. Do NOT ask for the current code, colors, or other information - use what's provided above.`;
       }
 
+      const body: BuildRequestBody = {
+        message: enhancedMessage,
+        history: messages.map((m) => ({
+          role: m.role,
+          content: m.operations?.length
+            ? `${m.content}\n\n[Applied edits: ${m.operations.map(describeOperation).join('; ')}]`
+            : m.content,
+        })),
+        siteAnalysis: analysisData,
+        projectContext,
+        sitePages: pages?.map((p) => ({
+          path: p.path,
+          name: p.name,
+          description: p.description,
+          hasContent: p.html.trim().length > 0,
+        })),
+        targetPage,
+        currentPageHtml: pages?.find((p) => p.path === (targetPage || '/'))?.html,
+        targetElement: targetElement
+          ? {
+              selector: targetElement.selector,
+              html: stripBridgeAttributes(targetElement.html),
+              label: targetElement.label,
+              scope: targetElement.scope,
+            }
+          : undefined,
+      };
+
+      await streamBuild(assistantId, body);
+    } finally {
+      setIsLoading(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  /**
+   * Resume a response that was cut off, appending to the same message
+   */
+  const continueMessage = async (message: Message) => {
+    if (!message.incomplete || isLoading) return;
+
+    setIsLoading(true);
+    setBuildComplete(false);
+    setEstimatedTime(20);
+    setMessages((prev) =>
+      prev.map((m) => (m.id === message.id ? { ...m, isStreaming: true, incomplete: undefined } : m))
+    );
+    setCurrentStep('Continuing...');
+    onBuildStateChange?.({ isBuilding: true, progress: 40, currentStep: 'Continuing...' });
+
+    try {
+      await streamBuild(
+        message.id,
+        { ...message.incomplete.body, continueFrom: message.incomplete.partial },
+        message
+      );
+    } finally {
+      setIsLoading(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  /**
+   * Stream a build response into an assistant message. `previous` is the
+   * message being continued, whose content and changes are kept.
+   */
+  const streamBuild = async (
+    assistantId: string,
+    body: BuildRequestBody,
+    previous?: Message
+  ) => {
+    const previousOperations = previous?.operations || [];
+
+    try {
       const response = await fetch(`/api/projects/${projectId}/build`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: enhancedMessage,
-          history: messages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          siteAnalysis: analysisData,
-          projectContext,
-        }),
+        body: JSON.stringify(body),
       });
 
+      // Monthly AI quota reached - show the server's explanation instead of a generic error
+      if (response.status === 429) {
+        const data = await response.json().catch(() => ({}));
+        const notice = data.error || 'The monthly AI quota has been reached.';
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === assistantId
+              ? { ...m, content: previous ? `${previous.content}\n\n${notice}` : notice, isStreaming: false }
+              : m
+          )
+        );
+        onBuildStateChange?.({ isBuilding: false, progress: 0, currentStep: '' });
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to get response');
       }
 
-      // Handle streaming response
+      // Handle NDJSON event stream
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
-      let fullContent = '';
+      const events = createStreamEventDecoder();
+      const operations: EditOperation[] = [];
+      let fullContent = previous?.content || '';
+      let streamError: string | null = null;
+      let incomplete: { reason: IncompleteReason; message: string; partial: string } | null = null;
+      const repaired: EditOperation[] = [];
+
+      const handleEvent = (event: BuildStreamEvent) => {
+        if (event.type === 'text') fullContent += event.delta;
+        if (event.type === 'operation') {
+          if (event.repaired) repaired.push(event.operation);
+          else operations.push(event.operation);
+        }
+        if (event.type === 'retry') {
+          const step = `AI service busy - retrying in ${Math.ceil(event.delayMs / 1000)}s...`;
+          setCurrentStep(step);
+          onBuildStateChange?.({ isBuilding: true, progress: 40, currentStep: step });
+        }
+        if (event.type === 'incomplete') {
+          incomplete = { reason: event.reason, message: event.message, partial: event.partial };
+        }
+        if (event.type === 'error') streamError = event.message;
+      };
 
       setCurrentStep('Writing code...');
       onBuildStateChange?.({ isBuilding: true, progress: 60, currentStep: 'Writing code...' });
@@ -327,9 +461,8 @@ IMPORTANT: You have all the data you need from the analysis above. Generate code
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value);
-          fullContent += chunk;
           chunkCount++;
+          events.push(decoder.decode(value, { stream: true })).forEach(handleEvent);
 
           // Update progress as we receive chunks
           const progress = Math.min(60 + (chunkCount * 2), 90);
@@ -338,56 +471,89 @@ IMPORTANT: You have all the data you need from the analysis above. Generate code
           setMessages((prev) =>
             prev.map((m) =>
               m.id === assistantId
-                ? { ...m, content: fullContent }
+                ? { ...m, content: fullContent, operations: [...previousOperations, ...operations] }
                 : m
             )
           );
         }
+
+        events.flush().forEach(handleEvent);
+      }
+
+      if (streamError && operations.length === 0) {
+        throw new Error(streamError);
       }
 
       setCurrentStep('Finalizing...');
       onBuildStateChange?.({ isBuilding: true, progress: 95, currentStep: 'Finalizing...' });
 
+      // A resumed response re-sends the block that was cut off in full, so
+      // auto-completed operations are only applied when it cannot be resumed
+      const cutOff = incomplete as { reason: IncompleteReason; message: string; partial: string } | null;
+      if (!cutOff) operations.push(...repaired);
+      const heldBack = cutOff ? repaired.length : 0;
+
+      // Apply the edit operations to the site
+      const result = operations.length > 0 ? onOperations?.(operations, targetPage) : undefined;
+
       // Mark streaming as complete
       setMessages((prev) =>
         prev.map((m) =>
           m.id === assistantId
-            ? { ...m, isStreaming: false }
+            ? {
+                ...m,
+                content: fullContent,
+                operations: [...previousOperations, ...(result ? result.applied : operations)],
+                failedOperations: [...(previous?.failedOperations || []), ...(result?.failed || [])],
+                repairedCount: (previous?.repairedCount || 0) + (cutOff ? 0 : repaired.length),
+                incomplete: cutOff
+                  ? {
+                      ...cutOff,
+                      message: heldBack
+                        ? `${cutOff.message} ${heldBack === 1 ? '1 unfinished change' : `${heldBack} unfinished changes`} will be made when you continue.`
+                        : cutOff.message,
+                      body,
+                    }
+                  : undefined,
+                isStreaming: false,
+              }
             : m
         )
       );
 
-      // Extract and notify about any code blocks
-      const codeBlocks = extractCodeBlocks(fullContent);
-      if (codeBlocks.length > 0 && onCodeGenerated) {
-        codeBlocks.forEach((block) => {
-          onCodeGenerated(block.code, block.language);
-        });
-      }
-
-      // Trigger build complete celebration if code was generated
-      if (codeBlocks.length > 0) {
+      // Trigger build complete celebration if the site changed
+      if (!cutOff && (result ? result.applied.length > 0 : operations.length > 0)) {
         handleBuildComplete();
       }
 
-      onBuildStateChange?.({ isBuilding: false, progress: 100, currentStep: 'Complete!' });
+      onBuildStateChange?.({ isBuilding: false, progress: 100, currentStep: cutOff ? 'Incomplete' : 'Complete!' });
     } catch (error) {
       console.error('Chat error:', error);
+      const reason = error instanceof Error && error.message !== 'Failed to get response' ? error.message : null;
       setMessages((prev) =>
         prev.map((m) =>
           m.id === assistantId
-            ? {
-                ...m,
-                content: 'Sorry, I encountered an error. Please try again.',
-                isStreaming: false,
-              }
+            ? previous
+              ? {
+                  // Keep the earlier output so the response can be resumed again
+                  ...previous,
+                  isStreaming: false,
+                  incomplete: previous.incomplete && {
+                    ...previous.incomplete,
+                    message: reason || previous.incomplete.message,
+                  },
+                }
+              : {
+                  ...m,
+                  content: reason
+                    ? `Sorry, I encountered an error: ${reason}`
+                    : 'Sorry, I encountered an error. Please try again.',
+                  isStreaming: false,
+                }
             : m
         )
       );
       onBuildStateChange?.({ isBuilding: false, progress: 0, currentStep: '' });
-    } finally {
-      setIsLoading(false);
-      inputRef.current?.focus();
     }
   };
 
@@ -404,7 +570,7 @@ IMPORTANT: You have all the data you need from the analysis above. Generate code
     // Parse code blocks
     const parts: React.ReactNode[] = [];
     let lastIndex = 0;
-    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
+    const codeBlockRegex = /```(\w+)?[^\n]*\n([\s\S]*?)```/g;
     let match;
     let codeBlockCount = 0;
 
@@ -487,6 +653,93 @@ IMPORTANT: You have all the data you need from the analysis above. Generate code
     return parts.length > 0 ? parts : content;
   };
 
+  const renderOperations = (message: Message) => {
+    const operations = message.operations || [];
+    const failed = message.failedOperations || [];
+    if (operations.length === 0 && failed.length === 0) return null;
+
+    return (
+      <div className="space-y-2 mt-3">
+        {operations.length > 0 &&
+          (developerMode ? (
+            operations.map((operation, index) => {
+              const html = 'html' in operation ? operation.html : '';
+              return (
+                <div
+                  key={`op-${index}`}
+                  className="rounded-lg overflow-hidden bg-slate-900 border border-slate-700"
+                >
+                  <div className="flex items-center justify-between px-4 py-2 bg-slate-800 border-b border-slate-700">
+                    <span className="text-xs text-slate-400 font-mono">
+                      {describeOperation(operation)}
+                    </span>
+                    {html && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-slate-400 hover:text-white"
+                        onClick={() => copyToClipboard(html, `${message.id}-op-${index}`)}
+                      >
+                        {copiedId === `${message.id}-op-${index}` ? (
+                          <Check className="h-3 w-3" />
+                        ) : (
+                          <Copy className="h-3 w-3" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                  {html && (
+                    <pre className="p-4 overflow-x-auto text-sm max-h-[300px]">
+                      <code className="text-slate-300">{html}</code>
+                    </pre>
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <div className="p-4 rounded-xl bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/20">
+              <div className="flex items-start gap-3">
+                <div className="w-10 h-10 shrink-0 rounded-lg bg-green-500/20 flex items-center justify-center">
+                  <Check className="h-5 w-5 text-green-500" />
+                </div>
+                <div>
+                  <p className="font-medium text-green-600 dark:text-green-400">
+                    {operations.length === 1 ? '1 change applied' : `${operations.length} changes applied`}
+                  </p>
+                  <ul className="text-sm text-muted-foreground mt-1 space-y-0.5">
+                    {operations.map((operation, index) => (
+                      <li key={`op-${index}`}>{describeOperation(operation)}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          ))}
+
+        {!!message.repairedCount && (
+          <p className="text-xs text-muted-foreground">
+            {message.repairedCount === 1
+              ? '1 change was cut off and has been auto-completed - review it in the preview.'
+              : `${message.repairedCount} changes were cut off and have been auto-completed - review them in the preview.`}
+          </p>
+        )}
+
+        {failed.length > 0 && (
+          <div className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-sm">
+            <p className="font-medium text-amber-600 dark:text-amber-400">
+              {failed.length === 1 ? '1 change could not be applied' : `${failed.length} changes could not be applied`}
+            </p>
+            <ul className="text-muted-foreground mt-1 space-y-0.5">
+              {failed.map((item, index) => (
+                <li key={`failed-${index}`}>{item.reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-background border rounded-lg">
       {/* Header */}
@@ -551,6 +804,25 @@ IMPORTANT: You have all the data you need from the analysis above. Generate code
                   {message.isStreaming && (
                     <span className="inline-block w-2 h-4 ml-1 bg-current animate-pulse" />
                   )}
+                  {!message.isStreaming && renderOperations(message)}
+                  {!message.isStreaming && message.incomplete && (
+                    <div className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl bg-amber-500/10 border border-amber-500/20">
+                      <div className="flex items-start gap-2 text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>{message.incomplete.message}</span>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="shrink-0 gap-1"
+                        disabled={isLoading}
+                        onClick={() => continueMessage(message)}
+                      >
+                        <PlayCircle className="h-4 w-4" />
+                        Continue
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
               {message.role === 'user' && (
@@ -628,13 +900,53 @@ IMPORTANT: You have all the data you need from the analysis above. Generate code
 
       {/* Input */}
       <div className={`p-4 border-t ${isLoading ? 'animate-pulse bg-primary/5' : ''}`}>
+        {/* Target page selector */}
+        {pages && pages.length > 1 && (
+          <div className="flex items-center gap-2 mb-2">
+            <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-xs text-muted-foreground shrink-0">Editing</span>
+            <select
+              value={targetPage || '/'}
+              onChange={(e) => onTargetPageChange?.(e.target.value)}
+              disabled={isLoading}
+              className="flex-1 h-8 px-2 text-xs rounded-md border border-input bg-background"
+            >
+              {pages.map((page) => (
+                <option key={page.id} value={page.path}>
+                  {page.name} ({page.path})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {/* Element picked in the preview */}
+        {targetElement && (
+          <div className="flex items-center gap-2 mb-2 px-2 py-1 rounded-md border border-emerald-500/40 bg-emerald-500/10">
+            <MousePointerClick className="h-4 w-4 text-emerald-600 shrink-0" />
+            <span className="text-xs text-muted-foreground shrink-0">Targeting</span>
+            <code className="flex-1 text-xs truncate" title={targetElement.selector}>
+              {targetElement.label}
+              {targetElement.scope !== 'page' && ` (shared ${targetElement.scope})`}
+            </code>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={onClearTargetElement}
+              disabled={isLoading}
+              title="Clear target"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
         <div className="flex gap-2">
           <Input
             ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Ask me to build something..."
+            placeholder={targetElement ? `Describe a change to ${targetElement.label}...` : 'Ask me to build something...'}
             disabled={isLoading}
             className="flex-1"
           />
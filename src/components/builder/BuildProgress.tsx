@@ -22,7 +22,7 @@ interface BuildStep {
   description: string;
 }
 
-interface FileStatus {
+export interface FileStatus {
   path: string;
   status: 'completed' | 'in_progress' | 'queued';
 }
@@ -33,6 +33,9 @@ interface BuildProgressProps {
   onBuildComplete?: () => void;
   currentStep?: string; // Override step label from parent
   progress?: number; // Override progress from parent (0-100)
+  files?: FileStatus[]; // Real file/page statuses, e.g. from a generation job
+  title?: string;
+  description?: string;
 }
 
 const BUILD_STEPS: BuildStep[] = [
@@ -102,15 +105,19 @@ export function BuildProgress({
   onBuildComplete,
   currentStep: externalCurrentStep,
   progress: externalProgress,
+  files: externalFiles,
+  title = 'Building Your Site',
+  description = 'Please wait while we create your website',
 }: BuildProgressProps) {
   const [internalProgress, setInternalProgress] = useState(0);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [tipIndex, setTipIndex] = useState(0);
-  const [files, setFiles] = useState<FileStatus[]>([]);
+  const [simulatedFiles, setFiles] = useState<FileStatus[]>([]);
   const [elapsedTime, setElapsedTime] = useState(0);
 
   // Use external progress if provided, otherwise use internal
   const progress = externalProgress !== undefined ? externalProgress : internalProgress;
+  const files = externalFiles ?? simulatedFiles;
 
   // Progress simulation (only when no external progress)
   useEffect(() => {
@@ -162,9 +169,9 @@ export function BuildProgress({
     return () => clearInterval(tipInterval);
   }, [isBuilding]);
 
-  // Simulate file creation
+  // Simulate file creation (only when no external files)
   useEffect(() => {
-    if (!isBuilding) return;
+    if (!isBuilding || externalFiles) return;
 
     const fileInterval = setInterval(() => {
       setFiles((prev) => {
@@ -202,7 +209,7 @@ export function BuildProgress({
     }, estimatedTime * 100); // Stagger file creation
 
     return () => clearInterval(fileInterval);
-  }, [isBuilding, estimatedTime]);
+  }, [isBuilding, estimatedTime, externalFiles]);
 
   // Elapsed time counter
   useEffect(() => {
@@ -230,9 +237,9 @@ export function BuildProgress({
             <Rocket className="h-5 w-5 text-primary" />
           </div>
           <div>
-            <h3 className="font-semibold text-lg">Building Your Site</h3>
+            <h3 className="font-semibold text-lg">{title}</h3>
             <p className="text-sm text-muted-foreground">
-              Please wait while we create your website
+              {description}
             </p>
           </div>
         </div>
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ImageIcon, Check } from 'lucide-react';
+
+interface ImagePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Current image source and alt text */
+  src?: string;
+  alt?: string;
+  /** Images to offer, e.g. those already used on the site */
+  suggestions?: string[];
+  onSelect: (image: { src: string; alt: string }) => void;
+}
+
+export function ImagePicker({
+  open,
+  onOpenChange,
+  src = '',
+  alt = '',
+  suggestions = [],
+  onSelect,
+}: ImagePickerProps) {
+  const [url, setUrl] = useState(src);
+  const [altText, setAltText] = useState(alt);
+
+  // Start from the clicked image every time the picker opens
+  useEffect(() => {
+    if (open) {
+      setUrl(src);
+      setAltText(alt);
+    }
+  }, [open, src, alt]);
+
+  const handleApply = () => {
+    if (!url.trim()) return;
+    onSelect({ src: url.trim(), alt: altText.trim() });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ImageIcon className="h-5 w-5" />
+            Replace Image
+          </DialogTitle>
+          <DialogDescription>
+            Pick an image already used on the site or paste an image URL.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {suggestions.length > 0 && (
+            <ScrollArea className="h-56 rounded-md border p-2">
+              <div className="grid grid-cols-4 gap-2">
+                {suggestions.map((image) => (
+                  <button
+                    key={image}
+                    type="button"
+                    onClick={() => setUrl(image)}
+                    className={`relative aspect-square overflow-hidden rounded-md border-2 bg-muted transition ${
+                      url === image ? 'border-primary' : 'border-transparent hover:border-muted-foreground/40'
+                    }`}
+                    title={image}
+                  >
+                    <img src={image} alt="" className="h-full w-full object-cover" />
+                    {url === image && (
+                      <span className="absolute top-1 right-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                        <Check className="h-3 w-3" />
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="image-picker-url">Image URL</Label>
+            <Input
+              id="image-picker-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://..."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="image-picker-alt">Alt text</Label>
+            <Input
+              id="image-picker-alt"
+              value={altText}
+              onChange={(e) => setAltText(e.target.value)}
+              placeholder="Describe the image for screen readers and search engines"
+            />
+          </div>
+
+          {url.trim() && (
+            <div className="flex h-32 items-center justify-center overflow-hidden rounded-md border bg-muted">
+              <img src={url.trim()} alt={altText} className="max-h-full max-w-full object-contain" />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!url.trim() || (url.trim() === src && altText.trim() === alt)}>
+            Replace
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ImagePicker;
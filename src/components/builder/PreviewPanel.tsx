@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
@@ -11,7 +11,20 @@ import {
   ExternalLink,
   Maximize2,
   Loader2,
+  FileText,
+  MousePointerClick,
+  PencilLine,
 } from 'lucide-react';
+import { ImagePicker } from './ImagePicker';
+import {
+  PREVIEW_MESSAGES,
+  type ElementSelection,
+  type InlineEdit,
+  type PreviewImageTarget,
+  type PreviewMessage,
+  type PreviewMode,
+  type SitePage,
+} from '@/lib/builder';
 
 type DeviceType = 'desktop' | 'tablet' | 'mobile';
 
@@ -19,6 +32,17 @@ interface PreviewPanelProps {
   previewUrl?: string | null;
   html?: string; // Support inline HTML via srcDoc
   isLoading?: boolean;
+  pages?: SitePage[];
+  activePage?: string;
+  onPageChange?: (path: string) => void;
+  /** Element currently pinned as the AI edit target */
+  selection?: ElementSelection | null;
+  /** Enables select mode; called with the element picked in the preview */
+  onSelect?: (selection: ElementSelection) => void;
+  /** Enables edit mode; called with text and image changes made in the preview */
+  onInlineEdit?: (edit: InlineEdit) => void;
+  /** Images offered by the image picker */
+  images?: string[];
 }
 
 const DEVICE_CONFIGS: Record<DeviceType, { width: string; height: string; label: string }> = {
@@ -27,10 +51,70 @@ const DEVICE_CONFIGS: Record<DeviceType, { width: string; height: string; label:
   mobile: { width: '375px', height: '667px', label: 'Mobile' },
 };
 
-export function PreviewPanel({ previewUrl, html, isLoading = false }: PreviewPanelProps) {
+export function PreviewPanel({
+  previewUrl,
+  html,
+  isLoading = false,
+  pages,
+  activePage,
+  onPageChange,
+  selection,
+  onSelect,
+  onInlineEdit,
+  images,
+}: PreviewPanelProps) {
   const [device, setDevice] = useState<DeviceType>('desktop');
   const [iframeLoading, setIframeLoading] = useState(true);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [mode, setMode] = useState<PreviewMode>('browse');
+  const [imageTarget, setImageTarget] = useState<PreviewImageTarget | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  const postToPreview = useCallback((message: PreviewMessage) => {
+    iframeRef.current?.contentWindow?.postMessage(message, '*');
+  }, []);
+
+  // Keep the preview document in sync with the interaction mode and the pinned element
+  const syncPreview = useCallback(() => {
+    postToPreview({ type: PREVIEW_MESSAGES.mode, mode });
+    postToPreview({
+      type: PREVIEW_MESSAGES.pin,
+      selector: selection && selection.page === (activePage || '/') ? selection.selector : null,
+    });
+  }, [postToPreview, mode, selection, activePage]);
+
+  useEffect(() => {
+    syncPreview();
+  }, [syncPreview]);
+
+  // Handle link clicks, element picks and inline edits reported by the preview document
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const message = event.data as PreviewMessage | undefined;
+
+      if (message?.type === PREVIEW_MESSAGES.navigate) {
+        if (onPageChange && pages?.some((page) => page.path === message.path)) {
+          onPageChange(message.path);
+        }
+      } else if (message?.type === PREVIEW_MESSAGES.elementSelected && onSelect) {
+        onSelect({ ...message.selection, page: activePage || '/' });
+        setMode('browse');
+      } else if (message?.type === PREVIEW_MESSAGES.inlineEdit && onInlineEdit) {
+        const { edit } = message;
+        onInlineEdit(edit.kind === 'nav' ? edit : { ...edit, page: activePage || '/' });
+      } else if (message?.type === PREVIEW_MESSAGES.imageSelected && onInlineEdit) {
+        setImageTarget(message.image);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [pages, activePage, onPageChange, onSelect, onInlineEdit]);
+
+  const toggleMode = (next: PreviewMode) => {
+    setMode((prev) => (prev === next ? 'browse' : next));
+  };
 
   // Determine if we have content to show
   const hasContent = previewUrl || html;
@@ -117,6 +201,23 @@ export function PreviewPanel({ previewUrl, html, isLoading = false }: PreviewPan
         <div className="flex items-center gap-2">
           <Monitor className="h-4 w-4 text-muted-foreground" />
           <span className="font-medium text-sm">Live Preview</span>
+          {pages && pages.length > 1 && (
+            <div className="flex items-center gap-1 ml-2">
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              <select
+                value={activePage || '/'}
+                onChange={(e) => onPageChange?.(e.target.value)}
+                className="h-7 px-2 text-xs rounded-md border border-input bg-background"
+                title="Switch page"
+              >
+                {pages.map((page) => (
+                  <option key={page.id} value={page.path}>
+                    {page.name} ({page.path})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           {iframeLoading && (
             <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
           )}
@@ -154,6 +255,32 @@ export function PreviewPanel({ previewUrl, html, isLoading = false }: PreviewPan
             </Button>
           </div>
 
+          {/* Element select mode */}
+          {onSelect && (
+            <Button
+              variant={mode === 'select' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => toggleMode('select')}
+              title={mode === 'select' ? 'Cancel selection' : 'Select an element to edit (shift-click for its section)'}
+            >
+              <MousePointerClick className="h-4 w-4" />
+            </Button>
+          )}
+
+          {/* Direct text and image editing */}
+          {onInlineEdit && (
+            <Button
+              variant={mode === 'edit' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => toggleMode('edit')}
+              title={mode === 'edit' ? 'Stop editing' : 'Edit text and images directly'}
+            >
+              <PencilLine className="h-4 w-4" />
+            </Button>
+          )}
+
           {/* Refresh button */}
           <Button
             variant="ghost"
@@ -211,24 +338,50 @@ export function PreviewPanel({ previewUrl, html, isLoading = false }: PreviewPan
 
           {/* iframe */}
           <iframe
-            key={`${refreshKey}-${html?.length || 0}`}
+            ref={iframeRef}
+            key={`${refreshKey}-${activePage || ''}-${html?.length || 0}`}
             src={previewUrl || undefined}
             srcDoc={!previewUrl && html ? html : undefined}
             className={`w-full h-full border-0 transition-opacity duration-300 ${
               iframeLoading ? 'opacity-0' : 'opacity-100'
             }`}
-            onLoad={() => setIframeLoading(false)}
+            onLoad={() => {
+              setIframeLoading(false);
+              syncPreview();
+            }}
             title="Site Preview"
             sandbox="allow-scripts allow-same-origin allow-forms"
           />
         </div>
       </div>
 
+      {/* Image replacement picker */}
+      <ImagePicker
+        open={!!imageTarget}
+        onOpenChange={(open) => !open && setImageTarget(null)}
+        src={imageTarget?.src}
+        alt={imageTarget?.alt}
+        suggestions={images}
+        onSelect={({ src, alt }) => {
+          if (!imageTarget || !onInlineEdit) return;
+          onInlineEdit({
+            kind: 'image',
+            page: activePage || '/',
+            scope: imageTarget.scope,
+            selector: imageTarget.selector,
+            src,
+            alt,
+          });
+        }}
+      />
+
       {/* Device label */}
       <div className="flex items-center justify-center p-2 border-t bg-muted/30">
         <span className="text-xs text-muted-foreground">
           {deviceConfig.label} Preview
           {device !== 'desktop' && ` (${deviceConfig.width} x ${deviceConfig.height})`}
+          {mode === 'select' && ' · Click an element to target it, shift-click to pick its section'}
+          {mode === 'edit' && ' · Click text to edit it (Enter saves, Esc cancels) or click an image to replace it'}
         </span>
       </div>
     </div>
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  History,
+  Loader2,
+  RotateCcw,
+  Tag,
+  Bookmark,
+  Pencil,
+  Check,
+  X,
+} from 'lucide-react';
+import {
+  VERSION_SOURCE_LABELS,
+  type DiffRow,
+  type PageDiff,
+  type ProjectVersionSummary,
+  type SiteModel,
+} from '@/lib/builder';
+
+interface VersionHistoryProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Bumped by the builder whenever it records a new version */
+  refreshKey?: number;
+  onCreateSnapshot: (label: string) => Promise<void>;
+  onRestore: (site: SiteModel) => void;
+}
+
+const ROW_CLASSES: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  added: { left: 'bg-muted/50', right: 'bg-green-500/15' },
+  removed: { left: 'bg-red-500/15', right: 'bg-muted/50' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function VersionHistory({
+  projectId,
+  open,
+  onOpenChange,
+  refreshKey = 0,
+  onCreateSnapshot,
+  onRestore,
+}: VersionHistoryProps) {
+  const [versions, setVersions] = useState<ProjectVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diffPages, setDiffPages] = useState<PageDiff[]>([]);
+  const [diffPath, setDiffPath] = useState<string>('/');
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [snapshotLabel, setSnapshotLabel] = useState('');
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions`);
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.versions);
+      }
+    } catch (error) {
+      console.error('Failed to fetch versions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) fetchVersions();
+  }, [open, refreshKey, fetchVersions]);
+
+  // Load the diff between the selected version and the current saved site
+  useEffect(() => {
+    if (!selectedId) {
+      setDiffPages([]);
+      return;
+    }
+
+    let cancelled = false;
+    async function fetchDiff() {
+      setDiffLoading(true);
+      try {
+        const response = await fetch(
+          `/api/projects/${projectId}/versions/diff?from=${selectedId}&to=current`
+        );
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          const pages: PageDiff[] = data.diff.pages;
+          setDiffPages(pages);
+          const firstChanged = pages.find((p) => p.status !== 'unchanged');
+          setDiffPath(firstChanged?.path || pages[0]?.path || '/');
+        }
+      } catch (error) {
+        console.error('Failed to fetch diff:', error);
+      } finally {
+        if (!cancelled) setDiffLoading(false);
+      }
+    }
+
+    fetchDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selectedId]);
+
+  const handleSnapshot = async () => {
+    setIsSnapshotting(true);
+    try {
+      await onCreateSnapshot(snapshotLabel.trim());
+      setSnapshotLabel('');
+      await fetchVersions();
+    } finally {
+      setIsSnapshotting(false);
+    }
+  };
+
+  const handleRename = async (versionId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions/${versionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: editingLabel }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setVersions((prev) => prev.map((v) => (v.id === versionId ? data.version : v)));
+      }
+    } catch (error) {
+      console.error('Failed to rename version:', error);
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/versions/${selectedId}/restore`,
+        { method: 'POST' }
+      );
+      if (response.ok) {
+        const data = await response.json();
+        onRestore(data.site);
+        setSelectedId(null);
+        await fetchVersions();
+      }
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const selectedVersion = versions.find((v) => v.id === selectedId);
+  const activeDiff = diffPages.find((p) => p.path === diffPath);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every save and AI generation is kept. Compare a version with the current site or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 gap-4 min-h-0">
+          {/* Version list */}
+          <div className="w-72 shrink-0 flex flex-col border rounded-lg">
+            <div className="p-3 border-b space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  value={snapshotLabel}
+                  onChange={(e) => setSnapshotLabel(e.target.value)}
+                  placeholder='Label, e.g. "before client review"'
+                  className="h-8 text-xs"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleSnapshot}
+                  disabled={isSnapshotting}
+                  className="h-8 gap-1 shrink-0"
+                  title="Save a named snapshot"
+                >
+                  {isSnapshotting ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <Bookmark className="h-3 w-3" />
+                  )}
+                  Snapshot
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {isLoading && versions.length === 0 ? (
+                <div className="flex justify-center p-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : versions.length === 0 ? (
+                <p className="p-6 text-sm text-center text-muted-foreground">
+                  No versions yet. Save your site to create one.
+                </p>
+              ) : (
+                <div className="p-2 space-y-1">
+                  {versions.map((version) => (
+                    <div
+                      key={version.id}
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => setSelectedId(version.id)}
+                      onKeyDown={(e) => e.key === 'Enter' && setSelectedId(version.id)}
+                      className={`p-2 rounded-md cursor-pointer text-sm transition ${
+                        selectedId === version.id ? 'bg-primary/10' : 'hover:bg-muted'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">v{version.versionNumber}</span>
+                        <Badge variant="secondary" className="text-[10px]">
+                          {VERSION_SOURCE_LABELS[version.source]}
+                        </Badge>
+                      </div>
+                      {editingId === version.id ? (
+                        <div className="flex items-center gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+                          <Input
+                            value={editingLabel}
+                            onChange={(e) => setEditingLabel(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleRename(version.id)}
+                            className="h-7 text-xs"
+                            autoFocus
+                          />
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleRename(version.id)}>
+                            <Check className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2 mt-1">
+                          <span className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                            {version.label && <Tag className="h-3 w-3 shrink-0" />}
+                            {version.label || formatTimestamp(version.createdAt)}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0"
+                            title="Edit label"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingId(version.id);
+                              setEditingLabel(version.label || '');
+                            }}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                      {version.label && (
+                        <p className="text-[11px] text-muted-foreground mt-0.5">
+                          {formatTimestamp(version.createdAt)}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Diff view */}
+          <div className="flex-1 min-w-0 flex flex-col border rounded-lg">
+            {!selectedVersion ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                Select a version to compare it with the current site
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2 p-3 border-b">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-medium shrink-0">
+                      v{selectedVersion.versionNumber} → current
+                    </span>
+                    <select
+                      value={diffPath}
+                      onChange={(e) => setDiffPath(e.target.value)}
+                      className="h-8 px-2 text-xs rounded-md border border-input bg-background min-w-0"
+                    >
+                      {diffPages.map((page) => (
+                        <option key={page.path} value={page.path}>
+                          {page.name} ({page.path}) - {page.status}
+                          {page.status === 'changed' ? ` +${page.additions} -${page.deletions}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                    className="gap-2 shrink-0"
+                  >
+                    {isRestoring ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                    Restore v{selectedVersion.versionNumber}
+                  </Button>
+                </div>
+
+                {diffLoading ? (
+                  <div className="flex-1 flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : activeDiff?.status === 'unchanged' ? (
+                  <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                    This page is identical in both versions
+                  </div>
+                ) : (
+                  <div className="flex-1 overflow-auto font-mono text-xs">
+                    <table className="w-full border-collapse table-fixed">
+                      <colgroup>
+                        <col className="w-10" />
+                        <col />
+                        <col className="w-10" />
+                        <col />
+                      </colgroup>
+                      <thead className="sticky top-0 bg-muted text-muted-foreground">
+                        <tr>
+                          <th className="text-left px-2 py-1 font-medium" colSpan={2}>
+                            v{selectedVersion.versionNumber}
+                          </th>
+                          <th className="text-left px-2 py-1 font-medium" colSpan={2}>
+                            Current
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {activeDiff?.rows.map((row, index) => (
+                          <tr key={index}>
+                            <td className={`px-2 text-right text-muted-foreground select-none ${ROW_CLASSES[row.type].left}`}>
+                              {row.left?.line}
+                            </td>
+                            <td className={`px-2 whitespace-pre-wrap break-all ${ROW_CLASSES[row.type].left}`}>
+                              {row.left?.text}
+                            </td>
+                            <td className={`px-2 text-right text-muted-foreground select-none border-l ${ROW_CLASSES[row.type].right}`}>
+                              {row.right?.line}
+                            </td>
+                            <td className={`px-2 whitespace-pre-wrap break-all ${ROW_CLASSES[row.type].right}`}>
+                              {row.right?.text}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default VersionHistory;
@@ -13,7 +13,13 @@ import { AuthorBio } from '../eeat/AuthorBio';
 import { MedicalDisclaimer } from '../eeat/MedicalDisclaimer';
 import { FAQPageSchema } from '../schema/FAQPageSchema';
 import { ArticleSchema } from '../schema/ArticleSchema';
-import type { HealthArticle as HealthArticleType, FAQItem, Citation, MedicalService } from '@/types/healthcare';
+import type {
+  HealthArticle as HealthArticleType,
+  FAQItem,
+  Citation,
+  MedicalService,
+  PhysicianProfile,
+} from '@/types/healthcare';
 
 export interface HealthArticleProps {
   /** Article data */
@@ -30,6 +36,8 @@ export interface HealthArticleProps {
   relatedServices?: MedicalService[];
   /** FAQs for the article */
   faqs?: FAQItem[];
+  /** Physician who approved the article (`medicalReviewerId`) */
+  reviewer?: PhysicianProfile;
   /** Publisher info for schema */
   publisher?: {
     name: string;
@@ -169,12 +177,14 @@ export function HealthArticle({
   relatedArticles = [],
   relatedServices = [],
   faqs = [],
+  reviewer,
   publisher,
   baseUrl = '',
   className,
 }: HealthArticleProps) {
   const headings = extractHeadings(article.content);
   const articleUrl = `${baseUrl}/health-library/${article.slug}`;
+  const reviewerUrl = reviewer ? `${baseUrl}/team/${reviewer.slug}` : undefined;
 
   return (
     <article className={cn('', className)} itemScope itemType="https://schema.org/Article">
@@ -197,6 +207,17 @@ export function HealthArticle({
           wordCount={article.wordCount}
           articleSection={article.category}
           articleType="MedicalWebPage"
+          reviewedBy={
+            article.medicalReviewerName
+              ? {
+                  name: article.medicalReviewerName,
+                  url: reviewerUrl,
+                  jobTitle: reviewer?.title,
+                  credentials: article.medicalReviewerCredentials,
+                }
+              : undefined
+          }
+          lastReviewed={article.lastReviewedAt}
         />
       )}
 
@@ -244,15 +265,23 @@ export function HealthArticle({
           <MedicalReviewer
             name={article.medicalReviewerName}
             credentials={article.medicalReviewerCredentials || ''}
-            imageUrl={article.medicalReviewerImageUrl}
+            imageUrl={article.medicalReviewerImageUrl || reviewer?.imageUrl}
+            title={reviewer?.title}
+            npiNumber={reviewer?.npiNumber}
+            profileUrl={reviewerUrl}
+            showVerifiedBadge={Boolean(article.lastReviewedAt)}
             reviewDate={article.lastReviewedAt || article.updatedAt}
             variant="badge"
           />
         )}
 
-        {/* Last Updated */}
+        {/* Last Reviewed / Updated */}
         <div className="mt-4">
-          <LastUpdatedBadge date={article.updatedAt} label="Last updated" variant="text" />
+          {article.lastReviewedAt ? (
+            <LastUpdatedBadge date={article.lastReviewedAt} label="Reviewed on" variant="text" />
+          ) : (
+            <LastUpdatedBadge date={article.updatedAt} label="Last updated" variant="text" />
+          )}
         </div>
       </header>
 
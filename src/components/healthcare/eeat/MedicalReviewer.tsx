@@ -124,7 +124,7 @@ export function MedicalReviewer({
   const DateInfo = (
     <div className="flex items-center gap-1 text-sm text-muted-foreground">
       <Calendar className="h-3 w-3" />
-      <span>Last updated {formattedDate}</span>
+      <span>Reviewed on {formattedDate}</span>
     </div>
   );
 
@@ -41,6 +41,15 @@ export interface ArticleSchemaProps {
   };
   /** Article type */
   articleType?: 'Article' | 'MedicalWebPage' | 'HealthTopicContent' | 'BlogPosting' | 'NewsArticle';
+  /** Medical professional who reviewed the content */
+  reviewedBy?: {
+    name: string;
+    url?: string;
+    jobTitle?: string;
+    credentials?: string;
+  };
+  /** Date the content was last medically reviewed */
+  lastReviewed?: string;
 }
 
 /**
@@ -62,6 +71,8 @@ export function ArticleSchema({
   articleSection,
   speakable,
   articleType = 'Article',
+  reviewedBy,
+  lastReviewed,
 }: ArticleSchemaProps) {
   const schemaAuthor = {
     '@type': author.type || 'Person',
@@ -107,6 +118,16 @@ export function ArticleSchema({
     ...(wordCount && { wordCount }),
     ...(articleSection && { articleSection }),
     ...(schemaSpeakable && { speakable: schemaSpeakable }),
+    ...(reviewedBy && {
+      reviewedBy: {
+        '@type': 'Person',
+        name: reviewedBy.name,
+        ...(reviewedBy.url && { url: reviewedBy.url }),
+        ...(reviewedBy.jobTitle && { jobTitle: reviewedBy.jobTitle }),
+        ...(reviewedBy.credentials && { hasCredential: reviewedBy.credentials }),
+      },
+    }),
+    ...(lastReviewed && { lastReviewed }),
   };
 
   return (
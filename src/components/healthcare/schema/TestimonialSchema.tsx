@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { isPublishedTestimonial, summarizeRatings } from '@/lib/healthcare/testimonials/ratings';
+import type { Testimonial } from '@/types/healthcare';
+import { AggregateRatingSchema, type AggregateRatingSchemaProps } from './AggregateRatingSchema';
+import { ReviewSchema } from './ReviewSchema';
+
+export interface TestimonialSchemaProps {
+  /** Testimonials of the practice; only approved ones are used */
+  testimonials: Testimonial[];
+  /** Item being rated - the practice, a location or a service */
+  itemReviewed: AggregateRatingSchemaProps['itemReviewed'];
+  /** Only testimonials for this location */
+  locationId?: string;
+  /** Only testimonials for this service */
+  serviceId?: string;
+  /** Individual Review entries to include */
+  maxReviews?: number;
+}
+
+/**
+ * TestimonialSchema Component
+ *
+ * AggregateRating and Review structured data from moderated testimonials.
+ * The rating value and review count are computed from the approved
+ * testimonials of the location or service, so they always match the
+ * reviews shown on the page. Renders nothing until one is approved.
+ */
+export function TestimonialSchema({
+  testimonials,
+  itemReviewed,
+  locationId,
+  serviceId,
+  maxReviews = 10,
+}: TestimonialSchemaProps) {
+  const approved = testimonials.filter(
+    (testimonial) =>
+      isPublishedTestimonial(testimonial) &&
+      (!locationId || testimonial.locationId === locationId) &&
+      (!serviceId || testimonial.serviceId === serviceId)
+  );
+
+  const summary = summarizeRatings(approved);
+  if (!summary) return null;
+
+  return (
+    <>
+      <AggregateRatingSchema {...summary} itemReviewed={itemReviewed} />
+      {approved.slice(0, maxReviews).map((testimonial) => (
+        <ReviewSchema
+          key={testimonial.id}
+          author={testimonial.patientInitials || testimonial.patientName}
+          datePublished={testimonial.reviewedAt ?? testimonial.publishedAt ?? testimonial.createdAt}
+          reviewBody={testimonial.content}
+          reviewRating={{ ratingValue: testimonial.rating }}
+          itemReviewed={itemReviewed}
+          name={testimonial.title}
+        />
+      ))}
+    </>
+  );
+}
+
+export default TestimonialSchema;
@@ -31,6 +31,9 @@ export type { ReviewSchemaProps } from './ReviewSchema';
 export { AggregateRatingSchema } from './AggregateRatingSchema';
 export type { AggregateRatingSchemaProps } from './AggregateRatingSchema';
 
+export { TestimonialSchema } from './TestimonialSchema';
+export type { TestimonialSchemaProps } from './TestimonialSchema';
+
 export { ServiceSchema } from './ServiceSchema';
 export type { ServiceSchemaProps } from './ServiceSchema';
 
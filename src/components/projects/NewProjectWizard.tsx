@@ -13,6 +13,9 @@ import {
 } from '@/components/ui/card';
 import { TemplateSelector, Template } from './TemplateSelector';
 import { ImportExistingWizard } from './ImportExistingWizard';
+import { TemplateSetupWizard } from './TemplateSetupWizard';
+import { getTemplateById } from '@/lib/templates/healthcare';
+import type { TemplateSetupRequest } from '@/types/healthcare';
 import {
   ArrowLeft,
   ArrowRight,
@@ -25,6 +28,7 @@ import {
   Upload,
   FileCode,
   Rocket,
+  Stethoscope,
 } from 'lucide-react';
 
 interface NewProjectWizardProps {
@@ -32,7 +36,7 @@ interface NewProjectWizardProps {
   onCancel: () => void;
 }
 
-type WizardStep = 'start' | 'template' | 'details' | 'customize' | 'creating';
+type WizardStep = 'start' | 'template' | 'details' | 'customize' | 'setup' | 'creating';
 
 interface ProjectData {
   template: Template | null;
@@ -51,11 +55,16 @@ const STEPS: { id: WizardStep; title: string; description: string }[] = [
   { id: 'customize', title: 'Customize', description: 'Brand & settings' },
 ];
 
+/** Healthcare templates replace the customize step with their setup wizard */
+const SETUP_STEP = { id: 'setup' as const, title: 'Practice Setup', description: 'Practice, locations & services' };
+
 export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps) {
   const [currentStep, setCurrentStep] = useState<WizardStep>('start');
   const [showImportWizard, setShowImportWizard] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Kept when practice setup fails so a retry doesn't create a second project
+  const [createdProjectId, setCreatedProjectId] = useState<string | null>(null);
 
   const [projectData, setProjectData] = useState<ProjectData>({
     template: null,
@@ -67,7 +76,9 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
     primaryColor: '#3B82F6',
   });
 
-  const currentStepIndex = STEPS.findIndex((s) => s.id === currentStep);
+  const healthcareTemplate = projectData.template ? getTemplateById(projectData.template.id) : undefined;
+  const steps = healthcareTemplate ? STEPS.map((s) => (s.id === 'customize' ? SETUP_STEP : s)) : STEPS;
+  const currentStepIndex = steps.findIndex((s) => s.id === currentStep);
 
   const handleTemplateSelect = (template: Template) => {
     setProjectData((prev) => ({
@@ -98,46 +109,68 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
     }
 
     const nextIndex = currentStepIndex + 1;
-    if (nextIndex < STEPS.length) {
-      setCurrentStep(STEPS[nextIndex].id);
+    if (nextIndex < steps.length) {
+      setCurrentStep(steps[nextIndex].id);
     }
   };
 
   const handleBack = () => {
     const prevIndex = currentStepIndex - 1;
     if (prevIndex >= 0) {
-      setCurrentStep(STEPS[prevIndex].id);
+      setCurrentStep(steps[prevIndex].id);
     }
   };
 
-  const handleCreate = async () => {
+  const createProject = async (): Promise<string> => {
+    if (createdProjectId) return createdProjectId;
+
+    const response = await fetch('/api/projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: projectData.name,
+        description: projectData.description,
+        templateId: projectData.template?.id,
+        settings: {
+          domain: projectData.domain,
+          industry: projectData.industry,
+          businessName: projectData.businessName,
+          primaryColor: projectData.primaryColor,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to create project');
+    }
+
+    const { project } = await response.json();
+    setCreatedProjectId(project.id);
+    return project.id;
+  };
+
+  const handleCreate = async (setup?: TemplateSetupRequest) => {
     setIsCreating(true);
     setError(null);
 
     try {
-      const response = await fetch('/api/projects', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: projectData.name,
-          description: projectData.description,
-          templateId: projectData.template?.id,
-          settings: {
-            domain: projectData.domain,
-            industry: projectData.industry,
-            businessName: projectData.businessName,
-            primaryColor: projectData.primaryColor,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to create project');
+      const projectId = await createProject();
+
+      if (setup) {
+        const response = await fetch(`/api/healthcare/setup?projectId=${projectId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(setup),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error?.message || 'Failed to set up the practice');
+        }
       }
 
-      const { project } = await response.json();
-      onComplete(project.id);
+      onComplete(projectId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
       setIsCreating(false);
@@ -154,6 +187,8 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
         return !!projectData.name.trim();
       case 'customize':
         return true;
+      case 'setup':
+        return false; // The setup wizard has its own navigation
       default:
         return false;
     }
@@ -184,7 +219,7 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
       {currentStep !== 'start' && (
         <div className="mb-8">
           <div className="flex items-center justify-between">
-            {STEPS.filter((s) => s.id !== 'start').map((step, index) => (
+            {steps.filter((s) => s.id !== 'start').map((step, index) => (
               <div key={step.id} className="flex items-center">
                 <div
                   className={`flex items-center justify-center w-10 h-10 rounded-full border-2 ${
@@ -213,7 +248,7 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
                   </p>
                   <p className="text-xs text-muted-foreground">{step.description}</p>
                 </div>
-                {index < STEPS.length - 2 && (
+                {index < steps.length - 2 && (
                   <div
                     className={`w-12 sm:w-24 h-0.5 mx-4 ${
                       index < currentStepIndex - 1 ? 'bg-primary' : 'bg-muted'
@@ -454,6 +489,30 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
             </div>
           )}
 
+          {/* Practice Setup */}
+          {currentStep === 'setup' && healthcareTemplate && (
+            <div>
+              <div className="flex items-center gap-2 mb-4 text-muted-foreground">
+                <Stethoscope className="h-5 w-5" />
+                <span className="text-sm">
+                  Creates your practice records, services and {healthcareTemplate.pages.length} page skeletons
+                </span>
+              </div>
+              <TemplateSetupWizard
+                template={healthcareTemplate}
+                initialValues={{
+                  practiceName: projectData.businessName || projectData.name,
+                  domain: projectData.domain,
+                  primaryColor: projectData.primaryColor,
+                }}
+                isSubmitting={isCreating}
+                submitLabel="Create Project"
+                onSubmit={handleCreate}
+                onBack={handleBack}
+              />
+            </div>
+          )}
+
           {/* Creating */}
           {currentStep === 'creating' && (
             <div className="py-12 text-center">
@@ -475,47 +534,49 @@ export function NewProjectWizard({ onComplete, onCancel }: NewProjectWizardProps
       </Card>
 
       {/* Navigation */}
-      <div className="flex justify-between mt-6">
-        <Button
-          variant="outline"
-          onClick={
-            currentStep === 'start'
-              ? onCancel
-              : currentStep === 'template'
-                ? () => setCurrentStep('start')
-                : handleBack
-          }
-          disabled={isCreating}
-        >
-          <ArrowLeft className="h-4 w-4 mr-2" />
-          {currentStep === 'start' ? 'Cancel' : currentStep === 'template' ? 'Back to Start' : 'Back'}
-        </Button>
-
-        {currentStep !== 'start' && (
-          <>
-            {currentStepIndex < STEPS.length - 1 ? (
-              <Button onClick={handleNext} disabled={!canProceed()}>
-                Next
-                <ArrowRight className="h-4 w-4 ml-2" />
-              </Button>
-            ) : (
-              <Button onClick={handleCreate} disabled={isCreating || !canProceed()}>
-                {isCreating ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Creating...
-                  </>
-                ) : (
-                  <>
-                    Create Project
-                    <Check className="h-4 w-4 ml-2" />
-                  </>
-                )}
-              </Button>
-            )}
-          </>
-        )}
-      </div>
+      {currentStep !== 'setup' && (
+        <div className="flex justify-between mt-6">
+          <Button
+            variant="outline"
+            onClick={
+              currentStep === 'start'
+                ? onCancel
+                : currentStep === 'template'
+                  ? () => setCurrentStep('start')
+                  : handleBack
+            }
+            disabled={isCreating}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {currentStep === 'start' ? 'Cancel' : currentStep === 'template' ? 'Back to Start' : 'Back'}
+          </Button>
+
+          {currentStep !== 'start' && (
+            <>
+              {currentStepIndex < steps.length - 1 ? (
+                <Button onClick={handleNext} disabled={!canProceed()}>
+                  Next
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button onClick={() => handleCreate()} disabled={isCreating || !canProceed()}>
+                  {isCreating ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    <>
+                      Create Project
+                      <Check className="h-4 w-4 ml-2" />
+                    </>
+                  )}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Check, Layout, Stethoscope, Scale, ShoppingBag, Building, Briefcase } from 'lucide-react';
+import { healthcareTemplates } from '@/lib/templates/healthcare';
 
 export interface Template {
   id: string;
@@ -30,20 +31,17 @@ const TEMPLATES: Template[] = [
     features: ['Full customization', 'No preset content', 'Clean slate'],
     icon: <Layout className="h-8 w-8" />,
   },
-  {
-    id: 'healthcare-practice',
-    name: 'Medical Practice',
-    description: 'HIPAA-ready template for healthcare providers',
+  // Instantiated through their setup wizard (see TemplateSetupWizard)
+  ...healthcareTemplates.map((template) => ({
+    id: template.id,
+    name: template.name,
+    description: template.description,
     category: 'Healthcare',
-    industry: 'healthcare',
-    features: [
-      'E-E-A-T compliant',
-      'Medical schema',
-      'HIPAA considerations',
-      'Patient portal ready',
-    ],
+    industry: template.industry,
+    features: template.features,
+    thumbnail: template.thumbnail,
     icon: <Stethoscope className="h-8 w-8" />,
-  },
+  })),
   {
     id: 'law-firm',
     name: 'Law Firm',
@@ -0,0 +1,641 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, ArrowRight, Check, Loader2, Plus, Trash2 } from 'lucide-react';
+import type {
+  HealthcareTemplate,
+  MedicalSpecialtyType,
+  ServiceCategory,
+  TemplateSetupField,
+  TemplateSetupLocation,
+  TemplateSetupRequest,
+} from '@/types/healthcare';
+
+interface TemplateSetupWizardProps {
+  template: HealthcareTemplate;
+  /** Values carried over from earlier steps, e.g. the business name */
+  initialValues?: {
+    practiceName?: string;
+    domain?: string;
+    primaryColor?: string;
+  };
+  isSubmitting?: boolean;
+  submitLabel?: string;
+  onSubmit: (setup: TemplateSetupRequest) => void;
+  /** Called when going back from the first step */
+  onBack: () => void;
+}
+
+/** Form state; list fields are edited as comma-separated text */
+interface SetupDraft {
+  practiceName: string;
+  specialty: MedicalSpecialtyType;
+  yearEstablished: string;
+  phone: string;
+  email: string;
+  directorName: string;
+  credentials: string;
+  npi: string;
+  bio: string;
+  image: string;
+  specialties: string;
+  locations: Array<TemplateSetupLocation & { addressLine2: string; email: string }>;
+  selectedServices: string[];
+  customServices: Array<{ name: string; category: ServiceCategory | ''; treatments: string }>;
+  logo: string;
+  primaryColor: string;
+  secondaryColor: string;
+  headingFont: string;
+  bodyFont: string;
+  domain: string;
+  subdomain: string;
+  ssl: boolean;
+}
+
+const SPECIALTY_LABELS: Record<MedicalSpecialtyType, string> = {
+  mens_health: "Men's Health",
+  dermatology: 'Dermatology',
+  dental: 'Dental',
+  med_spa: 'Med Spa',
+  chiropractic: 'Chiropractic',
+  physical_therapy: 'Physical Therapy',
+  weight_loss: 'Weight Loss',
+  aesthetic: 'Aesthetics',
+  behavioral_health: 'Behavioral Health',
+};
+
+const SERVICE_CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  sexual_health: 'Sexual Health',
+  hormone: 'Hormones',
+  weight: 'Weight',
+  hair: 'Hair',
+  aesthetics: 'Aesthetics',
+  preventive: 'Preventive',
+  pain: 'Pain',
+  dental: 'Dental',
+  skin: 'Skin',
+  rehabilitation: 'Rehabilitation',
+  mental_health: 'Mental Health',
+};
+
+const FONTS = ['Inter', 'Lato', 'Merriweather', 'Montserrat', 'Open Sans', 'Playfair Display', 'Roboto'];
+
+const selectClassName = 'w-full h-10 px-3 rounded-md border border-input bg-background';
+
+const emptyLocation = (): SetupDraft['locations'][number] => ({
+  name: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  zip: '',
+  phone: '',
+  email: '',
+});
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toSetupRequest(template: HealthcareTemplate, draft: SetupDraft): TemplateSetupRequest {
+  const year = Number(draft.yearEstablished);
+
+  return {
+    templateId: template.id,
+    practice: {
+      name: draft.practiceName.trim(),
+      specialty: draft.specialty,
+      yearEstablished: draft.yearEstablished && Number.isInteger(year) ? year : undefined,
+      phone: draft.phone.trim() || undefined,
+      email: draft.email.trim() || undefined,
+    },
+    director: draft.directorName.trim()
+      ? {
+          name: draft.directorName.trim(),
+          credentials: draft.credentials.trim() || undefined,
+          npiNumber: draft.npi.trim() || undefined,
+          bio: draft.bio.trim() || undefined,
+          imageUrl: draft.image.trim() || undefined,
+          specialties: splitList(draft.specialties),
+        }
+      : undefined,
+    locations: draft.locations.map((location) => ({
+      ...location,
+      state: location.state.trim().toUpperCase(),
+      addressLine2: location.addressLine2.trim() || undefined,
+      email: location.email.trim() || undefined,
+    })),
+    services: {
+      selected: draft.selectedServices,
+      custom: draft.customServices
+        .filter((service) => service.name.trim())
+        .map((service) => ({
+          name: service.name.trim(),
+          category: service.category || undefined,
+          treatments: splitList(service.treatments),
+        })),
+    },
+    branding: {
+      logoUrl: draft.logo.trim() || undefined,
+      primaryColor: draft.primaryColor,
+      secondaryColor: draft.secondaryColor,
+      headingFont: draft.headingFont || undefined,
+      bodyFont: draft.bodyFont || undefined,
+    },
+    deployment: {
+      domain: draft.domain.trim() || undefined,
+      subdomain: draft.subdomain.trim() || undefined,
+      ssl: draft.ssl,
+    },
+  };
+}
+
+/**
+ * What keeps a wizard step from being completed, or null
+ */
+function validateStep(step: HealthcareTemplate['setupWizard'][number], draft: SetupDraft): string | null {
+  const fields = step.fields as TemplateSetupField[];
+
+  if (fields.includes('practice_name') && !draft.practiceName.trim()) {
+    return 'Enter the practice name';
+  }
+  if (fields.includes('year_established') && draft.yearEstablished) {
+    const year = Number(draft.yearEstablished);
+    if (!Number.isInteger(year) || year < 1800 || year > new Date().getFullYear()) {
+      return 'Enter a valid year';
+    }
+  }
+  if (fields.includes('npi') && draft.npi.trim() && !/^\d{10}$/.test(draft.npi.trim())) {
+    return 'An NPI is 10 digits';
+  }
+  if (fields.includes('locations_array')) {
+    const minimum = step.minimum ?? 0;
+    if (draft.locations.length < minimum) {
+      return `Add at least ${minimum} location${minimum === 1 ? '' : 's'}`;
+    }
+    const incomplete = draft.locations.findIndex(
+      (location) =>
+        !location.name.trim() ||
+        !location.addressLine1.trim() ||
+        !location.city.trim() ||
+        !location.zip.trim() ||
+        !location.phone.trim() ||
+        !/^[A-Za-z]{2}$/.test(location.state.trim())
+    );
+    if (incomplete >= 0) {
+      return `Complete location ${incomplete + 1} - name, address, city, two-letter state, ZIP and phone`;
+    }
+  }
+  if (fields.includes('services_selection')) {
+    const custom = draft.customServices.filter((service) => service.name.trim());
+    if (draft.selectedServices.length + custom.length === 0) return 'Choose at least one service';
+  }
+  return null;
+}
+
+/**
+ * TemplateSetupWizard
+ *
+ * Multi-step form built from a healthcare template's `setupWizard`. Each
+ * step renders the fields it lists; the answers instantiate the template
+ * through `/api/healthcare/setup`.
+ */
+export function TemplateSetupWizard({
+  template,
+  initialValues = {},
+  isSubmitting = false,
+  submitLabel = 'Create Practice',
+  onSubmit,
+  onBack,
+}: TemplateSetupWizardProps) {
+  const steps = [...template.setupWizard].sort((a, b) => a.step - b.step);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [stepError, setStepError] = useState<string | null>(null);
+
+  const [draft, setDraft] = useState<SetupDraft>(() => {
+    const minimumLocations = steps.find((step) => step.fields.includes('locations_array'))?.minimum ?? 0;
+    return {
+      practiceName: initialValues.practiceName ?? '',
+      specialty: template.subCategory,
+      yearEstablished: '',
+      phone: '',
+      email: '',
+      directorName: '',
+      credentials: '',
+      npi: '',
+      bio: '',
+      image: '',
+      specialties: '',
+      locations: Array.from({ length: Math.max(minimumLocations, 1) }, emptyLocation),
+      selectedServices: template.defaultServices.map((service) => service.slug),
+      customServices: [],
+      logo: '',
+      primaryColor: initialValues.primaryColor ?? '#1E40AF',
+      secondaryColor: '#0F766E',
+      headingFont: '',
+      bodyFont: '',
+      domain: initialValues.domain ?? '',
+      subdomain: '',
+      ssl: true,
+    };
+  });
+
+  const step = steps[stepIndex];
+  const isLastStep = stepIndex === steps.length - 1;
+
+  const update = <K extends keyof SetupDraft>(key: K, value: SetupDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setStepError(null);
+  };
+
+  const updateLocation = (index: number, changes: Partial<SetupDraft['locations'][number]>) => {
+    update(
+      'locations',
+      draft.locations.map((location, i) => (i === index ? { ...location, ...changes } : location))
+    );
+  };
+
+  const updateCustomService = (index: number, changes: Partial<SetupDraft['customServices'][number]>) => {
+    update(
+      'customServices',
+      draft.customServices.map((service, i) => (i === index ? { ...service, ...changes } : service))
+    );
+  };
+
+  const toggleService = (slug: string) => {
+    update(
+      'selectedServices',
+      draft.selectedServices.includes(slug)
+        ? draft.selectedServices.filter((selected) => selected !== slug)
+        : [...draft.selectedServices, slug]
+    );
+  };
+
+  const handleNext = () => {
+    const error = validateStep(step, draft);
+    if (error) {
+      setStepError(error);
+      return;
+    }
+    if (isLastStep) {
+      onSubmit(toSetupRequest(template, draft));
+    } else {
+      setStepIndex(stepIndex + 1);
+    }
+  };
+
+  const handleBack = () => {
+    setStepError(null);
+    if (stepIndex === 0) onBack();
+    else setStepIndex(stepIndex - 1);
+  };
+
+  const textField = (
+    id: string,
+    label: string,
+    key: keyof SetupDraft,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div key={id} className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        value={draft[key] as string}
+        onChange={(e) => update(key, e.target.value as SetupDraft[typeof key])}
+        {...props}
+      />
+    </div>
+  );
+
+  const colorField = (id: string, label: string, key: 'primaryColor' | 'secondaryColor') => (
+    <div key={id} className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-3">
+        <input
+          type="color"
+          id={id}
+          value={draft[key]}
+          onChange={(e) => update(key, e.target.value)}
+          className="h-10 w-20 rounded border cursor-pointer"
+        />
+        <Input value={draft[key]} onChange={(e) => update(key, e.target.value)} className="w-32" />
+      </div>
+    </div>
+  );
+
+  const renderField = (field: TemplateSetupField) => {
+    switch (field) {
+      case 'practice_name':
+        return textField('practiceName', 'Practice Name *', 'practiceName', { placeholder: 'Lakeside Men\'s Health' });
+      case 'specialty':
+        return (
+          <div key={field} className="space-y-2">
+            <Label htmlFor="specialty">Specialty</Label>
+            <select
+              id="specialty"
+              className={selectClassName}
+              value={draft.specialty}
+              onChange={(e) => update('specialty', e.target.value as MedicalSpecialtyType)}
+            >
+              {Object.entries(SPECIALTY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'year_established':
+        return textField('yearEstablished', 'Year Established', 'yearEstablished', {
+          type: 'number',
+          placeholder: '2015',
+        });
+      case 'phone':
+        return textField('phone', 'Main Phone', 'phone', { type: 'tel', placeholder: '(555) 123-4567' });
+      case 'email':
+        return textField('email', 'Contact Email', 'email', { type: 'email', placeholder: 'hello@example.com' });
+      case 'director_name':
+        return textField('directorName', 'Medical Director', 'directorName', { placeholder: 'Dr. Jane Smith' });
+      case 'credentials':
+        return textField('credentials', 'Credentials', 'credentials', { placeholder: 'MD, FACS' });
+      case 'npi':
+        return textField('npi', 'NPI Number', 'npi', { inputMode: 'numeric', placeholder: '1234567893' });
+      case 'image':
+        return textField('image', 'Photo URL', 'image', { type: 'url', placeholder: 'https://' });
+      case 'specialties':
+        return textField('specialties', 'Specialties (comma-separated)', 'specialties', {
+          placeholder: 'Urology, Sexual Medicine',
+        });
+      case 'bio':
+        return (
+          <div key={field} className="space-y-2">
+            <Label htmlFor="bio">Bio</Label>
+            <Textarea id="bio" rows={4} value={draft.bio} onChange={(e) => update('bio', e.target.value)} />
+          </div>
+        );
+      case 'locations_array':
+        return (
+          <div key={field} className="space-y-4">
+            {draft.locations.map((location, index) => (
+              <div key={index} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium">
+                    Location {index + 1}
+                    {index === 0 && <span className="text-muted-foreground text-sm"> (primary)</span>}
+                  </p>
+                  {draft.locations.length > (step.minimum ?? 0) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update('locations', draft.locations.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <Input
+                    placeholder="Location name *"
+                    value={location.name}
+                    onChange={(e) => updateLocation(index, { name: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Phone *"
+                    type="tel"
+                    value={location.phone}
+                    onChange={(e) => updateLocation(index, { phone: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Street address *"
+                    value={location.addressLine1}
+                    onChange={(e) => updateLocation(index, { addressLine1: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Suite / unit"
+                    value={location.addressLine2}
+                    onChange={(e) => updateLocation(index, { addressLine2: e.target.value })}
+                  />
+                  <Input
+                    placeholder="City *"
+                    value={location.city}
+                    onChange={(e) => updateLocation(index, { city: e.target.value })}
+                  />
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      placeholder="State *"
+                      maxLength={2}
+                      value={location.state}
+                      onChange={(e) => updateLocation(index, { state: e.target.value.toUpperCase() })}
+                    />
+                    <Input
+                      placeholder="ZIP *"
+                      value={location.zip}
+                      onChange={(e) => updateLocation(index, { zip: e.target.value })}
+                    />
+                  </div>
+                  <Input
+                    placeholder="Location email"
+                    type="email"
+                    value={location.email}
+                    onChange={(e) => updateLocation(index, { email: e.target.value })}
+                  />
+                </div>
+              </div>
+            ))}
+            {step.canAddCustom && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => update('locations', [...draft.locations, emptyLocation()])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Location
+              </Button>
+            )}
+          </div>
+        );
+      case 'services_selection':
+        return (
+          <div key={field} className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {template.defaultServices.map((service) => {
+                const isSelected = draft.selectedServices.includes(service.slug);
+                return (
+                  <button
+                    key={service.slug}
+                    type="button"
+                    onClick={() => toggleService(service.slug)}
+                    className={`text-left p-4 rounded-lg border-2 transition-colors ${
+                      isSelected ? 'border-primary bg-primary/5' : 'border-muted hover:border-primary/50'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium">{service.name}</p>
+                      {isSelected && <Check className="h-4 w-4 text-primary shrink-0" />}
+                    </div>
+                    {service.treatments && service.treatments.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">{service.treatments.join(' · ')}</p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            {step.canAddCustom && (
+              <div className="space-y-3">
+                {draft.customServices.map((service, index) => (
+                  <div key={index} className="grid gap-3 sm:grid-cols-[2fr_1fr_2fr_auto] items-center">
+                    <Input
+                      placeholder="Service name"
+                      value={service.name}
+                      onChange={(e) => updateCustomService(index, { name: e.target.value })}
+                    />
+                    <select
+                      className={selectClassName}
+                      value={service.category}
+                      onChange={(e) => updateCustomService(index, { category: e.target.value as ServiceCategory })}
+                    >
+                      <option value="">Category</option>
+                      {Object.entries(SERVICE_CATEGORY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      placeholder="Treatments (comma-separated)"
+                      value={service.treatments}
+                      onChange={(e) => updateCustomService(index, { treatments: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update('customServices', draft.customServices.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    update('customServices', [...draft.customServices, { name: '', category: '', treatments: '' }])
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Custom Service
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      case 'logo':
+        return textField('logo', 'Logo URL', 'logo', { type: 'url', placeholder: 'https://' });
+      case 'primary_color':
+        return colorField('primaryColor', 'Primary Color', 'primaryColor');
+      case 'secondary_color':
+        return colorField('secondaryColor', 'Secondary Color', 'secondaryColor');
+      case 'fonts':
+        return (
+          <div key={field} className="grid gap-3 sm:grid-cols-2">
+            {(['headingFont', 'bodyFont'] as const).map((key) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={key}>{key === 'headingFont' ? 'Heading Font' : 'Body Font'}</Label>
+                <select
+                  id={key}
+                  className={selectClassName}
+                  value={draft[key]}
+                  onChange={(e) => update(key, e.target.value)}
+                >
+                  <option value="">Template default</option>
+                  {FONTS.map((font) => (
+                    <option key={font} value={font}>
+                      {font}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        );
+      case 'domain':
+        return textField('domain', 'Domain', 'domain', { placeholder: 'mypractice.com' });
+      case 'subdomain':
+        return textField('subdomain', 'Subdomain', 'subdomain', { placeholder: 'www' });
+      case 'ssl':
+        return (
+          <div key={field} className="flex items-center justify-between rounded-lg border p-4">
+            <div>
+              <Label>HTTPS</Label>
+              <p className="text-sm text-muted-foreground">Serve the site over SSL</p>
+            </div>
+            <Switch checked={draft.ssl} onCheckedChange={(checked) => update('ssl', checked)} />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-sm text-muted-foreground">
+          {template.name} setup · Step {stepIndex + 1} of {steps.length}
+        </p>
+        <h2 className="text-xl font-semibold mt-1">{step.title}</h2>
+        <div className="flex gap-1 mt-3">
+          {steps.map((s, index) => (
+            <div
+              key={s.step}
+              className={`h-1 flex-1 rounded-full ${index <= stepIndex ? 'bg-primary' : 'bg-muted'}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">{(step.fields as TemplateSetupField[]).map(renderField)}</div>
+
+      {stepError && (
+        <div className="p-3 bg-red-50 dark:bg-red-950/50 text-red-600 rounded-md text-sm">{stepError}</div>
+      )}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={handleBack} disabled={isSubmitting}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Button type="button" onClick={handleNext} disabled={isSubmitting}>
+          {isLastStep ? (
+            isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              <>
+                {submitLabel}
+                <Check className="h-4 w-4 ml-2" />
+              </>
+            )
+          ) : (
+            <>
+              Next
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,9 @@
  * AuditResultCard Component
  *
  * Comprehensive display of SEO audit results with scores,
- * category breakdown, issues, and recommendations.
+ * category breakdown, issues, and recommendations. Given the previous
+ * run's results it also shows score changes and the checks that
+ * regressed or were fixed since.
  */
 
 'use client';
@@ -17,9 +19,13 @@ import {
   RefreshCw,
   Download,
   Clock,
+  TrendingUp,
+  TrendingDown,
+  ArrowRight,
 } from 'lucide-react';
 import { AuditResults, AuditCheckResult, CategoryResults } from '@/lib/seo/audit/runner';
 import { AuditCheckCategory } from '@/lib/seo/audit/checks';
+import { CheckChange, ScoreTrend, compareAudits } from '@/lib/seo/audit/history';
 import {
   getGradeForScore,
   getScoreBreakdown,
@@ -42,6 +48,8 @@ import { RecommendationCard } from './RecommendationCard';
 export interface AuditResultCardProps {
   /** Audit results */
   results: AuditResults;
+  /** Results of the previous run, to show what changed since */
+  previousResults?: AuditResults | null;
   /** Industry for benchmarks */
   industry?: string;
   /** Show detailed issues */
@@ -58,18 +66,79 @@ export interface AuditResultCardProps {
   className?: string;
 }
 
-type ActiveTab = 'overview' | 'issues' | 'recommendations';
+type ActiveTab = 'overview' | 'issues' | 'changes' | 'recommendations';
 
 // ============================================================================
 // HELPER COMPONENTS
 // ============================================================================
 
+function TrendBadge({ trend }: { trend: ScoreTrend }) {
+  if (trend.direction === 'same') return null;
+
+  const Icon = trend.direction === 'up' ? TrendingUp : TrendingDown;
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 text-xs font-medium ${
+        trend.direction === 'up' ? 'text-green-600' : 'text-red-600'
+      }`}
+      title={trend.label}
+    >
+      <Icon className="h-3 w-3" />
+      {trend.change}
+    </span>
+  );
+}
+
+function CheckChangeRow({ change, kind }: { change: CheckChange; kind: 'regressed' | 'fixed' }) {
+  const urls = change.url ? [change.url] : change.affectedUrls ?? [];
+
+  return (
+    <li
+      className={`p-3 rounded-lg border-l-4 ${
+        kind === 'regressed'
+          ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+          : 'border-green-500 bg-green-50 dark:bg-green-900/20'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">{change.checkName}</span>
+        <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+          {change.previous.status}
+          <ArrowRight className="h-3 w-3" />
+          <span className={kind === 'regressed' ? 'text-red-600' : 'text-green-600'}>
+            {change.current.status}
+          </span>
+        </span>
+      </div>
+      <div className="mt-1 grid gap-1 text-xs text-gray-600 dark:text-gray-400 md:grid-cols-2">
+        <span>
+          <span className="font-medium">Before:</span> {change.previous.details || change.previous.status}
+        </span>
+        <span>
+          <span className="font-medium">Now:</span> {change.current.details || change.current.status}
+        </span>
+      </div>
+      {urls.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">
+          {urls.slice(0, 3).join(', ')}
+          {urls.length > 3 && ` +${urls.length - 3} more`}
+        </p>
+      )}
+      {kind === 'regressed' && change.fix && (
+        <p className="mt-1 text-xs text-gray-700 dark:text-gray-300">{change.fix}</p>
+      )}
+    </li>
+  );
+}
+
 function CategoryProgress({
   category,
   results,
+  trend,
 }: {
   category: AuditCheckCategory;
   results: CategoryResults;
+  trend?: ScoreTrend | null;
 }) {
   const interpretation = getGradeForScore(results.score);
   const scoreColor = getScoreColor(results.score);
@@ -93,8 +162,11 @@ function CategoryProgress({
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
             {categoryLabels[category]}
           </span>
-          <span className="text-sm font-bold" style={{ color: scoreColor }}>
-            {results.score}%
+          <span className="flex items-center gap-2">
+            {trend && <TrendBadge trend={trend} />}
+            <span className="text-sm font-bold" style={{ color: scoreColor }}>
+              {results.score}%
+            </span>
           </span>
         </div>
         <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
@@ -132,6 +204,7 @@ function CategoryProgress({
 
 export function AuditResultCard({
   results,
+  previousResults,
   industry,
   showIssues = true,
   showRecommendations = true,
@@ -153,6 +226,11 @@ export function AuditResultCard({
     [results]
   );
 
+  const comparison = useMemo(
+    () => (previousResults ? compareAudits(previousResults, results) : null),
+    [previousResults, results]
+  );
+
   const failedChecks = useMemo(
     () =>
       results.checks.filter(
@@ -219,6 +297,12 @@ export function AuditResultCard({
               <span className="text-gray-300 dark:text-gray-600">•</span>
               {results.meta.checksRun} checks run
               {results.meta.checksSkipped > 0 && ` (${results.meta.checksSkipped} skipped)`}
+              {comparison && (
+                <>
+                  <span className="text-gray-300 dark:text-gray-600">•</span>
+                  {comparison.trend.label} since {new Date(comparison.previous.timestamp).toLocaleDateString()}
+                </>
+              )}
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -261,6 +345,7 @@ export function AuditResultCard({
       <div className="p-4 grid gap-4 md:grid-cols-4">
         <ScoreCard
           score={results.score}
+          previousScore={comparison?.previous.score}
           title="Overall Score"
           showGrade={true}
           showDescription={true}
@@ -272,6 +357,7 @@ export function AuditResultCard({
               key={cat}
               category={cat as AuditCheckCategory}
               results={catResults}
+              trend={comparison?.categories[cat as AuditCheckCategory]?.trend}
             />
           ))}
         </div>
@@ -302,6 +388,21 @@ export function AuditResultCard({
               Issues ({failedChecks.length})
             </button>
           )}
+          {comparison && (
+            <button
+              onClick={() => setActiveTab('changes')}
+              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'changes'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              Changes
+              {comparison.regressions.length > 0 && (
+                <span className="ml-1 text-red-600">({comparison.regressions.length} regressed)</span>
+              )}
+            </button>
+          )}
           {showRecommendations && (
             <button
               onClick={() => setActiveTab('recommendations')}
@@ -320,6 +421,17 @@ export function AuditResultCard({
         <div className="p-4">
           {activeTab === 'overview' && (
             <div className="space-y-6">
+              {/* Regressions */}
+              {comparison && comparison.regressions.length > 0 && (
+                <button
+                  onClick={() => setActiveTab('changes')}
+                  className="w-full flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-left text-sm text-red-700 dark:text-red-300"
+                >
+                  <TrendingDown className="h-4 w-4 flex-shrink-0" />
+                  {comparison.regressions.length} check(s) passed in the previous audit and fail now
+                </button>
+              )}
+
               {/* Quick Summary */}
               <div className="grid gap-4 md:grid-cols-3">
                 <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
@@ -429,6 +541,47 @@ export function AuditResultCard({
             </div>
           )}
 
+          {activeTab === 'changes' && comparison && (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+                  Regressions ({comparison.regressions.length})
+                </h3>
+                {comparison.regressions.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Nothing that passed in the previous audit fails now.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {comparison.regressions.map((change) => (
+                      <CheckChangeRow
+                        key={`${change.checkId}@${change.url ?? ''}`}
+                        change={change}
+                        kind="regressed"
+                      />
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {comparison.fixed.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+                    Fixed ({comparison.fixed.length})
+                  </h3>
+                  <ul className="space-y-2">
+                    {comparison.fixed.map((change) => (
+                      <CheckChangeRow
+                        key={`${change.checkId}@${change.url ?? ''}`}
+                        change={change}
+                        kind="fixed"
+                      />
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
           {activeTab === 'recommendations' && showRecommendations && (
             <div className="space-y-4">
               {recommendations.topPriorities.length === 0 ? (
@@ -0,0 +1,137 @@
+/**
+ * ScoreTrendChart Component
+ *
+ * Overall and per-category SEO scores across stored audit runs, one
+ * sparkline per category.
+ */
+
+'use client';
+
+import React from 'react';
+import { AuditCheckCategory } from '@/lib/seo/audit/checks';
+import { AuditTrendPoint, getCategoryTrend } from '@/lib/seo/audit/history';
+import { getScoreColor, getScoreTrend } from '@/lib/seo/audit/scoring';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ScoreTrendChartProps {
+  /** Scores per run, oldest first */
+  points: AuditTrendPoint[];
+  /** Categories to chart (default: overall and every category that ran) */
+  categories?: Array<AuditCheckCategory | 'overall'>;
+  /** Additional class name */
+  className?: string;
+}
+
+const CATEGORY_LABELS: Record<AuditCheckCategory | 'overall', string> = {
+  overall: 'Overall',
+  technical: 'Technical SEO',
+  content: 'Content',
+  local: 'Local SEO',
+  schema: 'Structured Data',
+  eeat: 'E-E-A-T',
+  'ai-search': 'AI Search',
+};
+
+const CHART_WIDTH = 160;
+const CHART_HEIGHT = 40;
+
+// ============================================================================
+// HELPER COMPONENTS
+// ============================================================================
+
+function Sparkline({ scores, color }: { scores: number[]; color: string }) {
+  const step = scores.length > 1 ? CHART_WIDTH / (scores.length - 1) : 0;
+  const coordinates = scores.map((score, index) => ({
+    x: scores.length > 1 ? index * step : CHART_WIDTH / 2,
+    y: CHART_HEIGHT - (score / 100) * (CHART_HEIGHT - 4) - 2,
+  }));
+  const last = coordinates[coordinates.length - 1];
+
+  return (
+    <svg
+      width={CHART_WIDTH}
+      height={CHART_HEIGHT}
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="overflow-visible"
+      aria-hidden="true"
+    >
+      <line
+        x1={0}
+        x2={CHART_WIDTH}
+        y1={CHART_HEIGHT / 2}
+        y2={CHART_HEIGHT / 2}
+        className="stroke-gray-200 dark:stroke-gray-700"
+        strokeDasharray="2 3"
+      />
+      {coordinates.length > 1 && (
+        <polyline
+          points={coordinates.map(({ x, y }) => `${x},${y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      )}
+      <circle cx={last.x} cy={last.y} r={3} fill={color} />
+    </svg>
+  );
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function ScoreTrendChart({ points, categories, className = '' }: ScoreTrendChartProps) {
+  const charted = categories ?? (Object.keys(CATEGORY_LABELS) as Array<AuditCheckCategory | 'overall'>);
+
+  const rows = charted
+    .map((category) => ({ category, series: getCategoryTrend(points, category) }))
+    .filter(({ series }) => series.length > 0);
+
+  if (rows.length === 0) {
+    return (
+      <p className={`text-sm text-gray-500 dark:text-gray-400 ${className}`}>
+        Run an audit to start tracking scores.
+      </p>
+    );
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {rows.map(({ category, series }) => {
+        const current = series[series.length - 1].score;
+        const trend = series.length > 1 ? getScoreTrend(current, series[series.length - 2].score) : null;
+        const color = getScoreColor(current);
+
+        return (
+          <div key={category} className="flex items-center gap-4">
+            <span className="w-32 text-sm font-medium text-gray-700 dark:text-gray-300">
+              {CATEGORY_LABELS[category]}
+            </span>
+            <Sparkline scores={series.map((point) => point.score)} color={color} />
+            <span className="w-10 text-right text-sm font-bold" style={{ color }}>
+              {current}
+            </span>
+            <span
+              className={`w-24 text-xs ${
+                trend?.direction === 'up'
+                  ? 'text-green-600'
+                  : trend?.direction === 'down'
+                    ? 'text-red-600'
+                    : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {trend ? trend.label : `${series.length} run`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ScoreTrendChart;
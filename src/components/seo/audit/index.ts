@@ -6,3 +6,4 @@ export * from './ScoreCard';
 export * from './IssueCard';
 export * from './RecommendationCard';
 export * from './AuditResultCard';
+export * from './ScoreTrendChart';
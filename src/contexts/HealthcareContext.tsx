@@ -119,12 +119,11 @@ export function HealthcareProvider({
     }
 
     const endpoint = action.endpoint;
-    const response = await fetch(endpoint, {
-      method: endpoint.includes('seo-audit') ? 'GET' : 'POST',
+    const isAudit = endpoint.includes('seo-audit');
+    const response = await fetch(isAudit ? `${endpoint}?projectId=${projectId}` : endpoint, {
+      method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: endpoint.includes('seo-audit')
-        ? undefined
-        : JSON.stringify({ projectId, actionId }),
+      body: isAudit ? undefined : JSON.stringify({ projectId, actionId }),
     });
 
     if (!response.ok) {
@@ -14,9 +14,22 @@ export type { UseHealthcareOptions, HealthcareData, UseHealthcareReturn } from '
 export { useSEOAudit } from './useSEOAudit';
 export type { UseSEOAuditOptions, SEOAuditStats, UseSEOAuditReturn } from './useSEOAudit';
 
-export { useLocalSEO } from './useLocalSEO';
+export { useSEOAuditHistory } from './useSEOAuditHistory';
+export type {
+  UseSEOAuditHistoryOptions,
+  SEOAuditRunComparison,
+  UseSEOAuditHistoryReturn,
+} from './useSEOAuditHistory';
+
+export { useLocalSEO, toBuildProgressFiles } from './useLocalSEO';
 export type { UseLocalSEOOptions, LocalSEOCoverage, UseLocalSEOReturn, NAPConsistencyReport } from './useLocalSEO';
 
+export { useContentReviews } from './useContentReviews';
+export type { UseContentReviewsOptions, UseContentReviewsReturn } from './useContentReviews';
+
+export { useTestimonials } from './useTestimonials';
+export type { UseTestimonialsOptions, UseTestimonialsReturn } from './useTestimonials';
+
 // Performance hooks
 export { usePerformance, useMetric, usePerformanceScore } from './usePerformance';
 export type { UsePerformanceOptions, UsePerformanceReturn } from './usePerformance';
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type {
+  ContentReview,
+  ContentReviewComment,
+  ContentReviewDetail,
+  ContentReviewStatus,
+  ReviewableContentType,
+} from '@/types/healthcare';
+
+export interface UseContentReviewsOptions {
+  projectId: string;
+  /** Only reviews with this status, e.g. 'pending' for a reviewer's queue */
+  status?: ContentReviewStatus;
+}
+
+export interface UseContentReviewsReturn {
+  reviews: ContentReview[];
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  getReview: (reviewId: string) => Promise<ContentReviewDetail>;
+  requestReview: (
+    contentType: ReviewableContentType,
+    contentId: string,
+    reviewerId: string,
+    comment?: string
+  ) => Promise<ContentReview>;
+  addComment: (reviewId: string, body: string, authorName?: string) => Promise<ContentReviewComment>;
+  approve: (reviewId: string, note?: string) => Promise<ContentReview>;
+  reject: (reviewId: string, note: string) => Promise<ContentReview>;
+  cancel: (reviewId: string) => Promise<ContentReview>;
+}
+
+/**
+ * useContentReviews Hook
+ *
+ * Medical review workflow for health articles, service pages and local
+ * pages: assign a physician reviewer, discuss, and approve (which
+ * publishes) or reject.
+ */
+export function useContentReviews({ projectId, status }: UseContentReviewsOptions): UseContentReviewsReturn {
+  const [reviews, setReviews] = useState<ContentReview[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const request = useCallback(async <T,>(path: string, init: RequestInit, fallback: string): Promise<T> => {
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await fetch(`/api/healthcare/reviews${path}${separator}projectId=${projectId}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || fallback);
+    }
+
+    const result = await response.json();
+    return result.data;
+  }, [projectId]);
+
+  // Keep the list in step with a changed review
+  const upsert = useCallback((review: ContentReview) => {
+    setReviews((prev) => {
+      const rest = prev.filter((r) => r.id !== review.id);
+      return !status || review.status === status ? [review, ...rest] : rest;
+    });
+    return review;
+  }, [status]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setReviews(await request<ContentReview[]>(status ? `?status=${status}` : '', {}, 'Failed to fetch reviews'));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to fetch reviews'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request, status]);
+
+  const getReview = useCallback((reviewId: string) => {
+    return request<ContentReviewDetail>(`/${reviewId}`, {}, 'Failed to fetch review');
+  }, [request]);
+
+  const requestReview = useCallback(async (
+    contentType: ReviewableContentType,
+    contentId: string,
+    reviewerId: string,
+    comment?: string
+  ) => {
+    const review = await request<ContentReview>('', {
+      method: 'POST',
+      body: JSON.stringify({ contentType, contentId, reviewerId, comment }),
+    }, 'Failed to request review');
+    return upsert(review);
+  }, [request, upsert]);
+
+  const addComment = useCallback((reviewId: string, body: string, authorName?: string) => {
+    return request<ContentReviewComment>(`/${reviewId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body, authorName }),
+    }, 'Failed to add comment');
+  }, [request]);
+
+  const decide = useCallback(async (reviewId: string, decision: 'approve' | 'reject', note?: string) => {
+    const review = await request<ContentReview>(`/${reviewId}/decision`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note }),
+    }, `Failed to ${decision} review`);
+    return upsert(review);
+  }, [request, upsert]);
+
+  const approve = useCallback((reviewId: string, note?: string) => decide(reviewId, 'approve', note), [decide]);
+  const reject = useCallback((reviewId: string, note: string) => decide(reviewId, 'reject', note), [decide]);
+
+  const cancel = useCallback(async (reviewId: string) => {
+    const review = await request<ContentReview>(`/${reviewId}`, { method: 'DELETE' }, 'Failed to cancel review');
+    return upsert(review);
+  }, [request, upsert]);
+
+  return {
+    reviews,
+    isLoading,
+    error,
+    refresh,
+    getReview,
+    requestReview,
+    addComment,
+    approve,
+    reject,
+    cancel,
+  };
+}
+
+export default useContentReviews;
@@ -7,6 +7,7 @@ import type {
   MedicalService,
   HealthArticle,
   PhysicianProfile,
+  PhysicianEnrichmentResult,
   SEOAuditResult,
 } from '@/types/healthcare';
 
@@ -37,6 +38,7 @@ export interface UseHealthcareReturn {
   addService: (service: Omit<MedicalService, 'id' | 'practiceId' | 'createdAt' | 'updatedAt'>) => Promise<MedicalService>;
   updateService: (id: string, service: Partial<MedicalService>) => Promise<void>;
   deleteService: (id: string) => Promise<void>;
+  enrichPhysician: (id: string) => Promise<PhysicianEnrichmentResult>;
   runSEOAudit: (scope?: 'full' | 'quick') => Promise<SEOAuditResult>;
 }
 
@@ -216,8 +218,28 @@ export function useHealthcare({
     }));
   }, [projectId]);
 
+  const enrichPhysician = useCallback(async (id: string): Promise<PhysicianEnrichmentResult> => {
+    const response = await fetch(`/api/healthcare/physicians/${id}/enrich?projectId=${projectId}`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || 'Failed to check physician credentials');
+    }
+
+    const result = await response.json();
+    setData((prev) => ({
+      ...prev,
+      physicians: prev.physicians.map((p) => (p.id === id ? result.data.physician : p)),
+    }));
+    return result.data;
+  }, [projectId]);
+
   const runSEOAudit = useCallback(async (scope: 'full' | 'quick' = 'full'): Promise<SEOAuditResult> => {
-    const response = await fetch(`/api/healthcare/seo-audit?projectId=${projectId}&scope=${scope}`);
+    const response = await fetch(`/api/healthcare/seo-audit?projectId=${projectId}&scope=${scope}`, {
+      method: 'POST',
+    });
 
     if (!response.ok) {
       throw new Error('Failed to run SEO audit');
@@ -240,6 +262,7 @@ export function useHealthcare({
     addService,
     updateService,
     deleteService,
+    enrichPhysician,
     runSEOAudit,
   };
 }
@@ -5,8 +5,12 @@ import type {
   PracticeLocation,
   MedicalService,
   LocationServicePage,
-  LocalSEOPageGenerationRequest,
+  GenerateLocalPagesRequest,
+  GenerateLocalPagesResponse,
+  GenerationJobProgress,
+  GenerationJobStreamEvent,
 } from '@/types/healthcare';
+import type { FileStatus } from '@/components/builder/BuildProgress';
 
 export interface UseLocalSEOOptions {
   projectId: string;
@@ -29,6 +33,8 @@ export interface UseLocalSEOReturn {
   coverage: LocalSEOCoverage;
   isLoading: boolean;
   isGenerating: boolean;
+  /** Progress of the running (or last) generation job */
+  generationProgress: GenerationJobProgress | null;
   error: Error | null;
   refresh: () => Promise<void>;
   generatePage: (locationId: string, serviceId: string) => Promise<LocationServicePage>;
@@ -49,6 +55,53 @@ export interface NAPConsistencyReport {
   }>;
 }
 
+/** Wait before reconnecting to a job progress stream that ended before the job */
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Job items as BuildProgress file statuses, labelled by page slug
+ */
+export function toBuildProgressFiles(progress: GenerationJobProgress): FileStatus[] {
+  return progress.items.map((item) => ({
+    path: item.slug || `${item.locationId}/${item.serviceId}`,
+    status:
+      item.status === 'pending'
+        ? 'queued'
+        : item.status === 'running'
+          ? 'in_progress'
+          : 'completed',
+  }));
+}
+
+/**
+ * Read a newline-delimited job progress stream until it ends
+ */
+async function readJobEvents(
+  response: Response,
+  onEvent: (event: GenerationJobStreamEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (line.trim()) onEvent(JSON.parse(line));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+}
+
 /**
  * useLocalSEO Hook
  *
@@ -61,6 +114,7 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
   const [locationServicePages, setLocationServicePages] = useState<LocationServicePage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationJobProgress | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
   // Calculate coverage
@@ -121,7 +175,68 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
     }
   }, [projectId]);
 
-  // Generate a single page
+  // Queue a generation job, follow its progress and return the pages it wrote
+  const runGenerationJob = useCallback(async (
+    body: Omit<GenerateLocalPagesRequest, 'projectId'>
+  ): Promise<LocationServicePage[]> => {
+    const response = await fetch('/api/healthcare/generate-local-pages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId, ...body }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || 'Failed to generate pages');
+    }
+
+    const result: GenerateLocalPagesResponse = await response.json();
+    let progress = result.data;
+    setGenerationProgress(progress);
+
+    // Streams end with `timeout` after a while, or drop - reconnect until the job finishes
+    while (!progress.done) {
+      const stream = await fetch(
+        `/api/healthcare/generation-jobs/${progress.job.id}/stream?projectId=${projectId}`
+      );
+
+      if (!stream.ok) {
+        const errorData = await stream.json().catch(() => null);
+        throw new Error(errorData?.error?.message || 'Failed to follow page generation');
+      }
+
+      await readJobEvents(stream, (event) => {
+        if (event.type === 'progress') {
+          progress = event.progress;
+          setGenerationProgress(event.progress);
+        }
+        if (event.type === 'error') throw new Error(event.message);
+      });
+
+      if (!progress.done) {
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    }
+
+    // Pick up the generated pages
+    const pagesRes = await fetch(`/api/healthcare/location-service-pages?projectId=${projectId}`);
+    const pagesData = await pagesRes.json();
+    const pages: LocationServicePage[] = pagesData.data || [];
+    setLocationServicePages(pages);
+
+    if (progress.job.status === 'failed') {
+      throw new Error(progress.job.error || 'Page generation failed');
+    }
+
+    const generatedIds = new Set(
+      progress.items
+        .filter((item) => item.status === 'created' || item.status === 'updated')
+        .map((item) => item.pageId)
+    );
+    return pages.filter((page) => generatedIds.has(page.id));
+  }, [projectId]);
+
+  // Generate (or regenerate) a single page
   const generatePage = useCallback(async (
     locationId: string,
     serviceId: string
@@ -130,43 +245,16 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
     setError(null);
 
     try {
-      const location = locations.find((l) => l.id === locationId);
-      const service = services.find((s) => s.id === serviceId);
-
-      if (!location || !service) {
-        throw new Error('Location or service not found');
-      }
-
-      const request: LocalSEOPageGenerationRequest = {
-        practiceId: projectId,
-        locationId,
-        serviceId,
-        locationName: location.name,
-        locationCity: location.city,
-        locationState: location.state,
-        serviceName: service.name,
-        serviceSlug: service.slug,
-      };
-
-      const response = await fetch('/api/healthcare/generate-local-pages', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          projectId,
-          pages: [request],
-        }),
+      const [page] = await runGenerationJob({
+        locationIds: [locationId],
+        serviceIds: [serviceId],
+        overwrite: true,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to generate page');
+      if (!page) {
+        throw new Error('Failed to generate page');
       }
-
-      const result = await response.json();
-      const newPage = result.data.generated[0];
-
-      setLocationServicePages((prev) => [...prev, newPage]);
-      return newPage;
+      return page;
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Unknown error');
       setError(error);
@@ -174,7 +262,7 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
     } finally {
       setIsGenerating(false);
     }
-  }, [projectId, locations, services]);
+  }, [runGenerationJob]);
 
   // Generate all missing pages
   const generateAllMissingPages = useCallback(async (): Promise<LocationServicePage[]> => {
@@ -186,38 +274,7 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
     setError(null);
 
     try {
-      const requests: LocalSEOPageGenerationRequest[] = coverage.missingCombinations.map(
-        ({ location, service }) => ({
-          practiceId: projectId,
-          locationId: location.id,
-          serviceId: service.id,
-          locationName: location.name,
-          locationCity: location.city,
-          locationState: location.state,
-          serviceName: service.name,
-          serviceSlug: service.slug,
-        })
-      );
-
-      const response = await fetch('/api/healthcare/generate-local-pages', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          projectId,
-          pages: requests,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to generate pages');
-      }
-
-      const result = await response.json();
-      const newPages = result.data.generated;
-
-      setLocationServicePages((prev) => [...prev, ...newPages]);
-      return newPages;
+      return await runGenerationJob({ overwrite: false });
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Unknown error');
       setError(error);
@@ -225,7 +282,7 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
     } finally {
       setIsGenerating(false);
     }
-  }, [projectId, coverage.missingCombinations]);
+  }, [runGenerationJob, coverage.missingCombinations]);
 
   // Delete a page
   const deletePage = useCallback(async (pageId: string): Promise<void> => {
@@ -271,6 +328,7 @@ export function useLocalSEO({ projectId }: UseLocalSEOOptions): UseLocalSEORetur
     coverage,
     isLoading,
     isGenerating,
+    generationProgress,
     error,
     refresh,
     generatePage,
@@ -105,7 +105,9 @@ export function useSEOAudit({
     setError(null);
 
     try {
-      const response = await fetch(`/api/healthcare/seo-audit?projectId=${projectId}&scope=${scope}`);
+      const response = await fetch(`/api/healthcare/seo-audit?projectId=${projectId}&scope=${scope}`, {
+        method: 'POST',
+      });
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { SEOAuditRun, SEOAuditRunSummary } from '@/lib/healthcare/seo-audit/history';
+import type { AuditComparison, AuditTrendPoint } from '@/lib/seo/audit/history';
+
+export interface UseSEOAuditHistoryOptions {
+  projectId: string;
+  /** Runs to load (default 20) */
+  limit?: number;
+  /** Load the history on mount */
+  autoLoad?: boolean;
+}
+
+export interface SEOAuditRunComparison extends AuditComparison {
+  from: string;
+  to: string;
+}
+
+export interface UseSEOAuditHistoryReturn {
+  /** Stored runs, newest first */
+  audits: SEOAuditRunSummary[];
+  /** Overall and per-category scores, oldest first */
+  trend: AuditTrendPoint[];
+  /** Latest run with its results */
+  latest: SEOAuditRun | null;
+  /** Run the latest one was compared with */
+  previous: SEOAuditRun | null;
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  loadAudit: (auditId: string) => Promise<SEOAuditRun>;
+  compare: (from?: string, to?: string) => Promise<SEOAuditRunComparison>;
+}
+
+/**
+ * useSEOAuditHistory Hook
+ *
+ * Stored SEO audit runs of a project: score trends, the latest run and the
+ * run before it, and comparisons between any two runs.
+ */
+export function useSEOAuditHistory({
+  projectId,
+  limit,
+  autoLoad = true,
+}: UseSEOAuditHistoryOptions): UseSEOAuditHistoryReturn {
+  const [audits, setAudits] = useState<SEOAuditRunSummary[]>([]);
+  const [trend, setTrend] = useState<AuditTrendPoint[]>([]);
+  const [latest, setLatest] = useState<SEOAuditRun | null>(null);
+  const [previous, setPrevious] = useState<SEOAuditRun | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const request = useCallback(async <T,>(path: string, fallback: string): Promise<T> => {
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await fetch(`/api/healthcare/seo-audit${path}${separator}projectId=${projectId}`);
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || fallback);
+    }
+
+    const result = await response.json();
+    return result.data;
+  }, [projectId]);
+
+  const loadAudit = useCallback(
+    (auditId: string) => request<SEOAuditRun>(`/history/${auditId}`, 'Failed to fetch SEO audit'),
+    [request]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const history = await request<{ audits: SEOAuditRunSummary[]; trend: AuditTrendPoint[] }>(
+        `/history${limit ? `?limit=${limit}` : ''}`,
+        'Failed to fetch SEO audit history'
+      );
+      setAudits(history.audits);
+      setTrend(history.trend);
+
+      const newest = history.audits[0];
+      const [latestRun, previousRun] = await Promise.all([
+        newest ? loadAudit(newest.id) : null,
+        newest?.previousAuditId ? loadAudit(newest.previousAuditId).catch(() => null) : null,
+      ]);
+      setLatest(latestRun);
+      setPrevious(previousRun);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to fetch SEO audit history'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, limit, request, loadAudit]);
+
+  const compare = useCallback(async (from?: string, to?: string) => {
+    const query = [from && `from=${from}`, to && `to=${to}`].filter(Boolean).join('&');
+    return request<SEOAuditRunComparison>(
+      `/compare${query ? `?${query}` : ''}`,
+      'Failed to compare SEO audits'
+    );
+  }, [request]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      refresh();
+    }
+  }, [autoLoad, refresh]);
+
+  return {
+    audits,
+    trend,
+    latest,
+    previous,
+    isLoading,
+    error,
+    refresh,
+    loadAudit,
+    compare,
+  };
+}
+
+export default useSEOAuditHistory;
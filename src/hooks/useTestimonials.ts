@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type {
+  ImportTestimonialsRequest,
+  Testimonial,
+  TestimonialImportResult,
+  TestimonialModerationRequest,
+  TestimonialModerationStatus,
+  TestimonialRatings,
+} from '@/types/healthcare';
+
+export interface UseTestimonialsOptions {
+  projectId: string;
+  /** Only testimonials with this status, e.g. 'pending' for the moderation queue */
+  status?: TestimonialModerationStatus;
+}
+
+export interface UseTestimonialsReturn {
+  testimonials: Testimonial[];
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  importReviews: (request: ImportTestimonialsRequest) => Promise<TestimonialImportResult>;
+  moderate: (id: string, request: TestimonialModerationRequest) => Promise<Testimonial>;
+  getRatings: () => Promise<TestimonialRatings>;
+}
+
+/**
+ * useTestimonials Hook
+ *
+ * Import patient reviews from review platform exports and work through
+ * the moderation queue.
+ */
+export function useTestimonials({ projectId, status }: UseTestimonialsOptions): UseTestimonialsReturn {
+  const [testimonials, setTestimonials] = useState<Testimonial[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const request = useCallback(async <T,>(path: string, init: RequestInit, fallback: string): Promise<T> => {
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await fetch(`/api/healthcare/testimonials${path}${separator}projectId=${projectId}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || fallback);
+    }
+
+    const result = await response.json();
+    return result.data;
+  }, [projectId]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setTestimonials(
+        await request<Testimonial[]>(status ? `?status=${status}` : '', {}, 'Failed to fetch testimonials')
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to fetch testimonials'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request, status]);
+
+  const importReviews = useCallback(async (body: ImportTestimonialsRequest) => {
+    const result = await request<TestimonialImportResult>('/import', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }, 'Failed to import reviews');
+
+    // Imports land in the moderation queue
+    if (!status || status === 'pending') {
+      setTestimonials((prev) => [...result.testimonials, ...prev]);
+    }
+    return result;
+  }, [request, status]);
+
+  const moderate = useCallback(async (id: string, body: TestimonialModerationRequest) => {
+    const testimonial = await request<Testimonial>(`/${id}/moderation`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }, 'Failed to moderate testimonial');
+
+    setTestimonials((prev) => {
+      const rest = prev.filter((t) => t.id !== id);
+      return !status || testimonial.moderationStatus === status ? [testimonial, ...rest] : rest;
+    });
+    return testimonial;
+  }, [request, status]);
+
+  const getRatings = useCallback(() => {
+    return request<TestimonialRatings>('/ratings', {}, 'Failed to fetch ratings');
+  }, [request]);
+
+  return {
+    testimonials,
+    isLoading,
+    error,
+    refresh,
+    importReviews,
+    moderate,
+    getRatings,
+  };
+}
+
+export default useTestimonials;
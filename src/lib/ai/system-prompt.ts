@@ -35,8 +35,26 @@ export interface ProjectContext {
     mobileScore?: number;
   };
   customInstructions?: string;
+  sitePages?: Array<{
+    path: string;
+    name: string;
+    description?: string;
+    hasContent?: boolean;
+  }>;
+  targetPage?: string;
+  currentPageHtml?: string;
+  /** Element the user picked in the preview; edits should be scoped to it */
+  targetElement?: {
+    selector: string;
+    html: string;
+    label?: string;
+    scope?: 'page' | 'header' | 'footer';
+  };
 }
 
+/** Maximum characters of the current page included in the prompt */
+const MAX_CURRENT_PAGE_CHARS = 30000;
+
 /**
  * Build initial AI message based on project context
  */
@@ -157,7 +175,8 @@ When asked to "build" or generate a website:
 2. Include all necessary sections: Hero, Features/Services, About, Testimonials, CTA, Footer
 3. Use placeholder images from /placeholder-hero.jpg, /placeholder-feature.jpg, etc.
 4. Include proper navigation with smooth scroll anchors
-5. Wrap everything in a proper HTML structure
+5. Give every top-level section a unique id (id="hero", id="services", ...)
+6. Return changes using the EDIT PROTOCOL below
 
 IMPORTANT:
 - ALWAYS generate premium, dark-themed websites
@@ -178,6 +197,24 @@ ${getAnalysisSection(context.analysisData)}
 `;
   }
 
+  // Add the page tree when working on a multi-page site
+  if (context.sitePages?.length) {
+    prompt += `\n## SITE STRUCTURE
+${getSiteStructureSection(context.sitePages, context.targetPage)}
+`;
+  }
+
+  prompt += `\n## EDIT PROTOCOL
+${getEditProtocolSection(context)}
+`;
+
+  // Scope the request to the element picked in the preview
+  if (context.targetElement) {
+    prompt += `\n## SELECTED ELEMENT
+${getSelectedElementSection(context.targetElement)}
+`;
+  }
+
   return prompt;
 }
 
@@ -323,6 +360,94 @@ Tone: Professional, ${industry.name === 'Restaurant' ? 'appetizing' : 'trustwort
 `;
 }
 
+function getSiteStructureSection(
+  pages: NonNullable<ProjectContext['sitePages']>,
+  targetPage?: string
+): string {
+  const target = targetPage || '/';
+
+  return `
+Pages (all pages share the same header and footer):
+${pages
+  .map(
+    (p) =>
+      `• ${p.path} - ${p.name} (${p.hasContent ? 'built' : 'empty'})${p.description ? `: ${p.description}` : ''}`
+  )
+  .join('\n')}
+
+Currently editing: ${target}
+
+Rules for multi-page output:
+• Edits apply to the page currently being edited (${target}) unless they set page="..."
+• Link between pages with root-relative paths (href="/about"), not # anchors
+`;
+}
+
+function getEditProtocolSection(context: ProjectContext): string {
+  const current = context.currentPageHtml?.trim();
+  const currentSection = current
+    ? `
+Current markup of the page being edited:
+<current-page>
+${current.length > MAX_CURRENT_PAGE_CHARS ? `${current.slice(0, MAX_CURRENT_PAGE_CHARS)}\n<!-- truncated -->` : current}
+</current-page>
+`
+    : '';
+
+  return `
+Make the smallest change that satisfies the request. Never rewrite the whole site for a small change.
+Wrap every change in an <edit> block. Text outside <edit> blocks is shown to the user as your reply.
+
+<edit action="replace" target="#hero">...new markup for the element...</edit>
+<edit action="insert_after" target="#services">...new section...</edit>
+<edit action="insert_before" target="#contact">...new section...</edit>
+<edit action="append">...section added to the end of the page...</edit>
+<edit action="remove" target="#old-banner"></edit>
+<edit action="update_page" page="/about" title="About Us">...full page body...</edit>
+<edit action="update_layout" target="header">...shared header markup...</edit>
+
+Rules:
+• target is a CSS selector, preferably an id (#hero)
+• Use update_page only when building a page from scratch or the user asks for a full redesign
+• Page bodies exclude the shared header and footer - change those with update_layout
+• Do not wrap <edit> blocks in code fences
+${currentSection}`;
+}
+
+function getSelectedElementSection(
+  element: NonNullable<ProjectContext['targetElement']>
+): string {
+  const html = element.html.trim();
+  const markup =
+    html.length > MAX_CURRENT_PAGE_CHARS ? `${html.slice(0, MAX_CURRENT_PAGE_CHARS)}\n<!-- truncated -->` : html;
+
+  if (element.scope === 'header' || element.scope === 'footer') {
+    return `
+The user selected an element inside the shared ${element.scope} (${element.label || element.selector}):
+<selected-element>
+${markup}
+</selected-element>
+
+Rules:
+• Apply the request to this element only and leave the rest of the ${element.scope} unchanged
+• Return the complete ${element.scope} with <edit action="update_layout" target="${element.scope}">
+• Keep the {{nav}} and {{siteName}} placeholders in place of the rendered navigation links and site name
+`;
+  }
+
+  return `
+The user selected this element in the preview (${element.label || element.selector}):
+<selected-element selector="${element.selector}">
+${markup}
+</selected-element>
+
+Rules:
+• Apply the request to this element only - do not touch the rest of the page
+• Use <edit action="replace" target="${element.selector}"> with the complete new markup for the element
+• Use insert_before / insert_after with the same target when the user asks to add something next to it
+`;
+}
+
 function getAnalysisSection(analysis: ProjectContext['analysisData']): string {
   if (!analysis) return '';
 
@@ -0,0 +1,23 @@
+/**
+ * Builder Module
+ *
+ * Site model and helpers used by the AI website builder.
+ */
+
+// Types
+export * from './types';
+
+// Site model
+export * from './site';
+
+// Version history
+export * from './versions';
+
+// Structured edit operations
+export * from './operations';
+
+// Preview iframe bridge
+export * from './preview-bridge';
+
+// Direct edits from the preview
+export * from './inline-edits';
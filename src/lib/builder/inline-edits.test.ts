@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { applyInlineEdit } from './inline-edits';
+import { createSiteFromPages, findPage, upsertPage } from './site';
+
+describe('applyInlineEdit nav labels', () => {
+  const site = createSiteFromPages('Bright Smile Dental', [
+    { path: '/', name: 'Home' },
+    { path: '/about', name: 'About' },
+  ]);
+
+  it('renames the linked page so later page changes keep the label', () => {
+    const { site: edited, error } = applyInlineEdit(site, { kind: 'nav', path: '/about', label: ' About Us ' });
+
+    expect(error).toBeUndefined();
+    expect(edited.navigation.find((item) => item.path === '/about')?.label).toBe('About Us');
+
+    const about = findPage(edited, '/about')!;
+    const saved = upsertPage(edited, { ...about, html: '<h1>About Bright Smile</h1>' });
+    expect(saved.navigation.find((item) => item.path === '/about')?.label).toBe('About Us');
+  });
+
+  it('rejects empty labels and unknown links', () => {
+    expect(applyInlineEdit(site, { kind: 'nav', path: '/about', label: '  ' }).error).toBe(
+      'Navigation labels cannot be empty'
+    );
+    expect(applyInlineEdit(site, { kind: 'nav', path: '/careers', label: 'Careers' }).error).toBe(
+      'No navigation link for /careers'
+    );
+  });
+});
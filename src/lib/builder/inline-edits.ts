@@ -0,0 +1,154 @@
+/**
+ * Inline Edits
+ *
+ * Direct text and image changes made in the preview's edit mode. These are
+ * applied to the site model locally, without a round-trip to the AI, and
+ * land in the builder's undo history like any other site change.
+ */
+
+import { mutateFragment } from './operations';
+import { findPage, NAV_PLACEHOLDER, upsertPage } from './site';
+import type { InlineEdit, SiteModel } from './types';
+
+const SITE_NAME_PLACEHOLDER = '{{siteName}}';
+
+/** Elements kept when cleaning contentEditable output; others are unwrapped */
+const INLINE_TAGS = new Set([
+  'A', 'SPAN', 'STRONG', 'EM', 'B', 'I', 'U', 'SMALL', 'MARK', 'SUP', 'SUB', 'BR', 'CODE', 'ABBR', 'TIME',
+]);
+
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'IFRAME', 'OBJECT', 'EMBED']);
+
+// ============================================================================
+// SANITIZING
+// ============================================================================
+
+/**
+ * Clean markup produced by contentEditable: unwrap block elements the
+ * browser inserted, drop scripts and strip event handler attributes
+ */
+export function sanitizeInlineHtml(html: string, doc: Document): string {
+  const template = doc.createElement('template');
+  template.innerHTML = html;
+
+  const clean = (parent: ParentNode) => {
+    for (const child of Array.from(parent.children)) {
+      if (DROPPED_TAGS.has(child.tagName)) {
+        child.remove();
+        continue;
+      }
+
+      clean(child);
+
+      for (const attr of Array.from(child.attributes)) {
+        if (/^on/i.test(attr.name) || attr.name === 'contenteditable' || /^\s*javascript:/i.test(attr.value)) {
+          child.removeAttribute(attr.name);
+        }
+      }
+
+      if (!INLINE_TAGS.has(child.tagName)) {
+        // Browsers wrap new lines in <div>/<p> - keep the break, lose the block
+        const br = child.previousSibling ? doc.createElement('br') : null;
+        child.replaceWith(...(br ? [br] : []), ...Array.from(child.childNodes));
+      }
+    }
+  };
+
+  clean(template.content);
+
+  const container = doc.createElement('div');
+  container.appendChild(template.content);
+  return container.innerHTML.replace(/(<br>\s*)+$/, '').trim();
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Apply an inline edit to a site
+ */
+export function applyInlineEdit(
+  site: SiteModel,
+  edit: InlineEdit
+): { site: SiteModel; error?: string } {
+  if (edit.kind === 'nav') {
+    const label = edit.label.trim();
+    if (!label) return { site, error: 'Navigation labels cannot be empty' };
+    const page = site.navigation.some((item) => item.path === edit.path) ? findPage(site, edit.path) : undefined;
+    if (!page) return { site, error: `No navigation link for ${edit.path}` };
+
+    // Navigation is rebuilt from page names whenever a page changes, so
+    // the label is kept by renaming the page it links to
+    return { site: upsertPage(site, { ...page, name: label }) };
+  }
+
+  const source = edit.scope === 'page' ? findPage(site, edit.page)?.html : site.layout[edit.scope];
+  if (source === undefined) return { site, error: `Page ${edit.page} does not exist` };
+
+  const outcome: { renamed?: string; error?: string } = {};
+
+  const html = mutateFragment(source, (body, doc) => {
+    let element: Element | null = null;
+    try {
+      element = body.querySelector(edit.selector);
+    } catch {
+      return false;
+    }
+    if (!element) return false;
+
+    if (edit.kind === 'image') {
+      element.setAttribute('src', edit.src);
+      if (edit.alt !== undefined) element.setAttribute('alt', edit.alt);
+      element.removeAttribute('srcset');
+      return true;
+    }
+
+    const current = element.innerHTML;
+    const next = sanitizeInlineHtml(edit.html, doc);
+
+    // The site name is filled in at render time; editing it renames the site
+    if (current.trim() === SITE_NAME_PLACEHOLDER) {
+      const text = doc.createElement('template');
+      text.innerHTML = next;
+      outcome.renamed = text.content.textContent?.trim();
+      return !!outcome.renamed;
+    }
+    if (current.includes(SITE_NAME_PLACEHOLDER) || current.includes(NAV_PLACEHOLDER)) {
+      outcome.error = 'This text is generated from the site settings and cannot be edited inline';
+      return false;
+    }
+
+    element.innerHTML = next;
+    return true;
+  });
+
+  if (outcome.renamed) return { site: { ...site, name: outcome.renamed } };
+  if (html === null) {
+    const location = edit.scope === 'page' ? edit.page : `the ${edit.scope}`;
+    return { site, error: outcome.error || `Could not find ${edit.selector} on ${location}` };
+  }
+
+  if (edit.scope === 'page') {
+    return { site: upsertPage(site, { ...findPage(site, edit.page)!, html }) };
+  }
+  return { site: { ...site, layout: { ...site.layout, [edit.scope]: html } } };
+}
+
+/**
+ * Unique image URLs used anywhere on the site, for the image picker
+ */
+export function collectSiteImages(site: SiteModel): string[] {
+  const sources = [site.layout.header, site.layout.footer, ...site.pages.map((page) => page.html)];
+  const images = new Set<string>();
+  const imgRegex = /<img\b[^>]*?\ssrc\s*=\s*["']([^"']+)["']/gi;
+
+  for (const markup of sources) {
+    let match;
+    while ((match = imgRegex.exec(markup)) !== null) {
+      if (!match[1].startsWith('data:')) images.add(match[1]);
+    }
+  }
+
+  return Array.from(images);
+}
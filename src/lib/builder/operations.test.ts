@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { completeTruncatedHtml, createOperationParser, type BuildStreamEvent } from './operations';
+
+/** Feed chunks through a parser and collect every event, merging text */
+function parse(chunks: string[]): BuildStreamEvent[] {
+  const parser = createOperationParser();
+  const events = [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+
+  return events.reduce<BuildStreamEvent[]>((merged, event) => {
+    const last = merged[merged.length - 1];
+    if (event.type === 'text' && last?.type === 'text') {
+      merged[merged.length - 1] = { type: 'text', delta: last.delta + event.delta };
+    } else {
+      merged.push(event);
+    }
+    return merged;
+  }, []);
+}
+
+/** Every split of a string into two chunks */
+function splits(text: string): string[][] {
+  return Array.from({ length: text.length - 1 }, (_, index) => [text.slice(0, index + 1), text.slice(index + 1)]);
+}
+
+describe('createOperationParser', () => {
+  const stream =
+    'Updating the hero.\n<edit action="replace" page="/" target="#hero"><section id="hero"><h1>Hi</h1></section></edit>\nDone.';
+
+  const expected: BuildStreamEvent[] = [
+    { type: 'text', delta: 'Updating the hero.\n' },
+    {
+      type: 'operation',
+      operation: { action: 'replace', page: '/', target: '#hero', html: '<section id="hero"><h1>Hi</h1></section>' },
+    },
+    { type: 'text', delta: '\nDone.' },
+  ];
+
+  it('parses an edit block in one chunk', () => {
+    expect(parse([stream])).toEqual(expected);
+  });
+
+  it('parses edit tags split across chunks at any position', () => {
+    for (const chunks of splits(stream)) {
+      expect(parse(chunks)).toEqual(expected);
+    }
+  });
+
+  it('parses edit tags streamed a character at a time', () => {
+    expect(parse(Array.from(stream))).toEqual(expected);
+  });
+
+  it('accepts html code fences as page updates and keeps other fences as text', () => {
+    const fenced = 'Here you go:\n```html\n<main><h1>New</h1></main>\n```\nAnd a config:\n```json\n{"a": 1}\n```';
+
+    for (const chunks of [[fenced], ...splits(fenced)]) {
+      expect(parse(chunks)).toEqual([
+        { type: 'text', delta: 'Here you go:\n' },
+        { type: 'operation', operation: { action: 'update_page', page: undefined, html: '<main><h1>New</h1></main>' } },
+        { type: 'text', delta: '\nAnd a config:\n```json\n{"a": 1}\n```' },
+      ]);
+    }
+  });
+
+  it('keeps editor-like tags as text', () => {
+    const text = 'Use the <editor> panel or an <editable> region. <main><p>Text</p></main>';
+
+    for (const chunks of [[text], ...splits(text)]) {
+      expect(parse(chunks)).toEqual([{ type: 'text', delta: text }]);
+    }
+  });
+
+  it('keeps edit blocks with an unknown action or missing target as text', () => {
+    const invalid = '<edit action="rewrite" target="#hero"><p>x</p></edit><edit action="remove"></edit>';
+    expect(parse([invalid])).toEqual([{ type: 'text', delta: invalid }]);
+  });
+
+  it('repairs an edit block cut off at the end of the stream', () => {
+    expect(parse(['<edit action="append" page="/about"><section><h2>Our team</h2><p>Dr. Ana R'])).toEqual([
+      {
+        type: 'operation',
+        operation: { action: 'append', page: '/about', html: '<section><h2>Our team</h2><p>Dr. Ana R</p></section>' },
+        repaired: true,
+      },
+    ]);
+  });
+
+  it('surfaces a block cut off before any usable markup as text', () => {
+    expect(parse(['<edit action="append"><sect'])).toEqual([{ type: 'text', delta: '<edit action="append"><sect' }]);
+  });
+});
+
+describe('completeTruncatedHtml', () => {
+  it('closes open elements in order', () => {
+    expect(completeTruncatedHtml('<div><ul><li>One</li><li>Two')).toBe('<div><ul><li>One</li><li>Two</li></ul></div>');
+  });
+
+  it('drops a trailing partial tag, entity or comment', () => {
+    expect(completeTruncatedHtml('<p>Fish &amp; chips</p><a href="/menu')).toBe('<p>Fish &amp; chips</p>');
+    expect(completeTruncatedHtml('<p>Fish &am')).toBe('<p>Fish</p>');
+    expect(completeTruncatedHtml('<p>Menu</p><!-- todo: add pri')).toBe('<p>Menu</p>');
+  });
+
+  it('ignores void and self-closing elements', () => {
+    expect(completeTruncatedHtml('<figure><img src="a.png"><br/><figcaption>Smile')).toBe(
+      '<figure><img src="a.png"><br/><figcaption>Smile</figcaption></figure>'
+    );
+  });
+
+  it('drops script and style blocks that were cut off', () => {
+    expect(completeTruncatedHtml('<div><p>Hello</p><script>const a = "<b>')).toBe('<div><p>Hello</p></div>');
+  });
+
+  it('returns null when no content survives', () => {
+    expect(completeTruncatedHtml('<secti')).toBeNull();
+    expect(completeTruncatedHtml('<section><div>')).toBeNull();
+    expect(completeTruncatedHtml('just text')).toBeNull();
+  });
+
+  it('keeps media-only fragments', () => {
+    expect(completeTruncatedHtml('<div><img src="hero.jpg">')).toBe('<div><img src="hero.jpg"></div>');
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * Structured Edit Operations
+ *
+ * The build route asks the model for targeted edits instead of whole
+ * documents. Edits are written as `<edit>` blocks:
+ *
+ *   <edit action="replace" page="/" target="#hero">...html...</edit>
+ *
+ * This module parses those blocks out of the streamed text, defines the
+ * NDJSON events the route emits, and applies the operations to a site.
+ */
+
+import { applyGeneratedCode, findPage, normalizePath, upsertPage } from './site';
+import type { SiteModel } from './types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type EditAction =
+  | 'replace'
+  | 'insert_before'
+  | 'insert_after'
+  | 'append'
+  | 'remove'
+  | 'update_page'
+  | 'update_layout';
+
+export type LayoutPart = 'header' | 'footer' | 'head';
+
+/**
+ * A single surgical change to the site
+ */
+export type EditOperation =
+  | { action: 'replace' | 'insert_before' | 'insert_after'; page?: string; target: string; html: string }
+  | { action: 'append'; page?: string; html: string }
+  | { action: 'remove'; page?: string; target: string }
+  | { action: 'update_page'; page?: string; html: string; title?: string }
+  | { action: 'update_layout'; target: LayoutPart; html: string };
+
+/**
+ * Events streamed by the build route, one JSON object per line
+ */
+export type BuildStreamEvent =
+  | { type: 'text'; delta: string }
+  /** `repaired` marks an operation auto-completed from a truncated block */
+  | { type: 'operation'; operation: EditOperation; repaired?: boolean }
+  /** The model is rate limited or overloaded and the request will be retried */
+  | { type: 'retry'; attempt: number; delayMs: number; reason: string }
+  /** The response was cut off; `partial` is the raw output to continue from */
+  | { type: 'incomplete'; reason: IncompleteReason; message: string; partial: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export type IncompleteReason = 'max_tokens' | 'timeout' | 'error';
+
+export const BUILD_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+/**
+ * Result of applying a batch of operations
+ */
+export interface ApplyOperationsResult {
+  site: SiteModel;
+  applied: EditOperation[];
+  failed: Array<{ operation: EditOperation; reason: string }>;
+}
+
+const EDIT_ACTIONS: EditAction[] = [
+  'replace',
+  'insert_before',
+  'insert_after',
+  'append',
+  'remove',
+  'update_page',
+  'update_layout',
+];
+
+const LAYOUT_PARTS: LayoutPart[] = ['header', 'footer', 'head'];
+
+// ============================================================================
+// STREAM ENCODING
+// ============================================================================
+
+/**
+ * Serialize an event as an NDJSON line
+ */
+export function encodeStreamEvent(event: BuildStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Incrementally split NDJSON text into events
+ */
+export function createStreamEventDecoder() {
+  let buffer = '';
+
+  return {
+    push(chunk: string): BuildStreamEvent[] {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      return lines.filter((line) => line.trim()).map((line) => JSON.parse(line));
+    },
+    flush(): BuildStreamEvent[] {
+      const rest = buffer.trim();
+      buffer = '';
+      return rest ? [JSON.parse(rest)] : [];
+    },
+  };
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrRegex = /([\w-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match;
+  while ((match = attrRegex.exec(source)) !== null) {
+    attrs[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[5] ?? '';
+  }
+  return attrs;
+}
+
+/**
+ * Build an operation from `<edit>` attributes and body
+ */
+export function toOperation(
+  attrs: Record<string, string>,
+  html: string
+): EditOperation | null {
+  const action = (attrs.action || 'update_page') as EditAction;
+  if (!EDIT_ACTIONS.includes(action)) return null;
+
+  const page = attrs.page ? normalizePath(attrs.page) : undefined;
+  const target = attrs.target?.trim();
+  const body = html.trim();
+
+  switch (action) {
+    case 'replace':
+    case 'insert_before':
+    case 'insert_after':
+      return target ? { action, page, target, html: body } : null;
+    case 'remove':
+      return target ? { action, page, target } : null;
+    case 'append':
+      return { action, page, html: body };
+    case 'update_page':
+      return { action, page, html: body, title: attrs.title };
+    case 'update_layout':
+      return LAYOUT_PARTS.includes(target as LayoutPart)
+        ? { action, target: target as LayoutPart, html: body }
+        : null;
+  }
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/**
+ * Close a truncated HTML fragment: drop a trailing partial tag, comment
+ * or entity and close every element left open. Returns null when nothing
+ * usable survives, e.g. the fragment was cut inside its first tag.
+ */
+export function completeTruncatedHtml(html: string): string | null {
+  let fragment = html
+    .replace(/<!--(?![\s\S]*-->)[\s\S]*$/, '')
+    .replace(/<[^>]*$/, '')
+    .replace(/&[#\w]*$/, '')
+    .trimEnd();
+
+  // Raw text elements cut off mid-content are dropped entirely
+  fragment = fragment.replace(/<(script|style)\b[^>]*>(?![\s\S]*<\/\1>)[\s\S]*$/i, '').trimEnd();
+
+  const open: string[] = [];
+  const tagRegex = /<!--[\s\S]*?-->|<(script|style)\b[^>]*>[\s\S]*?<\/\1>|<(\/?)([a-zA-Z][\w-]*)[^>]*?(\/?)>/g;
+  let match;
+  while ((match = tagRegex.exec(fragment)) !== null) {
+    const [, rawText, closing, name, selfClosing] = match;
+    if (rawText || !name) continue;
+    const tag = name.toLowerCase();
+    if (VOID_ELEMENTS.has(tag) || selfClosing) continue;
+
+    if (closing) {
+      const index = open.lastIndexOf(tag);
+      if (index >= 0) open.length = index;
+    } else {
+      open.push(tag);
+    }
+  }
+
+  // Empty element shells would wipe out whatever they replace
+  const hasContent = /<(img|svg|video|iframe)\b/i.test(fragment) || fragment.replace(/<[^>]*>/g, '').trim();
+  if (!/<[a-zA-Z]/.test(fragment) || !hasContent) return null;
+  return fragment + open.reverse().map((tag) => `</${tag}>`).join('');
+}
+
+/** Longest marker we need to hold back when a chunk ends mid-marker */
+const MARKERS = ['<edit', '```'];
+
+function partialMarkerLength(text: string): number {
+  for (let length = Math.min(text.length, 4); length > 0; length--) {
+    const tail = text.slice(-length);
+    if (MARKERS.some((marker) => marker.startsWith(tail))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Start of the first `<edit` tag, or -1. Words that merely start with
+ * it (`<editor>`, `<editable>`) are text.
+ */
+function findEditTag(text: string): number {
+  let index = text.indexOf('<edit');
+  while (index >= 0) {
+    const next = text.charAt(index + 5);
+    if (!next || /[\s>/]/.test(next)) return index;
+    index = text.indexOf('<edit', index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Incremental parser that turns streamed model text into text and
+ * operation events. Plain ```html fences are accepted as `update_page`
+ * operations so older prompts keep working.
+ */
+export function createOperationParser() {
+  let buffer = '';
+  let mode: 'text' | 'edit' | 'fence' = 'text';
+  let openTag = '';
+  let openAttrs: Record<string, string> = {};
+  let fenceLanguage = '';
+
+  const repairTruncatedBlock = (body: string): EditOperation | null => {
+    const isHtml = mode === 'edit' || fenceLanguage === 'html' || (!fenceLanguage && /^\s*</.test(body));
+    const html = isHtml ? completeTruncatedHtml(body) : null;
+    if (!html) return null;
+    return mode === 'edit'
+      ? toOperation(openAttrs, html)
+      : { action: 'update_page', page: openAttrs.page, html };
+  };
+
+  const process = (final: boolean): BuildStreamEvent[] => {
+    const events: BuildStreamEvent[] = [];
+    const emitText = (delta: string) => {
+      if (delta) events.push({ type: 'text', delta });
+    };
+
+    while (buffer) {
+      if (mode === 'text') {
+        const editIndex = findEditTag(buffer);
+        const fenceIndex = buffer.indexOf('```');
+        const candidates = [editIndex, fenceIndex].filter((i) => i >= 0);
+
+        if (candidates.length === 0) {
+          const hold = final ? 0 : partialMarkerLength(buffer);
+          emitText(buffer.slice(0, buffer.length - hold));
+          buffer = buffer.slice(buffer.length - hold);
+          break;
+        }
+
+        const start = Math.min(...candidates);
+        emitText(buffer.slice(0, start));
+        buffer = buffer.slice(start);
+
+        if (start === editIndex) {
+          const close = buffer.indexOf('>');
+          if (close < 0) break;
+          openTag = buffer.slice(0, close + 1);
+          openAttrs = parseAttributes(buffer.slice(5, close));
+          buffer = buffer.slice(close + 1);
+          mode = 'edit';
+        } else {
+          const newline = buffer.indexOf('\n');
+          if (newline < 0) break;
+          openTag = buffer.slice(0, newline + 1);
+          const info = buffer.slice(3, newline).trim();
+          fenceLanguage = (info.match(/^\w+/)?.[0] || '').toLowerCase();
+          openAttrs = parseAttributes(info);
+          buffer = buffer.slice(newline + 1);
+          mode = 'fence';
+        }
+        continue;
+      }
+
+      const closer = mode === 'edit' ? '</edit>' : '```';
+      const end = buffer.indexOf(closer);
+      if (end < 0) break;
+
+      const body = buffer.slice(0, end);
+      buffer = buffer.slice(end + closer.length);
+
+      if (mode === 'edit') {
+        const operation = toOperation(openAttrs, body);
+        if (operation) {
+          events.push({ type: 'operation', operation });
+        } else {
+          emitText(`${openTag}${body}${closer}`);
+        }
+      } else if (fenceLanguage === 'html' || (!fenceLanguage && /^\s*</.test(body))) {
+        events.push({
+          type: 'operation',
+          operation: { action: 'update_page', page: openAttrs.page, html: body.trim() },
+        });
+      } else {
+        // Non-HTML code stays in the chat transcript
+        emitText(`${openTag}${body}${closer}`);
+      }
+      mode = 'text';
+    }
+
+    // A block left open at the end of the stream was cut off - complete it
+    // rather than dropping it, and surface anything unusable as text
+    if (final) {
+      const repaired = mode === 'text' ? null : repairTruncatedBlock(buffer);
+      if (repaired) {
+        events.push({ type: 'operation', operation: repaired, repaired: true });
+      } else {
+        emitText(mode === 'text' ? buffer : `${openTag}${buffer}`);
+      }
+      buffer = '';
+      mode = 'text';
+    }
+
+    return events;
+  };
+
+  return {
+    push(chunk: string): BuildStreamEvent[] {
+      buffer += chunk;
+      return process(false);
+    },
+    flush(): BuildStreamEvent[] {
+      return process(true);
+    },
+  };
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Run a mutation against page markup using the browser DOM.
+ * Returns the new markup, or null when the mutation did not apply.
+ */
+export function mutateFragment(
+  html: string,
+  mutate: (body: HTMLElement, doc: Document) => boolean
+): string | null {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('Applying targeted edits requires a DOM environment');
+  }
+
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+  if (!mutate(doc.body, doc)) return null;
+  return doc.body.innerHTML.trim();
+}
+
+function queryTarget(body: HTMLElement, target: string): Element | null {
+  try {
+    return body.querySelector(target);
+  } catch {
+    // Invalid selector - fall back to treating it as an ID
+    return body.ownerDocument.getElementById(target.replace(/^#/, ''));
+  }
+}
+
+/**
+ * Apply one operation to a site
+ */
+export function applyOperation(
+  site: SiteModel,
+  operation: EditOperation,
+  fallbackPage = '/'
+): { site: SiteModel; error?: string } {
+  if (operation.action === 'update_layout') {
+    return { site: { ...site, layout: { ...site.layout, [operation.target]: operation.html } } };
+  }
+
+  const path = operation.page || fallbackPage;
+
+  if (operation.action === 'update_page') {
+    let next = applyGeneratedCode(site, path, operation.html);
+    if (operation.title) {
+      const page = findPage(next, path)!;
+      next = upsertPage(next, { ...page, title: operation.title });
+    }
+    return { site: next };
+  }
+
+  const page = findPage(site, path);
+  if (!page) return { site, error: `Page ${path} does not exist` };
+
+  const html = mutateFragment(page.html, (body, doc) => {
+    if (operation.action === 'append') {
+      body.insertAdjacentHTML('beforeend', operation.html);
+      return true;
+    }
+
+    const element = queryTarget(body, operation.target);
+    if (!element) return false;
+
+    switch (operation.action) {
+      case 'replace': {
+        const template = doc.createElement('template');
+        template.innerHTML = operation.html;
+        element.replaceWith(template.content);
+        return true;
+      }
+      case 'insert_before':
+        element.insertAdjacentHTML('beforebegin', operation.html);
+        return true;
+      case 'insert_after':
+        element.insertAdjacentHTML('afterend', operation.html);
+        return true;
+      case 'remove':
+        element.remove();
+        return true;
+    }
+  });
+
+  if (html === null) {
+    const target = 'target' in operation ? operation.target : '';
+    return { site, error: `Could not find ${target} on ${page.path}` };
+  }
+
+  return { site: upsertPage(site, { ...page, html }) };
+}
+
+/**
+ * Apply a batch of operations in order, collecting any that failed
+ */
+export function applyOperations(
+  site: SiteModel,
+  operations: EditOperation[],
+  fallbackPage = '/'
+): ApplyOperationsResult {
+  const result: ApplyOperationsResult = { site, applied: [], failed: [] };
+
+  for (const operation of operations) {
+    const { site: next, error } = applyOperation(result.site, operation, fallbackPage);
+    if (error) {
+      result.failed.push({ operation, reason: error });
+    } else {
+      result.site = next;
+      result.applied.push(operation);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Short human readable summary of an operation
+ */
+export function describeOperation(operation: EditOperation): string {
+  const page = 'page' in operation && operation.page ? operation.page : 'current page';
+
+  switch (operation.action) {
+    case 'replace':
+      return `Updated ${operation.target} on ${page}`;
+    case 'insert_before':
+      return `Added a section before ${operation.target} on ${page}`;
+    case 'insert_after':
+      return `Added a section after ${operation.target} on ${page}`;
+    case 'append':
+      return `Added a section to ${page}`;
+    case 'remove':
+      return `Removed ${operation.target} from ${page}`;
+    case 'update_page':
+      return `Rebuilt ${page}`;
+    case 'update_layout':
+      return `Updated the shared ${operation.target}`;
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Preview Bridge
+ *
+ * Script injected into the builder preview iframe plus the postMessage
+ * protocol it speaks with the builder. The bridge reports internal link
+ * clicks, highlights and reports clicked elements in select mode, and
+ * makes text and images directly editable in edit mode.
+ */
+
+import type { ElementSelection, InlineEdit } from './types';
+
+// ============================================================================
+// MESSAGE PROTOCOL
+// ============================================================================
+
+export const PREVIEW_MESSAGES = {
+  /** iframe -> builder: an internal link was clicked */
+  navigate: 'nustack:navigate',
+  /** builder -> iframe: switch between browse, select and edit mode */
+  mode: 'nustack:mode',
+  /** iframe -> builder: an element was picked in select mode */
+  elementSelected: 'nustack:element-selected',
+  /** builder -> iframe: outline the pinned element (selector or null) */
+  pin: 'nustack:pin',
+  /** iframe -> builder: text was changed in edit mode */
+  inlineEdit: 'nustack:inline-edit',
+  /** iframe -> builder: an image was clicked in edit mode */
+  imageSelected: 'nustack:image-selected',
+} as const;
+
+export type PreviewMode = 'browse' | 'select' | 'edit';
+
+/** Attribute marking the shared header/footer in preview documents */
+export const LAYOUT_ATTRIBUTE = 'data-nustack-layout';
+
+/** Attribute marking navigation links generated from `site.navigation` */
+export const NAV_ATTRIBUTE = 'data-nustack-nav';
+
+/**
+ * Image clicked in edit mode, waiting for a replacement from the picker
+ */
+export interface PreviewImageTarget {
+  scope: ElementSelection['scope'];
+  selector: string;
+  src: string;
+  alt: string;
+}
+
+/** Inline edits as reported by the iframe, before the page is attached */
+export type PreviewInlineEdit =
+  | Omit<Extract<InlineEdit, { kind: 'text' }>, 'page'>
+  | Extract<InlineEdit, { kind: 'nav' }>;
+
+export type PreviewMessage =
+  | { type: typeof PREVIEW_MESSAGES.navigate; path: string }
+  | { type: typeof PREVIEW_MESSAGES.mode; mode: PreviewMode }
+  | { type: typeof PREVIEW_MESSAGES.elementSelected; selection: Omit<ElementSelection, 'page'> }
+  | { type: typeof PREVIEW_MESSAGES.pin; selector: string | null }
+  | { type: typeof PREVIEW_MESSAGES.inlineEdit; edit: PreviewInlineEdit }
+  | { type: typeof PREVIEW_MESSAGES.imageSelected; image: PreviewImageTarget };
+
+/**
+ * Mark the first element of a layout part so the bridge can tell shared
+ * layout markup apart from page content
+ */
+export function markLayoutPart(markup: string, part: 'header' | 'footer'): string {
+  return markup.replace(/^(\s*<[a-zA-Z][\w-]*)/, `$1 ${LAYOUT_ATTRIBUTE}="${part}"`);
+}
+
+/**
+ * Remove bridge-only attributes from captured markup
+ */
+export function stripBridgeAttributes(markup: string): string {
+  return markup.replace(new RegExp(`\\s(?:${LAYOUT_ATTRIBUTE}|${NAV_ATTRIBUTE})="[^"]*"`, 'g'), '');
+}
+
+/**
+ * Re-read a page selection against updated page markup.
+ * Returns null when the element no longer exists.
+ */
+export function refreshSelection(
+  selection: ElementSelection,
+  pageHtml: string
+): ElementSelection | null {
+  if (selection.scope !== 'page') return selection;
+  if (typeof DOMParser === 'undefined') return selection;
+
+  const doc = new DOMParser().parseFromString(
+    `<!DOCTYPE html><html><body>${pageHtml}</body></html>`,
+    'text/html'
+  );
+  let element: Element | null = null;
+  try {
+    element = doc.querySelector(selection.selector);
+  } catch {
+    return null;
+  }
+  return element ? { ...selection, html: element.outerHTML } : null;
+}
+
+// ============================================================================
+// INJECTED SCRIPT
+// ============================================================================
+
+/**
+ * Selectors are built from the nearest unique id, falling back to
+ * `body > tag:nth-of-type(n)` segments. Layout elements are skipped when
+ * counting siblings so page selectors also match the page fragment stored
+ * in the site model, and selectors inside the header or footer start at
+ * the layout root so they match the stored layout markup.
+ */
+export const PREVIEW_BRIDGE_SCRIPT = `<script>
+(function () {
+  var M = ${JSON.stringify(PREVIEW_MESSAGES)};
+  var LAYOUT = '${LAYOUT_ATTRIBUTE}';
+  var NAV = '${NAV_ATTRIBUTE}';
+  var TEXT_TAGS = /^(H[1-6]|P|A|SPAN|BUTTON|LI|LABEL|STRONG|EM|B|I|SMALL|BLOCKQUOTE|TD|TH|DT|DD|FIGCAPTION|CITE|Q)$/;
+  var INLINE_TAGS = /^(A|SPAN|STRONG|EM|B|I|U|SMALL|MARK|SUP|SUB|BR|CODE|ABBR|TIME)$/;
+  var mode = 'browse';
+  var hovered = null;
+  var pinned = null;
+  var hoverBox = null;
+  var pinBox = null;
+  var editing = null;
+  var original = '';
+
+  function post(message) { window.parent.postMessage(message, '*'); }
+
+  function createBox(color) {
+    var box = document.createElement('div');
+    box.setAttribute('data-nustack-ui', '');
+    box.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;display:none;' +
+      'border:2px solid ' + color + ';background:' + color + '1a;border-radius:4px;';
+    var label = document.createElement('span');
+    label.style.cssText = 'position:absolute;top:-22px;left:-2px;padding:2px 6px;font:11px/16px monospace;' +
+      'color:#fff;background:' + color + ';border-radius:4px;white-space:nowrap;';
+    box.appendChild(label);
+    document.documentElement.appendChild(box);
+    return box;
+  }
+
+  function place(box, el, text) {
+    if (!box) return;
+    if (!el || !el.isConnected) { box.style.display = 'none'; return; }
+    var r = el.getBoundingClientRect();
+    box.style.display = 'block';
+    box.style.top = r.top + 'px';
+    box.style.left = r.left + 'px';
+    box.style.width = r.width + 'px';
+    box.style.height = r.height + 'px';
+    box.firstChild.textContent = text || describe(el);
+  }
+
+  function describe(el) {
+    var text = el.tagName.toLowerCase();
+    if (el.id) return text + '#' + el.id;
+    var cls = (el.getAttribute('class') || '').trim().split(/\\s+/)[0];
+    return cls ? text + '.' + cls : text;
+  }
+
+  function isLayout(el) { return el.hasAttribute && el.hasAttribute(LAYOUT); }
+
+  function scopeOf(el) {
+    var layout = el.closest('[' + LAYOUT + ']');
+    return layout ? layout.getAttribute(LAYOUT) : 'page';
+  }
+
+  function segment(el) {
+    var index = 1;
+    var sib = el.previousElementSibling;
+    while (sib) {
+      if (sib.tagName === el.tagName && !isLayout(sib)) index++;
+      sib = sib.previousElementSibling;
+    }
+    return el.tagName.toLowerCase() + ':nth-of-type(' + index + ')';
+  }
+
+  function selectorFor(el) {
+    var parts = [];
+    var node = el;
+    while (node && node !== document.body) {
+      if (node.id && document.querySelectorAll('#' + CSS.escape(node.id)).length === 1) {
+        parts.unshift('#' + CSS.escape(node.id));
+        return parts.join(' > ');
+      }
+      if (isLayout(node)) {
+        parts.unshift(node.tagName.toLowerCase() + ':nth-of-type(1)');
+        break;
+      }
+      parts.unshift(segment(node));
+      node = node.parentElement;
+    }
+    parts.unshift('body');
+    return parts.join(' > ');
+  }
+
+  function resolve(selector) {
+    var parts = selector.split(' > ');
+    var node = null;
+    for (var i = 0; i < parts.length; i++) {
+      var part = parts[i];
+      if (part === 'body') { node = document.body; continue; }
+      if (part.charAt(0) === '#') { node = document.querySelector(part); if (!node) return null; continue; }
+      var match = part.match(/^([a-z0-9-]+):nth-of-type\\((\\d+)\\)$/);
+      if (!match || !node) return null;
+      var count = 0;
+      var next = null;
+      for (var c = 0; c < node.children.length; c++) {
+        var child = node.children[c];
+        if (child.tagName.toLowerCase() === match[1] && !isLayout(child) && ++count === Number(match[2])) {
+          next = child;
+          break;
+        }
+      }
+      if (!next) return null;
+      node = next;
+    }
+    return node;
+  }
+
+  function sectionOf(el) {
+    var section = el.closest('section,header,footer,main,article,aside,nav,[id]');
+    return section && section !== document.body ? section : el;
+  }
+
+  function pickable(target) {
+    var el = target && target.nodeType === 1 ? target : target && target.parentElement;
+    if (!el || el === document.body || el === document.documentElement) return null;
+    if (el.closest('[data-nustack-ui]')) return null;
+    return el;
+  }
+
+  // A text block holds text and inline formatting only
+  function isTextBlock(el) {
+    if (!TEXT_TAGS.test(el.tagName) || !el.textContent.trim()) return false;
+    for (var c = 0; c < el.children.length; c++) {
+      if (!INLINE_TAGS.test(el.children[c].tagName)) return false;
+    }
+    return true;
+  }
+
+  // Outermost text block around the target, or the image itself
+  function editableOf(target) {
+    var el = pickable(target);
+    if (!el) return null;
+    if (el.tagName === 'IMG') return el;
+    var block = null;
+    for (var node = el; node && node !== document.body; node = node.parentElement) {
+      if (isTextBlock(node)) block = node;
+      else if (block) break;
+      if (node.hasAttribute(NAV) || isLayout(node)) break;
+    }
+    return block;
+  }
+
+  function startEditing(el) {
+    editing = el;
+    original = el.innerHTML;
+    el.setAttribute('contenteditable', 'true');
+    el.focus();
+    place(hoverBox, null);
+  }
+
+  function finishEditing(commit) {
+    var el = editing;
+    if (!el) return;
+    editing = null;
+    el.removeAttribute('contenteditable');
+    if (!commit) { el.innerHTML = original; return; }
+    if (el.innerHTML === original) return;
+
+    var nav = el.closest('[' + NAV + ']');
+    if (nav) {
+      post({ type: M.inlineEdit, edit: { kind: 'nav', path: nav.getAttribute(NAV), label: nav.textContent.trim() } });
+      return;
+    }
+    post({
+      type: M.inlineEdit,
+      edit: { kind: 'text', scope: scopeOf(el), selector: selectorFor(el), html: el.innerHTML }
+    });
+  }
+
+  document.addEventListener('mouseover', function (event) {
+    if (mode === 'browse' || editing) return;
+    if (!hoverBox) hoverBox = createBox('#6366f1');
+    hovered = mode === 'edit' ? editableOf(event.target) : pickable(event.target);
+    var hint = hovered && mode === 'edit' ? (hovered.tagName === 'IMG' ? 'Replace image' : 'Edit text') : '';
+    place(hoverBox, hovered, hint);
+  }, true);
+
+  document.addEventListener('click', function (event) {
+    if (mode === 'select') {
+      var el = pickable(event.target);
+      event.preventDefault();
+      event.stopPropagation();
+      if (!el) return;
+      if (event.shiftKey) el = sectionOf(el);
+      post({
+        type: M.elementSelected,
+        selection: {
+          selector: selectorFor(el),
+          html: el.outerHTML,
+          tagName: el.tagName.toLowerCase(),
+          label: describe(el),
+          scope: scopeOf(el)
+        }
+      });
+      return;
+    }
+
+    if (mode === 'edit') {
+      event.preventDefault();
+      if (editing && editing.contains(event.target)) return;
+      event.stopPropagation();
+      finishEditing(true);
+      var target = editableOf(event.target);
+      if (!target) return;
+      if (target.tagName === 'IMG') {
+        post({
+          type: M.imageSelected,
+          image: {
+            scope: scopeOf(target),
+            selector: selectorFor(target),
+            src: target.getAttribute('src') || '',
+            alt: target.getAttribute('alt') || ''
+          }
+        });
+      } else {
+        startEditing(target);
+      }
+      return;
+    }
+
+    var link = event.target.closest && event.target.closest('a[href]');
+    if (!link) return;
+    var href = link.getAttribute('href');
+    if (!href || href.charAt(0) !== '/' || href.charAt(1) === '/') return;
+    event.preventDefault();
+    post({ type: M.navigate, path: href });
+  }, true);
+
+  document.addEventListener('keydown', function (event) {
+    if (!editing) return;
+    if (event.key === 'Escape') { event.preventDefault(); finishEditing(false); }
+    if (event.key === 'Enter' && !event.shiftKey) { event.preventDefault(); finishEditing(true); }
+  }, true);
+
+  document.addEventListener('focusout', function (event) {
+    if (editing && event.target === editing) finishEditing(true);
+  }, true);
+
+  // Keep pasted content as plain text
+  document.addEventListener('paste', function (event) {
+    if (!editing) return;
+    event.preventDefault();
+    document.execCommand('insertText', false, event.clipboardData.getData('text/plain'));
+  }, true);
+
+  // Submitting forms would navigate the preview away
+  document.addEventListener('submit', function (event) {
+    if (mode !== 'browse') event.preventDefault();
+  }, true);
+
+  window.addEventListener('message', function (event) {
+    var data = event.data || {};
+    if (data.type === M.mode) {
+      if (data.mode !== 'edit') finishEditing(true);
+      mode = data.mode;
+      if (document.body) document.body.style.cursor = mode === 'select' ? 'crosshair' : '';
+      hovered = null;
+      place(hoverBox, null);
+    }
+    if (data.type === M.pin) {
+      pinned = data.selector ? resolve(data.selector) : null;
+      if (!pinBox && pinned) pinBox = createBox('#10b981');
+      place(pinBox, pinned);
+    }
+  });
+
+  function reposition() {
+    if (!editing) place(hoverBox, hovered);
+    place(pinBox, pinned);
+  }
+  window.addEventListener('scroll', reposition, true);
+  window.addEventListener('resize', reposition);
+})();
+</script>`;
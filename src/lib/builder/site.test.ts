@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { createPage } from './site';
+
+describe('createPage', () => {
+  it('names and titles pages from their path when the definition has no name', () => {
+    const page = createPage({ path: '/our-team' }, '', 'Bright Smile Dental');
+
+    expect(page.name).toBe('Our Team');
+    expect(page.title).toBe('Our Team | Bright Smile Dental');
+  });
+
+  it('uses the defined name without a site name', () => {
+    expect(createPage({ path: '/about', name: 'About Us' }).title).toBe('About Us');
+  });
+});
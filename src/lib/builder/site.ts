@@ -0,0 +1,434 @@
+/**
+ * Site Model
+ *
+ * Helpers for creating, editing and rendering the multi-page site model
+ * the builder works on. Each page stores its own body markup while the
+ * header, footer, head and navigation are shared across the site.
+ */
+
+import { markLayoutPart, NAV_ATTRIBUTE, PREVIEW_BRIDGE_SCRIPT } from './preview-bridge';
+import type {
+  SiteLayout,
+  SiteModel,
+  SiteNavItem,
+  SitePage,
+  SitePageDefinition,
+} from './types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TAILWIND_CDN_SCRIPT = '<script src="https://cdn.tailwindcss.com"></script>';
+
+/** Placeholder in the layout header replaced with navigation links */
+export const NAV_PLACEHOLDER = '{{nav}}';
+
+export const DEFAULT_LAYOUT: SiteLayout = {
+  head: TAILWIND_CDN_SCRIPT,
+  header: `<header class="sticky top-0 z-40 bg-slate-900/80 backdrop-blur border-b border-white/10">
+  <div class="container mx-auto px-4 h-16 flex items-center justify-between">
+    <a href="/" class="text-white font-bold text-lg">{{siteName}}</a>
+    <nav class="flex items-center gap-6">${NAV_PLACEHOLDER}</nav>
+  </div>
+</header>`,
+  footer: `<footer class="bg-slate-950 text-slate-400 py-12">
+  <div class="container mx-auto px-4 text-center text-sm">
+    &copy; ${new Date().getFullYear()} {{siteName}}. All rights reserved.
+  </div>
+</footer>`,
+  bodyClass: 'min-h-screen bg-slate-900',
+};
+
+export const DEFAULT_HOME_HTML = `<div class="container mx-auto px-4 py-16">
+  <div class="text-center">
+    <h1 class="text-5xl font-bold text-white mb-6">
+      Welcome to Your Website
+    </h1>
+    <p class="text-xl text-slate-300 max-w-2xl mx-auto mb-8">
+      Start describing your website in the AI chat, and watch it come to life!
+    </p>
+    <div class="flex justify-center gap-4">
+      <button class="px-6 py-3 bg-white text-slate-900 rounded-lg font-semibold hover:bg-slate-100 transition">
+        Get Started
+      </button>
+      <button class="px-6 py-3 border border-slate-500 text-white rounded-lg font-semibold hover:bg-slate-700 transition">
+        Learn More
+      </button>
+    </div>
+  </div>
+</div>`;
+
+// ============================================================================
+// PATH HELPERS
+// ============================================================================
+
+/**
+ * Normalize a route path ('about/' -> '/about')
+ */
+export function normalizePath(path: string): string {
+  const trimmed = path.trim().split(/[?#]/)[0].replace(/\/+$/, '');
+  if (!trimmed) return '/';
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Whether a path contains dynamic segments such as `[service]`
+ */
+export function isDynamicPath(path: string): boolean {
+  return /\[[^\]]+\]/.test(path);
+}
+
+/**
+ * Deterministic page ID derived from the path
+ */
+export function pageIdFromPath(path: string): string {
+  const normalized = normalizePath(path);
+  if (normalized === '/') return 'page-home';
+  return `page-${normalized
+    .slice(1)
+    .toLowerCase()
+    .replace(/[[\]]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')}`;
+}
+
+function shouldShowInNav(path: string): boolean {
+  const normalized = normalizePath(path);
+  if (isDynamicPath(normalized)) return false;
+  return normalized.split('/').filter(Boolean).length <= 1;
+}
+
+function titleFromPath(path: string): string {
+  const normalized = normalizePath(path);
+  if (normalized === '/') return 'Home';
+  const last = normalized.split('/').filter(Boolean).pop() || '';
+  return last
+    .replace(/[[\]]/g, '')
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// ============================================================================
+// CREATION
+// ============================================================================
+
+/**
+ * Create a page object with sensible defaults
+ */
+export function createPage(
+  definition: SitePageDefinition,
+  html = '',
+  siteName?: string
+): SitePage {
+  const path = normalizePath(definition.path);
+  const name = definition.name || titleFromPath(path);
+  return {
+    id: pageIdFromPath(path),
+    path,
+    name,
+    title: siteName ? `${name} | ${siteName}` : name,
+    description: definition.description,
+    html,
+    showInNav: shouldShowInNav(path),
+  };
+}
+
+/**
+ * Build navigation entries from the pages flagged for the nav
+ */
+export function buildNavigation(pages: SitePage[]): SiteNavItem[] {
+  return pages
+    .filter((page) => page.showInNav)
+    .map((page) => ({ label: page.name, path: page.path }));
+}
+
+/**
+ * Create a single-page site with the default homepage
+ */
+export function createDefaultSite(name = 'My Website'): SiteModel {
+  const home = createPage({ path: '/', name: 'Home' }, DEFAULT_HOME_HTML);
+  home.title = name;
+  return {
+    version: 1,
+    name,
+    layout: { ...DEFAULT_LAYOUT },
+    pages: [home],
+    navigation: buildNavigation([home]),
+  };
+}
+
+/**
+ * Create a page tree from template page definitions
+ * (e.g. `mensHealthClinicTemplate.pages`).
+ */
+export function createSiteFromPages(
+  name: string,
+  definitions: SitePageDefinition[]
+): SiteModel {
+  const pages = definitions.map((definition) => createPage(definition, '', name));
+  if (!pages.some((page) => page.path === '/')) {
+    pages.unshift(createPage({ path: '/', name: 'Home' }, DEFAULT_HOME_HTML, name));
+  }
+
+  return {
+    version: 1,
+    name,
+    layout: { ...DEFAULT_LAYOUT },
+    pages,
+    navigation: buildNavigation(pages),
+  };
+}
+
+// ============================================================================
+// HTML PARSING
+// ============================================================================
+
+export interface ParsedDocument {
+  title?: string;
+  head?: string;
+  body: string;
+  bodyClass?: string;
+  isFullDocument: boolean;
+}
+
+/**
+ * Split an HTML string into its title, head extras and body markup.
+ * Fragments are returned unchanged as the body.
+ */
+export function parseHtmlDocument(code: string): ParsedDocument {
+  const isFullDocument = /<!DOCTYPE|<html[\s>]/i.test(code);
+  if (!isFullDocument) {
+    return { body: code.trim(), isFullDocument };
+  }
+
+  const titleMatch = code.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const headMatch = code.match(/<head[^>]*>([\s\S]*?)<\/head>/i);
+  const bodyMatch = code.match(/<body([^>]*)>([\s\S]*?)<\/body>/i);
+  const bodyClassMatch = bodyMatch?.[1].match(/class\s*=\s*["']([^"']*)["']/i);
+
+  // Keep head content other than charset, viewport and title - the layout renders those
+  const head = headMatch?.[1]
+    .replace(/<meta[^>]+charset[^>]*>/gi, '')
+    .replace(/<meta[^>]+name=["']viewport["'][^>]*>/gi, '')
+    .replace(/<title[^>]*>[\s\S]*?<\/title>/gi, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    title: titleMatch?.[1].trim(),
+    head,
+    body: (bodyMatch?.[2] ?? code).trim(),
+    bodyClass: bodyClassMatch?.[1],
+    isFullDocument,
+  };
+}
+
+/**
+ * Pull a leading <header> and trailing <footer> out of page markup so they
+ * can be shared by the layout.
+ */
+export function extractLayoutParts(body: string): {
+  header?: string;
+  footer?: string;
+  content: string;
+} {
+  let content = body.trim();
+  const headerMatch = content.match(/^(<header[\s\S]*?<\/header>)/i);
+  const header = headerMatch?.[1];
+  if (header) content = content.slice(header.length).trim();
+
+  const footerMatch = content.match(/(<footer[\s\S]*<\/footer>)$/i);
+  const footer = footerMatch?.[1];
+  if (footer) content = content.slice(0, content.length - footer.length).trim();
+
+  return { header, footer, content };
+}
+
+/**
+ * Migrate a legacy single-document `generatedCode` string into a site model
+ */
+export function siteFromLegacyCode(code: string, name = 'My Website'): SiteModel {
+  const site = createDefaultSite(name);
+  const parsed = parseHtmlDocument(code);
+
+  // Legacy documents own their entire body, so the layout starts empty
+  site.layout = {
+    head: parsed.head || TAILWIND_CDN_SCRIPT,
+    header: '',
+    footer: '',
+    bodyClass: parsed.bodyClass,
+  };
+  site.pages = [{ ...site.pages[0], title: parsed.title || name, html: parsed.body }];
+  return site;
+}
+
+/**
+ * Load the site model stored in project settings, migrating legacy
+ * single-document projects and falling back to the default site
+ */
+export function loadProjectSite(project: {
+  name: string;
+  settings?: { site?: SiteModel; generatedCode?: string; businessName?: string } | null;
+}): SiteModel {
+  const settings = project.settings || {};
+  if (settings.site?.pages?.length) return settings.site;
+  if (settings.generatedCode) return siteFromLegacyCode(settings.generatedCode, project.name);
+  return createDefaultSite(settings.businessName || project.name);
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Find a page by path or ID
+ */
+export function findPage(site: SiteModel, pathOrId: string): SitePage | undefined {
+  const path = normalizePath(pathOrId);
+  return site.pages.find((page) => page.id === pathOrId || page.path === path);
+}
+
+/**
+ * Insert or replace a page, keeping navigation in sync
+ */
+export function upsertPage(site: SiteModel, page: SitePage): SiteModel {
+  const exists = site.pages.some((p) => p.id === page.id);
+  const pages = exists
+    ? site.pages.map((p) => (p.id === page.id ? page : p))
+    : [...site.pages, page];
+  return { ...site, pages, navigation: buildNavigation(pages) };
+}
+
+/**
+ * Remove a page. The homepage cannot be removed.
+ */
+export function removePage(site: SiteModel, pathOrId: string): SiteModel {
+  const page = findPage(site, pathOrId);
+  if (!page || page.path === '/') return site;
+  const pages = site.pages.filter((p) => p.id !== page.id);
+  return { ...site, pages, navigation: buildNavigation(pages) };
+}
+
+/**
+ * Apply AI-generated code to a page.
+ *
+ * Full documents replace the page body and title; a leading header or
+ * trailing footer is lifted into the shared layout. Fragments replace the
+ * page body as-is. Unknown paths create a new page.
+ */
+export function applyGeneratedCode(
+  site: SiteModel,
+  path: string,
+  code: string
+): SiteModel {
+  const parsed = parseHtmlDocument(code);
+  const { header, footer, content } = extractLayoutParts(parsed.body);
+  const existing = findPage(site, path);
+
+  const page: SitePage = existing
+    ? { ...existing }
+    : createPage({ path, name: titleFromPath(path) }, '', site.name);
+
+  page.html = content;
+  if (parsed.title) page.title = parsed.title;
+
+  const layout: SiteLayout = { ...site.layout };
+  if (header) layout.header = header;
+  if (footer) layout.footer = footer;
+  if (parsed.bodyClass) layout.bodyClass = parsed.bodyClass;
+  if (parsed.head && !layout.head.includes(parsed.head)) {
+    layout.head = parsed.head.includes(TAILWIND_CDN_SCRIPT)
+      ? parsed.head
+      : [layout.head, parsed.head].filter(Boolean).join('\n');
+  }
+
+  return upsertPage({ ...site, layout }, page);
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+export interface RenderPageOptions {
+  /** Inject the preview bridge (link navigation and element selection) */
+  preview?: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderNavigation(site: SiteModel, activePath: string, preview = false): string {
+  return site.navigation
+    .map((item) => {
+      const active = item.path === activePath;
+      const classes = active
+        ? 'text-white font-semibold'
+        : 'text-slate-300 hover:text-white transition';
+      const marker = preview ? ` ${NAV_ATTRIBUTE}="${item.path}"` : '';
+      return `<a href="${item.path}" class="${classes}"${marker}>${escapeHtml(item.label)}</a>`;
+    })
+    .join('');
+}
+
+/**
+ * Render a page to a complete HTML document using the shared layout
+ */
+export function renderPage(
+  site: SiteModel,
+  pathOrId: string,
+  options: RenderPageOptions = {}
+): string {
+  const page = findPage(site, pathOrId) ?? site.pages[0];
+  const fill = (markup: string) =>
+    markup
+      .split(NAV_PLACEHOLDER).join(renderNavigation(site, page.path, options.preview))
+      .split('{{siteName}}').join(escapeHtml(site.name));
+
+  const head = [site.layout.head, options.preview ? PREVIEW_BRIDGE_SCRIPT : '']
+    .filter(Boolean)
+    .join('\n  ');
+  const bodyClass = site.layout.bodyClass ? ` class="${site.layout.bodyClass}"` : '';
+  const header = fill(site.layout.header);
+  const footer = fill(site.layout.footer);
+  const body = [
+    options.preview && header ? markLayoutPart(header, 'header') : header,
+    page.html,
+    options.preview && footer ? markLayoutPart(footer, 'footer') : footer,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(page.title || site.name)}</title>
+  ${head}
+</head>
+<body${bodyClass}>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Compact outline of the site used to brief the AI
+ */
+export function describeSite(site: SiteModel): string {
+  return site.pages
+    .map((page) => {
+      const status = page.html.trim() ? 'built' : 'empty';
+      return `- ${page.path} (${page.name}, ${status})${page.description ? `: ${page.description}` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,114 @@
+/**
+ * Builder Types
+ *
+ * TypeScript interfaces for the multi-page site model used by the builder.
+ */
+
+/**
+ * A single page in a generated site
+ */
+export interface SitePage {
+  /** Stable page ID */
+  id: string;
+  /** Route path, e.g. '/', '/about', '/treatments/[service]' */
+  path: string;
+  /** Human readable name shown in the builder */
+  name: string;
+  /** Document title for the page */
+  title: string;
+  /** Short description of the page's purpose (used to brief the AI) */
+  description?: string;
+  /** Page body markup, rendered between the shared header and footer */
+  html: string;
+  /** Whether the page appears in the shared navigation */
+  showInNav?: boolean;
+}
+
+/**
+ * Navigation entry rendered in the shared header
+ */
+export interface SiteNavItem {
+  label: string;
+  path: string;
+}
+
+/**
+ * Markup shared by every page of the site
+ */
+export interface SiteLayout {
+  /** Extra markup injected into <head> (fonts, scripts, meta) */
+  head: string;
+  /** Shared header markup. `{{nav}}` is replaced with the navigation links */
+  header: string;
+  /** Shared footer markup */
+  footer: string;
+  /** Classes applied to <body> */
+  bodyClass?: string;
+}
+
+/**
+ * Project-level site model persisted in `projects.settings.site`
+ */
+export interface SiteModel {
+  /** Model version for future migrations */
+  version: 1;
+  /** Site name used for titles and branding */
+  name: string;
+  layout: SiteLayout;
+  pages: SitePage[];
+  navigation: SiteNavItem[];
+}
+
+/**
+ * Page definition as declared by templates
+ */
+export interface SitePageDefinition {
+  path: string;
+  /** Page name (default: from the last path segment) */
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Element picked in the preview and pinned as the target of the next prompt
+ */
+export interface ElementSelection {
+  /** Page path the element belongs to */
+  page: string;
+  /** CSS selector that resolves against the page markup */
+  selector: string;
+  /** Outer HTML of the element at selection time */
+  html: string;
+  tagName: string;
+  /** Short label shown in the builder, e.g. 'section#hero' */
+  label: string;
+  /** Whether the element lives in page content or the shared layout */
+  scope: 'page' | 'header' | 'footer';
+}
+
+/**
+ * Direct edit made in the preview without an AI round-trip
+ */
+export type InlineEdit =
+  | {
+      kind: 'text';
+      page: string;
+      scope: ElementSelection['scope'];
+      selector: string;
+      /** New inner HTML of the edited element */
+      html: string;
+    }
+  | {
+      kind: 'image';
+      page: string;
+      scope: ElementSelection['scope'];
+      selector: string;
+      src: string;
+      alt?: string;
+    }
+  | {
+      /** Label change on a link generated from `site.navigation`; renames the linked page */
+      kind: 'nav';
+      path: string;
+      label: string;
+    };
@@ -0,0 +1,72 @@
+/**
+ * Version Store
+ *
+ * Server-side persistence helpers for project_versions. Takes the request's
+ * Supabase client so row level security applies.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SiteModel } from './types';
+import type { ProjectVersionRow, VersionSource } from './versions';
+
+export const VERSION_SUMMARY_COLUMNS =
+  'id, project_id, version_number, label, source, page_count, created_at';
+
+/** Inserts tried when a concurrent save takes the same version number */
+const MAX_INSERT_ATTEMPTS = 5;
+
+/** Postgres unique_violation - UNIQUE(project_id, version_number) */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Insert a version with the next version number for the project. Two saves
+ * can read the same latest number; the one that loses the unique
+ * constraint reads it again and retries.
+ */
+export async function insertVersion(
+  supabase: SupabaseClient,
+  input: {
+    projectId: string;
+    userId: string;
+    site: SiteModel;
+    source: VersionSource;
+    label: string | null;
+  }
+): Promise<ProjectVersionRow | null> {
+  for (let attempt = 1; attempt <= MAX_INSERT_ATTEMPTS; attempt++) {
+    const { data: latest, error: latestError } = await supabase
+      .from('project_versions')
+      .select('version_number')
+      .eq('project_id', input.projectId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Version number lookup error:', latestError);
+      return null;
+    }
+
+    const { data: version, error } = await supabase
+      .from('project_versions')
+      .insert({
+        project_id: input.projectId,
+        version_number: (latest?.version_number ?? 0) + 1,
+        label: input.label,
+        source: input.source,
+        site: input.site,
+        page_count: input.site.pages.length,
+        created_by: input.userId,
+      })
+      .select(VERSION_SUMMARY_COLUMNS)
+      .single();
+
+    if (!error) return version as ProjectVersionRow;
+    if (error.code === UNIQUE_VIOLATION && attempt < MAX_INSERT_ATTEMPTS) continue;
+
+    console.error('Version creation error:', error);
+    return null;
+  }
+
+  return null;
+}
@@ -0,0 +1,215 @@
+/**
+ * Version History
+ *
+ * Types and diffing helpers for persisted project versions.
+ */
+
+import { renderPage } from './site';
+import type { SiteModel } from './types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What created a version
+ */
+export type VersionSource = 'save' | 'ai_generation' | 'snapshot' | 'restore';
+
+/**
+ * Version list entry (without the site payload)
+ */
+export interface ProjectVersionSummary {
+  id: string;
+  projectId: string;
+  versionNumber: number;
+  label: string | null;
+  source: VersionSource;
+  pageCount: number;
+  createdAt: string;
+}
+
+/**
+ * Full version including the site snapshot
+ */
+export interface ProjectVersion extends ProjectVersionSummary {
+  site: SiteModel;
+}
+
+/**
+ * Database row shape for project_versions
+ */
+export interface ProjectVersionRow {
+  id: string;
+  project_id: string;
+  version_number: number;
+  label: string | null;
+  source: VersionSource;
+  page_count: number | null;
+  site?: SiteModel;
+  created_at: string;
+}
+
+/**
+ * A single row in a side-by-side diff
+ */
+export interface DiffRow {
+  type: 'equal' | 'added' | 'removed' | 'changed';
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+/**
+ * Diff of one page between two versions
+ */
+export interface PageDiff {
+  path: string;
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  rows: DiffRow[];
+  additions: number;
+  deletions: number;
+}
+
+export const VERSION_SOURCE_LABELS: Record<VersionSource, string> = {
+  save: 'Saved',
+  ai_generation: 'AI generation',
+  snapshot: 'Snapshot',
+  restore: 'Restored',
+};
+
+/** Line-count product above which diffs fall back to a plain replace */
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Map a project_versions row to the camelCase API shape
+ */
+export function mapVersionRow(row: ProjectVersionRow): ProjectVersionSummary | ProjectVersion {
+  const summary: ProjectVersionSummary = {
+    id: row.id,
+    projectId: row.project_id,
+    versionNumber: row.version_number,
+    label: row.label,
+    source: row.source,
+    pageCount: row.page_count ?? row.site?.pages.length ?? 0,
+    createdAt: row.created_at,
+  };
+  return row.site ? { ...summary, site: row.site } : summary;
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Line diff using a longest-common-subsequence table, returned as
+ * side-by-side rows. Adjacent removals and additions are paired as changes.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const n = a.length;
+  const m = b.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return pairRows([
+      ...a.map((text, i): DiffRow => ({ type: 'removed', left: { line: i + 1, text } })),
+      ...b.map((text, i): DiffRow => ({ type: 'added', right: { line: i + 1, text } })),
+    ]);
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      rows.push({ type: 'equal', left: { line: i + 1, text: a[i] }, right: { line: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      rows.push({ type: 'removed', left: { line: i + 1, text: a[i] } });
+      i++;
+    } else {
+      rows.push({ type: 'added', right: { line: j + 1, text: b[j] } });
+      j++;
+    }
+  }
+  for (; i < n; i++) rows.push({ type: 'removed', left: { line: i + 1, text: a[i] } });
+  for (; j < m; j++) rows.push({ type: 'added', right: { line: j + 1, text: b[j] } });
+
+  return pairRows(rows);
+}
+
+/**
+ * Pair runs of removed lines with the following added lines
+ */
+function pairRows(rows: DiffRow[]): DiffRow[] {
+  const result: DiffRow[] = [];
+  let k = 0;
+  while (k < rows.length) {
+    if (rows[k].type !== 'removed') {
+      result.push(rows[k++]);
+      continue;
+    }
+
+    const removed: DiffRow[] = [];
+    while (k < rows.length && rows[k].type === 'removed') removed.push(rows[k++]);
+    const added: DiffRow[] = [];
+    while (k < rows.length && rows[k].type === 'added') added.push(rows[k++]);
+
+    const count = Math.max(removed.length, added.length);
+    for (let p = 0; p < count; p++) {
+      const left = removed[p]?.left;
+      const right = added[p]?.right;
+      result.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return result;
+}
+
+/**
+ * Diff every page of two site snapshots using the rendered HTML
+ */
+export function diffSites(before: SiteModel, after: SiteModel): PageDiff[] {
+  const paths = Array.from(
+    new Set([...before.pages.map((p) => p.path), ...after.pages.map((p) => p.path)])
+  );
+
+  return paths.map((path) => {
+    const oldPage = before.pages.find((p) => p.path === path);
+    const newPage = after.pages.find((p) => p.path === path);
+    const rows = diffLines(
+      oldPage ? renderPage(before, path) : '',
+      newPage ? renderPage(after, path) : ''
+    );
+    const additions = rows.filter((r) => r.right && r.type !== 'equal').length;
+    const deletions = rows.filter((r) => r.left && r.type !== 'equal').length;
+
+    return {
+      path,
+      name: (newPage || oldPage)!.name,
+      status: !oldPage
+        ? 'added'
+        : !newPage
+          ? 'removed'
+          : additions + deletions > 0
+            ? 'changed'
+            : 'unchanged',
+      rows,
+      additions,
+      deletions,
+    };
+  });
+}
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendMessage, streamMessage, type StreamOptions } from './client';
+import { setProvider, type LLMProvider, type LLMRequest, type LLMStreamEvent } from './providers';
+import { getLLMErrorCode } from './resilience';
+
+type StreamScript = (request: LLMRequest) => AsyncGenerator<LLMStreamEvent>;
+
+const USAGE = { model: 'test-model', inputTokens: 10, outputTokens: 5 };
+const NO_DELAY = { baseDelayMs: 0, maxDelayMs: 0 };
+
+/** Provider answering the nth call with the nth script, recording requests */
+function scriptedProvider(streams: StreamScript[], completions: Array<(request: LLMRequest) => Promise<string>> = []) {
+  const requests: LLMRequest[] = [];
+  const provider: LLMProvider = {
+    name: 'test',
+    async complete(request) {
+      requests.push(request);
+      const text = await completions[requests.length - 1](request);
+      return { text, model: request.model, stopReason: 'end_turn', usage: USAGE };
+    },
+    stream(request) {
+      requests.push(request);
+      return streams[requests.length - 1](request);
+    },
+  };
+  setProvider(provider);
+  return { requests };
+}
+
+function reply(text: string, stopReason = 'end_turn'): StreamScript {
+  return async function* () {
+    yield { type: 'text', text };
+    yield { type: 'usage', usage: USAGE };
+    yield { type: 'stop', stopReason };
+  };
+}
+
+function rateLimited(): Error {
+  return Object.assign(new Error('Too many requests'), { status: 429 });
+}
+
+/** Rejects with the abort reason once the request's signal fires */
+function untilAborted(request: LLMRequest): Promise<never> {
+  return new Promise((_, reject) =>
+    request.signal?.addEventListener('abort', () => reject(request.signal?.reason), { once: true })
+  );
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const PROMPT = [{ role: 'user' as const, content: 'Build a page' }];
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('streamMessage retries', () => {
+  it('retries a rate-limited request that failed before the first token', async () => {
+    const { requests } = scriptedProvider([
+      async function* () {
+        throw rateLimited();
+      },
+      reply('<main>Hi</main>'),
+    ]);
+    const onRetry = vi.fn();
+    const onUsage = vi.fn();
+
+    const chunks = await collect(streamMessage(PROMPT, { retry: NO_DELAY, onRetry, onUsage }));
+
+    expect(chunks).toEqual(['<main>Hi</main>']);
+    expect(requests).toHaveLength(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, code: 'rate_limited' }));
+    expect(onUsage).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry once output has been streamed', async () => {
+    const { requests } = scriptedProvider([
+      async function* () {
+        yield { type: 'text', text: '<main>' };
+        throw rateLimited();
+      },
+      reply('<main>Hi</main>'),
+    ]);
+    const chunks: string[] = [];
+
+    await expect(async () => {
+      for await (const chunk of streamMessage(PROMPT, { retry: NO_DELAY })) chunks.push(chunk);
+    }).rejects.toMatchObject({ status: 429 });
+
+    expect(chunks).toEqual(['<main>']);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not retry errors other than rate limits and overload', async () => {
+    const { requests } = scriptedProvider([
+      async function* () {
+        throw Object.assign(new Error('Bad request'), { status: 400 });
+      },
+    ]);
+
+    await expect(collect(streamMessage(PROMPT, { retry: NO_DELAY }))).rejects.toThrow('Bad request');
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('sendMessage retries', () => {
+  it('retries rate-limited requests up to the retry limit', async () => {
+    const failing = async () => {
+      throw rateLimited();
+    };
+
+    const recovered = scriptedProvider([], [failing, async () => 'Answer']);
+    expect(await sendMessage(PROMPT, { retry: NO_DELAY })).toBe('Answer');
+    expect(recovered.requests).toHaveLength(2);
+
+    const exhausted = scriptedProvider([], [failing, failing, failing]);
+    await expect(sendMessage(PROMPT, { retry: { ...NO_DELAY, maxRetries: 2 } })).rejects.toMatchObject({ status: 429 });
+    expect(exhausted.requests).toHaveLength(3);
+  });
+});
+
+describe('timeouts', () => {
+  it('aborts a stalled stream with a timeout error', async () => {
+    const { requests } = scriptedProvider([
+      async function* (request) {
+        await untilAborted(request);
+      },
+    ]);
+
+    const error = await collect(streamMessage(PROMPT, { timeoutMs: 20 })).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ name: 'TimeoutError' });
+    expect(getLLMErrorCode(error)).toBe('timeout');
+    expect(requests[0].signal?.aborted).toBe(true);
+  });
+
+  it('aborts a stalled completion without retrying it', async () => {
+    const { requests } = scriptedProvider([], [untilAborted]);
+
+    await expect(sendMessage(PROMPT, { timeoutMs: 20, retry: NO_DELAY })).rejects.toMatchObject({ name: 'TimeoutError' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives each continuation its own time limit', async () => {
+    const slowPart = (text: string, stopReason: string): StreamScript =>
+      async function* (request) {
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        yield* reply(text, stopReason)(request);
+      };
+    scriptedProvider([slowPart('One ', 'max_tokens'), slowPart('two ', 'max_tokens'), slowPart('three', 'end_turn')]);
+
+    const chunks = await collect(streamMessage(PROMPT, { timeoutMs: 150, maxContinuations: 2 }));
+
+    expect(chunks.join('')).toBe('One two three');
+  });
+});
+
+describe('streamMessage continuations', () => {
+  it('continues at max_tokens with the partial output as a trimmed assistant prefill', async () => {
+    const { requests } = scriptedProvider([reply('<main><h1>Hello ', 'max_tokens'), reply('world</h1></main>')]);
+    const onStop = vi.fn();
+
+    const chunks = await collect(streamMessage(PROMPT, { maxContinuations: 1, onStop }));
+
+    expect(chunks.join('')).toBe('<main><h1>Hello world</h1></main>');
+    expect(requests[0].messages).toEqual(PROMPT);
+    expect(requests[1].messages).toEqual([...PROMPT, { role: 'assistant', content: '<main><h1>Hello' }]);
+    expect(onStop).toHaveBeenCalledWith('end_turn');
+  });
+
+  it('stops after the continuation limit and reports the truncation', async () => {
+    const { requests } = scriptedProvider([reply('a', 'max_tokens'), reply('b', 'max_tokens'), reply('c')]);
+    const options: StreamOptions = { maxContinuations: 1, onStop: vi.fn() };
+
+    expect(await collect(streamMessage(PROMPT, options))).toEqual(['a', 'b']);
+    expect(requests).toHaveLength(2);
+    expect(options.onStop).toHaveBeenCalledWith('max_tokens');
+  });
+
+  it('starts from a prefill without yielding it again', async () => {
+    const { requests } = scriptedProvider([reply(' and more</p>', 'max_tokens'), reply('<p>Done</p>')]);
+
+    const chunks = await collect(streamMessage(PROMPT, { prefill: '<p>Earlier text ', maxContinuations: 1 }));
+
+    expect(chunks).toEqual([' and more</p>', '<p>Done</p>']);
+    expect(requests[0].messages.at(-1)).toEqual({ role: 'assistant', content: '<p>Earlier text' });
+    expect(requests[1].messages.at(-1)).toEqual({ role: 'assistant', content: '<p>Earlier text  and more</p>' });
+  });
+});
@@ -1,33 +1,86 @@
 /**
  * Claude AI Client
  *
- * Handles communication with the Anthropic Claude API.
+ * Handles communication with Claude through the provider selected by
+ * LLM_PROVIDER (see `./providers`) - the Anthropic API by default, or
+ * recorded fixtures for offline runs. Requests are retried and each API
+ * call is bounded by a timeout according to `./resilience`.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { getProvider, type LLMRequest, type Message } from './providers';
+import {
+  createTimeout,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
+  getLLMErrorCode,
+  getRetryDelay,
+  isRetryableError,
+  sleep,
+  type RetryInfo,
+  type RetryPolicy,
+} from './resilience';
+import type { TokenUsage } from './usage';
 
-// Initialize the Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-export type MessageRole = 'user' | 'assistant';
-
-export interface Message {
-  role: MessageRole;
-  content: string;
-}
+export type { Message, MessageRole } from './providers';
 
 export interface ChatOptions {
   model?: string;
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
+  /** Called with the token usage of each API call, e.g. `createUsageRecorder` */
+  onUsage?: (usage: TokenUsage) => void | Promise<void>;
+  retry?: Partial<RetryPolicy>;
+  /** Hard limit for each API call - every retry and continuation gets its own */
+  timeoutMs?: number;
+  /** Called before waiting to retry a rate-limited or overloaded request */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface StreamOptions extends ChatOptions {
+  /**
+   * How many times to ask the model to continue when it stops at
+   * max_tokens. The partial output is re-sent as an assistant message.
+   */
+  maxContinuations?: number;
+  /** Earlier partial output to continue from; it is not yielded again */
+  prefill?: string;
+  /** Called with the final stop reason, e.g. 'max_tokens' when output is still cut off */
+  onStop?: (stopReason: string | null) => void;
 }
 
 const DEFAULT_MODEL = process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514';
 const DEFAULT_MAX_TOKENS = parseInt(process.env.CLAUDE_MAX_TOKENS || '4096', 10);
 
+function toRequest(messages: Message[], options: ChatOptions): LLMRequest {
+  const {
+    model = DEFAULT_MODEL,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature = 0.7,
+    systemPrompt,
+  } = options;
+
+  return {
+    model,
+    maxTokens,
+    temperature,
+    system: systemPrompt,
+    messages: messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+    })),
+  };
+}
+
+/**
+ * Append partial output as an assistant turn for the model to continue.
+ * The API rejects assistant turns that end in whitespace.
+ */
+function withPrefill(messages: Message[], partial: string): Message[] {
+  const content = partial.trimEnd();
+  return content ? [...messages, { role: 'assistant', content }] : messages;
+}
+
 /**
  * Send a message to Claude and get a response
  */
@@ -35,28 +88,28 @@ export async function sendMessage(
   messages: Message[],
   options: ChatOptions = {}
 ): Promise<string> {
-  const {
-    model = DEFAULT_MODEL,
-    maxTokens = DEFAULT_MAX_TOKENS,
-    temperature = 0.7,
-    systemPrompt,
-  } = options;
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const request = toRequest(messages, options);
 
   try {
-    const response = await anthropic.messages.create({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      system: systemPrompt,
-      messages: messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-    });
-
-    // Extract text from response
-    const textBlock = response.content.find((block) => block.type === 'text');
-    return textBlock?.type === 'text' ? textBlock.text : '';
+    for (let attempt = 0; ; attempt++) {
+      const timeout = createTimeout(timeoutMs);
+      try {
+        const response = await getProvider().complete({ ...request, signal: timeout.signal });
+        await options.onUsage?.(response.usage);
+        return response.text;
+      } catch (error) {
+        if (timeout.signal.aborted) throw timeout.error;
+        if (attempt >= policy.maxRetries || !isRetryableError(error)) throw error;
+
+        const delayMs = getRetryDelay(attempt + 1, policy, error);
+        options.onRetry?.({ attempt: attempt + 1, delayMs, code: getLLMErrorCode(error) });
+        await sleep(delayMs);
+      } finally {
+        timeout.clear();
+      }
+    }
   } catch (error) {
     console.error('Claude API error:', error);
     throw error;
@@ -68,33 +121,67 @@ export async function sendMessage(
  */
 export async function* streamMessage(
   messages: Message[],
-  options: ChatOptions = {}
+  options: StreamOptions = {}
 ): AsyncGenerator<string> {
-  const {
-    model = DEFAULT_MODEL,
-    maxTokens = DEFAULT_MAX_TOKENS,
-    temperature = 0.7,
-    systemPrompt,
-  } = options;
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const base = toRequest(messages, options);
+  const maxContinuations = options.maxContinuations ?? 0;
 
-  const stream = await anthropic.messages.stream({
-    model,
-    max_tokens: maxTokens,
-    temperature,
-    system: systemPrompt,
-    messages: messages.map((m) => ({
-      role: m.role,
-      content: m.content,
-    })),
-  });
-
-  for await (const event of stream) {
-    if (
-      event.type === 'content_block_delta' &&
-      event.delta.type === 'text_delta'
-    ) {
-      yield event.delta.text;
+  let output = options.prefill ?? '';
+  let usage: TokenUsage | null = null;
+
+  const flushUsage = async () => {
+    // Each call is recorded separately, including partial ones
+    if (usage && (usage.inputTokens || usage.outputTokens)) {
+      await options.onUsage?.(usage);
+    }
+    usage = null;
+  };
+
+  try {
+    for (let continuation = 0; ; continuation++) {
+      const request = { ...base, messages: withPrefill(base.messages, output) };
+      let stopReason: string | null = null;
+
+      for (let attempt = 0; ; attempt++) {
+        const timeout = createTimeout(timeoutMs);
+        let received = false;
+        try {
+          for await (const event of getProvider().stream({ ...request, signal: timeout.signal })) {
+            if (event.type === 'usage') usage = event.usage;
+            if (event.type === 'stop') stopReason = event.stopReason;
+            if (event.type === 'text') {
+              received = true;
+              output += event.text;
+              yield event.text;
+            }
+          }
+          break;
+        } catch (error) {
+          if (timeout.signal.aborted) throw timeout.error;
+          // Once output has been streamed a retry would repeat it
+          if (received || attempt >= policy.maxRetries || !isRetryableError(error)) throw error;
+
+          await flushUsage();
+          const delayMs = getRetryDelay(attempt + 1, policy, error);
+          options.onRetry?.({ attempt: attempt + 1, delayMs, code: getLLMErrorCode(error) });
+          await sleep(delayMs);
+        } finally {
+          timeout.clear();
+        }
+      }
+
+      await flushUsage();
+
+      if (stopReason !== 'max_tokens' || continuation >= maxContinuations) {
+        options.onStop?.(stopReason);
+        return;
+      }
     }
+  } finally {
+    // Also recorded when the consumer stops early or the stream fails
+    await flushUsage();
   }
 }
 
@@ -208,5 +295,3 @@ When generating code:
 - Optimize for local SEO
 
 Never provide actual medical advice. Always recommend consulting healthcare professionals.`;
-
-export { anthropic };
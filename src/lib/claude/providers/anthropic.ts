@@ -0,0 +1,81 @@
+/**
+ * Anthropic Provider
+ *
+ * Serves requests from the Anthropic Messages API.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { TokenUsage } from '../usage';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent } from './types';
+
+function toParams(request: LLMRequest) {
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    system: request.system,
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+    })),
+  };
+}
+
+/** Retries are handled by the client's retry policy, not the SDK */
+function toOptions(request: LLMRequest) {
+  return { signal: request.signal, maxRetries: 0 };
+}
+
+function toUsage(model: string, usage: Anthropic.Usage): TokenUsage {
+  return {
+    model,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
+export function createAnthropicProvider(
+  client: Anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+): LLMProvider {
+  return {
+    name: 'anthropic',
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const response = await client.messages.create(toParams(request), toOptions(request));
+
+      // Extract text from response
+      const textBlock = response.content.find((block) => block.type === 'text');
+      return {
+        text: textBlock?.type === 'text' ? textBlock.text : '',
+        model: response.model,
+        stopReason: response.stop_reason,
+        usage: toUsage(response.model, response.usage),
+      };
+    },
+
+    async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+      const stream = client.messages.stream(toParams(request), toOptions(request));
+
+      // Input usage arrives with message_start, output usage with message_delta
+      let usage: TokenUsage = { model: request.model, inputTokens: 0, outputTokens: 0 };
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          usage = toUsage(event.message.model, event.message.usage);
+          yield { type: 'usage', usage };
+        } else if (event.type === 'message_delta') {
+          usage = { ...usage, outputTokens: event.usage.output_tokens };
+          yield { type: 'usage', usage };
+          yield { type: 'stop', stopReason: event.delta.stop_reason };
+        } else if (
+          event.type === 'content_block_delta' &&
+          event.delta.type === 'text_delta'
+        ) {
+          yield { type: 'text', text: event.delta.text };
+        }
+      }
+    },
+  };
+}
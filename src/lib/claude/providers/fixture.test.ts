@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOperationParser, type BuildStreamEvent } from '@/lib/builder/operations';
+import { buildSystemPrompt, type ProjectContext } from '@/lib/ai/system-prompt';
+import { generateFaqPrompt, parseFaqResponse } from '@/lib/prompts/healthcare';
+import { dedupeFaqs } from '@/lib/healthcare/faqs';
+import { getCompletion, HEALTHCARE_SYSTEM_PROMPT, streamMessage } from '../client';
+import { createProvider, setProvider } from '.';
+
+/** The build request the recorded fixtures answer */
+const BUILD_CONTEXT: ProjectContext = {
+  projectName: 'Bright Smile',
+  businessName: 'Bright Smile Dental',
+  industry: 'dental',
+  location: 'Austin, TX',
+  phone: '(512) 555-0142',
+  services: ['Cleanings', 'Dental Implants'],
+  sitePages: [{ path: '/', name: 'Home', hasContent: true }],
+  targetPage: '/',
+  currentPageHtml: '<main><section id="hero"><h1>Welcome</h1></section></main>',
+};
+const BUILD_MESSAGE = 'Make the hero more inviting and add a booking button';
+
+const FAQ_TOPIC = 'Dental Implants';
+const FAQ_EXISTING = ['How much do dental implants cost?'];
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  setProvider(createProvider('fixture', 'fixtures/llm'));
+});
+
+afterEach(() => {
+  setProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('fixture replay', () => {
+  it('replays a build stream, continuing past max_tokens, into edit operations', async () => {
+    const parser = createOperationParser();
+    const events: BuildStreamEvent[] = [];
+    const stops: Array<string | null> = [];
+    let chunks = 0;
+
+    for await (const chunk of streamMessage([{ role: 'user', content: BUILD_MESSAGE }], {
+      systemPrompt: buildSystemPrompt(BUILD_CONTEXT),
+      maxContinuations: 2,
+      onStop: (stopReason) => stops.push(stopReason),
+    })) {
+      chunks++;
+      events.push(...parser.push(chunk));
+    }
+    events.push(...parser.flush());
+
+    const operations = events.filter((event) => event.type === 'operation');
+    expect(chunks).toBeGreaterThan(2);
+    expect(stops).toEqual(['end_turn']);
+    expect(operations).toEqual([
+      {
+        type: 'operation',
+        operation: {
+          action: 'replace',
+          page: '/',
+          target: '#hero',
+          html: expect.stringMatching(/^<section id="hero"[\s\S]*Gentle dental care in[\s\S]*Book a visit[\s\S]*<\/section>$/),
+        },
+      },
+    ]);
+    const text = events.map((event) => (event.type === 'text' ? event.delta : '')).join('');
+    expect(text).toContain('add a booking button.');
+    expect(text).toContain('The hero now opens with your location');
+  });
+
+  it('replays an FAQ generation', async () => {
+    const output = await getCompletion(
+      generateFaqPrompt({ topic: FAQ_TOPIC, pageType: 'service', count: 3, existingFaqs: FAQ_EXISTING }),
+      { systemPrompt: HEALTHCARE_SYSTEM_PROMPT }
+    );
+
+    const generated = parseFaqResponse(output);
+    expect(generated).toHaveLength(3);
+
+    const { unique, duplicates } = dedupeFaqs(generated, FAQ_EXISTING, { topic: FAQ_TOPIC });
+    expect(unique.map((faq) => faq.question)).toEqual([
+      'Am I a good candidate for dental implants?',
+      'How long do dental implants last?',
+    ]);
+    expect(duplicates).toEqual([expect.objectContaining({ matches: 'How much do dental implants cost?' })]);
+  });
+
+  it('fails with the fixture path when no fixture was recorded for a prompt', async () => {
+    await expect(getCompletion('A prompt nobody recorded')).rejects.toThrow(
+      /^No LLM fixture for prompt [0-9a-f]{64} \(expected .*fixtures\/llm\/[0-9a-f]{64}\.json\)\. Record one by running with LLM_PROVIDER=record\.$/
+    );
+
+    const stream = streamMessage([{ role: 'user', content: 'A prompt nobody recorded' }]);
+    await expect(stream.next()).rejects.toThrow('No LLM fixture for prompt');
+  });
+});
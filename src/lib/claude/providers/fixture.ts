@@ -0,0 +1,149 @@
+/**
+ * Fixture Provider
+ *
+ * Replays recorded responses keyed by a hash of the prompt, so the build
+ * route and content generators run offline in CI and local development.
+ * With a `recordWith` provider, prompts without a fixture are sent to that
+ * provider and the response is written to the fixture directory.
+ *
+ * Server only - fixtures are read from the file system.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent } from './types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface LLMFixture {
+  hash: string;
+  recordedAt: string;
+  request: Pick<LLMRequest, 'model' | 'system' | 'messages'>;
+  response: LLMResponse;
+}
+
+export interface FixtureProviderOptions {
+  /** Directory holding `<hash>.json` fixtures */
+  dir: string;
+  /** Provider used to record missing fixtures; replay-only when omitted */
+  recordWith?: LLMProvider;
+  /** Characters per streamed text chunk on replay */
+  chunkSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 64;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Hash of the prompt a response depends on. Model settings are left out so
+ * fixtures survive changes to the default model or token limits.
+ */
+export function hashPrompt(request: Pick<LLMRequest, 'system' | 'messages'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ system: request.system ?? '', messages: request.messages }))
+    .digest('hex');
+}
+
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export function createFixtureProvider(options: FixtureProviderOptions): LLMProvider {
+  const { dir, recordWith, chunkSize = DEFAULT_CHUNK_SIZE } = options;
+
+  const fixturePath = (hash: string) => path.join(dir, `${hash}.json`);
+
+  async function loadFixture(hash: string): Promise<LLMFixture | null> {
+    try {
+      return JSON.parse(await readFile(fixturePath(hash), 'utf8')) as LLMFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async function saveFixture(hash: string, request: LLMRequest, response: LLMResponse) {
+    const fixture: LLMFixture = {
+      hash,
+      recordedAt: new Date().toISOString(),
+      request: { model: request.model, system: request.system, messages: request.messages },
+      response,
+    };
+    await mkdir(dir, { recursive: true });
+    await writeFile(fixturePath(hash), `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+
+  function missingFixture(hash: string): Error {
+    return new Error(
+      `No LLM fixture for prompt ${hash} (expected ${fixturePath(hash)}). ` +
+        'Record one by running with LLM_PROVIDER=record.'
+    );
+  }
+
+  return {
+    name: recordWith ? 'record' : 'fixture',
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const hash = hashPrompt(request);
+      const fixture = await loadFixture(hash);
+      if (fixture) return fixture.response;
+      if (!recordWith) throw missingFixture(hash);
+
+      const response = await recordWith.complete(request);
+      await saveFixture(hash, request, response);
+      return response;
+    },
+
+    async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+      const hash = hashPrompt(request);
+      const fixture = await loadFixture(hash);
+
+      if (fixture) {
+        const { response } = fixture;
+        yield { type: 'usage', usage: { ...response.usage, outputTokens: 0 } };
+        for (const text of chunkText(response.text, chunkSize)) {
+          yield { type: 'text', text };
+        }
+        yield { type: 'usage', usage: response.usage };
+        yield { type: 'stop', stopReason: response.stopReason };
+        return;
+      }
+
+      if (!recordWith) throw missingFixture(hash);
+
+      // Pass the live stream through while collecting the response
+      const response: LLMResponse = {
+        text: '',
+        model: request.model,
+        stopReason: null,
+        usage: { model: request.model, inputTokens: 0, outputTokens: 0 },
+      };
+
+      for await (const event of recordWith.stream(request)) {
+        if (event.type === 'text') response.text += event.text;
+        if (event.type === 'usage') {
+          response.usage = event.usage;
+          response.model = event.usage.model;
+        }
+        if (event.type === 'stop') response.stopReason = event.stopReason;
+        yield event;
+      }
+
+      await saveFixture(hash, request, response);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * LLM Providers
+ *
+ * `getProvider()` picks the provider from LLM_PROVIDER:
+ * - anthropic (default): the Anthropic Messages API
+ * - fixture: replay recorded responses from LLM_FIXTURES_DIR, no network
+ * - record: replay when a fixture exists, otherwise call Anthropic and save one
+ */
+
+import path from 'path';
+import { createAnthropicProvider } from './anthropic';
+import { createFixtureProvider } from './fixture';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export { createAnthropicProvider } from './anthropic';
+export { createFixtureProvider, hashPrompt, type LLMFixture } from './fixture';
+
+export type ProviderName = 'anthropic' | 'fixture' | 'record';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/llm';
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Create a provider by name
+ */
+export function createProvider(
+  name: ProviderName,
+  fixturesDir: string = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+): LLMProvider {
+  const dir = path.resolve(process.cwd(), fixturesDir);
+
+  switch (name) {
+    case 'fixture':
+      return createFixtureProvider({ dir });
+    case 'record':
+      return createFixtureProvider({ dir, recordWith: createAnthropicProvider() });
+    default:
+      return createAnthropicProvider();
+  }
+}
+
+/**
+ * The provider selected by LLM_PROVIDER, created on first use
+ */
+export function getProvider(): LLMProvider {
+  if (!provider) {
+    const name = (process.env.LLM_PROVIDER || 'anthropic') as ProviderName;
+    if (!['anthropic', 'fixture', 'record'].includes(name)) {
+      throw new Error(`Unknown LLM_PROVIDER "${name}" - expected anthropic, fixture or record`);
+    }
+    provider = createProvider(name);
+  }
+  return provider;
+}
+
+/**
+ * Replace the active provider, e.g. with a fixture provider in tests
+ */
+export function setProvider(next: LLMProvider | null): void {
+  provider = next;
+}
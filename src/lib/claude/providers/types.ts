@@ -0,0 +1,52 @@
+/**
+ * LLM Provider Types
+ *
+ * The Claude client talks to the model through an `LLMProvider`, so calls
+ * can be served by the Anthropic API or replayed from recorded fixtures.
+ */
+
+import type { TokenUsage } from '../usage';
+
+export type MessageRole = 'user' | 'assistant';
+
+export interface Message {
+  role: MessageRole;
+  content: string;
+}
+
+/**
+ * A fully resolved model request - defaults are applied by the client
+ */
+export interface LLMRequest {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  system?: string;
+  /** Ends with a partial assistant message when continuing a response */
+  messages: Message[];
+  /** Aborts the request, e.g. on timeout */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  /** 'end_turn', 'max_tokens', ... */
+  stopReason: string | null;
+  usage: TokenUsage;
+}
+
+/**
+ * Streaming events. `usage` is cumulative and may be emitted more than
+ * once; `stop` is emitted once when the model finishes.
+ */
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'stop'; stopReason: string | null };
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent>;
+}
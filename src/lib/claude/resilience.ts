@@ -0,0 +1,152 @@
+/**
+ * Request Resilience
+ *
+ * Retry and timeout policy for Claude calls. Rate-limit and overloaded
+ * errors are retried with exponential backoff as long as no output has
+ * been received; every API call is bounded by a hard timeout.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type LLMErrorCode = 'rate_limited' | 'overloaded' | 'timeout' | 'api_error';
+
+export interface RetryInfo {
+  /** 1-based retry number */
+  attempt: number;
+  delayMs: number;
+  code: LLMErrorCode;
+}
+
+/** Integer from an environment variable; the fallback when unset, invalid or below `min` */
+function readIntEnv(value: string | undefined, fallback: number, min = 0): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: readIntEnv(process.env.CLAUDE_MAX_RETRIES, 3),
+  baseDelayMs: 1000,
+  maxDelayMs: 15_000,
+};
+
+/**
+ * Hard limit for one API call. Retries and continuations each get their
+ * own, so a call with continuations can run for several times this.
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = readIntEnv(process.env.CLAUDE_REQUEST_TIMEOUT_MS, 120_000, 1);
+
+// ============================================================================
+// ERROR CLASSIFICATION
+// ============================================================================
+
+interface ErrorLike {
+  name?: string;
+  status?: number;
+  headers?: Headers | Record<string, string | null | undefined>;
+  error?: { error?: { type?: string }; type?: string };
+}
+
+function errorType(error: ErrorLike): string | undefined {
+  return error.error?.error?.type ?? error.error?.type;
+}
+
+/**
+ * Classify an error thrown by a provider
+ */
+export function getLLMErrorCode(error: unknown): LLMErrorCode {
+  if (!error || typeof error !== 'object') return 'api_error';
+  const err = error as ErrorLike;
+
+  if (err.name === 'TimeoutError') return 'timeout';
+  if (err.status === 429 || errorType(err) === 'rate_limit_error') return 'rate_limited';
+  if (err.status === 529 || errorType(err) === 'overloaded_error') return 'overloaded';
+  return 'api_error';
+}
+
+/**
+ * Whether a failed request may be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  const code = getLLMErrorCode(error);
+  return code === 'rate_limited' || code === 'overloaded';
+}
+
+/**
+ * User-facing description of a failed request
+ */
+export function describeLLMError(error: unknown): string {
+  switch (getLLMErrorCode(error)) {
+    case 'rate_limited':
+      return 'The AI service is rate limiting requests. Please try again in a minute.';
+    case 'overloaded':
+      return 'The AI service is overloaded right now. Please try again shortly.';
+    case 'timeout':
+      return error instanceof Error ? error.message : 'The AI request timed out.';
+    default:
+      return error instanceof Error ? error.message : 'Generation failed';
+  }
+}
+
+// ============================================================================
+// BACKOFF & TIMEOUT
+// ============================================================================
+
+function retryAfterMs(error: unknown): number | null {
+  const headers = (error as ErrorLike | null)?.headers;
+  if (!headers) return null;
+  const value =
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get('retry-after')
+      : (headers as Record<string, string | null | undefined>)['retry-after'];
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+/**
+ * Delay before a retry - the server's retry-after when given, otherwise
+ * exponential backoff with jitter
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, error?: unknown): number {
+  const requested = retryAfterMs(error);
+  const backoff = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * policy.baseDelayMs * 0.5;
+  return Math.round(Math.min(requested ?? backoff + jitter, policy.maxDelayMs));
+}
+
+/**
+ * Wait, resolving early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Abort signal that fires after `ms`. `error` is what the caller should
+ * throw once the signal has fired.
+ */
+export function createTimeout(ms: number): { signal: AbortSignal; error: Error; clear: () => void } {
+  const controller = new AbortController();
+  const error = new Error(`The AI request timed out after ${Math.round(ms / 1000)} seconds.`);
+  error.name = 'TimeoutError';
+  const timer = setTimeout(() => controller.abort(error), ms);
+  return { signal: controller.signal, error, clear: () => clearTimeout(timer) };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeSupabase, type Row } from '@/test/fake-supabase';
+import { checkQuota, estimateCost, getPeriodUsageTotals } from './usage';
+
+describe('estimateCost', () => {
+  it('prices input and output tokens by model', () => {
+    expect(estimateCost({ model: 'claude-sonnet-4-20250514', inputTokens: 1_000_000, outputTokens: 100_000 })).toBe(4.5);
+    expect(estimateCost({ model: 'claude-opus-4-1', inputTokens: 10_000, outputTokens: 2_000 })).toBe(0.3);
+    expect(estimateCost({ model: 'claude-3-haiku-20240307', inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.25);
+  });
+
+  it('prices cache writes at 1.25x and cache reads at 0.1x the input price', () => {
+    expect(
+      estimateCost({
+        model: 'claude-sonnet-4-20250514',
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 1_000_000,
+        cacheReadInputTokens: 1_000_000,
+      })
+    ).toBe(4.05);
+  });
+
+  it('falls back to Sonnet pricing for unknown models', () => {
+    expect(estimateCost({ model: 'some-new-model', inputTokens: 1_000_000, outputTokens: 0 })).toBe(3);
+  });
+});
+
+describe('checkQuota', () => {
+  const NOW = new Date().toISOString();
+
+  /** Sums like the `ai_usage_totals` database function */
+  function usageTotals({ p_user_id, p_since }: Row, tables: Record<string, Row[]>) {
+    const totals = new Map<unknown, Row>();
+    for (const row of tables.ai_usage ?? []) {
+      if (row.user_id !== p_user_id || (row.created_at as string) < (p_since as string)) continue;
+      const total = totals.get(row.project_id) ?? { project_id: row.project_id, calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: '0' };
+      total.calls = (total.calls as number) + 1;
+      total.input_tokens = (total.input_tokens as number) + (row.input_tokens as number);
+      total.output_tokens = (total.output_tokens as number) + (row.output_tokens as number);
+      total.cost_usd = String(Number(total.cost_usd) + Number(row.cost_usd));
+      totals.set(row.project_id, total);
+    }
+    return Array.from(totals.values());
+  }
+
+  function setup(usage: Array<{ project: string | null; tokens: number }>, quotas: Row[]) {
+    return createFakeSupabase({
+      tables: {
+        ai_quotas: quotas.map((quota) => ({ user_id: 'user-1', project_id: null, ...quota })),
+        ai_usage: [
+          ...usage.map(({ project, tokens }) => ({
+            user_id: 'user-1',
+            project_id: project,
+            input_tokens: tokens / 2,
+            output_tokens: tokens / 2,
+            cost_usd: '0.010000',
+            created_at: NOW,
+          })),
+          // Last month and other users don't count
+          { user_id: 'user-1', project_id: 'project-1', input_tokens: 9_000, output_tokens: 0, cost_usd: '1', created_at: '2000-01-01T00:00:00.000Z' },
+          { user_id: 'user-2', project_id: 'project-1', input_tokens: 9_000, output_tokens: 0, cost_usd: '1', created_at: NOW },
+        ],
+      },
+      functions: { ai_usage_totals: usageTotals },
+    });
+  }
+
+  it('allows calls under the user quota', async () => {
+    const { client } = setup([{ project: 'project-1', tokens: 400 }, { project: null, tokens: 200 }], [
+      { monthly_token_limit: 1_000 },
+    ]);
+
+    expect(await checkQuota(client, 'user-1')).toMatchObject({ allowed: true, scope: 'user', used: 600, limit: 1_000 });
+  });
+
+  it('refuses calls at and over the user quota', async () => {
+    const at = setup([{ project: 'project-1', tokens: 600 }, { project: null, tokens: 400 }], [{ monthly_token_limit: 1_000 }]);
+    expect(await checkQuota(at.client, 'user-1', 'project-1')).toMatchObject({
+      allowed: false,
+      scope: 'user',
+      used: 1_000,
+      limit: 1_000,
+    });
+
+    const over = setup([{ project: 'project-1', tokens: 1_200 }], [{ monthly_token_limit: 1_000 }]);
+    expect(await checkQuota(over.client, 'user-1')).toMatchObject({ allowed: false, used: 1_200 });
+  });
+
+  it('checks the project quota against the project usage only', async () => {
+    const quotas = [{ monthly_token_limit: 10_000 }, { project_id: 'project-1', monthly_token_limit: 500 }];
+
+    const under = setup([{ project: 'project-1', tokens: 400 }, { project: 'project-2', tokens: 2_000 }], quotas);
+    expect(await checkQuota(under.client, 'user-1', 'project-1')).toMatchObject({
+      allowed: true,
+      scope: 'project',
+      used: 400,
+      limit: 500,
+    });
+
+    const at = setup([{ project: 'project-1', tokens: 500 }], quotas);
+    expect(await checkQuota(at.client, 'user-1', 'project-1')).toMatchObject({
+      allowed: false,
+      scope: 'project',
+      used: 500,
+    });
+  });
+
+  it('does not read usage when there is no limit', async () => {
+    const fake = setup([{ project: 'project-1', tokens: 1_000_000 }], [{ monthly_token_limit: null }]);
+
+    expect(await checkQuota(fake.client, 'user-1')).toMatchObject({ allowed: true, limit: null });
+    expect(fake.calls).not.toContain('rpc.ai_usage_totals');
+  });
+
+  it('throws instead of allowing the call when usage or quotas cannot be read', async () => {
+    const usageDown = createFakeSupabase({
+      tables: { ai_quotas: [{ user_id: 'user-1', project_id: null, monthly_token_limit: 1_000 }] },
+      failures: { 'rpc.ai_usage_totals': { message: 'connection refused' } },
+    });
+    await expect(checkQuota(usageDown.client, 'user-1')).rejects.toMatchObject({ message: 'connection refused' });
+
+    const quotasDown = createFakeSupabase({ failures: { ai_quotas: { message: 'permission denied' } } });
+    await expect(checkQuota(quotasDown.client, 'user-1')).rejects.toMatchObject({ message: 'permission denied' });
+  });
+});
+
+describe('getPeriodUsageTotals', () => {
+  it('keys totals by project, with calls without one under an empty key', async () => {
+    const { client } = createFakeSupabase({
+      functions: {
+        ai_usage_totals: () => [
+          { project_id: 'project-1', calls: 3, input_tokens: '1200', output_tokens: '300', cost_usd: '0.012345' },
+          { project_id: null, calls: 1, input_tokens: 10, output_tokens: 5, cost_usd: 0.5 },
+        ],
+      },
+    });
+
+    const totals = await getPeriodUsageTotals(client, 'user-1');
+    expect(totals.get('project-1')).toEqual({ calls: 3, inputTokens: 1200, outputTokens: 300, totalTokens: 1500, costUsd: 0.01 });
+    expect(totals.get('')).toMatchObject({ calls: 1, totalTokens: 15 });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * AI Usage Tracking
+ *
+ * Records token usage and estimated cost for Claude calls in `ai_usage`
+ * and enforces monthly per-user and per-project token quotas, summed by
+ * the `ai_usage_totals` database function. Takes the request's Supabase
+ * client so row level security applies.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Token usage reported by a single Claude call
+ */
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/**
+ * Who made a call and from where
+ */
+export interface UsageContext {
+  userId: string;
+  projectId?: string | null;
+  /** API route that made the call, e.g. 'build' */
+  route: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  /** Quota that was exceeded */
+  scope?: 'user' | 'project';
+  used: number;
+  limit: number | null;
+  /** Start of the next quota period (ISO) */
+  resetsAt: string;
+}
+
+/** Price per million tokens in USD */
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Prices by model prefix - the first match wins
+ */
+const MODEL_PRICING: Array<[prefix: string, pricing: ModelPricing]> = [
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+];
+
+const FALLBACK_PRICING: ModelPricing = { input: 3, output: 15 };
+
+/** Cache writes cost 1.25x and cache reads 0.1x the input price */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+function getModelPricing(model: string): ModelPricing {
+  return MODEL_PRICING.find(([prefix]) => model.startsWith(prefix))?.[1] ?? FALLBACK_PRICING;
+}
+
+/**
+ * Estimate the cost of a call in USD
+ */
+export function estimateCost(usage: TokenUsage): number {
+  const pricing = getModelPricing(usage.model);
+  const inputCost =
+    usage.inputTokens * pricing.input +
+    (usage.cacheCreationInputTokens ?? 0) * pricing.input * CACHE_WRITE_MULTIPLIER +
+    (usage.cacheReadInputTokens ?? 0) * pricing.input * CACHE_READ_MULTIPLIER;
+  const cost = (inputCost + usage.outputTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Store the usage of one call. Failures are logged rather than thrown -
+ * the response has already been generated by the time usage is known.
+ */
+export async function recordUsage(
+  supabase: SupabaseClient,
+  context: UsageContext,
+  usage: TokenUsage
+): Promise<void> {
+  const { error } = await supabase.from('ai_usage').insert({
+    user_id: context.userId,
+    project_id: context.projectId ?? null,
+    route: context.route,
+    model: usage.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cache_creation_input_tokens: usage.cacheCreationInputTokens ?? 0,
+    cache_read_input_tokens: usage.cacheReadInputTokens ?? 0,
+    cost_usd: estimateCost(usage),
+  });
+
+  if (error) {
+    console.error('AI usage record error:', error);
+  }
+}
+
+/**
+ * `onUsage` callback for the Claude client that records every call
+ */
+export function createUsageRecorder(
+  supabase: SupabaseClient,
+  context: UsageContext
+): (usage: TokenUsage) => Promise<void> {
+  return (usage) => recordUsage(supabase, context, usage);
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Start of the current quota period - the calendar month in UTC
+ */
+export function getUsagePeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/** Row returned by the `ai_usage_totals` database function */
+interface UsageTotalsRow {
+  project_id: string | null;
+  calls: number | string;
+  input_tokens: number | string;
+  output_tokens: number | string;
+  cost_usd: number | string;
+}
+
+function toUsageTotals(row: UsageTotalsRow): UsageTotals {
+  const inputTokens = Number(row.input_tokens);
+  const outputTokens = Number(row.output_tokens);
+  return {
+    calls: Number(row.calls),
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    costUsd: Math.round(Number(row.cost_usd) * 100) / 100,
+  };
+}
+
+/**
+ * Add up usage totals, e.g. the per-project totals of a user
+ */
+export function sumUsageTotals(totals: Iterable<UsageTotals>): UsageTotals {
+  const sum = Array.from(totals).reduce(
+    (total, entry) => ({
+      calls: total.calls + entry.calls,
+      inputTokens: total.inputTokens + entry.inputTokens,
+      outputTokens: total.outputTokens + entry.outputTokens,
+      totalTokens: total.totalTokens + entry.totalTokens,
+      costUsd: total.costUsd + entry.costUsd,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 }
+  );
+  return { ...sum, costUsd: Math.round(sum.costUsd * 100) / 100 };
+}
+
+/**
+ * A user's usage in the current period per project, summed in the
+ * database; calls without a project are keyed by ''. Throws when the
+ * usage cannot be read.
+ */
+export async function getPeriodUsageTotals(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<Map<string, UsageTotals>> {
+  const { data, error } = await supabase.rpc('ai_usage_totals', {
+    p_user_id: userId,
+    p_since: getUsagePeriod(now).start.toISOString(),
+  });
+
+  if (error) throw error;
+  return new Map(((data ?? []) as UsageTotalsRow[]).map((row) => [row.project_id ?? '', toUsageTotals(row)]));
+}
+
+// ============================================================================
+// QUOTAS
+// ============================================================================
+
+function parseQuota(value: string | undefined): number | null {
+  const limit = parseInt(value || '', 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+/** Default monthly token quotas; unset or 0 means unlimited */
+const DEFAULT_USER_QUOTA = parseQuota(process.env.AI_MONTHLY_USER_TOKEN_QUOTA);
+const DEFAULT_PROJECT_QUOTA = parseQuota(process.env.AI_MONTHLY_PROJECT_TOKEN_QUOTA);
+
+/**
+ * Monthly token limits for a user and project - rows in `ai_quotas`
+ * override the environment defaults. Throws when the quotas cannot be read.
+ */
+export async function getQuotaLimits(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId?: string
+): Promise<{ user: number | null; project: number | null }> {
+  const { data, error } = await supabase
+    .from('ai_quotas')
+    .select('project_id, monthly_token_limit')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const rows = (data ?? []) as Array<{ project_id: string | null; monthly_token_limit: number | null }>;
+  const userRow = rows.find((row) => row.project_id === null);
+  const projectRow = projectId ? rows.find((row) => row.project_id === projectId) : undefined;
+
+  return {
+    user: userRow ? userRow.monthly_token_limit : DEFAULT_USER_QUOTA,
+    project: projectRow ? projectRow.monthly_token_limit : DEFAULT_PROJECT_QUOTA,
+  };
+}
+
+/**
+ * Check the user's and project's monthly quotas before making a call.
+ * Throws when the quotas or usage cannot be read, so the call is refused
+ * rather than made unmetered.
+ */
+export async function checkQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId?: string
+): Promise<QuotaStatus> {
+  const now = new Date();
+  const resetsAt = getUsagePeriod(now).end.toISOString();
+  const limits = await getQuotaLimits(supabase, userId, projectId);
+
+  if (limits.user === null && (limits.project === null || !projectId)) {
+    return { allowed: true, used: 0, limit: null, resetsAt };
+  }
+
+  const usage = await getPeriodUsageTotals(supabase, userId, now);
+  const userUsed = sumUsageTotals(usage.values()).totalTokens;
+
+  if (limits.user !== null && userUsed >= limits.user) {
+    return { allowed: false, scope: 'user', used: userUsed, limit: limits.user, resetsAt };
+  }
+
+  if (projectId && limits.project !== null) {
+    const projectUsed = usage.get(projectId)?.totalTokens ?? 0;
+    if (projectUsed >= limits.project) {
+      return { allowed: false, scope: 'project', used: projectUsed, limit: limits.project, resetsAt };
+    }
+    return { allowed: true, scope: 'project', used: projectUsed, limit: limits.project, resetsAt };
+  }
+
+  return { allowed: true, scope: 'user', used: userUsed, limit: limits.user, resetsAt };
+}
+
+/**
+ * User-facing message for an exceeded quota
+ */
+export function getQuotaExceededMessage(status: QuotaStatus): string {
+  const owner = status.scope === 'project' ? 'This project' : 'Your account';
+  const resets = new Date(status.resetsAt).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  return `${owner} has used its monthly AI quota of ${status.limit?.toLocaleString('en-US')} tokens. The quota resets on ${resets}.`;
+}
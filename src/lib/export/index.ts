@@ -0,0 +1,14 @@
+/**
+ * Export Module
+ *
+ * Static site export for builder projects.
+ */
+
+// ZIP writer
+export * from './zip';
+
+// Static site files
+export * from './static-site';
+
+// Compiled Tailwind stylesheet
+export * from './tailwind';
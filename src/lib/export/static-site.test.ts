@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createSiteFromPages, findPage, upsertPage, type SiteModel } from '@/lib/builder';
+import { EXPORT_STYLESHEET_PATH, exportStaticSite } from './static-site';
+
+function buildSite(): SiteModel {
+  let site = createSiteFromPages('Bright Smile Dental', [
+    { path: '/', name: 'Home' },
+    { path: '/pricing', name: 'Pricing' },
+  ]);
+  site = { ...site, layout: { ...site.layout, head: '<style>.brand { color: teal; }</style>' } };
+  site = upsertPage(site, {
+    ...findPage(site, '/')!,
+    html: '<style>h1 { color: red; }</style><h1>Welcome</h1>',
+  });
+  return upsertPage(site, {
+    ...findPage(site, '/pricing')!,
+    description: "Cleanings from $50 - that's $$ saved, see $& and $'",
+    html: "<h1>Pricing</h1><p>Cleanings from $50 - that's $$ saved, see $& and $'</p>",
+  });
+}
+
+function fileContent(result: ReturnType<typeof exportStaticSite>, path: string): string {
+  const file = result.files.find((entry) => entry.path === path);
+  return typeof file?.content === 'string' ? file.content : '';
+}
+
+describe('exportStaticSite', () => {
+  const result = exportStaticSite(buildSite(), { baseUrl: 'https://brightsmile.example.com' });
+
+  it('shares only the style blocks every page has', () => {
+    expect(fileContent(result, EXPORT_STYLESHEET_PATH)).toBe('.brand { color: teal; }\n');
+
+    const home = fileContent(result, 'index.html');
+    expect(home).toContain('<style>h1 { color: red; }</style>');
+    expect(home).not.toContain('.brand { color: teal; }');
+    expect(home).toContain(`<link rel="stylesheet" href="/${EXPORT_STYLESHEET_PATH}">`);
+
+    expect(fileContent(result, 'pricing/index.html')).not.toContain('color: red');
+  });
+
+  it('keeps dollar signs in page content as written', () => {
+    const pricing = fileContent(result, 'pricing/index.html');
+
+    expect(pricing).toContain(`content="Cleanings from $50 - that's $$ saved, see $&amp; and $'"`);
+    expect(pricing).toContain("<p>Cleanings from $50 - that's $$ saved, see $& and $'</p>");
+    expect(pricing.match(/<\/head>/g)).toHaveLength(1);
+  });
+});
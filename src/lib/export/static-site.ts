@@ -0,0 +1,316 @@
+/**
+ * Static Site Export
+ *
+ * Turns a builder site model into deployable static files: one HTML
+ * document per page, the compiled Tailwind stylesheet, a shared stylesheet
+ * of the inline <style> blocks every page has in common, inline images
+ * written out as asset files, JSON-LD structured data, sitemap.xml,
+ * robots.txt and the IndexNow key file.
+ */
+
+import { isDynamicPath, renderPage } from '@/lib/builder';
+import type { SiteModel } from '@/lib/builder';
+import {
+  createSchemaScriptTag,
+  generateBreadcrumbSchemaFromPath,
+  generateOrganizationSchema,
+  generateWebsiteSchema,
+} from '@/lib/seo/schema/generators';
+import type { BusinessProfile } from '@/lib/seo/schema/types';
+import { generateKeyFile } from '@/lib/seo/ai-search/indexnow';
+import { getImageOptimizationProps } from '@/lib/seo/performance/image-optimizer';
+import { stripTailwindRuntime } from './tailwind';
+import { crc32, type ZipEntry } from './zip';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface StaticExportOptions {
+  /** Public origin of the deployed site, e.g. 'https://example.com' */
+  baseUrl: string;
+  /** Business details used for Organization and WebSite JSON-LD */
+  business?: BusinessProfile;
+  /** IndexNow key; the key file is written to /{key}.txt */
+  indexNowKey?: string;
+  /** Compiled Tailwind CSS that replaces the CDN runtime */
+  tailwindCss?: string;
+  exportedAt?: Date;
+}
+
+export interface StaticExportResult {
+  files: ZipEntry[];
+  /** Exported page paths and the file each was written to */
+  pages: Array<{ path: string; file: string }>;
+  /** Dynamic pages (e.g. /treatments/[service]) that cannot be exported statically */
+  skipped: string[];
+}
+
+export const EXPORT_STYLESHEET_PATH = 'assets/css/styles.css';
+
+export const EXPORT_TAILWIND_PATH = 'assets/css/tailwind.css';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Route path to the file it is written to ('/about' -> 'about/index.html')
+ */
+export function pageFilePath(path: string): string {
+  return path === '/' ? 'index.html' : `${path.replace(/^\/+/, '')}/index.html`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function pageUrl(baseUrl: string, path: string): string {
+  return path === '/' ? `${baseUrl}/` : `${baseUrl}${path}`;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const STYLE_BLOCK_PATTERN = /<style\b[^>]*>([\s\S]*?)<\/style>\s*/gi;
+
+/**
+ * Contents of a page's <style> blocks
+ */
+function styleBlocks(html: string): string[] {
+  return Array.from(html.matchAll(STYLE_BLOCK_PATTERN), (match) => match[1].trim()).filter(Boolean);
+}
+
+/**
+ * Remove the <style> blocks that moved to the shared stylesheet; the
+ * page's own blocks stay where they are
+ */
+function removeStyles(html: string, shared: Set<string>): string {
+  return html.replace(STYLE_BLOCK_PATTERN, (match, css: string) => (shared.has(css.trim()) ? '' : match));
+}
+
+/**
+ * Collects inline images shared across all exported pages
+ */
+function createAssetCollector() {
+  const images = new Map<string, ZipEntry>();
+
+  return {
+    images,
+
+    /** Write base64 data URI images out as asset files */
+    extractImages(html: string): string {
+      return html.replace(
+        /(<img\b[^>]*?\ssrc\s*=\s*["'])data:(image\/[\w+.-]+);base64,([^"']+)(["'])/gi,
+        (match, before: string, mime: string, data: string, quote: string) => {
+          const extension = IMAGE_EXTENSIONS[mime.toLowerCase()];
+          if (!extension) return match;
+          const bytes = decodeBase64(data);
+          const path = `assets/images/${crc32(bytes).toString(16).padStart(8, '0')}.${extension}`;
+          if (!images.has(path)) images.set(path, { path, content: bytes });
+          return `${before}/${path}${quote}`;
+        }
+      );
+    },
+  };
+}
+
+/**
+ * Add loading hints to images - the first image is treated as the LCP
+ * candidate and loads eagerly, everything after it loads lazily
+ */
+function optimizeImages(html: string): string {
+  let index = 0;
+  return html.replace(/<img\b([^>]*?)(\/?)>/gi, (match, attrs: string, slash: string) => {
+    const props = getImageOptimizationProps(index++ === 0);
+    let extra = '';
+    if (!/\sloading\s*=/i.test(attrs)) extra += ` loading="${props.loading}"`;
+    if (!/\sdecoding\s*=/i.test(attrs)) extra += ` decoding="${props.decoding}"`;
+    if (props.fetchpriority === 'high' && !/\sfetchpriority\s*=/i.test(attrs)) {
+      extra += ' fetchpriority="high"';
+    }
+    return extra ? `<img${attrs}${extra}${slash}>` : match;
+  });
+}
+
+/**
+ * JSON-LD for a page: WebSite and Organization on the home page,
+ * breadcrumbs everywhere else
+ */
+function buildStructuredData(
+  site: SiteModel,
+  path: string,
+  options: StaticExportOptions
+): object[] {
+  if (path !== '/') {
+    const labels = Object.fromEntries(
+      site.pages.map((page) => [page.path.split('/').pop() || '', page.name])
+    );
+    return [generateBreadcrumbSchemaFromPath(options.baseUrl, path, labels)];
+  }
+
+  if (!options.business) return [];
+  return [generateWebsiteSchema(options.business), generateOrganizationSchema(options.business)];
+}
+
+// ============================================================================
+// SITEMAP & ROBOTS
+// ============================================================================
+
+/**
+ * Generate sitemap.xml for the exported pages
+ */
+export function generateSitemap(baseUrl: string, paths: string[], lastModified: Date): string {
+  const lastmod = lastModified.toISOString().split('T')[0];
+  const urls = paths
+    .map(
+      (path) => `  <url>
+    <loc>${escapeXml(pageUrl(baseUrl, path))}</loc>
+    <lastmod>${lastmod}</lastmod>
+    <priority>${path === '/' ? '1.0' : '0.8'}</priority>
+  </url>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`;
+}
+
+/**
+ * Generate robots.txt pointing crawlers at the sitemap
+ */
+export function generateRobotsTxt(baseUrl: string): string {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${baseUrl}/sitemap.xml
+`;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Export a site model as static files
+ */
+export function exportStaticSite(source: SiteModel, options: StaticExportOptions): StaticExportResult {
+  // Published pages link the compiled stylesheet instead of the CDN runtime
+  const site = options.tailwindCss
+    ? { ...source, layout: { ...source.layout, head: stripTailwindRuntime(source.layout.head) } }
+    : source;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const exportedAt = options.exportedAt ?? new Date();
+  const assets = createAssetCollector();
+  const result: StaticExportResult = { files: [], pages: [], skipped: [] };
+  const rendered: Array<{ path: string; file: string; html: string; styles: string[] }> = [];
+
+  for (const page of site.pages) {
+    if (isDynamicPath(page.path)) {
+      result.skipped.push(page.path);
+      continue;
+    }
+
+    let html = renderPage(site, page.path);
+    html = optimizeImages(assets.extractImages(html));
+
+    const head = [
+      page.description
+        ? `<meta name="description" content="${escapeAttribute(page.description)}">`
+        : '',
+      `<link rel="canonical" href="${escapeAttribute(pageUrl(baseUrl, page.path))}">`,
+      ...buildStructuredData(site, page.path, { ...options, baseUrl }).map(createSchemaScriptTag),
+    ].filter(Boolean);
+
+    rendered.push({
+      path: page.path,
+      file: pageFilePath(page.path),
+      // A replacer function, so `$&` or `$'` in page content is not expanded
+      html: html.replace('</head>', () => `  ${head.join('\n  ')}\n</head>`),
+      styles: styleBlocks(html),
+    });
+  }
+
+  // Style blocks every page has (the layout's) are shared; the rest stay on their page
+  const sharedStyles = Array.from(new Set(rendered[0]?.styles ?? [])).filter((block) =>
+    rendered.every((page) => page.styles.includes(block))
+  );
+  const shared = new Set(sharedStyles);
+
+  const stylesheets = [
+    options.tailwindCss ? EXPORT_TAILWIND_PATH : '',
+    sharedStyles.length ? EXPORT_STYLESHEET_PATH : '',
+  ]
+    .filter(Boolean)
+    .map((path) => `  <link rel="stylesheet" href="/${path}">\n`)
+    .join('');
+
+  for (const page of rendered) {
+    result.files.push({
+      path: page.file,
+      content: removeStyles(page.html, shared).replace('</head>', () => `${stylesheets}</head>`),
+      modifiedAt: exportedAt,
+    });
+    result.pages.push({ path: page.path, file: page.file });
+  }
+
+  if (options.tailwindCss) {
+    result.files.push({ path: EXPORT_TAILWIND_PATH, content: options.tailwindCss, modifiedAt: exportedAt });
+  }
+
+  if (sharedStyles.length) {
+    result.files.push({
+      path: EXPORT_STYLESHEET_PATH,
+      content: `${sharedStyles.join('\n\n')}\n`,
+      modifiedAt: exportedAt,
+    });
+  }
+
+  for (const image of Array.from(assets.images.values())) {
+    result.files.push({ ...image, modifiedAt: exportedAt });
+  }
+
+  result.files.push(
+    {
+      path: 'sitemap.xml',
+      content: generateSitemap(baseUrl, result.pages.map((page) => page.path), exportedAt),
+      modifiedAt: exportedAt,
+    },
+    { path: 'robots.txt', content: generateRobotsTxt(baseUrl), modifiedAt: exportedAt }
+  );
+
+  if (options.indexNowKey) {
+    result.files.push({
+      path: `${options.indexNowKey}.txt`,
+      content: generateKeyFile(options.indexNowKey),
+      modifiedAt: exportedAt,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,176 @@
+/**
+ * Tailwind Stylesheet Compiler
+ *
+ * Builder previews use the Tailwind CDN runtime, which compiles styles in
+ * the browser and blocks rendering - fine while editing, but it costs
+ * published pages their LCP and FCP budgets. This module scans the site's
+ * markup for class names and compiles a purged static stylesheet with
+ * Tailwind so published pages can link plain CSS instead.
+ *
+ * Server only - Tailwind runs on Node.
+ */
+
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+import type { Config } from 'tailwindcss';
+import { renderPage, TAILWIND_CDN_SCRIPT } from '@/lib/builder';
+import type { SiteModel } from '@/lib/builder';
+import { getStylesheetRating, type PerformanceRating } from '@/lib/seo/performance/thresholds';
+import { crc32 } from './zip';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Compiled stylesheet, cached in `projects.settings.stylesheet`
+ */
+export interface CompiledStylesheet {
+  css: string;
+  /** Hash of the scanned class names - recompile when it changes */
+  hash: string;
+  classCount: number;
+  bytes: number;
+  rating: PerformanceRating;
+  compiledAt: string;
+  /** Set when the site's inline tailwind.config could not be read */
+  configWarning?: string;
+}
+
+/** Inline `tailwind.config = {...}` script used with the CDN runtime */
+const INLINE_CONFIG_REGEX = /<script\b[^>]*>\s*tailwind\.config\s*=\s*(\{[\s\S]*?\})\s*;?\s*<\/script>/i;
+
+const TAILWIND_INPUT = '@tailwind base;\n@tailwind components;\n@tailwind utilities;';
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Collect every class name used in class attributes across the markup
+ */
+export function extractClassNames(markup: string[]): string[] {
+  const classes = new Set<string>();
+  const classRegex = /\sclass\s*=\s*("([^"]*)"|'([^']*)')/gi;
+
+  for (const html of markup) {
+    let match;
+    while ((match = classRegex.exec(html)) !== null) {
+      for (const name of (match[2] ?? match[3]).split(/\s+/)) {
+        if (name) classes.add(name);
+      }
+    }
+  }
+
+  return Array.from(classes).sort();
+}
+
+/**
+ * Read the theme from an inline CDN config. The object literal is
+ * converted to JSON rather than evaluated - the markup is AI-generated.
+ */
+export function parseInlineTailwindConfig(head: string): {
+  config?: Partial<Config>;
+  warning?: string;
+} {
+  const match = head.match(INLINE_CONFIG_REGEX);
+  if (!match) return {};
+
+  const json = match[1]
+    .replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, '') // comments
+    .replace(/'([^'\\]*(?:\\.[^'\\]*)*)'/g, (_m, value: string) => JSON.stringify(value)) // single quotes
+    .replace(/([{,]\s*)([A-Za-z_$][\w$-]*)\s*:/g, '$1"$2":') // bare keys
+    .replace(/,\s*([}\]])/g, '$1'); // trailing commas
+
+  try {
+    const parsed = JSON.parse(json) as Partial<Config>;
+    return { config: { theme: parsed.theme, darkMode: parsed.darkMode } };
+  } catch {
+    return { warning: 'The inline tailwind.config could not be read; the default theme was used' };
+  }
+}
+
+/**
+ * Remove the CDN runtime and its inline config from head markup
+ */
+export function stripTailwindRuntime(head: string): string {
+  return head
+    .replace(TAILWIND_CDN_SCRIPT, '')
+    .replace(/<script\b[^>]*src=["']https:\/\/cdn\.tailwindcss\.com[^"']*["'][^>]*>\s*<\/script>/gi, '')
+    .replace(INLINE_CONFIG_REGEX, '')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+/**
+ * Whether head markup loads the Tailwind CDN runtime
+ */
+export function usesTailwindRuntime(head: string): boolean {
+  return /cdn\.tailwindcss\.com/i.test(head);
+}
+
+// ============================================================================
+// COMPILING
+// ============================================================================
+
+/**
+ * Collapse whitespace and comments in compiled CSS
+ */
+function minifyCss(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([{};,>])\s*/g, '$1')
+    .replace(/:\s+/g, ':')
+    .replace(/;}/g, '}')
+    .trim();
+}
+
+/**
+ * Hash of the inputs a stylesheet depends on
+ */
+export function stylesheetHash(site: SiteModel): string {
+  const classes = extractClassNames(site.pages.map((page) => renderPage(site, page.path)));
+  const config = site.layout.head.match(INLINE_CONFIG_REGEX)?.[1] ?? '';
+  return crc32(new TextEncoder().encode(`${classes.join(' ')}|${config}`)).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compile a purged Tailwind stylesheet for every page of the site
+ */
+export async function compileSiteStylesheet(site: SiteModel): Promise<CompiledStylesheet> {
+  const classes = extractClassNames(site.pages.map((page) => renderPage(site, page.path)));
+  const { config, warning } = parseInlineTailwindConfig(site.layout.head);
+
+  const result = await postcss([
+    tailwindcss({
+      ...config,
+      content: [{ raw: classes.join(' '), extension: 'html' }],
+    }),
+  ]).process(TAILWIND_INPUT, { from: undefined });
+
+  const css = minifyCss(result.css);
+  const bytes = new TextEncoder().encode(css).length;
+
+  return {
+    css,
+    hash: stylesheetHash(site),
+    classCount: classes.length,
+    bytes,
+    rating: getStylesheetRating(bytes),
+    compiledAt: new Date().toISOString(),
+    configWarning: warning,
+  };
+}
+
+/**
+ * Reuse a cached stylesheet while the site's classes are unchanged,
+ * otherwise compile a new one
+ */
+export async function ensureSiteStylesheet(
+  site: SiteModel,
+  cached?: CompiledStylesheet | null
+): Promise<CompiledStylesheet> {
+  if (cached?.css && cached.hash === stylesheetHash(site)) return cached;
+  return compileSiteStylesheet(site);
+}
@@ -0,0 +1,146 @@
+/**
+ * ZIP Archive Writer
+ *
+ * Minimal ZIP (PKWARE APPNOTE 6.3) writer for static site exports.
+ * Files are deflated when a compressor is supplied and the result is
+ * smaller, otherwise stored. No ZIP64 support - exports stay far below
+ * the 4 GB limit.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  path: string;
+  content: string | Uint8Array;
+  modifiedAt?: Date;
+}
+
+/** Raw DEFLATE compressor, e.g. `zlib.deflateRawSync` */
+export type DeflateRaw = (data: Uint8Array) => Uint8Array;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+/** General purpose flag bit 11: file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+// ============================================================================
+// CRC32
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * MS-DOS date and time fields used by ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from a list of entries
+ */
+export function createZip(entries: ZipEntry[], deflateRaw?: DeflateRaw): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path.replace(/^\/+/, ''));
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    let method = METHOD_STORE;
+    let payload = data;
+    if (deflateRaw && data.length > 0) {
+      const deflated = deflateRaw(data);
+      if (deflated.length < data.length) {
+        method = METHOD_DEFLATE;
+        payload = deflated;
+      }
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // local file header signature
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, payload.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // central directory header signature
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, payload.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true); // local header offset
+    central.set(name, 46);
+
+    localParts.push(local, payload);
+    centralParts.push(central);
+    offset += local.length + payload.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // end of central directory signature
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
@@ -0,0 +1,473 @@
+/**
+ * Healthcare API Helpers
+ *
+ * Shared plumbing for the `/api/healthcare/*` CRUD routes: the response
+ * envelope, project ownership checks, practice lookup and the
+ * list/create/read/update/delete operations for tables scoped by
+ * `practice_id`. Every query runs through the request's Supabase client
+ * so row level security applies as well.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { generateSlug } from '@/lib/prompts/healthcare';
+import type { APIErrorResponse, APISuccessResponse } from '@/types/healthcare';
+import { fromRow, toRow, type DatabaseRow, type FieldMap } from './mappers';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Authenticated request
+ */
+export interface HealthcareUserContext {
+  supabase: SupabaseClient;
+  user: User;
+}
+
+/**
+ * Authenticated request for a project the user owns
+ */
+export interface HealthcareRequestContext extends HealthcareUserContext {
+  projectId: string;
+}
+
+/**
+ * A table whose rows belong to a practice
+ */
+export interface PracticeResource<T> {
+  table: string;
+  fields: FieldMap<T>;
+  /** Singular name used in error messages, e.g. 'Location' */
+  label: string;
+  /** Properties required when creating a row */
+  required: Array<keyof T & string>;
+  /** Property the slug is generated from when none is given */
+  slugFrom?: keyof T & string;
+  /** Columns to sort lists by, in order */
+  orderBy: Array<{ column: string; ascending?: boolean }>;
+  /** Properties request bodies may not write, e.g. ones set by a workflow */
+  readOnly?: ReadonlyArray<keyof T & string>;
+  /** Reject a create or update body; null when it is acceptable */
+  validate?: (body: Partial<T>) => NextResponse<APIErrorResponse> | null;
+  /**
+   * Rewrite the columns of a create or update before they are written;
+   * `current` is the stored item on update, null on create
+   */
+  prepareRow?: (row: DatabaseRow, current: T | null) => DatabaseRow;
+}
+
+type AuthorizeResult<T = HealthcareRequestContext> =
+  | { context: T; response?: undefined }
+  | { context?: undefined; response: NextResponse<APIErrorResponse> };
+
+interface PostgrestErrorLike {
+  code?: string;
+  message?: string;
+  details?: string;
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+export function apiSuccess<T>(data: T, status = 200): NextResponse<APISuccessResponse<T>> {
+  return NextResponse.json({ success: true as const, data }, { status });
+}
+
+export function apiError(
+  code: string,
+  message: string,
+  status: number,
+  details?: Record<string, unknown>
+): NextResponse<APIErrorResponse> {
+  return NextResponse.json(
+    { success: false as const, error: { code, message, ...(details && { details }) } },
+    { status }
+  );
+}
+
+/**
+ * Response for an error thrown while handling a request. Constraint
+ * violations are the caller's fault; anything else is a server error.
+ */
+export function handleApiError(error: unknown, action: string): NextResponse<APIErrorResponse> {
+  const dbError = error as PostgrestErrorLike | null;
+
+  if (dbError?.code === '23505') {
+    return apiError('DUPLICATE', 'A record with this slug already exists', 409, {
+      detail: dbError.details,
+    });
+  }
+  if (dbError?.code === '23503') {
+    return apiError('INVALID_REFERENCE', 'A referenced record does not exist', 400, {
+      detail: dbError.details,
+    });
+  }
+  if (dbError?.code === '23514') {
+    return apiError('CONSTRAINT_VIOLATION', dbError.message || 'The change is not allowed', 409);
+  }
+  if (dbError?.code === '23502' || dbError?.code === '22P02') {
+    return apiError('INVALID_INPUT', dbError.message || 'Invalid input', 400);
+  }
+
+  console.error(`Healthcare API error (${action}):`, error);
+
+  if (dbError?.code) {
+    return apiError('DATABASE_ERROR', `Failed to ${action}`, 500);
+  }
+  return apiError(
+    'INTERNAL_ERROR',
+    error instanceof Error ? error.message : `Failed to ${action}`,
+    500
+  );
+}
+
+// ============================================================================
+// REQUEST HANDLING
+// ============================================================================
+
+/**
+ * Authenticate the user, for routes about their account rather than one
+ * project
+ */
+export async function authorizeUser(): Promise<AuthorizeResult<HealthcareUserContext>> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: apiError('UNAUTHORIZED', 'Authentication required', 401) };
+  }
+
+  return { context: { supabase, user } };
+}
+
+/**
+ * Authenticate the user and check they own the `projectId` in the query
+ */
+export async function authorizeProject(request: NextRequest): Promise<AuthorizeResult> {
+  const projectId = request.nextUrl.searchParams.get('projectId');
+  if (!projectId) {
+    return { response: apiError('MISSING_PROJECT_ID', 'Project ID is required', 400) };
+  }
+
+  const { context, response } = await authorizeUser();
+  if (!context) return { response };
+  const { supabase, user } = context;
+
+  // Verify ownership
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (projectError || !project) {
+    return { response: apiError('PROJECT_NOT_FOUND', 'Project not found', 404) };
+  }
+
+  return { context: { supabase, user, projectId } };
+}
+
+/**
+ * Parse a JSON object request body; null when the body is not an object
+ */
+export async function readJsonBody<T>(request: NextRequest): Promise<Partial<T> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? (body as Partial<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function invalidBodyError(): NextResponse<APIErrorResponse> {
+  return apiError('INVALID_BODY', 'Request body must be a JSON object', 400);
+}
+
+/**
+ * Required properties that are missing or blank in a request body
+ */
+export function getMissingFields<T>(body: Partial<T>, required: Array<keyof T & string>): string[] {
+  return required.filter((field) => {
+    const value = body[field];
+    return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+  });
+}
+
+export function missingFieldsError(fields: string[]): NextResponse<APIErrorResponse> {
+  return apiError('MISSING_FIELDS', `Missing required fields: ${fields.join(', ')}`, 400, { fields });
+}
+
+// ============================================================================
+// PRACTICE
+// ============================================================================
+
+/**
+ * Id of the project's practice, or null when none has been set up
+ */
+export async function getPracticeId(supabase: SupabaseClient, projectId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('medical_practices')
+    .select('id')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+/**
+ * Ids of the project's practice locations - location service pages are
+ * scoped through their location rather than a practice_id column
+ */
+export async function getPracticeLocationIds(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<string[]> {
+  const practiceId = await getPracticeId(supabase, projectId);
+  if (!practiceId) return [];
+
+  const { data, error } = await supabase
+    .from('practice_locations')
+    .select('id')
+    .eq('practice_id', practiceId);
+
+  if (error) throw error;
+  return (data as Array<{ id: string }>).map((row) => row.id);
+}
+
+export function practiceNotFoundError(): NextResponse<APIErrorResponse> {
+  return apiError('PRACTICE_NOT_FOUND', 'Set up the practice for this project first', 404);
+}
+
+// ============================================================================
+// PRACTICE RESOURCES
+// ============================================================================
+
+/**
+ * Slug for a new row - the given slug, or one generated from `slugFrom`
+ */
+function withSlug<T>(resource: PracticeResource<T>, row: DatabaseRow, body: Partial<T>): DatabaseRow {
+  if (!resource.slugFrom || (typeof row.slug === 'string' && row.slug.trim())) return row;
+  const source = body[resource.slugFrom];
+  return typeof source === 'string' ? { ...row, slug: generateSlug(source) } : row;
+}
+
+/**
+ * Columns to write from a request body, without read-only properties
+ */
+function toWritableRow<T>(resource: PracticeResource<T>, body: Partial<T>): DatabaseRow {
+  const writable = { ...body };
+  for (const field of resource.readOnly ?? []) {
+    delete writable[field];
+  }
+  return toRow(writable, resource.fields);
+}
+
+/**
+ * All rows of the practice; empty when the project has no practice yet
+ */
+export async function listPracticeResource<T>(
+  resource: PracticeResource<T>,
+  { supabase, projectId }: HealthcareRequestContext
+): Promise<T[]> {
+  const practiceId = await getPracticeId(supabase, projectId);
+  if (!practiceId) return [];
+
+  let query = supabase.from(resource.table).select('*').eq('practice_id', practiceId);
+  for (const { column, ascending = true } of resource.orderBy) {
+    query = query.order(column, { ascending });
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as DatabaseRow[]).map((row) => fromRow(row, resource.fields));
+}
+
+/**
+ * One row of the practice, or null when it does not exist
+ */
+export async function getPracticeResource<T>(
+  resource: PracticeResource<T>,
+  { supabase, projectId }: HealthcareRequestContext,
+  id: string
+): Promise<T | null> {
+  const practiceId = await getPracticeId(supabase, projectId);
+  if (!practiceId) return null;
+
+  const { data, error } = await supabase
+    .from(resource.table)
+    .select('*')
+    .eq('id', id)
+    .eq('practice_id', practiceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow(data as DatabaseRow, resource.fields) : null;
+}
+
+/**
+ * GET handler body for a collection route
+ */
+export async function handleListRequest<T>(
+  request: NextRequest,
+  resource: PracticeResource<T>
+): Promise<NextResponse> {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    return apiSuccess(await listPracticeResource(resource, context));
+  } catch (error) {
+    return handleApiError(error, `list ${resource.label.toLowerCase()}s`);
+  }
+}
+
+/**
+ * POST handler body for a collection route
+ */
+export async function handleCreateRequest<T>(
+  request: NextRequest,
+  resource: PracticeResource<T>
+): Promise<NextResponse> {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<T>(request);
+    if (!body) return invalidBodyError();
+
+    const missing = getMissingFields(body, resource.required);
+    if (missing.length > 0) return missingFieldsError(missing);
+
+    const invalid = resource.validate?.(body);
+    if (invalid) return invalid;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return practiceNotFoundError();
+
+    let row = withSlug(resource, toWritableRow(resource, body), body);
+    if (resource.slugFrom && !row.slug) return missingFieldsError(['slug']);
+    if (resource.prepareRow) row = resource.prepareRow(row, null);
+
+    const { data, error } = await context.supabase
+      .from(resource.table)
+      .insert({ ...row, practice_id: practiceId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return apiSuccess(fromRow(data as DatabaseRow, resource.fields), 201);
+  } catch (error) {
+    return handleApiError(error, `create ${resource.label.toLowerCase()}`);
+  }
+}
+
+/**
+ * GET handler body for an item route
+ */
+export async function handleGetRequest<T>(
+  request: NextRequest,
+  resource: PracticeResource<T>,
+  id: string
+): Promise<NextResponse> {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const item = await getPracticeResource(resource, context, id);
+    if (!item) return apiError('NOT_FOUND', `${resource.label} not found`, 404);
+
+    return apiSuccess(item);
+  } catch (error) {
+    return handleApiError(error, `fetch ${resource.label.toLowerCase()}`);
+  }
+}
+
+/**
+ * PATCH handler body for an item route
+ */
+export async function handleUpdateRequest<T>(
+  request: NextRequest,
+  resource: PracticeResource<T>,
+  id: string
+): Promise<NextResponse> {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const body = await readJsonBody<T>(request);
+    if (!body) return invalidBodyError();
+
+    // Required fields may be omitted from an update, but not cleared
+    const cleared = getMissingFields(body, resource.required).filter((field) => field in body);
+    if (cleared.length > 0) return missingFieldsError(cleared);
+
+    const invalid = resource.validate?.(body);
+    if (invalid) return invalid;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return apiError('NOT_FOUND', `${resource.label} not found`, 404);
+
+    let row = toWritableRow(resource, body);
+    if (resource.prepareRow) {
+      const current = await getPracticeResource(resource, context, id);
+      if (!current) return apiError('NOT_FOUND', `${resource.label} not found`, 404);
+      row = resource.prepareRow(row, current);
+    }
+
+    const { data, error } = await context.supabase
+      .from(resource.table)
+      .update(row)
+      .eq('id', id)
+      .eq('practice_id', practiceId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return apiError('NOT_FOUND', `${resource.label} not found`, 404);
+
+    return apiSuccess(fromRow(data as DatabaseRow, resource.fields));
+  } catch (error) {
+    return handleApiError(error, `update ${resource.label.toLowerCase()}`);
+  }
+}
+
+/**
+ * DELETE handler body for an item route
+ */
+export async function handleDeleteRequest<T>(
+  request: NextRequest,
+  resource: PracticeResource<T>,
+  id: string
+): Promise<NextResponse> {
+  try {
+    const { context, response } = await authorizeProject(request);
+    if (response) return response;
+
+    const practiceId = await getPracticeId(context.supabase, context.projectId);
+    if (!practiceId) return apiError('NOT_FOUND', `${resource.label} not found`, 404);
+
+    const { data, error } = await context.supabase
+      .from(resource.table)
+      .delete()
+      .eq('id', id)
+      .eq('practice_id', practiceId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) return apiError('NOT_FOUND', `${resource.label} not found`, 404);
+
+    return apiSuccess({ id });
+  } catch (error) {
+    return handleApiError(error, `delete ${resource.label.toLowerCase()}`);
+  }
+}
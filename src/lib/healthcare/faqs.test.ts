@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProvider, setProvider, type LLMProvider } from '@/lib/claude/providers';
+import { dedupeFaqs, dedupeFaqsSemantic, lexicalSimilarity } from './faqs';
+
+const TOPIC = 'Dental Implants';
+
+describe('lexicalSimilarity', () => {
+  it('matches rewordings through the synonym table', () => {
+    expect(lexicalSimilarity('How much do dental implants cost?', 'What is the price of dental implants?', TOPIC)).toBe(1);
+    expect(
+      lexicalSimilarity('Does insurance cover dental implants?', 'Is the implant procedure covered by my insurance?', TOPIC)
+    ).toBe(1);
+  });
+
+  it('never matches questions about different key concepts', () => {
+    expect(lexicalSimilarity('How much do dental implants cost?', 'Are dental implants safe?', TOPIC)).toBe(0);
+    expect(lexicalSimilarity('How long does the procedure take?', 'How long is recovery?', TOPIC)).toBe(0);
+  });
+});
+
+describe('dedupeFaqs', () => {
+  const answer = 'See our team for details.';
+
+  it('drops candidates worded like an existing question or an earlier candidate', () => {
+    const result = dedupeFaqs(
+      [
+        { question: 'What is the price of dental implants?', answer },
+        { question: 'Are dental implants safe?', answer },
+        { question: 'Are there risks with dental implants?', answer },
+      ],
+      ['How much do dental implants cost?'],
+      { topic: TOPIC }
+    );
+
+    expect(result.unique.map((faq) => faq.question)).toEqual(['Are dental implants safe?']);
+    expect(result.duplicates).toEqual([
+      expect.objectContaining({ matches: 'How much do dental implants cost?', similarity: 1 }),
+      expect.objectContaining({ matches: 'Are dental implants safe?', similarity: 1 }),
+    ]);
+  });
+});
+
+describe('dedupeFaqsSemantic', () => {
+  const answer = 'See our team for details.';
+  const existing = [
+    'Does insurance cover dental implants?',
+    'Am I a good candidate for dental implants?',
+    'Are dental implants painful?',
+    'How much do dental implants cost?',
+  ];
+  const faqs = (questions: string[]) => questions.map((question) => ({ question, answer }));
+
+  /** Provider answering every completion with `text`, recording the prompts */
+  function answering(text: string | Error) {
+    const prompts: string[] = [];
+    const provider: LLMProvider = {
+      name: 'test',
+      async complete(request) {
+        prompts.push(request.messages[0].content);
+        if (text instanceof Error) throw text;
+        return { text, model: request.model, stopReason: 'end_turn', usage: { model: request.model, inputTokens: 1, outputTokens: 1 } };
+      },
+      stream() {
+        throw new Error('Not used');
+      },
+    };
+    setProvider(provider);
+    return { prompts };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('catches paraphrases of existing and earlier questions', async () => {
+    setProvider(createProvider('fixture', 'fixtures/llm'));
+
+    const result = await dedupeFaqsSemantic(
+      faqs([
+        'Will my plan pay the bill?',
+        'Who should get dental implants?',
+        'Is the surgery going to hurt?',
+        'What is the price of dental implants?',
+        'Can I get implants if I smoke?',
+        'How long do dental implants last?',
+        'Will my new teeth stay in for decades?',
+      ]),
+      existing,
+      { topic: TOPIC }
+    );
+
+    expect(result.unique.map((faq) => faq.question)).toEqual([
+      'Can I get implants if I smoke?',
+      'How long do dental implants last?',
+    ]);
+    expect(result.duplicates.map(({ faq, matches, method }) => [faq.question, matches, method])).toEqual([
+      ['What is the price of dental implants?', 'How much do dental implants cost?', 'lexical'],
+      ['Will my plan pay the bill?', 'Does insurance cover dental implants?', 'semantic'],
+      ['Who should get dental implants?', 'Am I a good candidate for dental implants?', 'semantic'],
+      ['Is the surgery going to hurt?', 'Are dental implants painful?', 'semantic'],
+      ['Will my new teeth stay in for decades?', 'How long do dental implants last?', 'semantic'],
+    ]);
+  });
+
+  it('only asks the model about questions the lexical pass kept', async () => {
+    const { prompts } = answering('{"duplicates": []}');
+
+    const result = await dedupeFaqsSemantic(
+      faqs(['What is the price of dental implants?', 'Can I get implants if I smoke?']),
+      existing,
+      { topic: TOPIC }
+    );
+
+    expect(result.unique.map((faq) => faq.question)).toEqual(['Can I get implants if I smoke?']);
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('C1. Can I get implants if I smoke?');
+    expect(prompts[0]).not.toContain('What is the price');
+  });
+
+  it('ignores matches to unknown or later questions', async () => {
+    answering(
+      '{"duplicates": [{"question": "C1", "duplicateOf": "C2"}, {"question": "C2", "duplicateOf": "E9"}, {"question": "C7", "duplicateOf": "E1"}]}'
+    );
+
+    const result = await dedupeFaqsSemantic(faqs(['Can I get implants if I smoke?', 'How long do dental implants last?']), existing, {
+      topic: TOPIC,
+    });
+
+    expect(result.unique).toHaveLength(2);
+    expect(result.duplicates).toEqual([]);
+  });
+
+  it('does not call the model when there is nothing to compare', async () => {
+    const { prompts } = answering('{"duplicates": []}');
+
+    await dedupeFaqsSemantic(faqs(['Can I get implants if I smoke?']), [], { topic: TOPIC });
+    await dedupeFaqsSemantic(faqs(['What is the price of dental implants?']), existing, { topic: TOPIC });
+
+    expect(prompts).toEqual([]);
+  });
+
+  it('keeps the lexical result when the model call fails', async () => {
+    answering(Object.assign(new Error('Bad request'), { status: 400 }));
+
+    const result = await dedupeFaqsSemantic(
+      faqs(['What is the price of dental implants?', 'Will my plan pay the bill?']),
+      existing,
+      { topic: TOPIC }
+    );
+
+    expect(result.unique.map((faq) => faq.question)).toEqual(['Will my plan pay the bill?']);
+    expect(result.duplicates).toEqual([expect.objectContaining({ method: 'lexical' })]);
+  });
+});
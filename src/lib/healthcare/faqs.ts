@@ -0,0 +1,251 @@
+/**
+ * FAQ Deduplication
+ *
+ * Decides whether a generated question asks the same thing as one a page
+ * already answers. Questions are reduced to the concepts they ask about -
+ * stemmed words with synonyms folded together ("price", "cost",
+ * "expensive" -> cost) and the page topic removed, since every question
+ * on a page mentions it - and compared by overlap.
+ *
+ * The lexical pass only knows the words and synonyms listed below, so
+ * paraphrases that share none of them ("Will my plan pay the bill?" /
+ * "Does insurance cover implants?") score 0. `dedupeFaqsSemantic` runs it
+ * as a cheap pre-filter and asks the model about the questions it keeps.
+ */
+
+import { getCompletion, type ChatOptions } from '@/lib/claude/client';
+import { generateFaqDuplicatePrompt, parseFaqDuplicateResponse } from '@/lib/prompts/healthcare';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface FAQPair {
+  question: string;
+  answer: string;
+}
+
+export interface DuplicateFAQ<T extends FAQPair = FAQPair> {
+  faq: T;
+  /** Question it duplicates */
+  matches: string;
+  /** Lexical similarity; paraphrases found by the model can score low */
+  similarity: number;
+  /** Whether the lexical pass or the model found it */
+  method: 'lexical' | 'semantic';
+}
+
+export interface DedupeResult<T extends FAQPair = FAQPair> {
+  unique: T[];
+  duplicates: DuplicateFAQ<T>[];
+}
+
+export interface DedupeOptions {
+  /** Page topic, left out when comparing questions */
+  topic?: string;
+  threshold?: number;
+}
+
+export interface SemanticDedupeOptions extends DedupeOptions {
+  /** Records the token usage of the duplicate check */
+  onUsage?: ChatOptions['onUsage'];
+}
+
+/** Questions at least this similar are considered the same */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'before', 'by',
+  'can', 'could', 'do', 'does', 'during', 'for', 'from', 'get', 'good', 'have', 'how', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'me', 'much', 'my', 'need', 'of', 'on', 'or',
+  'our', 'should', 'so', 'that', 'the', 'there', 'this', 'to', 'typically', 'until', 'usually',
+  'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your',
+]);
+
+const INTERROGATIVES = new Set(['what', 'how', 'why', 'when', 'where', 'who', 'which', 'is', 'are', 'can', 'do', 'does', 'will', 'should']);
+
+/** Multi-word phrases folded before tokenizing */
+const PHRASES: Array<[RegExp, string]> = [
+  [/\bside[\s-]effects?\b/g, 'safety'],
+  [/\bhow long\b/g, 'long'],
+  [/\bright for me\b/g, 'candidate'],
+  [/\bpay for\b/g, 'cost'],
+];
+
+/** Stemmed word -> concept */
+const CONCEPTS: Record<string, string> = {
+  cost: 'cost', price: 'cost', pric: 'cost', expensive: 'cost', afford: 'cost', affordable: 'cost', fee: 'cost', charge: 'cost',
+  insurance: 'insurance', insur: 'insurance', covered: 'insurance', cover: 'insurance', coverage: 'insurance', medicare: 'insurance', medicaid: 'insurance',
+  safe: 'safety', safety: 'safety', risk: 'safety', risky: 'safety', dangerous: 'safety', complication: 'safety',
+  candidate: 'candidate', eligible: 'candidate', eligibility: 'candidate', qualify: 'candidate', qualifi: 'candidate',
+  pain: 'pain', painful: 'pain', hurt: 'pain', discomfort: 'pain',
+  result: 'result', outcome: 'result', effective: 'result', effectiveness: 'result',
+  recovery: 'recovery', recover: 'recovery', downtime: 'recovery', heal: 'recovery',
+  appointment: 'appointment', consultation: 'appointment', visit: 'appointment', book: 'appointment', schedule: 'appointment',
+};
+
+/** Words that stand for the page topic itself ("the treatment") */
+const GENERIC = new Set(['treatment', 'treat', 'therapy', 'procedure', 'service', 'condition']);
+
+const KEY_CONCEPTS = new Set(Object.values(CONCEPTS));
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function words(text: string): string[] {
+  let normalized = text.toLowerCase().replace(/[’']/g, '');
+  for (const [pattern, replacement] of PHRASES) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function concept(word: string): string {
+  const stemmed = stem(word);
+  return CONCEPTS[word] ?? CONCEPTS[stemmed] ?? stemmed;
+}
+
+/**
+ * Concepts a question asks about. Words of the page topic are dropped;
+ * when nothing else is left the question word stands in ("What is X?").
+ */
+export function questionConcepts(question: string, topic = ''): Set<string> {
+  const topicConcepts = new Set(words(topic).map(concept));
+  const all = words(question);
+  const concepts = new Set(
+    all
+      .filter((word) => !STOPWORDS.has(word) && !GENERIC.has(stem(word)))
+      .map(concept)
+      .filter((value) => !topicConcepts.has(value))
+  );
+
+  if (concepts.size === 0) {
+    const lead = all.find((word) => INTERROGATIVES.has(word));
+    if (lead) concepts.add(`?${lead}`);
+  }
+  return concepts;
+}
+
+// ============================================================================
+// SIMILARITY
+// ============================================================================
+
+function round(similarity: number): number {
+  return Math.round(similarity * 100) / 100;
+}
+
+function countShared(left: Set<string>, right: Set<string>, filter: (value: string) => boolean = () => true): number {
+  let shared = 0;
+  left.forEach((value) => {
+    if (filter(value) && right.has(value)) shared++;
+  });
+  return shared;
+}
+
+/**
+ * Lexical similarity of two questions from 0 to 1 (Dice coefficient of
+ * their concepts). Questions must share their key concepts - one about
+ * cost never matches one about safety or recovery, however much other
+ * wording they share.
+ */
+export function lexicalSimilarity(a: string, b: string, topic = ''): number {
+  const left = questionConcepts(a, topic);
+  const right = questionConcepts(b, topic);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  const isKey = (value: string) => KEY_CONCEPTS.has(value);
+  const hasKeys = Array.from(left).some(isKey) || Array.from(right).some(isKey);
+  if (hasKeys && countShared(left, right, isKey) === 0) return 0;
+
+  return (2 * countShared(left, right)) / (left.size + right.size);
+}
+
+/**
+ * Split candidate FAQs into ones that ask something new and ones that
+ * duplicate an existing question or an earlier candidate
+ */
+export function dedupeFaqs<T extends FAQPair>(
+  candidates: T[],
+  existingQuestions: string[],
+  options: DedupeOptions = {}
+): DedupeResult<T> {
+  const { topic = '', threshold = DEFAULT_SIMILARITY_THRESHOLD } = options;
+  const seen = [...existingQuestions];
+  const unique: T[] = [];
+  const duplicates: DuplicateFAQ<T>[] = [];
+
+  for (const faq of candidates) {
+    let best: { question: string; similarity: number } | null = null;
+    for (const question of seen) {
+      const similarity = lexicalSimilarity(faq.question, question, topic);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { question, similarity };
+      }
+    }
+
+    if (best) {
+      duplicates.push({ faq, matches: best.question, similarity: round(best.similarity), method: 'lexical' });
+    } else {
+      unique.push(faq);
+      seen.push(faq.question);
+    }
+  }
+
+  return { unique, duplicates };
+}
+
+/**
+ * Dedupe by meaning. The lexical pass drops questions worded alike, then
+ * the model is asked which of the remaining ones repeat a question in
+ * other words. When the model call fails the lexical result is returned.
+ */
+export async function dedupeFaqsSemantic<T extends FAQPair>(
+  candidates: T[],
+  existingQuestions: string[],
+  options: SemanticDedupeOptions = {}
+): Promise<DedupeResult<T>> {
+  const { topic = '', onUsage } = options;
+  const lexical = dedupeFaqs(candidates, existingQuestions, options);
+
+  // Nothing left to compare
+  if (lexical.unique.length === 0 || (existingQuestions.length === 0 && lexical.unique.length < 2)) {
+    return lexical;
+  }
+
+  const params = { topic, existingQuestions, candidates: lexical.unique.map((faq) => faq.question) };
+  let matches: Map<number, string>;
+  try {
+    const output = await getCompletion(generateFaqDuplicatePrompt(params), { temperature: 0, maxTokens: 1024, onUsage });
+    matches = new Map(parseFaqDuplicateResponse(output, params).map((match) => [match.candidate, match.duplicateOf]));
+  } catch (error) {
+    console.error('Semantic FAQ dedupe failed, keeping the lexical result:', error);
+    return lexical;
+  }
+
+  const result: DedupeResult<T> = { unique: [], duplicates: [...lexical.duplicates] };
+  lexical.unique.forEach((faq, index) => {
+    const match = matches.get(index);
+    if (match === undefined) {
+      result.unique.push(faq);
+    } else {
+      result.duplicates.push({
+        faq,
+        matches: match,
+        similarity: round(lexicalSimilarity(faq.question, match, topic)),
+        method: 'semantic',
+      });
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeSupabase, type Row } from '@/test/fake-supabase';
+import { findOverdueContent, REMINDER_INTERVAL_DAYS, scheduleFreshnessReviews } from './freshness';
+import type { ReviewNotification, ReviewNotifier } from './notifiers';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function practiceTables(extra: Record<string, Row[]> = {}): Record<string, Row[]> {
+  return {
+    medical_practices: [{ id: 'practice-1', project_id: 'project-1', name: 'Bright Smile Dental' }],
+    practice_locations: [{ id: 'location-1', practice_id: 'practice-1', name: 'Austin', is_primary: true }],
+    medical_services: [],
+    physician_profiles: [],
+    health_articles: [],
+    location_service_pages: [],
+    content_reviews: [],
+    ...extra,
+  };
+}
+
+function recordingNotifier(): ReviewNotifier & { sent: ReviewNotification[] } {
+  const sent: ReviewNotification[] = [];
+  return { name: 'test', sent, notify: async (notification) => void sent.push(notification) };
+}
+
+describe('findOverdueContent', () => {
+  it('lists published content past its review cadence, most overdue first', async () => {
+    const { client } = createFakeSupabase({
+      tables: practiceTables({
+        health_articles: [
+          { id: 'article-fresh', practice_id: 'practice-1', title: 'Fresh', status: 'published', last_reviewed_at: daysAgo(10) },
+          { id: 'article-stale', practice_id: 'practice-1', title: 'Stale', status: 'published', last_reviewed_at: daysAgo(100) },
+          { id: 'article-news', practice_id: 'practice-1', title: 'News', category: 'news', status: 'published', last_reviewed_at: daysAgo(45) },
+          { id: 'article-draft', practice_id: 'practice-1', title: 'Draft', status: 'draft', last_reviewed_at: daysAgo(400) },
+        ],
+        location_service_pages: [
+          { id: 'page-1', location_id: 'location-1', slug: 'austin/cleanings', h1_heading: 'Cleanings in Austin', status: 'published', published_at: daysAgo(200) },
+        ],
+      }),
+    });
+
+    const items = await findOverdueContent(client, { now: NOW });
+
+    expect(items.map((item) => [item.contentId, item.daysOverdue])).toEqual([
+      ['page-1', 110],
+      ['article-news', 15],
+      ['article-stale', 10],
+    ]);
+    expect(items[0]).toMatchObject({
+      contentType: 'location_service_page',
+      title: 'Cleanings in Austin',
+      projectId: 'project-1',
+      cadenceDays: 90,
+    });
+    expect(items[1]).toMatchObject({ category: 'ymyl_news', cadenceDays: 30 });
+  });
+
+  it('attaches the pending review of content already under review', async () => {
+    const { client } = createFakeSupabase({
+      tables: practiceTables({
+        health_articles: [
+          { id: 'article-1', practice_id: 'practice-1', title: 'Stale', status: 'published', last_reviewed_at: daysAgo(100) },
+        ],
+        content_reviews: [
+          {
+            id: 'review-1',
+            practice_id: 'practice-1',
+            content_type: 'health_article',
+            content_id: 'article-1',
+            reviewer_name: 'Dr. Ana Ruiz',
+            status: 'pending',
+            created_at: daysAgo(2),
+          },
+        ],
+      }),
+    });
+
+    const [item] = await findOverdueContent(client, { now: NOW });
+    expect(item.pendingReview?.id).toBe('review-1');
+  });
+});
+
+describe('scheduleFreshnessReviews reminders', () => {
+  function pendingReview(lastNotifiedAt: string): Row {
+    return {
+      id: 'review-1',
+      practice_id: 'practice-1',
+      content_type: 'health_article',
+      content_id: 'article-1',
+      reviewer_name: 'Dr. Ana Ruiz',
+      status: 'pending',
+      notification_count: 1,
+      last_notified_at: lastNotifiedAt,
+      created_at: daysAgo(30),
+    };
+  }
+
+  function setup(lastNotifiedAt: string) {
+    return createFakeSupabase({
+      tables: practiceTables({
+        health_articles: [
+          { id: 'article-1', practice_id: 'practice-1', title: 'Stale', status: 'published', last_reviewed_at: daysAgo(100) },
+        ],
+        content_reviews: [pendingReview(lastNotifiedAt)],
+      }),
+    });
+  }
+
+  it('does not remind again within the reminder interval', async () => {
+    const fake = setup(daysAgo(REMINDER_INTERVAL_DAYS - 1));
+    const notifier = recordingNotifier();
+
+    const summary = await scheduleFreshnessReviews(fake.client, { notifier, now: NOW });
+
+    expect(summary).toMatchObject({ overdue: 1, opened: 0, reminded: 0 });
+    expect(notifier.sent).toEqual([]);
+  });
+
+  it('reminds once the interval has passed and records the reminder', async () => {
+    const fake = setup(daysAgo(REMINDER_INTERVAL_DAYS));
+    const notifier = recordingNotifier();
+
+    const summary = await scheduleFreshnessReviews(fake.client, { notifier, now: NOW });
+
+    expect(summary).toMatchObject({ overdue: 1, opened: 0, reminded: 1 });
+    expect(notifier.sent).toEqual([expect.objectContaining({ kind: 'reminder', reviewId: 'review-1', title: 'Stale' })]);
+    expect(fake.tables.content_reviews[0]).toMatchObject({
+      last_notified_at: NOW.toISOString(),
+      notification_count: 2,
+    });
+
+    // The next daily run is inside the interval again
+    const next = await scheduleFreshnessReviews(fake.client, { notifier, now: new Date(NOW.getTime() + 24 * 60 * 60 * 1000) });
+    expect(next.reminded).toBe(0);
+  });
+});
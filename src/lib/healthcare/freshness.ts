@@ -0,0 +1,332 @@
+/**
+ * Content Freshness
+ *
+ * YMYL content has to be re-reviewed on the cadence its E-E-A-T category
+ * sets (see `getReviewCadenceDays`). The scheduler finds published
+ * articles, service pages and local pages whose last review is older than
+ * that, opens a freshness review with the physician who last approved the
+ * content, and notifies them - repeating the notification while the
+ * review stays pending.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getReviewCadenceDays, type ContentCategory } from '@/lib/seo/eeat';
+import type { ContentReview, PhysicianProfile, ReviewableContentType } from '@/types/healthcare';
+import { loadPracticeContext, selectMedicalReviewer } from './generation';
+import { CONTENT_REVIEW_FIELDS, fromRow, type DatabaseRow } from './mappers';
+import type { ReviewNotifier } from './notifiers';
+import { notifyReviewer, requestReview } from './reviews';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Published content that is due for a medical re-review
+ */
+export interface FreshnessItem {
+  contentType: ReviewableContentType;
+  contentId: string;
+  projectId: string;
+  practiceId: string;
+  practiceName: string;
+  title: string;
+  category: ContentCategory;
+  cadenceDays: number;
+  lastReviewedAt?: string;
+  publishedAt?: string;
+  dueAt: string;
+  daysOverdue: number;
+  /** Physician who last approved the content */
+  lastReviewerId?: string;
+  /** Open review, when one has already been requested */
+  pendingReview?: ContentReview;
+}
+
+export interface FreshnessOptions {
+  /** Only these projects; every practice the client can see by default */
+  projectIds?: string[];
+  now?: Date;
+}
+
+export interface FreshnessRunOptions extends FreshnessOptions {
+  notifier: ReviewNotifier;
+  /** User the reviews are requested as; the project owner by default */
+  requestedBy?: string;
+}
+
+export interface FreshnessRunSummary {
+  overdue: number;
+  /** Freshness reviews opened */
+  opened: number;
+  /** Reminders sent for reviews still pending */
+  reminded: number;
+  /** Overdue content with no credentialed physician to review it */
+  skipped: number;
+  failed: Array<{ contentType: ReviewableContentType; contentId: string; error: string }>;
+}
+
+interface PracticeRow {
+  id: string;
+  project_id: string;
+  name: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How often a reviewer is reminded about a review they haven't closed */
+export const REMINDER_INTERVAL_DAYS = 7;
+
+/**
+ * E-E-A-T category of a piece of content - news articles are refreshed
+ * more often than evergreen health content
+ */
+function getContentCategory(contentType: ReviewableContentType, articleCategory?: string | null): ContentCategory {
+  return contentType === 'health_article' && articleCategory === 'news' ? 'ymyl_news' : 'ymyl_health';
+}
+
+// ============================================================================
+// OVERDUE CONTENT
+// ============================================================================
+
+async function listPractices(supabase: SupabaseClient, projectIds?: string[]): Promise<PracticeRow[]> {
+  let query = supabase.from('medical_practices').select('id, project_id, name');
+  if (projectIds) query = query.in('project_id', projectIds);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data as PracticeRow[];
+}
+
+async function findPracticeOverdueContent(
+  supabase: SupabaseClient,
+  practice: PracticeRow,
+  now: Date
+): Promise<FreshnessItem[]> {
+  const { data: locations, error: locationsError } = await supabase
+    .from('practice_locations')
+    .select('id')
+    .eq('practice_id', practice.id);
+  if (locationsError) throw locationsError;
+
+  const locationIds = (locations ?? []).map((row) => row.id as string);
+
+  const [articles, services, pages, reviews] = await Promise.all([
+    supabase
+      .from('health_articles')
+      .select('id, title, category, medical_reviewer_id, published_at, last_reviewed_at, created_at')
+      .eq('practice_id', practice.id)
+      .eq('status', 'published'),
+    supabase
+      .from('medical_services')
+      .select('id, name, last_reviewed_at, created_at')
+      .eq('practice_id', practice.id),
+    locationIds.length > 0
+      ? supabase
+          .from('location_service_pages')
+          .select('id, slug, h1_heading, published_at, last_reviewed_at, created_at')
+          .in('location_id', locationIds)
+          .eq('status', 'published')
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('content_reviews')
+      .select('*')
+      .eq('practice_id', practice.id)
+      .in('status', ['pending', 'approved'])
+      .order('created_at', { ascending: false }),
+  ]);
+
+  for (const result of [articles, services, pages, reviews]) {
+    if (result.error) throw result.error;
+  }
+
+  // Newest first, so the first review seen for a piece of content wins
+  const pendingReviews = new Map<string, ContentReview>();
+  const lastReviewers = new Map<string, string>();
+  for (const row of reviews.data as DatabaseRow[]) {
+    const review = fromRow<ContentReview>(row, CONTENT_REVIEW_FIELDS);
+    const key = `${review.contentType}:${review.contentId}`;
+    if (review.status === 'pending') pendingReviews.set(key, review);
+    else if (review.reviewerId && !lastReviewers.has(key)) lastReviewers.set(key, review.reviewerId);
+  }
+
+  const items: FreshnessItem[] = [];
+
+  const check = (
+    contentType: ReviewableContentType,
+    row: DatabaseRow,
+    title: string,
+    articleCategory?: string | null
+  ) => {
+    const category = getContentCategory(contentType, articleCategory);
+    const cadenceDays = getReviewCadenceDays(category);
+    if (!cadenceDays) return;
+
+    // Content that was never reviewed is due a cadence after it went live
+    const reviewedAt = (row.last_reviewed_at ?? row.published_at ?? row.created_at) as string;
+    const due = new Date(new Date(reviewedAt).getTime() + cadenceDays * DAY_MS);
+    if (due > now) return;
+
+    const key = `${contentType}:${row.id}`;
+    items.push({
+      contentType,
+      contentId: row.id as string,
+      projectId: practice.project_id,
+      practiceId: practice.id,
+      practiceName: practice.name,
+      title,
+      category,
+      cadenceDays,
+      lastReviewedAt: (row.last_reviewed_at as string | null) ?? undefined,
+      publishedAt: (row.published_at as string | null) ?? undefined,
+      dueAt: due.toISOString(),
+      daysOverdue: Math.floor((now.getTime() - due.getTime()) / DAY_MS),
+      lastReviewerId: lastReviewers.get(key) ?? (row.medical_reviewer_id as string | null) ?? undefined,
+      pendingReview: pendingReviews.get(key),
+    });
+  };
+
+  for (const row of articles.data as DatabaseRow[]) {
+    check('health_article', row, row.title as string, row.category as string | null);
+  }
+  for (const row of services.data as DatabaseRow[]) {
+    check('medical_service', row, row.name as string);
+  }
+  for (const row of pages.data as DatabaseRow[]) {
+    check('location_service_page', row, (row.h1_heading || row.slug) as string);
+  }
+
+  return items;
+}
+
+/**
+ * Published content past its review cadence, most overdue first
+ */
+export async function findOverdueContent(
+  supabase: SupabaseClient,
+  options: FreshnessOptions = {}
+): Promise<FreshnessItem[]> {
+  const now = options.now ?? new Date();
+  const items: FreshnessItem[] = [];
+
+  for (const practice of await listPractices(supabase, options.projectIds)) {
+    items.push(...(await findPracticeOverdueContent(supabase, practice, now)));
+  }
+
+  return items.sort((a, b) => b.daysOverdue - a.daysOverdue);
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Credentialed physician to re-review an item - whoever approved it last,
+ * otherwise the practice's default medical reviewer
+ */
+function selectFreshnessReviewer(
+  item: FreshnessItem,
+  context: NonNullable<Awaited<ReturnType<typeof loadPracticeContext>>>
+): PhysicianProfile | undefined {
+  const previous = context.physicians.find((physician) => physician.id === item.lastReviewerId);
+  if (previous?.credentials?.trim()) return previous;
+
+  const fallback = selectMedicalReviewer(context);
+  return fallback?.credentials?.trim() ? fallback : undefined;
+}
+
+function toNotification(item: FreshnessItem, kind: 'assigned' | 'reminder') {
+  return {
+    kind,
+    projectId: item.projectId,
+    practiceName: item.practiceName,
+    title: item.title,
+    lastReviewedAt: item.lastReviewedAt,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+async function getProjectOwners(supabase: SupabaseClient, projectIds: string[]): Promise<Map<string, string>> {
+  if (projectIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.from('projects').select('id, user_id').in('id', projectIds);
+  if (error) throw error;
+  return new Map((data ?? []).map((row) => [row.id as string, row.user_id as string]));
+}
+
+/**
+ * Open freshness reviews for overdue content and remind reviewers about
+ * the ones still pending. Safe to run repeatedly: content already under
+ * review is only re-notified once every REMINDER_INTERVAL_DAYS.
+ */
+export async function scheduleFreshnessReviews(
+  supabase: SupabaseClient,
+  options: FreshnessRunOptions
+): Promise<FreshnessRunSummary> {
+  const now = options.now ?? new Date();
+  const items = await findOverdueContent(supabase, { projectIds: options.projectIds, now });
+  const summary: FreshnessRunSummary = { overdue: items.length, opened: 0, reminded: 0, skipped: 0, failed: [] };
+
+  const projectIds = Array.from(new Set(items.map((item) => item.projectId)));
+  const owners = options.requestedBy ? new Map<string, string>() : await getProjectOwners(supabase, projectIds);
+  const reminderCutoff = now.getTime() - REMINDER_INTERVAL_DAYS * DAY_MS;
+
+  for (const projectId of projectIds) {
+    const context = await loadPracticeContext(supabase, projectId);
+    if (!context) continue;
+
+    for (const item of items.filter((candidate) => candidate.projectId === projectId)) {
+      try {
+        const pending = item.pendingReview;
+        if (pending) {
+          const lastNotified = new Date(pending.lastNotifiedAt ?? pending.createdAt).getTime();
+          if (lastNotified <= reminderCutoff) {
+            await notifyReviewer(supabase, options.notifier, pending, toNotification(item, 'reminder'), now);
+            summary.reminded++;
+          }
+          continue;
+        }
+
+        const reviewer = selectFreshnessReviewer(item, context);
+        const requestedBy = options.requestedBy ?? owners.get(projectId);
+        if (!reviewer || !requestedBy) {
+          summary.skipped++;
+          continue;
+        }
+
+        const review = await requestReview(
+          supabase,
+          {
+            type: item.contentType,
+            id: item.contentId,
+            practiceId: item.practiceId,
+            title: item.title,
+            status: 'published',
+            publishedAt: item.publishedAt,
+          },
+          reviewer,
+          requestedBy,
+          { reason: 'freshness', dueAt: item.dueAt }
+        );
+        summary.opened++;
+
+        await notifyReviewer(supabase, options.notifier, review, toNotification(item, 'assigned'), now);
+      } catch (error) {
+        console.error('Freshness review error:', error);
+        summary.failed.push({ contentType: item.contentType, contentId: item.contentId, error: errorMessage(error) });
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,213 @@
+/**
+ * Healthcare Content Generation
+ *
+ * Loads what the prompts in `@/lib/prompts/healthcare` need about a
+ * practice and turns model output into rows for the healthcare tables.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateSlug, truncateText, type BusinessInfo } from '@/lib/prompts/healthcare';
+import type {
+  Citation,
+  MedicalPractice,
+  MedicalService,
+  PhysicianProfile,
+  PracticeLocation,
+} from '@/types/healthcare';
+import {
+  LOCATION_FIELDS,
+  PHYSICIAN_FIELDS,
+  PRACTICE_FIELDS,
+  SERVICE_FIELDS,
+  fromRow,
+  type DatabaseRow,
+} from './mappers';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A practice with the records content is generated from
+ */
+export interface PracticeContext {
+  practice: MedicalPractice;
+  /** Primary location first */
+  locations: PracticeLocation[];
+  services: MedicalService[];
+  physicians: PhysicianProfile[];
+}
+
+// ============================================================================
+// PRACTICE CONTEXT
+// ============================================================================
+
+/**
+ * Load the project's practice with its locations, services and physicians;
+ * null when the project has no practice
+ */
+export async function loadPracticeContext(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<PracticeContext | null> {
+  const { data: practiceRow, error } = await supabase
+    .from('medical_practices')
+    .select('*')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!practiceRow) return null;
+
+  const [locations, services, physicians] = await Promise.all([
+    supabase
+      .from('practice_locations')
+      .select('*')
+      .eq('practice_id', practiceRow.id)
+      .order('is_primary', { ascending: false })
+      .order('name'),
+    supabase
+      .from('medical_services')
+      .select('*')
+      .eq('practice_id', practiceRow.id)
+      .order('display_order'),
+    supabase
+      .from('physician_profiles')
+      .select('*')
+      .eq('practice_id', practiceRow.id)
+      .order('name'),
+  ]);
+
+  for (const result of [locations, services, physicians]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    practice: fromRow<MedicalPractice>(practiceRow as DatabaseRow, PRACTICE_FIELDS),
+    locations: (locations.data as DatabaseRow[]).map((row) => fromRow<PracticeLocation>(row, LOCATION_FIELDS)),
+    services: (services.data as DatabaseRow[]).map((row) => fromRow<MedicalService>(row, SERVICE_FIELDS)),
+    physicians: (physicians.data as DatabaseRow[]).map((row) => fromRow<PhysicianProfile>(row, PHYSICIAN_FIELDS)),
+  };
+}
+
+/**
+ * Business details for prompts, taken from the practice and a location
+ * (the primary one by default)
+ */
+export function toBusinessInfo(
+  { practice, locations }: PracticeContext,
+  location: PracticeLocation | undefined = locations[0]
+): BusinessInfo {
+  return {
+    name: practice.name,
+    specialty: practice.specialty ?? '',
+    phone: location?.phone ?? '',
+    address: location ? [location.addressLine1, location.addressLine2].filter(Boolean).join(', ') : '',
+    city: location?.city ?? '',
+    state: location?.state ?? '',
+    stateFull: location?.stateFull,
+    yearEstablished: practice.yearEstablished,
+    medicalDirectorName: practice.medicalDirectorName,
+    medicalDirectorCredentials: practice.medicalDirectorCredentials,
+  };
+}
+
+/**
+ * Physician who medically reviews generated content - the medical
+ * director when they have a profile, otherwise the first credentialed
+ * physician
+ */
+export function selectMedicalReviewer({ practice, physicians }: PracticeContext): PhysicianProfile | undefined {
+  const director = practice.medicalDirectorName?.trim().toLowerCase();
+  return (
+    (director && physicians.find((physician) => physician.name.trim().toLowerCase() === director)) ||
+    physicians.find((physician) => physician.credentials?.trim()) ||
+    undefined
+  );
+}
+
+// ============================================================================
+// OUTPUT HELPERS
+// ============================================================================
+
+/**
+ * A slug from `text` that is not in `taken`, suffixed -2, -3... on
+ * collision and kept within the 100 character column
+ */
+export function uniqueSlug(text: string, taken: Iterable<string>, maxLength = 100): string {
+  const used = new Set(taken);
+  const base = generateSlug(text).slice(0, maxLength).replace(/-+$/, '') || 'untitled';
+  let slug = base;
+  for (let n = 2; used.has(slug); n++) {
+    const suffix = `-${n}`;
+    slug = `${base.slice(0, maxLength - suffix.length).replace(/-+$/, '')}${suffix}`;
+  }
+  return slug;
+}
+
+/**
+ * Markdown reduced to its visible text, for word counts
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/^\s*\|?[\s:|-]+\|[\s:|-]*$/gm, ' ')
+    .replace(/[|*_`~]/g, ' ');
+}
+
+/** Fit model output into a VARCHAR column */
+export function fitColumn(value: string | undefined, maxLength: number): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? truncateText(trimmed, maxLength) : undefined;
+}
+
+function normalizeUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function sourceFromHost(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/**
+ * Citations for generated content: the sources the model suggested plus
+ * external links in the content itself, deduplicated by URL. Entries
+ * without a valid http(s) URL are dropped.
+ */
+export function collectCitations(
+  content: string,
+  suggested: Array<Partial<Citation>> = [],
+  accessedDate: string = new Date().toISOString().slice(0, 10)
+): Citation[] {
+  const citations = new Map<string, Citation>();
+
+  for (const entry of suggested) {
+    const url = typeof entry?.url === 'string' ? normalizeUrl(entry.url) : null;
+    if (!url || citations.has(url)) continue;
+    citations.set(url, {
+      url,
+      title: entry.title?.trim() || sourceFromHost(url),
+      source: entry.source?.trim() || sourceFromHost(url),
+      accessedDate,
+    });
+  }
+
+  for (const [, text, href] of Array.from(content.matchAll(/(?<!!)\[([^\]]+)\]\((https?:\/\/[^)\s]+)[^)]*\)/g))) {
+    const url = normalizeUrl(href);
+    if (!url || citations.has(url)) continue;
+    citations.set(url, { url, title: text.trim(), source: sourceFromHost(url), accessedDate });
+  }
+
+  return Array.from(citations.values());
+}
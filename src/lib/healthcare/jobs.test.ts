@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setProvider, type LLMProvider } from '@/lib/claude/providers';
+import { createFakeSupabase, type Row } from '@/test/fake-supabase';
+import { runQueuedGenerationJobs, STALE_JOB_MS } from './jobs';
+
+const MINUTE = 60 * 1000;
+
+const PAGE = JSON.stringify({
+  metaTitle: 'Dental Cleanings in Austin, TX',
+  metaDescription: 'Gentle cleanings at Bright Smile Dental in Austin.',
+  h1: 'Dental Cleanings in Austin',
+  heroContent: 'Regular cleanings typically keep gums healthy.',
+  sections: [{ heading: 'What to expect', content: 'A visit usually takes about an hour.' }],
+  faqs: [{ question: 'How often should I get a cleaning?', answer: 'Most patients come every six months.' }],
+});
+
+let clock: number;
+
+/** Provider answering every page prompt, advancing the clock by `duration` per page */
+function pageProvider(duration = 0) {
+  const calls: number[] = [];
+  const provider: LLMProvider = {
+    name: 'test',
+    async complete(request) {
+      calls.push(clock);
+      clock += duration;
+      return { text: PAGE, model: request.model, stopReason: 'end_turn', usage: { model: request.model, inputTokens: 1, outputTokens: 1 } };
+    },
+    stream() {
+      throw new Error('Not used');
+    },
+  };
+  setProvider(provider);
+  return { calls };
+}
+
+function ago(ms: number): string {
+  return new Date(clock - ms).toISOString();
+}
+
+function job(id: string, extra: Row = {}): Row {
+  return {
+    id,
+    project_id: 'project-1',
+    user_id: 'user-1',
+    kind: 'local_pages',
+    status: 'queued',
+    overwrite: false,
+    concurrency: 1,
+    created_at: ago(10 * MINUTE),
+    ...extra,
+  };
+}
+
+function item(id: string, jobId: string, serviceId: string, extra: Row = {}): Row {
+  return {
+    id,
+    job_id: jobId,
+    location_id: 'location-1',
+    service_id: serviceId,
+    status: 'pending',
+    slug: `austin/${serviceId}`,
+    attempts: 0,
+    created_at: ago(10 * MINUTE),
+    ...extra,
+  };
+}
+
+function setup(jobs: Row[], items: Row[]) {
+  return createFakeSupabase({
+    tables: {
+      medical_practices: [{ id: 'practice-1', project_id: 'project-1', name: 'Bright Smile Dental', specialty: 'Dentistry' }],
+      practice_locations: [
+        { id: 'location-1', practice_id: 'practice-1', name: 'Austin', slug: 'austin', city: 'Austin', state: 'TX', is_primary: true },
+      ],
+      medical_services: ['cleanings', 'implants', 'whitening'].map((slug, index) => ({
+        id: slug,
+        practice_id: 'practice-1',
+        name: slug,
+        slug,
+        display_order: index,
+      })),
+      physician_profiles: [],
+      location_service_pages: [],
+      ai_quotas: [],
+      ai_usage: [],
+      generation_jobs: jobs,
+      generation_job_items: items,
+    },
+  });
+}
+
+beforeEach(() => {
+  clock = Date.parse('2026-06-01T12:00:00.000Z');
+  vi.spyOn(Date, 'now').mockImplementation(() => clock);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('runQueuedGenerationJobs', () => {
+  it('generates the pages of queued jobs and completes them', async () => {
+    pageProvider();
+    const fake = setup([job('job-1')], [item('item-1', 'job-1', 'cleanings'), item('item-2', 'job-1', 'implants')]);
+
+    const summary = await runQueuedGenerationJobs(fake.client, { budgetMs: 3 * MINUTE });
+
+    expect(summary).toEqual({ processed: 1, waiting: 0 });
+    expect(fake.tables.generation_jobs[0]).toMatchObject({ status: 'completed' });
+    expect(fake.tables.generation_job_items.map((row) => [row.id, row.status, row.attempts])).toEqual([
+      ['item-1', 'created', 1],
+      ['item-2', 'created', 1],
+    ]);
+    expect(fake.tables.location_service_pages).toEqual([
+      expect.objectContaining({ service_id: 'cleanings', h1_heading: 'Dental Cleanings in Austin', status: 'draft' }),
+      expect.objectContaining({ service_id: 'implants', status: 'draft' }),
+    ]);
+    expect(fake.tables.ai_usage).toHaveLength(2);
+  });
+
+  it('leaves jobs with a live worker alone and resumes ones whose worker died', async () => {
+    pageProvider();
+    const fake = setup(
+      [
+        job('job-live', { status: 'running', heartbeat_at: ago(MINUTE) }),
+        job('job-dead', { status: 'running', heartbeat_at: ago(STALE_JOB_MS + MINUTE) }),
+        job('job-done', { status: 'completed' }),
+      ],
+      [
+        item('item-live', 'job-live', 'cleanings', { status: 'running' }),
+        item('item-dead', 'job-dead', 'implants', { status: 'running', attempts: 1 }),
+      ]
+    );
+
+    const summary = await runQueuedGenerationJobs(fake.client, { budgetMs: 3 * MINUTE });
+
+    expect(summary).toEqual({ processed: 1, waiting: 0 });
+    expect(fake.tables.generation_jobs.map((row) => [row.id, row.status])).toEqual([
+      ['job-live', 'running'],
+      ['job-dead', 'completed'],
+      ['job-done', 'completed'],
+    ]);
+    expect(fake.tables.generation_job_items.map((row) => [row.id, row.status, row.attempts])).toEqual([
+      ['item-live', 'running', 0],
+      ['item-dead', 'created', 2],
+    ]);
+  });
+
+  it('stops claiming pages when the time budget runs out and queues the job for the next run', async () => {
+    const { calls } = pageProvider(2 * MINUTE);
+    const fake = setup(
+      [job('job-1'), job('job-2', { created_at: ago(MINUTE) })],
+      [
+        item('item-1', 'job-1', 'cleanings'),
+        item('item-2', 'job-1', 'implants'),
+        item('item-3', 'job-1', 'whitening'),
+        item('item-4', 'job-2', 'cleanings'),
+      ]
+    );
+
+    const summary = await runQueuedGenerationJobs(fake.client, { budgetMs: 3 * MINUTE });
+
+    expect(calls).toHaveLength(2);
+    expect(summary).toEqual({ processed: 1, waiting: 1 });
+    expect(fake.tables.generation_jobs.map((row) => [row.id, row.status])).toEqual([
+      ['job-1', 'queued'],
+      ['job-2', 'queued'],
+    ]);
+    expect(fake.tables.generation_job_items.map((row) => row.status)).toEqual(['created', 'created', 'pending', 'pending']);
+
+    // The next run finishes both
+    const next = await runQueuedGenerationJobs(fake.client, { budgetMs: 3 * MINUTE });
+    expect(next).toEqual({ processed: 2, waiting: 0 });
+    expect(fake.tables.generation_jobs.map((row) => row.status)).toEqual(['completed', 'completed']);
+  });
+});
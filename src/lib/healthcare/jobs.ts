@@ -0,0 +1,511 @@
+/**
+ * Generation Jobs
+ *
+ * Bulk location × service page generation as a persisted background job.
+ * A job is a `generation_jobs` row with one `generation_job_items` row
+ * per page. Requests only queue jobs; the generation worker
+ * (`runQueuedGenerationJobs`, run by /api/cron/generation-jobs) claims
+ * pending items and generates them with bounded concurrency, so progress
+ * survives across invocations and a job whose worker died is resumed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { HEALTHCARE_SYSTEM_PROMPT, getCompletion } from '@/lib/claude/client';
+import { describeLLMError } from '@/lib/claude/resilience';
+import { checkQuota, createUsageRecorder, getQuotaExceededMessage } from '@/lib/claude/usage';
+import { generateLocalSeoPagePrompt, parseLocalSeoPageResponse } from '@/lib/prompts/healthcare';
+import type {
+  GenerationItemStatus,
+  GenerationJob,
+  GenerationJobItem,
+  GenerationJobProgress,
+  MedicalService,
+  PracticeLocation,
+} from '@/types/healthcare';
+import {
+  fitColumn,
+  loadPracticeContext,
+  selectMedicalReviewer,
+  toBusinessInfo,
+  type PracticeContext,
+} from './generation';
+import {
+  GENERATION_JOB_FIELDS,
+  GENERATION_JOB_ITEM_FIELDS,
+  fromRow,
+  type DatabaseRow,
+} from './mappers';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_JOB_CONCURRENCY = parseInt(process.env.GENERATION_CONCURRENCY || '3', 10);
+export const MAX_JOB_CONCURRENCY = 5;
+
+/** A running job without a heartbeat for this long is assumed dead */
+export const STALE_JOB_MS = 5 * 60 * 1000;
+
+const PAGE_MAX_TOKENS = 6000;
+
+const FINISHED_ITEM_STATUSES: GenerationItemStatus[] = ['created', 'updated', 'skipped', 'failed'];
+const FINISHED_JOB_STATUSES: GenerationJob['status'][] = ['completed', 'failed', 'cancelled'];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CreateLocalPagesJobOptions {
+  projectId: string;
+  userId: string;
+  locations: PracticeLocation[];
+  services: MedicalService[];
+  overwrite: boolean;
+  concurrency?: number;
+}
+
+export interface RunJobOptions {
+  /** Stop claiming items at this time (ms since epoch) and put the job back in the queue */
+  deadline?: number;
+}
+
+export interface WorkerSummary {
+  /** Jobs worked on in this run */
+  processed: number;
+  /** Runnable jobs this run did not get to */
+  waiting: number;
+}
+
+type StopReason = { status: 'cancelled' } | { status: 'failed'; error: string } | { status: 'queued' };
+
+type ItemResult = Pick<GenerationJobItem, 'status'> & Partial<Pick<GenerationJobItem, 'pageId' | 'slug' | 'error'>>;
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+export function clampConcurrency(value: number | undefined): number {
+  const concurrency = Math.round(value ?? DEFAULT_JOB_CONCURRENCY);
+  return Math.min(Math.max(Number.isFinite(concurrency) ? concurrency : 1, 1), MAX_JOB_CONCURRENCY);
+}
+
+/**
+ * Queue a job for every location × service combination. Without
+ * `overwrite`, combinations that already have a page are recorded as
+ * skipped up front.
+ */
+export async function createLocalPagesJob(
+  supabase: SupabaseClient,
+  options: CreateLocalPagesJobOptions
+): Promise<GenerationJobProgress> {
+  const { projectId, userId, locations, services, overwrite } = options;
+
+  const { data: existingPages, error: pagesError } = await supabase
+    .from('location_service_pages')
+    .select('id, location_id, service_id, slug')
+    .in('location_id', locations.map((location) => location.id));
+
+  if (pagesError) throw pagesError;
+
+  const existing = new Map(
+    ((existingPages ?? []) as Array<{ id: string; location_id: string; service_id: string; slug: string }>).map(
+      (page) => [`${page.location_id}:${page.service_id}`, page]
+    )
+  );
+
+  const { data: jobRow, error: jobError } = await supabase
+    .from('generation_jobs')
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      kind: 'local_pages',
+      overwrite,
+      concurrency: clampConcurrency(options.concurrency),
+    })
+    .select()
+    .single();
+
+  if (jobError) throw jobError;
+
+  const now = new Date().toISOString();
+  const itemRows = locations.flatMap((location) =>
+    services.map((service) => {
+      const page = existing.get(`${location.id}:${service.id}`);
+      const skip = page && !overwrite;
+      return {
+        job_id: jobRow.id,
+        location_id: location.id,
+        service_id: service.id,
+        status: skip ? 'skipped' : 'pending',
+        page_id: page?.id ?? null,
+        slug: page?.slug ?? `${location.slug}/${service.slug}`,
+        finished_at: skip ? now : null,
+      };
+    })
+  );
+
+  const { error: itemsError } = await supabase.from('generation_job_items').insert(itemRows);
+  if (itemsError) {
+    await supabase.from('generation_jobs').delete().eq('id', jobRow.id);
+    throw itemsError;
+  }
+
+  // Nothing to generate - the job is already complete
+  if (itemRows.every((item) => item.status === 'skipped')) {
+    await supabase
+      .from('generation_jobs')
+      .update({ status: 'completed', started_at: now, finished_at: now })
+      .eq('id', jobRow.id);
+  }
+
+  return (await getJobProgress(supabase, jobRow.id, projectId))!;
+}
+
+/**
+ * Job with all its items; null when the job does not belong to the project
+ */
+export async function getJobProgress(
+  supabase: SupabaseClient,
+  jobId: string,
+  projectId: string
+): Promise<GenerationJobProgress | null> {
+  const { data: jobRow, error: jobError } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (jobError) throw jobError;
+  if (!jobRow) return null;
+
+  const { data: itemRows, error: itemsError } = await supabase
+    .from('generation_job_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('created_at')
+    .order('slug');
+
+  if (itemsError) throw itemsError;
+
+  const job = fromRow<GenerationJob>(jobRow as DatabaseRow, GENERATION_JOB_FIELDS);
+  const items = (itemRows as DatabaseRow[]).map((row) =>
+    fromRow<GenerationJobItem>(row, GENERATION_JOB_ITEM_FIELDS)
+  );
+
+  const counts = { total: items.length, pending: 0, running: 0, created: 0, updated: 0, skipped: 0, failed: 0 };
+  for (const item of items) counts[item.status]++;
+
+  const finished = FINISHED_ITEM_STATUSES.reduce((sum, status) => sum + counts[status], 0);
+
+  return {
+    job,
+    items,
+    counts,
+    percent: items.length > 0 ? Math.round((finished / items.length) * 100) : 100,
+    done: FINISHED_JOB_STATUSES.includes(job.status),
+  };
+}
+
+/**
+ * Whether a worker could be started for the job - it is queued, or it is
+ * running but its worker stopped reporting progress
+ */
+export function canRunJob(job: GenerationJob, now: number = Date.now()): boolean {
+  if (job.status === 'queued') return true;
+  if (job.status !== 'running') return false;
+  const heartbeat = Date.parse(job.heartbeatAt ?? job.startedAt ?? job.createdAt);
+  return now - heartbeat > STALE_JOB_MS;
+}
+
+/**
+ * Put a job back in the queue for the generation worker, e.g. one whose
+ * worker stopped reporting progress
+ */
+export async function requeueJob(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('generation_jobs')
+    .update({ status: 'queued' })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running']);
+
+  if (error) throw error;
+}
+
+/**
+ * Stop a job; items already being generated still finish
+ */
+export async function cancelJob(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('generation_jobs')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running']);
+
+  if (error) throw error;
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && !(error instanceof Error) && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return describeLLMError(error);
+}
+
+/**
+ * Generate and store the page for one item
+ */
+async function generateItem(
+  supabase: SupabaseClient,
+  context: PracticeContext,
+  job: GenerationJob,
+  item: GenerationJobItem,
+  onUsage: ReturnType<typeof createUsageRecorder>
+): Promise<ItemResult> {
+  const location = context.locations.find((entry) => entry.id === item.locationId);
+  const service = context.services.find((entry) => entry.id === item.serviceId);
+  if (!location || !service) {
+    return { status: 'failed', error: 'The location or service no longer exists' };
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('location_service_pages')
+    .select('id, slug')
+    .eq('location_id', location.id)
+    .eq('service_id', service.id)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  // The page may have been created since the job was queued
+  if (existing && !job.overwrite) {
+    return { status: 'skipped', pageId: existing.id, slug: existing.slug };
+  }
+
+  const output = await getCompletion(
+    generateLocalSeoPagePrompt({
+      locationData: location,
+      serviceData: service,
+      businessInfo: toBusinessInfo(context, location),
+      medicalReviewer: selectMedicalReviewer(context),
+      // Pages for the same service elsewhere - each city's page must be distinct
+      existingContent: context.locations
+        .filter((other) => other.id !== location.id)
+        .map((other) => `${service.name} in ${other.city}, ${other.state}`),
+    }),
+    { systemPrompt: HEALTHCARE_SYSTEM_PROMPT, maxTokens: PAGE_MAX_TOKENS, onUsage }
+  );
+
+  const generated = parseLocalSeoPageResponse(output);
+  if (!generated.content.trim() || generated.content === output) {
+    return { status: 'failed', error: 'The generated page could not be read' };
+  }
+
+  const slug = existing?.slug ?? `${location.slug}/${service.slug}`;
+  const row = {
+    slug,
+    h1_heading: fitColumn(generated.h1, 255) ?? null,
+    content: generated.content.trim(),
+    faqs: (generated.faqs ?? []).filter((faq) => faq?.question && faq?.answer),
+    meta_title: fitColumn(generated.metaTitle, 70) ?? null,
+    meta_description: fitColumn(generated.metaDescription, 160) ?? null,
+    schema_data: generated.schemaData ?? null,
+    // Regenerated content needs review again before it is published
+    status: 'draft',
+    published_at: null,
+  };
+
+  const { data: page, error } = existing
+    ? await supabase.from('location_service_pages').update(row).eq('id', existing.id).select('id').single()
+    : await supabase
+        .from('location_service_pages')
+        .insert({ ...row, location_id: location.id, service_id: service.id })
+        .select('id')
+        .single();
+
+  if (error) throw error;
+  return { status: existing ? 'updated' : 'created', pageId: page.id, slug };
+}
+
+/**
+ * Process a job's pending items until none are left, the job is cancelled,
+ * the AI quota runs out or the deadline passes. Safe to call for a job
+ * another worker has abandoned: items are claimed one at a time, so two
+ * workers never generate the same page.
+ */
+export async function runGenerationJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  options: RunJobOptions = {}
+): Promise<void> {
+  const { data: jobRow, error: jobError } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError) throw jobError;
+
+  const job = fromRow<GenerationJob>(jobRow as DatabaseRow, GENERATION_JOB_FIELDS);
+  if (!canRunJob(job)) return;
+
+  const finishJob = async (status: GenerationJob['status'], error?: string) => {
+    await supabase
+      .from('generation_jobs')
+      .update({ status, error: error ?? null, finished_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .neq('status', 'cancelled');
+  };
+
+  try {
+    const now = new Date().toISOString();
+    await supabase
+      .from('generation_jobs')
+      .update({ status: 'running', started_at: job.startedAt ?? now, heartbeat_at: now })
+      .eq('id', jobId);
+
+    // Items left running by a dead worker are retried
+    await supabase
+      .from('generation_job_items')
+      .update({ status: 'pending' })
+      .eq('job_id', jobId)
+      .eq('status', 'running');
+
+    const context = await loadPracticeContext(supabase, job.projectId);
+    if (!context) {
+      await finishJob('failed', 'The practice for this project no longer exists');
+      return;
+    }
+
+    const { data: pendingRows, error: pendingError } = await supabase
+      .from('generation_job_items')
+      .select('*')
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .order('created_at');
+
+    if (pendingError) throw pendingError;
+
+    const queue = (pendingRows as DatabaseRow[]).map((row) =>
+      fromRow<GenerationJobItem>(row, GENERATION_JOB_ITEM_FIELDS)
+    );
+    const onUsage = createUsageRecorder(supabase, {
+      userId: job.userId,
+      projectId: job.projectId,
+      route: 'healthcare/generate-local-pages',
+    });
+    let stop: StopReason | null = null;
+
+    const shouldStop = async () => {
+      if (stop) return true;
+
+      if (options.deadline !== undefined && Date.now() >= options.deadline) {
+        stop = { status: 'queued' };
+        return true;
+      }
+
+      const { data: current } = await supabase.from('generation_jobs').select('status').eq('id', jobId).single();
+      if (current?.status === 'cancelled') {
+        stop = { status: 'cancelled' };
+        return true;
+      }
+
+      const quota = await checkQuota(supabase, job.userId, job.projectId);
+      if (!quota.allowed) {
+        stop = { status: 'failed', error: getQuotaExceededMessage(quota) };
+        return true;
+      }
+      return false;
+    };
+
+    const work = async () => {
+      while (queue.length > 0 && !(await shouldStop())) {
+        const item = queue.shift()!;
+
+        // Claim the item - another worker may have taken it
+        const { data: claimed } = await supabase
+          .from('generation_job_items')
+          .update({ status: 'running', attempts: item.attempts + 1, started_at: new Date().toISOString(), error: null })
+          .eq('id', item.id)
+          .eq('status', 'pending')
+          .select('id')
+          .maybeSingle();
+        if (!claimed) continue;
+
+        let result: ItemResult;
+        try {
+          result = await generateItem(supabase, context, job, item, onUsage);
+        } catch (error) {
+          console.error('Generation job item error:', error);
+          result = { status: 'failed', error: errorMessage(error) };
+        }
+
+        const finishedAt = new Date().toISOString();
+        await supabase
+          .from('generation_job_items')
+          .update({
+            status: result.status,
+            page_id: result.pageId ?? item.pageId ?? null,
+            slug: result.slug ?? item.slug ?? null,
+            error: result.error ?? null,
+            finished_at: finishedAt,
+          })
+          .eq('id', item.id);
+        await supabase.from('generation_jobs').update({ heartbeat_at: finishedAt }).eq('id', jobId);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(job.concurrency, Math.max(queue.length, 1)) }, work));
+
+    // Assigned inside the workers, which control flow analysis doesn't follow
+    const outcome = stop as StopReason | null;
+    if (outcome?.status === 'failed') {
+      await finishJob('failed', outcome.error);
+    } else if (outcome?.status === 'queued') {
+      // Out of time - the next worker run carries on
+      await requeueJob(supabase, jobId);
+    } else if (!outcome) {
+      await finishJob('completed');
+    }
+  } catch (error) {
+    console.error('Generation job error:', error);
+    await finishJob('failed', errorMessage(error));
+  }
+}
+
+/**
+ * Work on queued jobs, and running ones whose worker died, oldest first.
+ * Jobs still unfinished when the time budget runs out are put back in the
+ * queue for the next run.
+ */
+export async function runQueuedGenerationJobs(
+  supabase: SupabaseClient,
+  options: { budgetMs: number }
+): Promise<WorkerSummary> {
+  const deadline = Date.now() + options.budgetMs;
+
+  const { data: jobRows, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .in('status', ['queued', 'running'])
+    .order('created_at');
+
+  if (error) throw error;
+
+  const runnable = (jobRows as DatabaseRow[])
+    .map((row) => fromRow<GenerationJob>(row, GENERATION_JOB_FIELDS))
+    .filter((job) => canRunJob(job));
+
+  let processed = 0;
+  for (const job of runnable) {
+    if (Date.now() >= deadline) break;
+    await runGenerationJob(supabase, job.id, { deadline });
+    processed++;
+  }
+
+  return { processed, waiting: runnable.length - processed };
+}
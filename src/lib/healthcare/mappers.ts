@@ -0,0 +1,381 @@
+/**
+ * Healthcare Row Mappers
+ *
+ * Field maps between the snake_case tables in 002_healthcare_module.sql
+ * and the camelCase entity types in `@/types/healthcare`. Each map lists
+ * every property of the entity and the column it is stored in; system
+ * columns (ids of the owning rows and timestamps) are read but never
+ * written from request bodies.
+ */
+
+import type {
+  ArticleFAQ,
+  ContentReview,
+  ContentReviewComment,
+  GenerationJob,
+  GenerationJobItem,
+  HealthArticle,
+  LocationServicePage,
+  MedicalPractice,
+  MedicalService,
+  PhysicianProfile,
+  PracticeLocation,
+  ServiceFAQ,
+  Testimonial,
+  TreatmentOption,
+} from '@/types/healthcare';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Entity property -> table column */
+export type FieldMap<T> = { [K in keyof T]-?: string };
+
+export type DatabaseRow = Record<string, unknown>;
+
+/** Columns set by the database or the route, never from request bodies */
+const SYSTEM_COLUMNS = new Set([
+  'id',
+  'project_id',
+  'practice_id',
+  'article_id',
+  'created_at',
+  'updated_at',
+]);
+
+// ============================================================================
+// FIELD MAPS
+// ============================================================================
+
+export const PRACTICE_FIELDS: FieldMap<MedicalPractice> = {
+  id: 'id',
+  projectId: 'project_id',
+  name: 'name',
+  specialty: 'specialty',
+  npiNumber: 'npi_number',
+  medicalDirectorName: 'medical_director_name',
+  medicalDirectorCredentials: 'medical_director_credentials',
+  medicalDirectorImageUrl: 'medical_director_image_url',
+  medicalDirectorBio: 'medical_director_bio',
+  yearEstablished: 'year_established',
+  accreditations: 'accreditations',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const LOCATION_FIELDS: FieldMap<PracticeLocation> = {
+  id: 'id',
+  practiceId: 'practice_id',
+  name: 'name',
+  slug: 'slug',
+  addressLine1: 'address_line1',
+  addressLine2: 'address_line2',
+  city: 'city',
+  state: 'state',
+  stateFull: 'state_full',
+  zip: 'zip',
+  country: 'country',
+  phone: 'phone',
+  fax: 'fax',
+  email: 'email',
+  googleMapsEmbed: 'google_maps_embed',
+  googleBusinessUrl: 'google_business_url',
+  googlePlaceId: 'google_place_id',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  serviceAreas: 'service_areas',
+  hours: 'hours',
+  holidayHours: 'holiday_hours',
+  isPrimary: 'is_primary',
+  acceptsNewPatients: 'accepts_new_patients',
+  parkingInfo: 'parking_info',
+  accessibilityInfo: 'accessibility_info',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const SERVICE_FIELDS: FieldMap<MedicalService> = {
+  id: 'id',
+  practiceId: 'practice_id',
+  name: 'name',
+  slug: 'slug',
+  shortName: 'short_name',
+  category: 'category',
+  parentServiceId: 'parent_service_id',
+  description: 'description',
+  shortDescription: 'short_description',
+  benefits: 'benefits',
+  idealCandidate: 'ideal_candidate',
+  procedureOverview: 'procedure_overview',
+  recoveryTime: 'recovery_time',
+  resultsTimeline: 'results_timeline',
+  priceFrom: 'price_from',
+  priceTo: 'price_to',
+  priceNote: 'price_note',
+  duration: 'duration',
+  icon: 'icon',
+  heroImageUrl: 'hero_image_url',
+  galleryImages: 'gallery_images',
+  isFeatured: 'is_featured',
+  displayOrder: 'display_order',
+  metaTitle: 'meta_title',
+  metaDescription: 'meta_description',
+  schemaType: 'schema_type',
+  medicalSpecialty: 'medical_specialty',
+  lastReviewedAt: 'last_reviewed_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const TREATMENT_OPTION_FIELDS: FieldMap<TreatmentOption> = {
+  id: 'id',
+  serviceId: 'service_id',
+  name: 'name',
+  slug: 'slug',
+  description: 'description',
+  howItWorks: 'how_it_works',
+  benefits: 'benefits',
+  sideEffects: 'side_effects',
+  contraindications: 'contraindications',
+  sessionCount: 'session_count',
+  sessionDuration: 'session_duration',
+  priceFrom: 'price_from',
+  priceTo: 'price_to',
+  fdaApproved: 'fda_approved',
+  displayOrder: 'display_order',
+  createdAt: 'created_at',
+};
+
+export const ARTICLE_FIELDS: FieldMap<HealthArticle> = {
+  id: 'id',
+  practiceId: 'practice_id',
+  title: 'title',
+  slug: 'slug',
+  excerpt: 'excerpt',
+  content: 'content',
+  featuredImageUrl: 'featured_image_url',
+  featuredImageAlt: 'featured_image_alt',
+  authorName: 'author_name',
+  authorCredentials: 'author_credentials',
+  authorImageUrl: 'author_image_url',
+  authorBio: 'author_bio',
+  medicalReviewerId: 'medical_reviewer_id',
+  medicalReviewerName: 'medical_reviewer_name',
+  medicalReviewerCredentials: 'medical_reviewer_credentials',
+  medicalReviewerImageUrl: 'medical_reviewer_image_url',
+  citations: 'citations',
+  relatedServices: 'related_services',
+  relatedArticles: 'related_articles',
+  category: 'category',
+  tags: 'tags',
+  metaTitle: 'meta_title',
+  metaDescription: 'meta_description',
+  wordCount: 'word_count',
+  readingTime: 'reading_time',
+  status: 'status',
+  publishedAt: 'published_at',
+  lastReviewedAt: 'last_reviewed_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const ARTICLE_FAQ_FIELDS: FieldMap<ArticleFAQ> = {
+  id: 'id',
+  articleId: 'article_id',
+  question: 'question',
+  answer: 'answer',
+  displayOrder: 'display_order',
+  createdAt: 'created_at',
+};
+
+export const SERVICE_FAQ_FIELDS: FieldMap<ServiceFAQ> = {
+  id: 'id',
+  serviceId: 'service_id',
+  question: 'question',
+  answer: 'answer',
+  displayOrder: 'display_order',
+  createdAt: 'created_at',
+};
+
+export const PHYSICIAN_FIELDS: FieldMap<PhysicianProfile> = {
+  id: 'id',
+  practiceId: 'practice_id',
+  name: 'name',
+  slug: 'slug',
+  credentials: 'credentials',
+  title: 'title',
+  specialties: 'specialties',
+  bio: 'bio',
+  education: 'education',
+  certifications: 'certifications',
+  memberships: 'memberships',
+  imageUrl: 'image_url',
+  acceptingPatients: 'accepting_patients',
+  locations: 'locations',
+  services: 'services',
+  yearsExperience: 'years_experience',
+  languages: 'languages',
+  npiNumber: 'npi_number',
+  npiStatus: 'npi_status',
+  npiVerifiedAt: 'npi_verified_at',
+  npiTaxonomies: 'npi_taxonomies',
+  npiMismatches: 'npi_mismatches',
+  metaTitle: 'meta_title',
+  metaDescription: 'meta_description',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const TESTIMONIAL_FIELDS: FieldMap<Testimonial> = {
+  id: 'id',
+  practiceId: 'practice_id',
+  locationId: 'location_id',
+  serviceId: 'service_id',
+  patientName: 'patient_name',
+  patientInitials: 'patient_initials',
+  patientLocation: 'patient_location',
+  patientImageUrl: 'patient_image_url',
+  rating: 'rating',
+  title: 'title',
+  content: 'content',
+  treatmentReceived: 'treatment_received',
+  verified: 'verified',
+  source: 'source',
+  sourceUrl: 'source_url',
+  externalId: 'external_id',
+  reviewedAt: 'reviewed_at',
+  displayOnHomepage: 'display_on_homepage',
+  displayOrder: 'display_order',
+  moderationStatus: 'moderation_status',
+  moderatedBy: 'moderated_by',
+  moderatedAt: 'moderated_at',
+  moderationNote: 'moderation_note',
+  importedAt: 'imported_at',
+  publishedAt: 'published_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const LOCATION_SERVICE_PAGE_FIELDS: FieldMap<LocationServicePage> = {
+  id: 'id',
+  locationId: 'location_id',
+  serviceId: 'service_id',
+  slug: 'slug',
+  h1Heading: 'h1_heading',
+  content: 'content',
+  faqs: 'faqs',
+  metaTitle: 'meta_title',
+  metaDescription: 'meta_description',
+  schemaData: 'schema_data',
+  status: 'status',
+  publishedAt: 'published_at',
+  lastReviewedAt: 'last_reviewed_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const CONTENT_REVIEW_FIELDS: FieldMap<ContentReview> = {
+  id: 'id',
+  practiceId: 'practice_id',
+  contentType: 'content_type',
+  contentId: 'content_id',
+  reviewerId: 'reviewer_id',
+  reviewerName: 'reviewer_name',
+  reviewerCredentials: 'reviewer_credentials',
+  status: 'status',
+  reason: 'reason',
+  dueAt: 'due_at',
+  lastNotifiedAt: 'last_notified_at',
+  notificationCount: 'notification_count',
+  requestedBy: 'requested_by',
+  decidedBy: 'decided_by',
+  decidedAt: 'decided_at',
+  decisionNote: 'decision_note',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const CONTENT_REVIEW_COMMENT_FIELDS: FieldMap<ContentReviewComment> = {
+  id: 'id',
+  reviewId: 'review_id',
+  authorId: 'author_id',
+  authorName: 'author_name',
+  body: 'body',
+  createdAt: 'created_at',
+};
+
+export const GENERATION_JOB_FIELDS: FieldMap<GenerationJob> = {
+  id: 'id',
+  projectId: 'project_id',
+  userId: 'user_id',
+  kind: 'kind',
+  status: 'status',
+  overwrite: 'overwrite',
+  concurrency: 'concurrency',
+  error: 'error',
+  startedAt: 'started_at',
+  heartbeatAt: 'heartbeat_at',
+  finishedAt: 'finished_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export const GENERATION_JOB_ITEM_FIELDS: FieldMap<GenerationJobItem> = {
+  id: 'id',
+  jobId: 'job_id',
+  locationId: 'location_id',
+  serviceId: 'service_id',
+  status: 'status',
+  pageId: 'page_id',
+  slug: 'slug',
+  error: 'error',
+  attempts: 'attempts',
+  startedAt: 'started_at',
+  finishedAt: 'finished_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Map a table row to its entity. NULL columns become undefined properties.
+ */
+export function fromRow<T>(row: DatabaseRow, fields: FieldMap<T>): T {
+  const entity: Record<string, unknown> = {};
+  for (const [property, column] of Object.entries(fields) as Array<[string, string]>) {
+    const value = row[column];
+    if (value !== null && value !== undefined) {
+      // PostgREST returns DECIMAL columns as strings in some configurations
+      entity[property] = typeof value === 'string' && NUMERIC_COLUMNS.has(column) ? Number(value) : value;
+    }
+  }
+  return entity as T;
+}
+
+/**
+ * Map entity properties from a request body to table columns, dropping
+ * unknown properties and system columns
+ */
+export function toRow<T>(input: Partial<T>, fields: FieldMap<T>): DatabaseRow {
+  const row: DatabaseRow = {};
+  for (const [property, column] of Object.entries(fields) as Array<[string, string]>) {
+    if (SYSTEM_COLUMNS.has(column)) continue;
+    const value = (input as Record<string, unknown>)[property];
+    if (value !== undefined) row[column] = value;
+  }
+  return row;
+}
+
+/** DECIMAL columns that must be numbers in entities */
+const NUMERIC_COLUMNS = new Set([
+  'latitude',
+  'longitude',
+  'price_from',
+  'price_to',
+  'local_price_from',
+  'local_price_to',
+]);
@@ -0,0 +1,109 @@
+/**
+ * Review Notifiers
+ *
+ * Tell a physician they have content to review. `getReviewNotifier()`
+ * picks the notifier from REVIEW_NOTIFIER:
+ * - log (default): write the notification to the server log
+ * - webhook: POST the notification as JSON to REVIEW_WEBHOOK_URL, e.g. a
+ *   Slack workflow or an email relay
+ */
+
+import type { ReviewableContentType } from '@/types/healthcare';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ReviewNotification {
+  /** assigned: a new review; reminder: a review still pending */
+  kind: 'assigned' | 'reminder';
+  reviewId: string;
+  projectId: string;
+  practiceName: string;
+  reviewerId?: string;
+  reviewerName: string;
+  contentType: ReviewableContentType;
+  contentId: string;
+  title: string;
+  dueAt?: string;
+  lastReviewedAt?: string;
+}
+
+export interface ReviewNotifier {
+  name: string;
+  notify(notification: ReviewNotification): Promise<void>;
+}
+
+export type ReviewNotifierName = 'log' | 'webhook';
+
+// ============================================================================
+// NOTIFIERS
+// ============================================================================
+
+export function createLogNotifier(): ReviewNotifier {
+  return {
+    name: 'log',
+    async notify(notification) {
+      const verb = notification.kind === 'assigned' ? 'assigned' : 'reminded about';
+      console.info(
+        `[reviews] ${notification.reviewerName} ${verb} "${notification.title}" ` +
+          `(${notification.contentType} ${notification.contentId}) for ${notification.practiceName}` +
+          (notification.dueAt ? `, due ${notification.dueAt}` : '')
+      );
+    },
+  };
+}
+
+export function createWebhookNotifier(url: string): ReviewNotifier {
+  return {
+    name: 'webhook',
+    async notify(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Review webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+let notifier: ReviewNotifier | null = null;
+
+/**
+ * The notifier selected by REVIEW_NOTIFIER, created on first use
+ */
+export function getReviewNotifier(): ReviewNotifier {
+  if (!notifier) {
+    const name = (process.env.REVIEW_NOTIFIER || 'log') as ReviewNotifierName;
+
+    switch (name) {
+      case 'log':
+        notifier = createLogNotifier();
+        break;
+      case 'webhook': {
+        const url = process.env.REVIEW_WEBHOOK_URL;
+        if (!url) throw new Error('REVIEW_WEBHOOK_URL is required when REVIEW_NOTIFIER is webhook');
+        notifier = createWebhookNotifier(url);
+        break;
+      }
+      default:
+        throw new Error(`Unknown REVIEW_NOTIFIER "${name}" - expected log or webhook`);
+    }
+  }
+  return notifier;
+}
+
+/**
+ * Replace the active notifier, e.g. to deliver through another channel
+ */
+export function setReviewNotifier(next: ReviewNotifier | null): void {
+  notifier = next;
+}
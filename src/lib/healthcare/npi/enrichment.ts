@@ -0,0 +1,232 @@
+/**
+ * Credential Enrichment
+ *
+ * Checks a physician profile against the NPI registry and fills in what
+ * the profile leaves blank - credentials, specialties and state licences.
+ * Anything the profile states that the registry contradicts is recorded
+ * as a mismatch for staff to resolve; listed values are never overwritten.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CertificationEntry,
+  CredentialMismatch,
+  NPIRecord,
+  NPIVerificationStatus,
+  PhysicianEnrichmentResult,
+  PhysicianProfile,
+} from '@/types/healthcare';
+import { PHYSICIAN_FIELDS, fromRow, toRow, type DatabaseRow } from '../mappers';
+import type { NPIRegistry } from './registry';
+import { credentialFamily, isValidNpi, normalizeCredentials, normalizeSpecialty, specialtiesMatch } from './taxonomy';
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/** Honorifics and suffixes ignored when comparing names */
+const NAME_NOISE = new Set(['dr', 'mr', 'mrs', 'ms', 'jr', 'sr', 'ii', 'iii', 'iv']);
+
+function nameTokens(name: string): string[] {
+  return name
+    .split(',')[0]
+    .toLowerCase()
+    .split(/[\s.]+/)
+    .map((token) => token.replace(/[^a-z'-]/g, ''))
+    .filter((token) => token && !NAME_NOISE.has(token));
+}
+
+function clinicalFamilies(credentials: string[]): Set<string> {
+  const families = new Set<string>();
+  for (const credential of credentials) {
+    const family = credentialFamily(credential);
+    if (family) families.add(family);
+  }
+  return families;
+}
+
+/**
+ * Credentials listed on a profile - the `credentials` column, or the
+ * suffix of the name ('Michael Chen, MD') when that is empty
+ */
+function listedCredentials(physician: PhysicianProfile): string[] {
+  if (physician.credentials?.trim()) return normalizeCredentials(physician.credentials);
+  const [, suffix] = physician.name.split(/,(.+)/);
+  return normalizeCredentials(suffix);
+}
+
+/**
+ * Differences between a profile and its registry record
+ */
+export function compareWithRegistry(physician: PhysicianProfile, record: NPIRecord): CredentialMismatch[] {
+  const mismatches: CredentialMismatch[] = [];
+
+  if (record.enumerationType !== 'NPI-1') {
+    mismatches.push({
+      field: 'npi',
+      severity: 'error',
+      message: 'The NPI belongs to an organization, not an individual provider',
+      listed: physician.npiNumber,
+      registry: record.lastName,
+    });
+  }
+
+  if (!record.active) {
+    mismatches.push({
+      field: 'status',
+      severity: 'error',
+      message: 'The NPI has been deactivated in the registry',
+      listed: physician.npiNumber,
+    });
+  }
+
+  const registryName = [record.firstName, record.lastName].filter(Boolean).join(' ');
+  const lastName = record.lastName ? nameTokens(record.lastName) : [];
+  const tokens = nameTokens(physician.name);
+  if (lastName.length > 0 && !lastName.every((token) => tokens.includes(token))) {
+    mismatches.push({
+      field: 'name',
+      severity: 'error',
+      message: `The registry lists this NPI for ${registryName}`,
+      listed: physician.name,
+      registry: registryName,
+    });
+  }
+
+  // Only degrees and licences are registered, so FACS and the like are not compared
+  const listed = clinicalFamilies(listedCredentials(physician));
+  const registered = clinicalFamilies(record.credentials);
+  const unregistered = Array.from(listed).filter((family) => !registered.has(family));
+  if (registered.size > 0 && unregistered.length > 0) {
+    mismatches.push({
+      field: 'credentials',
+      severity: 'error',
+      message: `The registry does not list ${unregistered.join(', ')} for this provider`,
+      listed: physician.credentials,
+      registry: record.credentials.join(', '),
+    });
+  }
+
+  // A specialty can be practised without being registered, so only warn
+  const registrySpecialties = record.taxonomies.map((taxonomy) => taxonomy.specialty);
+  const unmatched = (physician.specialties ?? []).filter(
+    (specialty) => !registrySpecialties.some((registered) => specialtiesMatch(specialty, registered))
+  );
+  if (registrySpecialties.length > 0 && unmatched.length > 0) {
+    mismatches.push({
+      field: 'specialties',
+      severity: 'warning',
+      message: `Not among the registered taxonomies: ${unmatched.join(', ')}`,
+      listed: unmatched.join(', '),
+      registry: registrySpecialties.join(', '),
+    });
+  }
+
+  return mismatches;
+}
+
+/**
+ * Verification status from the mismatches found; warnings alone still
+ * count as verified
+ */
+function toStatus(mismatches: CredentialMismatch[]): NPIVerificationStatus {
+  return mismatches.some((mismatch) => mismatch.severity === 'error') ? 'mismatch' : 'verified';
+}
+
+// ============================================================================
+// ENRICHMENT
+// ============================================================================
+
+/**
+ * Profile values the registry can supply where the profile has none
+ */
+function fillFromRegistry(physician: PhysicianProfile, record: NPIRecord): Partial<PhysicianProfile> {
+  const updates: Partial<PhysicianProfile> = {};
+
+  if (!physician.credentials?.trim() && record.credentials.length > 0) {
+    updates.credentials = record.credentials.join(', ');
+  }
+
+  if (!physician.specialties?.length && record.taxonomies.length > 0) {
+    updates.specialties = Array.from(new Set(record.taxonomies.map((taxonomy) => normalizeSpecialty(taxonomy.specialty))));
+  }
+
+  // State licences, unless the profile already lists the same licence number
+  const certifications = physician.certifications ?? [];
+  const listedIds = new Set(certifications.map((certification) => certification.credentialId).filter(Boolean));
+  const licences: CertificationEntry[] = [];
+  for (const taxonomy of record.taxonomies) {
+    if (!taxonomy.license || !taxonomy.state || listedIds.has(taxonomy.license)) continue;
+    listedIds.add(taxonomy.license);
+    licences.push({
+      name: `${taxonomy.specialty} License`,
+      issuer: `${taxonomy.state} State Licensing Board`,
+      credentialId: taxonomy.license,
+    });
+  }
+  if (licences.length > 0) updates.certifications = [...certifications, ...licences];
+
+  return updates;
+}
+
+/**
+ * Look the physician up in the registry, fill in blank credentials,
+ * specialties and licences, and store the verification result
+ */
+export async function enrichPhysician(
+  supabase: SupabaseClient,
+  registry: NPIRegistry,
+  physician: PhysicianProfile
+): Promise<PhysicianEnrichmentResult> {
+  const npi = physician.npiNumber?.trim() ?? '';
+  let record: NPIRecord | null = null;
+  let status: NPIVerificationStatus;
+  let mismatches: CredentialMismatch[] = [];
+  let updates: Partial<PhysicianProfile> = {};
+
+  if (!isValidNpi(npi)) {
+    status = 'invalid';
+    mismatches = [{ field: 'npi', severity: 'error', message: 'The NPI is not a valid 10-digit number', listed: npi }];
+  } else {
+    record = await registry.lookup(npi);
+    if (!record) {
+      status = 'not_found';
+      mismatches = [{ field: 'npi', severity: 'error', message: 'The NPI is not in the registry', listed: npi }];
+    } else {
+      mismatches = compareWithRegistry(physician, record);
+      status = toStatus(mismatches);
+      // Never copy details from a record that belongs to someone else
+      if (!mismatches.some((mismatch) => mismatch.field === 'name' || mismatch.field === 'npi')) {
+        updates = fillFromRegistry(physician, record);
+      }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('physician_profiles')
+    .update(
+      toRow(
+        {
+          ...updates,
+          npiStatus: status,
+          npiVerifiedAt: new Date().toISOString(),
+          npiTaxonomies: record?.taxonomies ?? [],
+          npiMismatches: mismatches,
+        },
+        PHYSICIAN_FIELDS
+      )
+    )
+    .eq('id', physician.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return {
+    physician: fromRow<PhysicianProfile>(data as DatabaseRow, PHYSICIAN_FIELDS),
+    record,
+    status,
+    mismatches,
+    changes: Object.keys(updates) as Array<keyof PhysicianProfile>,
+  };
+}
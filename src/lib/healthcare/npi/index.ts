@@ -0,0 +1,30 @@
+/**
+ * NPI Module
+ *
+ * Physician credential checks against the NPI registry, with specialty
+ * and credential normalization.
+ */
+
+export {
+  CLINICAL_CREDENTIALS,
+  TAXONOMY_SPECIALTIES,
+  credentialFamily,
+  isValidNpi,
+  normalizeCredentials,
+  normalizeSpecialty,
+  specialtiesMatch,
+  taxonomySpecialty,
+} from './taxonomy';
+
+export {
+  createFixtureRegistry,
+  createNppesRegistry,
+  getNpiRegistry,
+  parseNppesResult,
+  setNpiRegistry,
+  type NPIRegistry,
+  type NPIRegistryName,
+  type NppesResult,
+} from './registry';
+
+export { compareWithRegistry, enrichPhysician } from './enrichment';
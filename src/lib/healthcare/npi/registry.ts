@@ -0,0 +1,172 @@
+/**
+ * NPI Registry Adapters
+ *
+ * `getNpiRegistry()` picks the registry from NPI_REGISTRY:
+ * - nppes (default): the CMS NPPES NPI Registry API
+ * - fixture: records from NPI_FIXTURES_PATH, no network - for local
+ *   development and CI
+ *
+ * Both read the NPPES API's result format, so a fixture is a copy of what
+ * the API returned for that NPI.
+ *
+ * Server only - fixtures are read from the file system.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { NPIRecord } from '@/types/healthcare';
+import { normalizeCredentials, taxonomySpecialty } from './taxonomy';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface NPIRegistry {
+  name: string;
+  /** The provider registered under the NPI; null when there is none */
+  lookup(npi: string): Promise<NPIRecord | null>;
+}
+
+export type NPIRegistryName = 'nppes' | 'fixture';
+
+/** A result of the NPPES API, version 2.1 */
+export interface NppesResult {
+  number: string | number;
+  enumeration_type: 'NPI-1' | 'NPI-2';
+  basic?: {
+    first_name?: string;
+    last_name?: string;
+    organization_name?: string;
+    credential?: string;
+    status?: string;
+    last_updated?: string;
+  };
+  taxonomies?: Array<{
+    code: string;
+    desc: string;
+    primary: boolean;
+    state?: string | null;
+    license?: string | null;
+  }>;
+}
+
+const NPPES_API_URL = 'https://npiregistry.cms.hhs.gov/api/';
+const NPPES_TIMEOUT_MS = 10_000;
+const DEFAULT_FIXTURES_PATH = 'fixtures/npi/registry.json';
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function titleCase(name: string | undefined): string | undefined {
+  return name?.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Registry record from an NPPES API result, with specialties normalized
+ */
+export function parseNppesResult(result: NppesResult): NPIRecord {
+  const taxonomies = (result.taxonomies ?? [])
+    .map((taxonomy) => ({
+      code: taxonomy.code,
+      description: taxonomy.desc,
+      specialty: taxonomySpecialty(taxonomy.code, taxonomy.desc),
+      primary: Boolean(taxonomy.primary),
+      state: taxonomy.state || undefined,
+      license: taxonomy.license || undefined,
+    }))
+    // Primary taxonomy first
+    .sort((a, b) => Number(b.primary) - Number(a.primary));
+
+  return {
+    npi: String(result.number),
+    enumerationType: result.enumeration_type,
+    // Only active NPIs are returned by the API; deactivated ones show 'D'
+    active: (result.basic?.status ?? 'A') === 'A',
+    firstName: titleCase(result.basic?.first_name),
+    lastName: titleCase(result.basic?.last_name ?? result.basic?.organization_name),
+    credentials: normalizeCredentials(result.basic?.credential),
+    taxonomies,
+    lastUpdated: result.basic?.last_updated,
+  };
+}
+
+// ============================================================================
+// REGISTRIES
+// ============================================================================
+
+export function createNppesRegistry(baseUrl: string = NPPES_API_URL): NPIRegistry {
+  return {
+    name: 'nppes',
+    async lookup(npi) {
+      const url = new URL(baseUrl);
+      url.searchParams.set('version', '2.1');
+      url.searchParams.set('number', npi);
+
+      const response = await fetch(url, { signal: AbortSignal.timeout(NPPES_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`NPI registry responded with ${response.status}`);
+      }
+
+      const body = (await response.json()) as {
+        results?: NppesResult[];
+        Errors?: Array<{ description: string }>;
+      };
+      if (body.Errors?.length) {
+        throw new Error(`NPI registry error: ${body.Errors.map((error) => error.description).join('; ')}`);
+      }
+
+      const result = body.results?.[0];
+      return result ? parseNppesResult(result) : null;
+    },
+  };
+}
+
+export function createFixtureRegistry(fixturesPath: string): NPIRegistry {
+  let fixtures: Promise<Record<string, NppesResult>> | null = null;
+
+  return {
+    name: 'fixture',
+    async lookup(npi) {
+      fixtures ??= readFile(fixturesPath, 'utf8').then((text) => JSON.parse(text) as Record<string, NppesResult>);
+      const result = (await fixtures)[npi];
+      return result ? parseNppesResult(result) : null;
+    },
+  };
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+let registry: NPIRegistry | null = null;
+
+/**
+ * The registry selected by NPI_REGISTRY, created on first use
+ */
+export function getNpiRegistry(): NPIRegistry {
+  if (!registry) {
+    const name = (process.env.NPI_REGISTRY || 'nppes') as NPIRegistryName;
+
+    switch (name) {
+      case 'nppes':
+        registry = createNppesRegistry();
+        break;
+      case 'fixture':
+        registry = createFixtureRegistry(
+          path.resolve(process.cwd(), process.env.NPI_FIXTURES_PATH || DEFAULT_FIXTURES_PATH)
+        );
+        break;
+      default:
+        throw new Error(`Unknown NPI_REGISTRY "${name}" - expected nppes or fixture`);
+    }
+  }
+  return registry;
+}
+
+/**
+ * Replace the active registry, e.g. with a fixture registry in tests
+ */
+export function setNpiRegistry(next: NPIRegistry | null): void {
+  registry = next;
+}
@@ -0,0 +1,208 @@
+/**
+ * Specialty and Credential Normalization
+ *
+ * The NPI registry describes specialties with NUCC taxonomy codes and
+ * descriptions ('Internal Medicine, Endocrinology, Diabetes & Metabolism'),
+ * while profiles are typed by hand ('Endocrinologist'). Both are reduced to
+ * one specialty name so they can be compared; credentials are normalized
+ * the same way ('M.D.' -> 'MD').
+ */
+
+// ============================================================================
+// TAXONOMY
+// ============================================================================
+
+/**
+ * Specialty names for the NUCC taxonomy codes healthcare practices on the
+ * platform use. Codes not listed fall back to the registry description.
+ *
+ * @see https://taxonomy.nucc.org
+ */
+export const TAXONOMY_SPECIALTIES: Record<string, string> = {
+  '208800000X': 'Urology',
+  '207RE0101X': 'Endocrinology',
+  '207R00000X': 'Internal Medicine',
+  '207Q00000X': 'Family Medicine',
+  '207QB0002X': 'Obesity Medicine',
+  '207RB0002X': 'Obesity Medicine',
+  '207N00000X': 'Dermatology',
+  '207NS0135X': 'Dermatologic Surgery',
+  '208200000X': 'Plastic Surgery',
+  '2084P0800X': 'Psychiatry',
+  '103T00000X': 'Psychology',
+  '101YM0800X': 'Mental Health Counseling',
+  '1041C0700X': 'Clinical Social Work',
+  '122300000X': 'Dentistry',
+  '1223G0001X': 'General Dentistry',
+  '1223X0400X': 'Orthodontics',
+  '1223P0221X': 'Pediatric Dentistry',
+  '225100000X': 'Physical Therapy',
+  '2251S0007X': 'Sports Physical Therapy',
+  '111N00000X': 'Chiropractic',
+  '363L00000X': 'Nurse Practitioner',
+  '363LF0000X': 'Family Nurse Practitioner',
+  '363A00000X': 'Physician Assistant',
+};
+
+/** What people call a specialty -> the specialty name */
+const SPECIALTY_SYNONYMS: Record<string, string> = {
+  urologist: 'Urology',
+  endocrinologist: 'Endocrinology',
+  'endocrinology diabetes metabolism': 'Endocrinology',
+  internist: 'Internal Medicine',
+  'family practice': 'Family Medicine',
+  'family physician': 'Family Medicine',
+  'bariatric medicine': 'Obesity Medicine',
+  'weight management': 'Obesity Medicine',
+  dermatologist: 'Dermatology',
+  'plastic surgeon': 'Plastic Surgery',
+  psychiatrist: 'Psychiatry',
+  psychologist: 'Psychology',
+  dentist: 'Dentistry',
+  'general dentist': 'General Dentistry',
+  orthodontist: 'Orthodontics',
+  'physical therapist': 'Physical Therapy',
+  physiotherapy: 'Physical Therapy',
+  chiropractor: 'Chiropractic',
+  'family nurse practitioner': 'Family Nurse Practitioner',
+  'nurse practitioner family': 'Family Nurse Practitioner',
+  'physician assistant': 'Physician Assistant',
+};
+
+function specialtyKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The specialty name for a hand-typed or registry specialty
+ */
+export function normalizeSpecialty(name: string): string {
+  const key = specialtyKey(name);
+  const synonym = SPECIALTY_SYNONYMS[key];
+  if (synonym) return synonym;
+
+  const listed = Object.values(TAXONOMY_SPECIALTIES).find((specialty) => specialtyKey(specialty) === key);
+  if (listed) return listed;
+
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Specialty of a registry taxonomy - the known name for the code,
+ * otherwise the specialization in 'Classification, Specialization'
+ */
+export function taxonomySpecialty(code: string, description: string): string {
+  const known = TAXONOMY_SPECIALTIES[code.toUpperCase()];
+  if (known) return known;
+
+  const parts = description.split(',').map((part) => part.trim()).filter(Boolean);
+  return normalizeSpecialty(parts[parts.length - 1] ?? description);
+}
+
+/**
+ * Whether two specialty names mean the same thing - equal once normalized,
+ * or one is a narrower form of the other ('Family Nurse Practitioner'
+ * and 'Nurse Practitioner')
+ */
+export function specialtiesMatch(a: string, b: string): boolean {
+  const left = specialtyKey(normalizeSpecialty(a));
+  const right = specialtyKey(normalizeSpecialty(b));
+  if (!left || !right) return false;
+  return left === right || left.includes(right) || right.includes(left);
+}
+
+// ============================================================================
+// CREDENTIALS
+// ============================================================================
+
+/**
+ * Credentials that state a clinical degree or licence - the ones a profile
+ * can claim wrongly. Fellowships and board letters ('FACS') are not
+ * registered and are left out of comparisons.
+ */
+export const CLINICAL_CREDENTIALS = new Set([
+  'MD',
+  'DO',
+  'NP',
+  'FNP',
+  'FNPC',
+  'FNPBC',
+  'APRN',
+  'PA',
+  'PAC',
+  'RN',
+  'DDS',
+  'DMD',
+  'DPT',
+  'PT',
+  'DC',
+  'PHD',
+  'PSYD',
+  'LCSW',
+  'LPC',
+]);
+
+/** Credentials that are the same licence under another name */
+const CREDENTIAL_FAMILIES: Record<string, string> = {
+  FNP: 'NP',
+  FNPC: 'NP',
+  FNPBC: 'NP',
+  APRN: 'NP',
+  PAC: 'PA',
+  DPT: 'PT',
+  DMD: 'DDS',
+};
+
+/**
+ * 'M.D., FACS' -> ['MD', 'FACS']
+ */
+export function normalizeCredentials(credentials: string | undefined): string[] {
+  if (!credentials) return [];
+
+  return credentials
+    .split(/[,;/\s]+/)
+    .map((credential) => credential.toUpperCase().replace(/[^A-Z]/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Licence family of a clinical credential, e.g. 'FNP-C' -> 'NP'; undefined
+ * for credentials that are not clinical
+ */
+export function credentialFamily(credential: string): string | undefined {
+  const normalized = credential.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!CLINICAL_CREDENTIALS.has(normalized)) return undefined;
+  return CREDENTIAL_FAMILIES[normalized] ?? normalized;
+}
+
+// ============================================================================
+// NPI
+// ============================================================================
+
+/**
+ * Whether a number is a well-formed NPI: ten digits with a Luhn check
+ * digit computed over the '80840' health industry prefix
+ *
+ * @see https://www.cms.gov/Regulations-and-Guidance/Administrative-Simplification/NationalProvIdentStand/Downloads/NPIcheckdigit.pdf
+ */
+export function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) return false;
+
+  const digits = `80840${npi.slice(0, 9)}`;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return (10 - (sum % 10)) % 10 === Number(npi[9]);
+}
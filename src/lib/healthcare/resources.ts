@@ -0,0 +1,87 @@
+/**
+ * Healthcare Resources
+ *
+ * The practice-scoped tables exposed by the `/api/healthcare/*` CRUD routes.
+ */
+
+import type {
+  HealthArticle,
+  MedicalService,
+  PhysicianProfile,
+  PracticeLocation,
+  Testimonial,
+} from '@/types/healthcare';
+import { apiError, type PracticeResource } from './api';
+import {
+  ARTICLE_FIELDS,
+  LOCATION_FIELDS,
+  PHYSICIAN_FIELDS,
+  SERVICE_FIELDS,
+  TESTIMONIAL_FIELDS,
+} from './mappers';
+import { REVIEW_MANAGED_ARTICLE_FIELDS, reviewRequiredError, withdrawApprovalOnEdit } from './reviews';
+import { TESTIMONIAL_SOURCE_ADAPTERS, redactTestimonialRow } from './testimonials';
+
+export const LOCATION_RESOURCE: PracticeResource<PracticeLocation> = {
+  table: 'practice_locations',
+  fields: LOCATION_FIELDS,
+  label: 'Location',
+  required: ['name', 'addressLine1', 'city', 'state', 'zip', 'phone'],
+  slugFrom: 'name',
+  orderBy: [{ column: 'is_primary', ascending: false }, { column: 'name' }],
+};
+
+export const SERVICE_RESOURCE: PracticeResource<MedicalService> = {
+  table: 'medical_services',
+  fields: SERVICE_FIELDS,
+  label: 'Service',
+  required: ['name'],
+  slugFrom: 'name',
+  orderBy: [{ column: 'display_order' }, { column: 'name' }],
+  readOnly: ['lastReviewedAt'],
+};
+
+export const ARTICLE_RESOURCE: PracticeResource<HealthArticle> = {
+  table: 'health_articles',
+  fields: ARTICLE_FIELDS,
+  label: 'Article',
+  required: ['title', 'content'],
+  slugFrom: 'title',
+  orderBy: [{ column: 'created_at', ascending: false }],
+  // Articles are published by approving a medical review (see ./reviews)
+  readOnly: REVIEW_MANAGED_ARTICLE_FIELDS,
+  validate: (body) => reviewRequiredError(body.status),
+  prepareRow: withdrawApprovalOnEdit,
+};
+
+export const PHYSICIAN_RESOURCE: PracticeResource<PhysicianProfile> = {
+  table: 'physician_profiles',
+  fields: PHYSICIAN_FIELDS,
+  label: 'Physician',
+  required: ['name'],
+  slugFrom: 'name',
+  orderBy: [{ column: 'name' }],
+  // Set by the NPI registry check (see ./npi)
+  readOnly: ['npiStatus', 'npiVerifiedAt', 'npiTaxonomies', 'npiMismatches'],
+};
+
+export const TESTIMONIAL_RESOURCE: PracticeResource<Testimonial> = {
+  table: 'testimonials',
+  fields: TESTIMONIAL_FIELDS,
+  label: 'Testimonial',
+  required: ['patientName', 'rating', 'content'],
+  orderBy: [{ column: 'display_order' }, { column: 'created_at', ascending: false }],
+  // Testimonials are published through moderation (see ./testimonials)
+  readOnly: ['moderationStatus', 'moderatedBy', 'moderatedAt', 'moderationNote', 'publishedAt', 'importedAt', 'externalId'],
+  validate: (body) => {
+    if ('rating' in body && !(Number.isInteger(body.rating) && body.rating! >= 1 && body.rating! <= 5)) {
+      return apiError('INVALID_RATING', 'Rating must be a whole number from 1 to 5', 400);
+    }
+    if (body.source && !(body.source in TESTIMONIAL_SOURCE_ADAPTERS)) {
+      return apiError('INVALID_SOURCE', `Source must be one of: ${Object.keys(TESTIMONIAL_SOURCE_ADAPTERS).join(', ')}`, 400);
+    }
+    return null;
+  },
+  // Hand-entered testimonials are redacted like imported ones
+  prepareRow: (row, current) => redactTestimonialRow(row, current?.patientName),
+};
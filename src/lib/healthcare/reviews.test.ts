@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { HealthArticle, LocationServicePage } from '@/types/healthcare';
+import { withdrawApprovalOnEdit, withdrawPageApprovalOnEdit } from './reviews';
+
+const APPROVED: HealthArticle = {
+  id: 'article-1',
+  practiceId: 'practice-1',
+  title: 'Managing Seasonal Allergies',
+  slug: 'managing-seasonal-allergies',
+  content: 'Seasonal allergies affect millions of people.',
+  medicalReviewerId: 'physician-1',
+  medicalReviewerName: 'Dr. Ana Ruiz',
+  medicalReviewerCredentials: 'MD',
+  citations: [],
+  status: 'published',
+  publishedAt: '2026-01-05T00:00:00.000Z',
+  lastReviewedAt: '2026-01-05T00:00:00.000Z',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-05T00:00:00.000Z',
+};
+
+const WITHDRAWN = {
+  status: 'draft',
+  medical_reviewer_id: null,
+  medical_reviewer_name: null,
+  medical_reviewer_credentials: null,
+  medical_reviewer_image_url: null,
+};
+
+describe('withdrawApprovalOnEdit', () => {
+  it('takes an approved article back to draft when its content changes', () => {
+    expect(withdrawApprovalOnEdit({ content: 'Allergies can be cured overnight.' }, APPROVED)).toEqual({
+      content: 'Allergies can be cured overnight.',
+      ...WITHDRAWN,
+    });
+    expect(withdrawApprovalOnEdit({ title: 'Allergy Cures' }, APPROVED)).toMatchObject(WITHDRAWN);
+    expect(withdrawApprovalOnEdit({ citations: [{ title: 'Study' }] }, APPROVED)).toMatchObject(WITHDRAWN);
+  });
+
+  it('keeps the approval for edits outside the reviewed content', () => {
+    const row = { tags: ['allergies'], meta_title: 'Seasonal Allergies', title: APPROVED.title };
+    expect(withdrawApprovalOnEdit(row, APPROVED)).toEqual(row);
+  });
+
+  it('leaves drafts and new articles alone', () => {
+    const draft: HealthArticle = {
+      ...APPROVED,
+      status: 'draft',
+      medicalReviewerId: undefined,
+      medicalReviewerName: undefined,
+      medicalReviewerCredentials: undefined,
+    };
+    expect(withdrawApprovalOnEdit({ content: 'New text' }, draft)).toEqual({ content: 'New text' });
+    expect(withdrawApprovalOnEdit({ content: 'New text' }, null)).toEqual({ content: 'New text' });
+  });
+});
+
+describe('withdrawPageApprovalOnEdit', () => {
+  const PUBLISHED: LocationServicePage = {
+    id: 'page-1',
+    locationId: 'location-1',
+    serviceId: 'service-1',
+    slug: 'austin/allergy-testing',
+    h1Heading: 'Allergy Testing in Austin',
+    content: '<p>Same-day allergy testing.</p>',
+    faqs: [{ question: 'Does testing hurt?', answer: 'Skin tests feel like a light scratch.' }],
+    status: 'published',
+    publishedAt: '2026-01-05T00:00:00.000Z',
+    lastReviewedAt: '2026-01-05T00:00:00.000Z',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-05T00:00:00.000Z',
+  };
+
+  it('takes a published page back to draft when its content or FAQs change', () => {
+    expect(withdrawPageApprovalOnEdit({ content: '<p>Cures allergies.</p>' }, PUBLISHED)).toEqual({
+      content: '<p>Cures allergies.</p>',
+      status: 'draft',
+    });
+    expect(
+      withdrawPageApprovalOnEdit({ faqs: [...PUBLISHED.faqs, { question: 'Is it safe?', answer: 'Always.' }] }, PUBLISHED)
+    ).toMatchObject({ status: 'draft' });
+  });
+
+  it('keeps the approval for unchanged content, other fields and drafts', () => {
+    const row = { content: PUBLISHED.content, meta_title: 'Allergy Testing | Austin' };
+    expect(withdrawPageApprovalOnEdit(row, PUBLISHED)).toEqual(row);
+    expect(withdrawPageApprovalOnEdit({ content: 'New' }, { ...PUBLISHED, status: 'draft' })).toEqual({ content: 'New' });
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * Content Reviews
+ *
+ * Medical review workflow for YMYL content. Health articles and local
+ * service pages are never published directly: an editor requests a review
+ * from one of the practice's physicians, comments are collected on the
+ * review, and approving it publishes the content with the reviewer and
+ * review date recorded. Rejecting it sends the content back to draft.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NextResponse } from 'next/server';
+import type {
+  APIErrorResponse,
+  ContentReview,
+  ContentReviewComment,
+  ContentReviewReason,
+  ContentReviewStatus,
+  ContentStatus,
+  HealthArticle,
+  LocationServicePage,
+  PhysicianProfile,
+  ReviewableContentType,
+} from '@/types/healthcare';
+import { apiError, getPracticeId, getPracticeLocationIds } from './api';
+import {
+  ARTICLE_FIELDS,
+  CONTENT_REVIEW_COMMENT_FIELDS,
+  CONTENT_REVIEW_FIELDS,
+  LOCATION_SERVICE_PAGE_FIELDS,
+  PHYSICIAN_FIELDS,
+  fromRow,
+  type DatabaseRow,
+  type FieldMap,
+} from './mappers';
+import type { ReviewNotification, ReviewNotifier } from './notifiers';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The content a review is about
+ */
+export interface ReviewableContent {
+  type: ReviewableContentType;
+  id: string;
+  practiceId: string;
+  title: string;
+  status: ContentStatus;
+  publishedAt?: string;
+}
+
+export interface ReviewFilters {
+  status?: ContentReviewStatus;
+  contentType?: ReviewableContentType;
+  contentId?: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const REVIEWABLE_CONTENT_TYPES: ReviewableContentType[] = [
+  'health_article',
+  'location_service_page',
+  'medical_service',
+];
+
+const CONTENT_TABLES: Record<ReviewableContentType, string> = {
+  health_article: 'health_articles',
+  location_service_page: 'location_service_pages',
+  medical_service: 'medical_services',
+};
+
+/**
+ * Article properties only the review workflow writes - the CRUD routes
+ * ignore them so a reviewer can't be claimed without an approval
+ */
+export const REVIEW_MANAGED_ARTICLE_FIELDS = [
+  'publishedAt',
+  'lastReviewedAt',
+  'medicalReviewerId',
+  'medicalReviewerName',
+  'medicalReviewerCredentials',
+  'medicalReviewerImageUrl',
+] as const;
+
+/**
+ * Article properties a medical review approves - changing them on an
+ * approved article withdraws the approval
+ */
+export const REVIEWED_ARTICLE_FIELDS = ['title', 'excerpt', 'content', 'citations'] as const;
+
+/**
+ * Local service page properties a medical review approves - changing them
+ * on a published page withdraws the approval
+ */
+export const REVIEWED_LOCATION_PAGE_FIELDS = ['h1Heading', 'content', 'faqs'] as const;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Error for a request that sets a status only the review workflow may
+ * set; null when the status can be written directly. Moving content back
+ * to draft (unpublishing) is always allowed.
+ */
+export function reviewRequiredError(status: unknown): NextResponse<APIErrorResponse> | null {
+  if (status !== 'review' && status !== 'published') return null;
+  return apiError(
+    'REVIEW_REQUIRED',
+    'Medical content is published by approving a review. Request a review from a physician instead.',
+    409
+  );
+}
+
+/**
+ * Columns for an article update. Changing reviewed content of an approved
+ * article takes it back to draft and clears the reviewer, so the edit is
+ * not published under the earlier approval; approving a new review
+ * publishes it again.
+ */
+export function withdrawApprovalOnEdit(row: DatabaseRow, current: HealthArticle | null): DatabaseRow {
+  const approved = Boolean(current && (current.status === 'published' || current.medicalReviewerId || current.medicalReviewerName));
+  if (!current || !approved) return row;
+  if (!changesReviewedFields(row, current, REVIEWED_ARTICLE_FIELDS, ARTICLE_FIELDS)) return row;
+
+  return {
+    ...row,
+    status: 'draft',
+    medical_reviewer_id: null,
+    medical_reviewer_name: null,
+    medical_reviewer_credentials: null,
+    medical_reviewer_image_url: null,
+  };
+}
+
+/**
+ * Columns for a local service page update. Changing reviewed content of a
+ * published page takes it back to draft, like `withdrawApprovalOnEdit`
+ * does for articles.
+ */
+export function withdrawPageApprovalOnEdit(
+  row: DatabaseRow,
+  current: Pick<LocationServicePage, 'status' | (typeof REVIEWED_LOCATION_PAGE_FIELDS)[number]> | null
+): DatabaseRow {
+  if (current?.status !== 'published') return row;
+  if (!changesReviewedFields(row, current, REVIEWED_LOCATION_PAGE_FIELDS, LOCATION_SERVICE_PAGE_FIELDS)) return row;
+  return { ...row, status: 'draft' };
+}
+
+function changesReviewedFields<T, K extends keyof T>(
+  row: DatabaseRow,
+  current: Pick<T, K>,
+  fields: readonly K[],
+  fieldMap: FieldMap<T>
+): boolean {
+  return fields.some((field) => {
+    const column = fieldMap[field];
+    return column in row && JSON.stringify(row[column] ?? null) !== JSON.stringify(current[field] ?? null);
+  });
+}
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+/**
+ * Load reviewable content, checking it belongs to the project's practice;
+ * null when it does not exist
+ */
+export async function loadReviewableContent(
+  supabase: SupabaseClient,
+  projectId: string,
+  type: ReviewableContentType,
+  id: string
+): Promise<ReviewableContent | null> {
+  const practiceId = await getPracticeId(supabase, projectId);
+  if (!practiceId) return null;
+
+  if (type === 'health_article') {
+    const { data, error } = await supabase
+      .from('health_articles')
+      .select('id, title, status, published_at')
+      .eq('id', id)
+      .eq('practice_id', practiceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return {
+      type,
+      id: data.id,
+      practiceId,
+      title: data.title,
+      status: data.status,
+      publishedAt: data.published_at ?? undefined,
+    };
+  }
+
+  // Service pages have no draft state - a service is live once it exists
+  if (type === 'medical_service') {
+    const { data, error } = await supabase
+      .from('medical_services')
+      .select('id, name')
+      .eq('id', id)
+      .eq('practice_id', practiceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return { type, id: data.id, practiceId, title: data.name, status: 'published' };
+  }
+
+  const locationIds = await getPracticeLocationIds(supabase, projectId);
+  if (locationIds.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from('location_service_pages')
+    .select('id, slug, h1_heading, status, published_at')
+    .eq('id', id)
+    .in('location_id', locationIds)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    type,
+    id: data.id,
+    practiceId,
+    title: data.h1_heading || data.slug,
+    status: data.status,
+    publishedAt: data.published_at ?? undefined,
+  };
+}
+
+async function updateContent(
+  supabase: SupabaseClient,
+  content: ReviewableContent,
+  changes: DatabaseRow
+): Promise<void> {
+  const { error } = await supabase.from(CONTENT_TABLES[content.type]).update(changes).eq('id', content.id);
+  if (error) throw error;
+}
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+export async function listReviews(
+  supabase: SupabaseClient,
+  practiceId: string,
+  filters: ReviewFilters = {}
+): Promise<ContentReview[]> {
+  let query = supabase.from('content_reviews').select('*').eq('practice_id', practiceId);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.contentType) query = query.eq('content_type', filters.contentType);
+  if (filters.contentId) query = query.eq('content_id', filters.contentId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+
+  return (data as DatabaseRow[]).map((row) => fromRow<ContentReview>(row, CONTENT_REVIEW_FIELDS));
+}
+
+export async function getReview(
+  supabase: SupabaseClient,
+  practiceId: string,
+  reviewId: string
+): Promise<ContentReview | null> {
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .eq('practice_id', practiceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow<ContentReview>(data as DatabaseRow, CONTENT_REVIEW_FIELDS) : null;
+}
+
+export async function listReviewComments(
+  supabase: SupabaseClient,
+  reviewId: string
+): Promise<ContentReviewComment[]> {
+  const { data, error } = await supabase
+    .from('content_review_comments')
+    .select('*')
+    .eq('review_id', reviewId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data as DatabaseRow[]).map((row) => fromRow<ContentReviewComment>(row, CONTENT_REVIEW_COMMENT_FIELDS));
+}
+
+/**
+ * Assign a physician to review the content. Drafts move to `review`;
+ * published content stays live while it is re-reviewed.
+ */
+export async function requestReview(
+  supabase: SupabaseClient,
+  content: ReviewableContent,
+  reviewer: PhysicianProfile,
+  userId: string,
+  options: { reason?: ContentReviewReason; dueAt?: string } = {}
+): Promise<ContentReview> {
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .insert({
+      practice_id: content.practiceId,
+      content_type: content.type,
+      content_id: content.id,
+      reviewer_id: reviewer.id,
+      reviewer_name: reviewer.name,
+      reviewer_credentials: reviewer.credentials ?? null,
+      reason: options.reason ?? 'requested',
+      due_at: options.dueAt ?? null,
+      requested_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (content.status === 'draft') {
+    await updateContent(supabase, content, { status: 'review' });
+  }
+
+  return fromRow<ContentReview>(data as DatabaseRow, CONTENT_REVIEW_FIELDS);
+}
+
+export async function addReviewComment(
+  supabase: SupabaseClient,
+  review: ContentReview,
+  author: { id: string; name: string },
+  body: string
+): Promise<ContentReviewComment> {
+  const { data, error } = await supabase
+    .from('content_review_comments')
+    .insert({ review_id: review.id, author_id: author.id, author_name: author.name, body })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRow<ContentReviewComment>(data as DatabaseRow, CONTENT_REVIEW_COMMENT_FIELDS);
+}
+
+/**
+ * Close a pending review. Approving publishes the content and records
+ * the reviewer and review date on it; rejecting or cancelling sends
+ * content that was waiting for review back to draft. Null when the
+ * review was no longer pending.
+ */
+export async function closeReview(
+  supabase: SupabaseClient,
+  review: ContentReview,
+  content: ReviewableContent,
+  options: { status: Exclude<ContentReviewStatus, 'pending'>; userId: string; note?: string }
+): Promise<ContentReview | null> {
+  const now = new Date().toISOString();
+
+  // The approval must exist before the content is published - the
+  // database refuses to publish content without one
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .update({
+      status: options.status,
+      decided_by: options.userId,
+      decided_at: now,
+      decision_note: options.note ?? null,
+    })
+    .eq('id', review.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  if (options.status === 'approved') {
+    const changes: DatabaseRow = { last_reviewed_at: now };
+
+    if (content.type !== 'medical_service') {
+      changes.status = 'published';
+      changes.published_at = content.publishedAt ?? now;
+    }
+    if (content.type === 'health_article') {
+      const reviewer = review.reviewerId ? await getPhysician(supabase, review.reviewerId) : null;
+      changes.medical_reviewer_id = review.reviewerId ?? null;
+      changes.medical_reviewer_name = review.reviewerName;
+      changes.medical_reviewer_credentials = review.reviewerCredentials ?? null;
+      changes.medical_reviewer_image_url = reviewer?.imageUrl ?? null;
+    }
+
+    await updateContent(supabase, content, changes);
+  } else if (content.status === 'review') {
+    await updateContent(supabase, content, { status: 'draft' });
+  }
+
+  return fromRow<ContentReview>(data as DatabaseRow, CONTENT_REVIEW_FIELDS);
+}
+
+/**
+ * Tell the reviewer about a pending review and record when they were told,
+ * so reminders can be spaced out
+ */
+export async function notifyReviewer(
+  supabase: SupabaseClient,
+  notifier: ReviewNotifier,
+  review: ContentReview,
+  details: Pick<ReviewNotification, 'kind' | 'projectId' | 'title' | 'lastReviewedAt'> & { practiceName?: string },
+  now: Date = new Date()
+): Promise<void> {
+  const practiceName = details.practiceName ?? (await getPracticeName(supabase, review.practiceId));
+
+  await notifier.notify({
+    ...details,
+    practiceName,
+    reviewId: review.id,
+    reviewerId: review.reviewerId,
+    reviewerName: review.reviewerName,
+    contentType: review.contentType,
+    contentId: review.contentId,
+    dueAt: review.dueAt,
+  });
+
+  const { error } = await supabase
+    .from('content_reviews')
+    .update({ last_notified_at: now.toISOString(), notification_count: review.notificationCount + 1 })
+    .eq('id', review.id);
+  if (error) throw error;
+}
+
+async function getPracticeName(supabase: SupabaseClient, practiceId: string): Promise<string> {
+  const { data, error } = await supabase.from('medical_practices').select('name').eq('id', practiceId).maybeSingle();
+  if (error) throw error;
+  return data?.name ?? '';
+}
+
+// ============================================================================
+// REVIEWERS
+// ============================================================================
+
+async function getPhysician(supabase: SupabaseClient, id: string): Promise<PhysicianProfile | null> {
+  const { data, error } = await supabase.from('physician_profiles').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? fromRow<PhysicianProfile>(data as DatabaseRow, PHYSICIAN_FIELDS) : null;
+}
+
+/**
+ * The physician who approved an article, for the MedicalReviewer
+ * component; null for articles that were never approved
+ */
+export async function getArticleReviewer(
+  supabase: SupabaseClient,
+  article: { medicalReviewerId?: string }
+): Promise<PhysicianProfile | null> {
+  return article.medicalReviewerId ? getPhysician(supabase, article.medicalReviewerId) : null;
+}
@@ -0,0 +1,338 @@
+/**
+ * Template Instantiation
+ *
+ * Turns a healthcare template and the answers to its setup wizard into a
+ * working project: the practice, its locations, the selected services with
+ * their treatment options, the medical director's physician profile and a
+ * page skeleton with one page for every page the template declares.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildNavigation, createPage, createSiteFromPages, type SiteModel } from '@/lib/builder';
+import type {
+  HealthcareTemplate,
+  MedicalPractice,
+  MedicalService,
+  PhysicianProfile,
+  PracticeLocation,
+  TemplateSetupRequest,
+  TemplateSetupResult,
+  TreatmentOption,
+} from '@/types/healthcare';
+import { uniqueSlug } from './generation';
+import {
+  LOCATION_FIELDS,
+  PHYSICIAN_FIELDS,
+  PRACTICE_FIELDS,
+  SERVICE_FIELDS,
+  TREATMENT_OPTION_FIELDS,
+  fromRow,
+  toRow,
+  type DatabaseRow,
+  type FieldMap,
+} from './mappers';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const US_STATE = /^[A-Z]{2}$/;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * What is wrong with a setup request for the template, or null when it
+ * can be instantiated
+ */
+export function validateTemplateSetup(template: HealthcareTemplate, setup: TemplateSetupRequest): string | null {
+  if (!setup.practice?.name?.trim()) return 'Enter the practice name';
+  if (!Array.isArray(setup.locations)) return 'locations must be a list';
+  if (!Array.isArray(setup.services?.selected)) return 'services.selected must be a list of service slugs';
+
+  const minimumLocations = template.setupWizard.find((step) => step.fields.includes('locations_array'))?.minimum ?? 0;
+  const { locations } = setup;
+  if (locations.length < minimumLocations) {
+    return `Add at least ${minimumLocations} location${minimumLocations === 1 ? '' : 's'}`;
+  }
+
+  for (const [index, location] of locations.entries()) {
+    const missing = (['name', 'addressLine1', 'city', 'state', 'zip', 'phone'] as const).filter(
+      (field) => !location[field]?.trim()
+    );
+    if (missing.length > 0) return `Location ${index + 1} is missing: ${missing.join(', ')}`;
+    if (!US_STATE.test(location.state.trim().toUpperCase())) {
+      return `Location ${index + 1}: use the two-letter state code`;
+    }
+  }
+
+  const offered = new Set(template.defaultServices.map((service) => service.slug));
+  const unknown = setup.services.selected.filter((slug) => !offered.has(slug));
+  if (unknown.length > 0) return `The ${template.name} template does not offer: ${unknown.join(', ')}`;
+
+  const custom = setup.services.custom ?? [];
+  if (custom.some((service) => !service.name?.trim())) return 'Name every custom service';
+  if (setup.services.selected.length + custom.length === 0) return 'Choose at least one service';
+
+  if (setup.director && !setup.director.name?.trim()) return "Enter the medical director's name";
+
+  for (const color of [setup.branding?.primaryColor, setup.branding?.secondaryColor]) {
+    if (color && !HEX_COLOR.test(color)) return `${color} is not a hex color like #1E40AF`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+async function insertRows<T>(
+  supabase: SupabaseClient,
+  table: string,
+  rows: DatabaseRow[],
+  fields: FieldMap<T>
+): Promise<T[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase.from(table).insert(rows).select();
+  if (error) throw error;
+  return (data as DatabaseRow[]).map((row) => fromRow<T>(row, fields));
+}
+
+/**
+ * Services to create: the template's selected defaults in template order,
+ * then the custom ones
+ */
+function planServices(template: HealthcareTemplate, setup: TemplateSetupRequest) {
+  const selected = new Set(setup.services.selected);
+  const taken = new Set<string>();
+
+  const defaults = template.defaultServices
+    .filter((service) => selected.has(service.slug))
+    .map((service) => {
+      taken.add(service.slug);
+      return { ...service, treatments: service.treatments ?? [] };
+    });
+
+  const custom = (setup.services.custom ?? []).map((service) => {
+    const slug = uniqueSlug(service.name, taken);
+    taken.add(slug);
+    return {
+      name: service.name.trim(),
+      slug,
+      category: service.category,
+      treatments: (service.treatments ?? []).map((name) => name.trim()).filter(Boolean),
+    };
+  });
+
+  return [...defaults, ...custom];
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+/**
+ * The project's site with a page for every template page. Pages the
+ * project already has keep their markup.
+ */
+export function scaffoldTemplatePages(
+  template: HealthcareTemplate,
+  siteName: string,
+  existing?: SiteModel
+): SiteModel {
+  if (!existing?.pages?.length) return createSiteFromPages(siteName, template.pages);
+
+  const paths = new Set(existing.pages.map((page) => page.path));
+  const added = template.pages
+    .map((definition) => createPage(definition, '', siteName))
+    .filter((page) => !paths.has(page.path));
+
+  const pages = [...existing.pages, ...added];
+  return { ...existing, pages, navigation: buildNavigation(pages) };
+}
+
+// ============================================================================
+// INSTANTIATION
+// ============================================================================
+
+/**
+ * Create the practice and everything the template seeds for it, and
+ * store the page skeleton, branding and domain in the project settings.
+ * Nothing is kept when a step fails, so the setup can be submitted again.
+ */
+export async function instantiateTemplate(
+  supabase: SupabaseClient,
+  project: { id: string; name: string; settings?: Record<string, unknown> | null },
+  template: HealthcareTemplate,
+  setup: TemplateSetupRequest
+): Promise<TemplateSetupResult> {
+  const director = setup.director?.name?.trim() ? setup.director : undefined;
+
+  const { data: practiceRow, error: practiceError } = await supabase
+    .from('medical_practices')
+    .insert({
+      ...toRow<MedicalPractice>(
+        {
+          name: setup.practice.name.trim(),
+          specialty: setup.practice.specialty ?? template.subCategory,
+          yearEstablished: setup.practice.yearEstablished,
+          medicalDirectorName: director?.name.trim(),
+          medicalDirectorCredentials: director?.credentials?.trim() || undefined,
+          medicalDirectorBio: director?.bio?.trim() || undefined,
+          medicalDirectorImageUrl: director?.imageUrl?.trim() || undefined,
+        },
+        PRACTICE_FIELDS
+      ),
+      project_id: project.id,
+    })
+    .select()
+    .single();
+
+  if (practiceError) throw practiceError;
+  const practice = fromRow<MedicalPractice>(practiceRow as DatabaseRow, PRACTICE_FIELDS);
+
+  try {
+    const locationSlugs = new Set<string>();
+    const locations = await insertRows<PracticeLocation>(
+      supabase,
+      'practice_locations',
+      setup.locations.map((location, index) => {
+        const slug = uniqueSlug(location.city || location.name, locationSlugs);
+        locationSlugs.add(slug);
+        return {
+          ...toRow<PracticeLocation>(
+            {
+              name: location.name.trim(),
+              slug,
+              addressLine1: location.addressLine1.trim(),
+              addressLine2: location.addressLine2?.trim() || undefined,
+              city: location.city.trim(),
+              state: location.state.trim().toUpperCase(),
+              zip: location.zip.trim(),
+              phone: location.phone.trim(),
+              email: location.email?.trim() || setup.practice.email?.trim() || undefined,
+              isPrimary: index === 0,
+            },
+            LOCATION_FIELDS
+          ),
+          practice_id: practice.id,
+        };
+      }),
+      LOCATION_FIELDS
+    );
+
+    const plannedServices = planServices(template, setup);
+    const services = await insertRows<MedicalService>(
+      supabase,
+      'medical_services',
+      plannedServices.map((service, index) => ({
+        ...toRow<MedicalService>(
+          { name: service.name, slug: service.slug, category: service.category, displayOrder: index },
+          SERVICE_FIELDS
+        ),
+        practice_id: practice.id,
+      })),
+      SERVICE_FIELDS
+    );
+
+    const treatmentRows: DatabaseRow[] = [];
+    for (const service of services) {
+      const treatments = plannedServices.find((planned) => planned.slug === service.slug)?.treatments ?? [];
+      const slugs = new Set<string>();
+      treatments.forEach((name, index) => {
+        const slug = uniqueSlug(name, slugs);
+        slugs.add(slug);
+        treatmentRows.push({
+          ...toRow<TreatmentOption>({ name, slug, displayOrder: index }, TREATMENT_OPTION_FIELDS),
+          service_id: service.id,
+        });
+      });
+    }
+    const treatmentOptions = await insertRows<TreatmentOption>(
+      supabase,
+      'treatment_options',
+      treatmentRows,
+      TREATMENT_OPTION_FIELDS
+    );
+
+    // Every location offers every service until the practice says otherwise
+    const offerings = locations.flatMap((location) =>
+      services.map((service) => ({ location_id: location.id, service_id: service.id, is_available: true }))
+    );
+    if (offerings.length > 0) {
+      const { error } = await supabase.from('location_services').insert(offerings);
+      if (error) throw error;
+    }
+
+    const physicians = director
+      ? await insertRows<PhysicianProfile>(
+          supabase,
+          'physician_profiles',
+          [
+            {
+              ...toRow<PhysicianProfile>(
+                {
+                  name: director.name.trim(),
+                  slug: uniqueSlug(director.name, []),
+                  credentials: director.credentials?.trim() || undefined,
+                  title: 'Medical Director',
+                  npiNumber: director.npiNumber?.trim() || undefined,
+                  bio: director.bio?.trim() || undefined,
+                  imageUrl: director.imageUrl?.trim() || undefined,
+                  specialties: director.specialties?.map((name) => name.trim()).filter(Boolean),
+                  locations: locations.map((location) => location.id),
+                  services: services.map((service) => service.id),
+                },
+                PHYSICIAN_FIELDS
+              ),
+              practice_id: practice.id,
+            },
+          ],
+          PHYSICIAN_FIELDS
+        )
+      : [];
+
+    const settings = project.settings ?? {};
+    const site = scaffoldTemplatePages(template, practice.name, settings.site as SiteModel | undefined);
+    const { branding = {}, deployment = {} } = setup;
+
+    const { error: projectError } = await supabase
+      .from('projects')
+      .update({
+        template_id: template.id,
+        settings: {
+          ...settings,
+          site,
+          industry: 'healthcare',
+          specialty: practice.specialty,
+          businessName: practice.name,
+          ...(setup.practice.phone?.trim() && { phone: setup.practice.phone.trim() }),
+          ...(setup.practice.email?.trim() && { email: setup.practice.email.trim() }),
+          ...(branding.logoUrl && { logoUrl: branding.logoUrl }),
+          ...(branding.primaryColor && { primaryColor: branding.primaryColor }),
+          ...(branding.secondaryColor && { secondaryColor: branding.secondaryColor }),
+          ...((branding.headingFont || branding.bodyFont) && {
+            fonts: { heading: branding.headingFont, body: branding.bodyFont },
+          }),
+          ...(deployment.domain?.trim() && { domain: deployment.domain.trim().toLowerCase() }),
+          ...(deployment.subdomain?.trim() && { subdomain: deployment.subdomain.trim().toLowerCase() }),
+          ...(deployment.ssl !== undefined && { ssl: deployment.ssl }),
+        },
+      })
+      .eq('id', project.id);
+    if (projectError) throw projectError;
+
+    return {
+      practice,
+      locations,
+      services,
+      treatmentOptions,
+      physicians,
+      pages: site.pages.map((page) => page.path),
+    };
+  } catch (error) {
+    // Locations, services, treatments and physicians cascade with the practice
+    await supabase.from('medical_practices').delete().eq('id', practice.id);
+    throw error;
+  }
+}
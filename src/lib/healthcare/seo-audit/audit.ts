@@ -0,0 +1,431 @@
+/**
+ * Site SEO Audit
+ *
+ * Runs the SEO audit engine (`AuditRunner`) over every page of a project's
+ * site, crawled from the homepage so site-level checks (broken links, orphan
+ * pages, sitemap coverage) run too, and folds the results into the
+ * `SEOAuditResult` shown on the SEO dashboard: one issue per failing check
+ * with the pages it fails on, and a score per dashboard category.
+ *
+ * Server-only: pages are rendered through the static export, which pulls in
+ * the Tailwind compiler, so this module is not re-exported from the
+ * client-safe index.
+ */
+
+import type { SiteModel } from '@/lib/builder';
+import { exportStaticSite } from '@/lib/export';
+import {
+  AuditRunner,
+  crawlPages,
+  getCheckById,
+  getCheckCategories,
+  getSiteCheckById,
+  parseSitemap,
+  type AuditCheckCategory,
+  type AuditCheckResult,
+  type AuditContext,
+  type AuditResults,
+  type CustomCheckDefinition,
+} from '@/lib/seo/audit';
+import type { BusinessProfile } from '@/lib/seo/schema/types';
+import type {
+  SEOAuditResult,
+  SEOCategoryResult,
+  SEOIssue,
+  SEOIssueCategory,
+  SEORecommendation,
+} from '@/types/healthcare';
+import { toBusinessInfo, type PracticeContext } from '../generation';
+import { CATEGORY_WEIGHTS } from './scoring';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SEOBreakdownKey = keyof SEOAuditResult['breakdown'];
+
+export interface AuditPage {
+  path: string;
+  url: string;
+  /** Published HTML of the page, as written by the static export */
+  html: string;
+}
+
+export interface SiteAuditPages {
+  origin: string;
+  pages: AuditPage[];
+  /** URLs in the exported sitemap.xml */
+  sitemapUrls: string[];
+  /** Dynamic pages (e.g. /treatments/[service]) that have no HTML of their own */
+  skipped: string[];
+}
+
+export interface SiteAuditOptions {
+  /** Public origin of the site, e.g. 'https://example.com' */
+  baseUrl: string;
+  /** Check categories to run */
+  categories: AuditCheckCategory[];
+  /** Practice records; without them local checks run without business details */
+  practice?: PracticeContext | null;
+  /** The workspace's custom checks, run with the built-ins of their category */
+  customChecks?: CustomCheckDefinition[];
+}
+
+export interface SiteAuditRun {
+  /** Dashboard summary */
+  summary: SEOAuditResult;
+  /** Raw results of every page and site check */
+  results: AuditResults;
+}
+
+// ============================================================================
+// SCOPES
+// ============================================================================
+
+/**
+ * Categories run by the named audit scopes. A quick audit covers the
+ * on-page basics; individual categories can also be listed, comma separated.
+ */
+export const AUDIT_SCOPES: Record<'full' | 'quick', AuditCheckCategory[]> = {
+  full: getCheckCategories(),
+  quick: ['technical', 'local', 'schema'],
+};
+
+/**
+ * Categories for a `scope` parameter ('full', 'quick' or e.g.
+ * 'technical,schema'); null when it names an unknown category
+ */
+export function parseAuditScope(scope: string | null): AuditCheckCategory[] | null {
+  const value = scope?.trim() || 'full';
+  if (value === 'full' || value === 'quick') return AUDIT_SCOPES[value];
+
+  const known = getCheckCategories();
+  const categories = value.split(',').map((category) => category.trim()).filter(Boolean);
+  if (categories.length === 0 || categories.some((category) => !known.includes(category as AuditCheckCategory))) {
+    return null;
+  }
+
+  return known.filter((category) => categories.includes(category));
+}
+
+// ============================================================================
+// CATEGORY MAPPING
+// ============================================================================
+
+/** Dashboard category each check category is reported under */
+const BREAKDOWN_KEYS: Record<AuditCheckCategory, SEOBreakdownKey> = {
+  technical: 'technical',
+  content: 'content',
+  'ai-search': 'content',
+  local: 'localSeo',
+  schema: 'schema',
+  eeat: 'eeat',
+};
+
+const ISSUE_CATEGORIES: Record<SEOBreakdownKey, SEOIssueCategory> = {
+  technical: 'technical',
+  content: 'content',
+  localSeo: 'local_seo',
+  schema: 'schema',
+  eeat: 'eeat',
+};
+
+/** Fixes the platform can apply for a check */
+const AUTO_FIX_ACTIONS: Record<string, string> = {
+  'service-areas': '/api/healthcare/generate-local-pages',
+};
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+/**
+ * Organization details for the exported JSON-LD, taken from the practice
+ */
+function toBusinessProfile(projectId: string, baseUrl: string, practice: PracticeContext): BusinessProfile {
+  const business = toBusinessInfo(practice);
+  return {
+    id: projectId,
+    name: practice.practice.name,
+    industry: 'healthcare',
+    specialty: practice.practice.specialty,
+    phone: business.phone,
+    email: practice.locations[0]?.email,
+    website: baseUrl,
+    foundingDate: practice.practice.yearEstablished ? String(practice.practice.yearEstablished) : undefined,
+  };
+}
+
+/**
+ * The site's pages as they are published - rendered by the static export
+ * with meta description, canonical link and JSON-LD
+ */
+export function collectAuditPages(
+  site: SiteModel,
+  projectId: string,
+  baseUrl: string,
+  practice?: PracticeContext | null
+): SiteAuditPages {
+  const origin = baseUrl.replace(/\/+$/, '');
+  const { files, pages, skipped } = exportStaticSite(site, {
+    baseUrl: origin,
+    business: practice ? toBusinessProfile(projectId, origin, practice) : undefined,
+  });
+  const sitemap = files.find((file) => file.path === 'sitemap.xml');
+
+  return {
+    origin,
+    sitemapUrls: sitemap ? parseSitemap(String(sitemap.content)).urls : [],
+    pages: pages.map((page) => ({
+      path: page.path,
+      url: page.path === '/' ? `${origin}/` : `${origin}${page.path}`,
+      html: String(files.find((file) => file.path === page.file)?.content ?? ''),
+    })),
+    skipped,
+  };
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Crawl the pages from the homepage and run the page and site checks
+ */
+export async function auditPages(
+  { origin, pages, sitemapUrls }: SiteAuditPages,
+  options: Pick<SiteAuditOptions, 'categories' | 'practice' | 'customChecks'>
+): Promise<AuditResults> {
+  const runner = new AuditRunner({
+    categories: options.categories,
+    customChecks: options.customChecks,
+    checkLocal: true,
+    checkEEAT: true,
+    industry: 'healthcare',
+  });
+
+  let business: AuditContext['business'];
+  if (options.practice) {
+    const info = toBusinessInfo(options.practice);
+    business = {
+      name: info.name,
+      address: [info.address, info.city, info.state].filter(Boolean).join(', ') || undefined,
+      phone: info.phone || undefined,
+      industry: 'healthcare',
+    };
+  }
+
+  const crawl = await crawlPages(pages, { startUrl: `${origin}/`, sitemapUrls });
+  return runner.runSite(crawl, { business });
+}
+
+function toPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+function toImpact(weight: number): SEOIssue['impact'] {
+  if (weight >= 8) return 'high';
+  if (weight >= 5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Effort grows as check weight falls - heavy checks cover common,
+ * well-understood fixes (see generateRecommendation in the audit engine)
+ */
+function toEffort(weight: number): SEOIssue['effort'] {
+  const effort = Math.max(1, Math.min(10, 11 - weight));
+  if (effort <= 3) return 'low';
+  if (effort <= 6) return 'medium';
+  return 'high';
+}
+
+/**
+ * One issue for a check that did not pass - on some pages, or once for a
+ * site check. A check that only produced warnings is reported as a warning
+ * even if it is critical.
+ */
+function toIssue(checkId: string, failures: AuditCheckResult[], pageCount: number): SEOIssue {
+  const [result] = failures;
+  const check = getCheckById(checkId) ?? getSiteCheckById(checkId);
+  const anyFailed = failures.some((failure) => failure.status === 'failed');
+  const allInfo = failures.every((failure) => failure.status === 'info');
+
+  let type: SEOIssue['type'] = result.severity;
+  if (allInfo) type = 'info';
+  else if (!anyFailed && type === 'critical') type = 'warning';
+
+  const details = Array.from(new Set(failures.map((failure) => failure.details).filter(Boolean)));
+  const scope = result.scope === 'page' && pageCount > 1 ? ` on ${failures.length} of ${pageCount} pages` : '';
+  const affectedUrls = failures.flatMap((failure) => (failure.scope === 'site' ? failure.affectedUrls ?? [] : [failure.url ?? '']));
+  const autoFixAction = AUTO_FIX_ACTIONS[checkId];
+
+  return {
+    id: checkId,
+    type,
+    category: ISSUE_CATEGORIES[BREAKDOWN_KEYS[result.category]],
+    code: checkId.toUpperCase().replace(/-/g, '_'),
+    title: result.checkName,
+    description: `${check?.description ?? result.checkName} - not met${scope}.${
+      details.length ? ` ${details.slice(0, 3).join('; ')}.` : ''
+    }`,
+    affectedPages: Array.from(new Set(affectedUrls.filter(Boolean).map(toPath))),
+    howToFix: result.fix ?? check?.description ?? result.checkName,
+    autoFixAvailable: Boolean(autoFixAction),
+    autoFixAction,
+    impact: toImpact(result.weight),
+    effort: toEffort(result.weight),
+    learnMoreUrl: check?.docsUrl,
+  };
+}
+
+/**
+ * Category score as the share of check weight that passed across all
+ * pages, with pass/fail/warning counts per check
+ */
+function toCategoryResult(
+  key: SEOBreakdownKey,
+  results: AuditCheckResult[],
+  issues: SEOIssue[]
+): SEOCategoryResult {
+  const counted = results.filter((result) => result.status !== 'skipped');
+  const totalWeight = counted.reduce((sum, result) => sum + result.weight, 0);
+  const passedWeight = counted.filter((result) => result.passed).reduce((sum, result) => sum + result.weight, 0);
+  const checkIds = Array.from(new Set(counted.map((result) => result.checkId)));
+  const categoryIssues = issues.filter((issue) => issue.category === ISSUE_CATEGORIES[key]);
+
+  return {
+    score: totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 100) : 100,
+    weight: CATEGORY_WEIGHTS[key],
+    passed: checkIds.filter((id) => !categoryIssues.some((issue) => issue.id === id)).length,
+    failed: categoryIssues.filter((issue) => issue.type === 'critical').length,
+    warnings: categoryIssues.filter((issue) => issue.type === 'warning').length,
+    issues: categoryIssues,
+  };
+}
+
+/**
+ * Prioritized recommendations: critical issues, then automatic fixes,
+ * then high-impact, low-effort improvements
+ */
+function generateRecommendations(issues: SEOIssue[]): SEORecommendation[] {
+  const recommendations: SEORecommendation[] = [];
+
+  // Critical issues first
+  const criticalIssues = issues.filter((i) => i.type === 'critical');
+  if (criticalIssues.length > 0) {
+    recommendations.push({
+      priority: 1,
+      title: 'Fix critical SEO issues',
+      description: `You have ${criticalIssues.length} critical issue(s) that need immediate attention. These are severely impacting your search visibility.`,
+      expectedImpact: 'High - fixing these will significantly improve search rankings',
+      relatedIssues: criticalIssues.map((i) => i.id),
+    });
+  }
+
+  // Auto-fixable issues
+  const autoFixable = issues.filter((i) => i.autoFixAvailable);
+  if (autoFixable.length > 0) {
+    recommendations.push({
+      priority: 2,
+      title: 'Apply automatic fixes',
+      description: `${autoFixable.length} issue(s) can be automatically fixed. This is a quick win to improve your SEO score.`,
+      expectedImpact: 'Medium - quick improvements with minimal effort',
+      relatedIssues: autoFixable.map((i) => i.id),
+    });
+  }
+
+  // High impact, low effort
+  const quickWins = issues.filter((i) => i.impact === 'high' && i.effort === 'low');
+  if (quickWins.length > 0) {
+    recommendations.push({
+      priority: 3,
+      title: 'Address quick wins',
+      description: `${quickWins.length} high-impact, low-effort improvement(s) available. These provide the best ROI for your time.`,
+      expectedImpact: 'High - significant improvement with minimal time investment',
+      relatedIssues: quickWins.map((i) => i.id),
+    });
+  }
+
+  return recommendations;
+}
+
+/**
+ * Fold a site audit into the dashboard's audit result. The overall score is
+ * weighted over the categories that ran.
+ */
+export function summarizeSiteAudit(projectId: string, results: AuditResults): SEOAuditResult {
+  const failures = new Map<string, AuditCheckResult[]>();
+  const byKey: Record<SEOBreakdownKey, AuditCheckResult[]> = {
+    technical: [],
+    content: [],
+    localSeo: [],
+    schema: [],
+    eeat: [],
+  };
+
+  for (const result of results.checks) {
+    byKey[BREAKDOWN_KEYS[result.category]].push(result);
+    if (result.passed || result.status === 'skipped') continue;
+    failures.set(result.checkId, [...(failures.get(result.checkId) ?? []), result]);
+  }
+
+  const pageCount = results.pages?.length ?? 1;
+  const severityOrder: Record<SEOIssue['type'], number> = { critical: 0, warning: 1, info: 2 };
+  const issues = Array.from(failures.entries())
+    .map(([checkId, failed]) => toIssue(checkId, failed, pageCount))
+    .sort((a, b) => severityOrder[a.type] - severityOrder[b.type]);
+
+  const breakdown = {
+    technical: toCategoryResult('technical', byKey.technical, issues),
+    content: toCategoryResult('content', byKey.content, issues),
+    localSeo: toCategoryResult('localSeo', byKey.localSeo, issues),
+    schema: toCategoryResult('schema', byKey.schema, issues),
+    eeat: toCategoryResult('eeat', byKey.eeat, issues),
+  };
+
+  let totalWeight = 0;
+  let weightedScore = 0;
+  for (const key of Object.keys(breakdown) as SEOBreakdownKey[]) {
+    if (!byKey[key].some((result) => result.status !== 'skipped')) continue;
+    totalWeight += breakdown[key].weight;
+    weightedScore += breakdown[key].score * breakdown[key].weight;
+  }
+
+  return {
+    score: totalWeight > 0 ? Math.round(weightedScore / totalWeight) : 100,
+    timestamp: new Date().toISOString(),
+    projectId,
+    breakdown,
+    issues,
+    recommendations: generateRecommendations(issues),
+  };
+}
+
+/**
+ * Audit every published page of a site; null when the site has no pages
+ * that can be audited
+ */
+export async function runSiteAudit(
+  projectId: string,
+  site: SiteModel,
+  options: SiteAuditOptions
+): Promise<SiteAuditRun | null> {
+  const collected = collectAuditPages(site, projectId, options.baseUrl, options.practice);
+  if (collected.pages.length === 0) return null;
+
+  const results = await auditPages(collected, options);
+
+  return {
+    summary: {
+      ...summarizeSiteAudit(projectId, results),
+      pages: collected.pages.map((page) => page.path),
+      skippedPages: collected.skipped,
+    },
+    results,
+  };
+}
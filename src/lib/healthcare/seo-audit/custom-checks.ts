@@ -0,0 +1,148 @@
+/**
+ * Workspace Custom Audit Checks
+ *
+ * Declarative checks (see `@/lib/seo/audit/custom-checks`) stored in
+ * `custom_audit_checks`. They belong to the account that owns the projects
+ * - its workspace - and every enabled one runs in each audit of its
+ * projects, scored with the built-in checks of its category.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CustomCheckDefinition } from '@/lib/seo/audit';
+import { fromRow, toRow, type DatabaseRow, type FieldMap } from '../mappers';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Stored custom check */
+export interface CustomAuditCheck extends CustomCheckDefinition {
+  id: string;
+  userId: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomAuditCheckInput = CustomCheckDefinition & { enabled?: boolean };
+
+export const CUSTOM_AUDIT_CHECK_FIELDS: FieldMap<CustomAuditCheck> = {
+  id: 'id',
+  userId: 'user_id',
+  key: 'key',
+  name: 'name',
+  description: 'description',
+  category: 'category',
+  weight: 'weight',
+  severity: 'severity',
+  fix: 'fix',
+  rule: 'rule',
+  enabled: 'enabled',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+/** Properties request bodies may not write */
+const READ_ONLY: Array<keyof CustomAuditCheck> = ['id', 'userId', 'createdAt', 'updatedAt'];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function toWritableRow(input: Partial<CustomAuditCheck>): DatabaseRow {
+  const writable = { ...input };
+  for (const field of READ_ONLY) {
+    delete writable[field];
+  }
+  return toRow(writable, CUSTOM_AUDIT_CHECK_FIELDS);
+}
+
+// ============================================================================
+// CUSTOM CHECKS
+// ============================================================================
+
+/**
+ * Custom checks of a workspace, in key order
+ */
+export async function listCustomChecks(
+  supabase: SupabaseClient,
+  userId: string,
+  { enabledOnly = false }: { enabledOnly?: boolean } = {}
+): Promise<CustomAuditCheck[]> {
+  let query = supabase.from('custom_audit_checks').select('*').eq('user_id', userId);
+  if (enabledOnly) query = query.eq('enabled', true);
+
+  const { data, error } = await query.order('key');
+  if (error) throw error;
+  return (data as DatabaseRow[]).map((row) => fromRow<CustomAuditCheck>(row, CUSTOM_AUDIT_CHECK_FIELDS));
+}
+
+export async function getCustomCheck(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<CustomAuditCheck | null> {
+  const { data, error } = await supabase
+    .from('custom_audit_checks')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow<CustomAuditCheck>(data as DatabaseRow, CUSTOM_AUDIT_CHECK_FIELDS) : null;
+}
+
+/**
+ * Store a custom check; validate it with `validateCustomCheck` first
+ */
+export async function createCustomCheck(
+  supabase: SupabaseClient,
+  userId: string,
+  input: CustomAuditCheckInput
+): Promise<CustomAuditCheck> {
+  const { data, error } = await supabase
+    .from('custom_audit_checks')
+    .insert({ ...toWritableRow(input), user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRow<CustomAuditCheck>(data as DatabaseRow, CUSTOM_AUDIT_CHECK_FIELDS);
+}
+
+/**
+ * Update a custom check; the merged check should be validated first
+ */
+export async function updateCustomCheck(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  changes: Partial<CustomAuditCheck>
+): Promise<CustomAuditCheck | null> {
+  const { data, error } = await supabase
+    .from('custom_audit_checks')
+    .update(toWritableRow(changes))
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow<CustomAuditCheck>(data as DatabaseRow, CUSTOM_AUDIT_CHECK_FIELDS) : null;
+}
+
+/**
+ * Delete a custom check; false when it does not exist
+ */
+export async function deleteCustomCheck(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('custom_audit_checks')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
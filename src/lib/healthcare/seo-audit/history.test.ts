@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getCategoryTrend } from '@/lib/seo/audit';
+import { toTrendPoints, type SEOAuditRunSummary } from './history';
+import { AUDIT_SCOPES } from './audit';
+
+function run(
+  createdAt: string,
+  categories: SEOAuditRunSummary['categories'],
+  score: number,
+  categoryScores: SEOAuditRunSummary['categoryScores']
+): SEOAuditRunSummary {
+  return {
+    id: createdAt,
+    projectId: 'project-1',
+    userId: 'user-1',
+    baseUrl: 'https://example.com',
+    categories,
+    score,
+    status: 'warning',
+    categoryScores,
+    pageCount: 3,
+    regressions: [],
+    createdAt,
+  };
+}
+
+describe('toTrendPoints', () => {
+  // Newest first, as listed
+  const runs = [
+    run('2026-03-03', AUDIT_SCOPES.full, 70, { technical: 80, content: 60 }),
+    run('2026-03-02', AUDIT_SCOPES.quick, 90, { technical: 85 }),
+    run('2026-03-01', AUDIT_SCOPES.full, 65, { technical: 75, content: 55 }),
+  ];
+
+  it('charts overall scores only for runs of the newest run categories', () => {
+    const points = toTrendPoints(runs);
+
+    expect(getCategoryTrend(points, 'overall')).toEqual([
+      { timestamp: '2026-03-01', score: 65 },
+      { timestamp: '2026-03-03', score: 70 },
+    ]);
+  });
+
+  it('charts category scores of every run', () => {
+    const points = toTrendPoints(runs);
+
+    expect(getCategoryTrend(points, 'technical').map((point) => point.score)).toEqual([75, 85, 80]);
+    expect(getCategoryTrend(points, 'content').map((point) => point.score)).toEqual([55, 60]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * SEO Audit History
+ *
+ * Stores each site audit run in `seo_audits` with its full `AuditResults`
+ * and dashboard summary. When a run is saved it is compared with the
+ * project's previous run of the same categories, and the checks that
+ * regressed are stored with it. Overall scores of runs with other
+ * categories (a 'quick' run after 'full' ones) are not comparable, so
+ * they are neither compared nor charted together.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  detectRegressions,
+  getCategoryScores,
+  type AuditCheckCategory,
+  type AuditResults,
+  type AuditTrendPoint,
+  type CheckChange,
+} from '@/lib/seo/audit';
+import type { SEOAuditResult } from '@/types/healthcare';
+import { fromRow, type DatabaseRow, type FieldMap } from '../mappers';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const MAX_HISTORY_LIMIT = 100;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Stored audit run without its results, as listed in the history */
+export interface SEOAuditRunSummary {
+  id: string;
+  projectId: string;
+  userId: string;
+  /** Previous run of the same categories; the regressions were detected against it */
+  previousAuditId?: string;
+  baseUrl: string;
+  categories: AuditCheckCategory[];
+  score: number;
+  status: AuditResults['status'];
+  /** Score per check category that ran */
+  categoryScores: Partial<Record<AuditCheckCategory, number>>;
+  pageCount: number;
+  /** Checks that passed in the previous run and fail in this one */
+  regressions: CheckChange[];
+  createdAt: string;
+}
+
+/** Stored audit run */
+export interface SEOAuditRun extends SEOAuditRunSummary {
+  results: AuditResults;
+  summary: SEOAuditResult;
+}
+
+export interface SaveAuditRunOptions {
+  projectId: string;
+  userId: string;
+  baseUrl: string;
+  categories: AuditCheckCategory[];
+  results: AuditResults;
+  summary: SEOAuditResult;
+}
+
+const SEO_AUDIT_SUMMARY_FIELDS: FieldMap<SEOAuditRunSummary> = {
+  id: 'id',
+  projectId: 'project_id',
+  userId: 'user_id',
+  previousAuditId: 'previous_audit_id',
+  baseUrl: 'base_url',
+  categories: 'categories',
+  score: 'score',
+  status: 'status',
+  categoryScores: 'category_scores',
+  pageCount: 'page_count',
+  regressions: 'regressions',
+  createdAt: 'created_at',
+};
+
+const SEO_AUDIT_FIELDS: FieldMap<SEOAuditRun> = {
+  ...SEO_AUDIT_SUMMARY_FIELDS,
+  results: 'results',
+  summary: 'summary',
+};
+
+const SUMMARY_COLUMNS = Object.values(SEO_AUDIT_SUMMARY_FIELDS).join(', ');
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+export function clampHistoryLimit(value: string | null): number {
+  const limit = parseInt(value || '', 10);
+  return Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_HISTORY_LIMIT) : DEFAULT_HISTORY_LIMIT;
+}
+
+/**
+ * Audit runs of a project, newest first
+ */
+export async function listAuditRuns(
+  supabase: SupabaseClient,
+  projectId: string,
+  limit = DEFAULT_HISTORY_LIMIT
+): Promise<SEOAuditRunSummary[]> {
+  const { data, error } = await supabase
+    .from('seo_audits')
+    .select(SUMMARY_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return ((data ?? []) as unknown as DatabaseRow[]).map((row) =>
+    fromRow<SEOAuditRunSummary>(row, SEO_AUDIT_SUMMARY_FIELDS)
+  );
+}
+
+/**
+ * One audit run with its results
+ */
+export async function getAuditRun(
+  supabase: SupabaseClient,
+  projectId: string,
+  auditId: string
+): Promise<SEOAuditRun | null> {
+  const { data, error } = await supabase
+    .from('seo_audits')
+    .select('*')
+    .eq('id', auditId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow<SEOAuditRun>(data as DatabaseRow, SEO_AUDIT_FIELDS) : null;
+}
+
+/**
+ * The project's most recent audit run with its results, optionally the
+ * most recent one that covered exactly `categories`
+ */
+export async function getLatestAuditRun(
+  supabase: SupabaseClient,
+  projectId: string,
+  categories?: AuditCheckCategory[]
+): Promise<SEOAuditRun | null> {
+  let query = supabase.from('seo_audits').select('*').eq('project_id', projectId);
+  if (categories) query = query.contains('categories', categories).containedBy('categories', categories);
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(1).maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow<SEOAuditRun>(data as DatabaseRow, SEO_AUDIT_FIELDS) : null;
+}
+
+/**
+ * Store an audit run, with the checks that regressed since the project's
+ * previous run
+ */
+export async function saveAuditRun(supabase: SupabaseClient, options: SaveAuditRunOptions): Promise<SEOAuditRun> {
+  const { projectId, results } = options;
+  const previous = await getLatestAuditRun(supabase, projectId, options.categories);
+
+  const { data, error } = await supabase
+    .from('seo_audits')
+    .insert({
+      project_id: projectId,
+      user_id: options.userId,
+      previous_audit_id: previous?.id ?? null,
+      base_url: options.baseUrl,
+      categories: options.categories,
+      score: results.score,
+      status: results.status,
+      category_scores: getCategoryScores(results),
+      page_count: results.pages?.length ?? 1,
+      results,
+      summary: options.summary,
+      regressions: previous ? detectRegressions(previous.results, results) : [],
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRow<SEOAuditRun>(data as DatabaseRow, SEO_AUDIT_FIELDS);
+}
+
+function sameCategories(a: AuditCheckCategory[], b: AuditCheckCategory[]): boolean {
+  return a.length === b.length && a.every((category) => b.includes(category));
+}
+
+/**
+ * Trend chart points for listed runs (newest first), oldest first. Every
+ * run charts its category scores; only runs of the newest run's
+ * categories chart an overall score.
+ */
+export function toTrendPoints(runs: SEOAuditRunSummary[]): AuditTrendPoint[] {
+  const charted = runs[0]?.categories ?? [];
+  return runs
+    .map((run) => ({
+      timestamp: run.createdAt,
+      ...(sameCategories(run.categories, charted) && { score: run.score }),
+      categories: run.categoryScores,
+    }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
@@ -0,0 +1,216 @@
+/**
+ * Physician Profile Pages
+ *
+ * Page data for a practice template's `/team/[physician]` page: the
+ * resolved path, meta tags, breadcrumbs and a `Physician` JSON-LD block
+ * built from the profile, checked with `validateSchema` before it is
+ * rendered.
+ */
+
+import { truncateText } from '@/lib/prompts/healthcare';
+import { validateSchema, type ValidationResult } from '@/lib/seo/schema/validator';
+import { getTemplatesBySpecialty, healthcareTemplates } from '@/lib/templates/healthcare';
+import type {
+  HealthcareTemplate,
+  MedicalService,
+  PhysicianProfile,
+  PracticeLocation,
+} from '@/types/healthcare';
+import { stripMarkdown, type PracticeContext } from './generation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface PhysicianPage {
+  templateId: string;
+  /** Template page the data is for, e.g. '/team/[physician]' */
+  templatePath: string;
+  /** Resolved page path, e.g. '/team/michael-chen' */
+  path: string;
+  url?: string;
+  h1: string;
+  metaTitle: string;
+  metaDescription: string;
+  breadcrumbs: Array<{ name: string; path: string }>;
+  physician: PhysicianProfile;
+  locations: PracticeLocation[];
+  services: MedicalService[];
+  schema: Record<string, unknown>;
+  validation: ValidationResult;
+}
+
+export interface PhysicianPageOptions {
+  /** Public origin of the site, e.g. 'https://example.com'; URLs are left out without it */
+  baseUrl?: string;
+}
+
+export const PHYSICIAN_PAGE_PATH = '/team/[physician]';
+
+const META_TITLE_LENGTH = 60;
+const META_DESCRIPTION_LENGTH = 160;
+
+// ============================================================================
+// PAGE DATA
+// ============================================================================
+
+/**
+ * Template for the practice's specialty, or the first template
+ */
+function selectTemplate(context: PracticeContext): HealthcareTemplate {
+  const [template] = context.practice.specialty ? getTemplatesBySpecialty(context.practice.specialty) : [];
+  return template ?? healthcareTemplates[0];
+}
+
+function displayName(physician: PhysicianProfile): string {
+  const credentials = physician.credentials?.trim();
+  return credentials && !physician.name.includes(',') ? `${physician.name}, ${credentials}` : physician.name;
+}
+
+/**
+ * Page data for a physician's profile page
+ */
+export function buildPhysicianPage(
+  context: PracticeContext,
+  physician: PhysicianProfile,
+  options: PhysicianPageOptions = {}
+): PhysicianPage {
+  const template = selectTemplate(context);
+  const templatePage = template.pages.find((page) => page.path === PHYSICIAN_PAGE_PATH);
+  if (!templatePage) {
+    throw new Error(`The ${template.name} template has no physician profile page`);
+  }
+
+  const path = PHYSICIAN_PAGE_PATH.replace('[physician]', physician.slug);
+  const teamPage = template.pages.find((page) => page.path === '/team');
+  const baseUrl = options.baseUrl?.replace(/\/+$/, '');
+
+  // Profiles without locations or services work at all of them
+  const locations = physician.locations?.length
+    ? context.locations.filter((location) => physician.locations!.includes(location.id))
+    : context.locations;
+  const services = physician.services?.length
+    ? context.services.filter((service) => physician.services!.includes(service.id))
+    : [];
+
+  const name = displayName(physician);
+  const specialties = physician.specialties ?? [];
+  const role = physician.title || specialties[0] || 'Provider';
+  const city = locations[0]?.city;
+
+  const summary = physician.bio
+    ? stripMarkdown(physician.bio).replace(/\s+/g, ' ').trim()
+    : `${name} is a ${role.toLowerCase()} at ${context.practice.name}${city ? ` in ${city}` : ''}.`;
+
+  const schema = buildPhysicianSchema(context, physician, {
+    url: baseUrl ? `${baseUrl}${path}` : undefined,
+    baseUrl,
+    description: summary,
+    location: locations.find((location) => location.isPrimary) ?? locations[0],
+    services,
+  });
+
+  return {
+    templateId: template.id,
+    templatePath: templatePage.path,
+    path,
+    url: baseUrl ? `${baseUrl}${path}` : undefined,
+    h1: name,
+    metaTitle: truncateText(`${name} - ${role} | ${context.practice.name}`, META_TITLE_LENGTH),
+    metaDescription: truncateText(physician.metaDescription || summary, META_DESCRIPTION_LENGTH),
+    breadcrumbs: [
+      { name: 'Home', path: '/' },
+      { name: teamPage?.name ?? 'Our Team', path: '/team' },
+      { name: physician.name, path },
+    ],
+    physician,
+    locations,
+    services,
+    schema,
+    validation: validateSchema(schema),
+  };
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+function buildPhysicianSchema(
+  { practice }: PracticeContext,
+  physician: PhysicianProfile,
+  details: {
+    url?: string;
+    baseUrl?: string;
+    description: string;
+    location?: PracticeLocation;
+    services: MedicalService[];
+  }
+): Record<string, unknown> {
+  const { location } = details;
+
+  const credentials = [
+    ...(physician.certifications ?? []).map((certification) => ({
+      '@type': 'EducationalOccupationalCredential',
+      credentialCategory: /licen[cs]e/i.test(certification.name) ? 'license' : 'certification',
+      name: certification.name,
+      recognizedBy: { '@type': 'Organization', name: certification.issuer },
+    })),
+    ...(physician.education ?? [])
+      .filter((entry) => entry.degree)
+      .map((entry) => ({
+        '@type': 'EducationalOccupationalCredential',
+        credentialCategory: 'degree',
+        name: entry.field ? `${entry.degree}, ${entry.field}` : entry.degree,
+        recognizedBy: { '@type': 'EducationalOrganization', name: entry.institution },
+      })),
+  ];
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Physician',
+    ...(details.url && { '@id': `${details.url}#physician`, url: details.url }),
+    name: displayName(physician),
+    ...(physician.imageUrl && { image: physician.imageUrl }),
+    ...(physician.title && { jobTitle: physician.title }),
+    description: truncateText(details.description, 500),
+    ...(physician.specialties?.length && { medicalSpecialty: physician.specialties }),
+    worksFor: {
+      '@type': 'MedicalOrganization',
+      name: practice.name,
+      ...(details.baseUrl && { url: details.baseUrl }),
+    },
+    ...(location && {
+      address: {
+        '@type': 'PostalAddress',
+        streetAddress: [location.addressLine1, location.addressLine2].filter(Boolean).join(', '),
+        addressLocality: location.city,
+        addressRegion: location.state,
+        postalCode: location.zip,
+        addressCountry: location.country,
+      },
+      telephone: location.phone,
+    }),
+    isAcceptingNewPatients: physician.acceptingPatients,
+    // Only publish an NPI the registry has confirmed
+    ...(physician.npiNumber &&
+      physician.npiStatus === 'verified' && {
+        identifier: { '@type': 'PropertyValue', propertyID: 'NPI', value: physician.npiNumber },
+      }),
+    ...(physician.education?.length && {
+      alumniOf: physician.education.map((entry) => ({ '@type': 'EducationalOrganization', name: entry.institution })),
+    }),
+    ...(credentials.length > 0 && { hasCredential: credentials }),
+    ...(physician.memberships?.length && {
+      memberOf: physician.memberships.map((membership) => ({ '@type': 'Organization', name: membership })),
+    }),
+    ...(details.services.length > 0 && {
+      availableService: details.services.map((service) => ({
+        '@type': 'MedicalProcedure',
+        name: service.name,
+        ...(service.shortDescription && { description: service.shortDescription }),
+        ...(details.baseUrl && { url: `${details.baseUrl}/treatments/${service.slug}` }),
+      })),
+    }),
+    ...(physician.languages?.length && { knowsLanguage: physician.languages }),
+  };
+}
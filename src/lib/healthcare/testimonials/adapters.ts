@@ -0,0 +1,260 @@
+/**
+ * Review Source Adapters
+ *
+ * Each platform exports reviews with its own field names and rating
+ * scale. An adapter lists where each testimonial property can be found
+ * in that platform's CSV columns or JSON objects (first match wins,
+ * compared without case, spaces or punctuation; dots reach into nested
+ * JSON) and turns a record into an `ImportedReview`.
+ */
+
+import type { TestimonialSource } from '@/types/healthcare';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ReviewRecord = Record<string, unknown>;
+
+/**
+ * A review read from an export, before redaction
+ */
+export interface ImportedReview {
+  externalId?: string;
+  authorName: string;
+  authorLocation?: string;
+  rating: number;
+  title?: string;
+  content: string;
+  treatmentReceived?: string;
+  reviewedAt?: string;
+  sourceUrl?: string;
+  verified: boolean;
+}
+
+export interface TestimonialSourceAdapter {
+  source: TestimonialSource;
+  label: string;
+  /** Candidate keys for each property, most specific first */
+  fields: Partial<Record<keyof ImportedReview, string[]>>;
+  /** Whether the platform only accepts reviews from confirmed patients */
+  verifiedByDefault: boolean;
+  /** The review records in a parsed JSON export */
+  unwrap?: (json: unknown) => unknown;
+  /** Rating from a record with no star rating, e.g. a recommendation */
+  fallbackRating?: (record: ReviewRecord) => number | undefined;
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+const unwrapReviews = (json: unknown) =>
+  json && typeof json === 'object' && !Array.isArray(json) && 'reviews' in json
+    ? (json as { reviews: unknown }).reviews
+    : json;
+
+export const TESTIMONIAL_SOURCE_ADAPTERS: Record<TestimonialSource, TestimonialSourceAdapter> = {
+  // Business Profile API reviews and review export spreadsheets
+  google: {
+    source: 'google',
+    label: 'Google',
+    fields: {
+      externalId: ['reviewId', 'review id'],
+      authorName: ['reviewer.displayName', 'reviewer', 'reviewer name', 'author', 'name'],
+      rating: ['starRating', 'star rating', 'rating', 'stars'],
+      content: ['comment', 'review', 'review text', 'text'],
+      reviewedAt: ['createTime', 'date', 'review date', 'published'],
+      sourceUrl: ['reviewUrl', 'review url', 'link', 'url'],
+    },
+    verifiedByDefault: false,
+    unwrap: unwrapReviews,
+  },
+  healthgrades: {
+    source: 'healthgrades',
+    label: 'Healthgrades',
+    fields: {
+      externalId: ['review id', 'id'],
+      authorName: ['patient name', 'reviewer name', 'reviewer', 'name'],
+      authorLocation: ['patient location', 'location'],
+      rating: ['overall rating', 'overall', 'rating', 'stars'],
+      title: ['title', 'headline'],
+      content: ['comments', 'comment', 'review', 'review text'],
+      treatmentReceived: ['visit reason', 'reason for visit', 'treatment'],
+      reviewedAt: ['review date', 'submitted', 'date'],
+      sourceUrl: ['review url', 'url'],
+      verified: ['verified', 'verified patient'],
+    },
+    verifiedByDefault: false,
+    unwrap: unwrapReviews,
+  },
+  // Graph API page ratings: recommendations carry no stars
+  facebook: {
+    source: 'facebook',
+    label: 'Facebook',
+    fields: {
+      externalId: ['open_graph_story.id', 'id', 'review id'],
+      authorName: ['reviewer.name', 'reviewer', 'name'],
+      rating: ['rating', 'stars'],
+      content: ['review_text', 'review text', 'recommendation', 'review'],
+      reviewedAt: ['created_time', 'date'],
+      sourceUrl: ['url', 'link'],
+    },
+    verifiedByDefault: false,
+    unwrap: (json) =>
+      json && typeof json === 'object' && 'data' in json ? (json as { data: unknown }).data : json,
+    fallbackRating: (record) => {
+      const recommendation = String(findValue(record, ['recommendation_type', 'recommendation type']) ?? '');
+      if (/^positive$/i.test(recommendation)) return 5;
+      if (/^negative$/i.test(recommendation)) return 1;
+      return undefined;
+    },
+  },
+  // Fusion API reviews and business owner exports
+  yelp: {
+    source: 'yelp',
+    label: 'Yelp',
+    fields: {
+      externalId: ['id', 'review id'],
+      authorName: ['user.name', 'user', 'reviewer', 'name'],
+      authorLocation: ['user.location', 'location'],
+      rating: ['rating', 'stars'],
+      content: ['text', 'review', 'comment'],
+      reviewedAt: ['time_created', 'date'],
+      sourceUrl: ['url'],
+    },
+    verifiedByDefault: false,
+    unwrap: unwrapReviews,
+  },
+  // Patient surveys collected by the practice
+  internal: {
+    source: 'internal',
+    label: 'Practice survey',
+    fields: {
+      externalId: ['id', 'response id', 'submission id'],
+      authorName: ['patientName', 'patient name', 'name'],
+      authorLocation: ['patientLocation', 'patient location', 'city'],
+      rating: ['rating', 'score'],
+      title: ['title'],
+      content: ['content', 'review', 'comments', 'feedback'],
+      treatmentReceived: ['treatmentReceived', 'treatment received', 'treatment', 'service'],
+      reviewedAt: ['date', 'submitted', 'submitted at', 'created at'],
+      verified: ['verified'],
+    },
+    verifiedByDefault: true,
+    unwrap: unwrapReviews,
+  },
+};
+
+export function getTestimonialSourceAdapter(source: TestimonialSource): TestimonialSourceAdapter | undefined {
+  return TESTIMONIAL_SOURCE_ADAPTERS[source];
+}
+
+// ============================================================================
+// RECORD READING
+// ============================================================================
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function lookup(record: unknown, key: string): unknown {
+  if (!record || typeof record !== 'object') return undefined;
+
+  const wanted = normalizeKey(key);
+  const match = Object.keys(record).find((candidate) => normalizeKey(candidate) === wanted);
+  return match === undefined ? undefined : (record as ReviewRecord)[match];
+}
+
+/**
+ * First non-blank scalar value under one of the keys
+ */
+function findValue(record: ReviewRecord, keys: string[] = []): unknown {
+  for (const key of keys) {
+    // A flat column named like the path ('reviewer.name') wins over nesting
+    let value = lookup(record, key);
+    if (value === undefined && key.includes('.')) {
+      value = key.split('.').reduce<unknown>((current, part) => lookup(current, part), record);
+    }
+    if (value !== undefined && value !== null && typeof value !== 'object' && String(value).trim() !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function findString(record: ReviewRecord, keys?: string[]): string | undefined {
+  const value = findValue(record, keys);
+  return value === undefined ? undefined : String(value).trim();
+}
+
+const RATING_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+/**
+ * A 1-5 star rating from '4', '4.5', '4/5', '5 stars' or 'FIVE'
+ */
+export function parseRating(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const text = String(value).trim().toLowerCase();
+  const word = RATING_WORDS[text];
+  if (word) return word;
+
+  const match = text.match(/^(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?))?/);
+  if (!match) return undefined;
+
+  const scale = match[2] ? Number(match[2]) : 5;
+  const rating = Math.round((Number(match[1]) / scale) * 5);
+  return rating >= 1 && rating <= 5 ? rating : undefined;
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === undefined) return undefined;
+  return /^(true|yes|y|1|verified)$/i.test(String(value).trim());
+}
+
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  // Unix timestamps in seconds, as some APIs export them
+  const date = /^\d{9,10}$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * The records of a parsed JSON export
+ */
+export function unwrapJsonRecords(adapter: TestimonialSourceAdapter, json: unknown): ReviewRecord[] {
+  const records = adapter.unwrap ? adapter.unwrap(json) : json;
+  if (!Array.isArray(records)) {
+    throw new Error(`Expected a list of ${adapter.label} reviews`);
+  }
+  return records.filter((record): record is ReviewRecord => Boolean(record) && typeof record === 'object');
+}
+
+/**
+ * Read a review from an export record; throws when the record has no
+ * usable rating or text
+ */
+export function readReview(adapter: TestimonialSourceAdapter, record: ReviewRecord): ImportedReview {
+  const { fields } = adapter;
+
+  const rating = parseRating(findValue(record, fields.rating)) ?? adapter.fallbackRating?.(record);
+  if (rating === undefined) throw new Error('Missing or invalid rating');
+
+  const content = findString(record, fields.content);
+  if (!content) throw new Error('Review has no text');
+
+  return {
+    externalId: findString(record, fields.externalId),
+    authorName: findString(record, fields.authorName) ?? '',
+    authorLocation: findString(record, fields.authorLocation),
+    rating,
+    title: findString(record, fields.title),
+    content,
+    treatmentReceived: findString(record, fields.treatmentReceived),
+    reviewedAt: parseDate(findString(record, fields.reviewedAt)),
+    sourceUrl: findString(record, fields.sourceUrl),
+    verified: parseBoolean(findValue(record, fields.verified)) ?? adapter.verifiedByDefault,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * CSV Parsing
+ *
+ * RFC 4180 parsing for review exports: quoted fields may contain commas,
+ * line breaks and doubled quotes. Spreadsheet exports often start with a
+ * byte order mark, which is dropped.
+ */
+
+/**
+ * Rows of fields; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Records keyed by the header row
+ */
+export function parseCsvRecords(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, index) => [column, (row[index] ?? '').trim()]))
+  );
+}
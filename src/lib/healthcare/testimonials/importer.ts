@@ -0,0 +1,179 @@
+/**
+ * Testimonial Import
+ *
+ * Reads a CSV or JSON review export through the platform's adapter,
+ * redacts patient names to initials, skips reviews that were imported
+ * before and stores the rest in the moderation queue.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ImportTestimonialsRequest,
+  Testimonial,
+  TestimonialImportResult,
+} from '@/types/healthcare';
+import { TESTIMONIAL_FIELDS, fromRow, type DatabaseRow } from '../mappers';
+import {
+  readReview,
+  unwrapJsonRecords,
+  type ImportedReview,
+  type ReviewRecord,
+  type TestimonialSourceAdapter,
+} from './adapters';
+import { parseCsvRecords } from './csv';
+import { ANONYMOUS_PATIENT, redactText, toInitials } from './redaction';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Largest export accepted in one request */
+export const MAX_IMPORT_RECORDS = 1000;
+
+/** External ids checked per duplicate lookup, to keep the query string short */
+const DUPLICATE_LOOKUP_CHUNK = 100;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Records of an export file, or an error message when it can't be read
+ */
+export function readImportRecords(
+  adapter: TestimonialSourceAdapter,
+  format: ImportTestimonialsRequest['format'],
+  data: string
+): { records: ReviewRecord[]; error?: undefined } | { records?: undefined; error: string } {
+  try {
+    const records = format === 'csv' ? parseCsvRecords(data) : unwrapJsonRecords(adapter, JSON.parse(data));
+    if (records.length === 0) return { error: 'The export contains no reviews' };
+    if (records.length > MAX_IMPORT_RECORDS) {
+      return { error: `Import at most ${MAX_IMPORT_RECORDS} reviews at a time` };
+    }
+    return { records };
+  } catch (error) {
+    if (error instanceof SyntaxError) return { error: 'The export is not valid JSON' };
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Stable id for a review the platform exported without one, so
+ * re-importing the same file finds it
+ */
+function fingerprint(review: ImportedReview): string {
+  const hash = createHash('sha256')
+    .update([review.authorName, review.reviewedAt ?? '', review.rating, review.content].join('\n'))
+    .digest('hex');
+  return `sha256:${hash.slice(0, 40)}`;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+async function findImportedIds(
+  supabase: SupabaseClient,
+  practiceId: string,
+  source: string,
+  externalIds: string[]
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+
+  for (let i = 0; i < externalIds.length; i += DUPLICATE_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('testimonials')
+      .select('external_id')
+      .eq('practice_id', practiceId)
+      .eq('source', source)
+      .in('external_id', externalIds.slice(i, i + DUPLICATE_LOOKUP_CHUNK));
+
+    if (error) throw error;
+    for (const row of data ?? []) existing.add(row.external_id as string);
+  }
+
+  return existing;
+}
+
+/**
+ * Testimonial row for an imported review, with the patient reduced to
+ * initials everywhere they appear
+ */
+function toTestimonialRow(
+  review: ImportedReview,
+  externalId: string,
+  options: Pick<ImportTestimonialsRequest, 'source' | 'locationId' | 'serviceId'> & { practiceId: string; now: string }
+): DatabaseRow {
+  const initials = toInitials(review.authorName);
+
+  return {
+    practice_id: options.practiceId,
+    location_id: options.locationId ?? null,
+    service_id: options.serviceId ?? null,
+    patient_name: initials || ANONYMOUS_PATIENT,
+    patient_initials: initials || null,
+    patient_location: review.authorLocation?.slice(0, 100) ?? null,
+    rating: review.rating,
+    title: review.title ? redactText(review.title, review.authorName).slice(0, 255) : null,
+    content: redactText(review.content, review.authorName),
+    treatment_received: review.treatmentReceived?.slice(0, 255) ?? null,
+    verified: review.verified,
+    source: options.source,
+    source_url: review.sourceUrl ?? null,
+    external_id: externalId,
+    reviewed_at: review.reviewedAt ?? null,
+    moderation_status: 'pending',
+    imported_at: options.now,
+  };
+}
+
+/**
+ * Import the records of an export into the practice's moderation queue
+ */
+export async function importTestimonials(
+  supabase: SupabaseClient,
+  practiceId: string,
+  adapter: TestimonialSourceAdapter,
+  records: ReviewRecord[],
+  options: Pick<ImportTestimonialsRequest, 'locationId' | 'serviceId'> = {}
+): Promise<TestimonialImportResult> {
+  const result: TestimonialImportResult = { imported: 0, duplicates: 0, invalid: [], testimonials: [] };
+  const reviews = new Map<string, ImportedReview>();
+
+  records.forEach((record, index) => {
+    try {
+      const review = readReview(adapter, record);
+      const externalId = review.externalId ?? fingerprint(review);
+
+      // The same review twice in one file
+      if (reviews.has(externalId)) result.duplicates++;
+      else reviews.set(externalId, review);
+    } catch (error) {
+      result.invalid.push({ record: index + 1, error: (error as Error).message });
+    }
+  });
+
+  const imported = await findImportedIds(supabase, practiceId, adapter.source, Array.from(reviews.keys()));
+  const now = new Date().toISOString();
+  const rows: DatabaseRow[] = [];
+
+  reviews.forEach((review, externalId) => {
+    if (imported.has(externalId)) {
+      result.duplicates++;
+      return;
+    }
+    rows.push(toTestimonialRow(review, externalId, { ...options, source: adapter.source, practiceId, now }));
+  });
+
+  if (rows.length > 0) {
+    const { data, error } = await supabase.from('testimonials').insert(rows).select();
+    if (error) throw error;
+
+    result.testimonials = (data as DatabaseRow[]).map((row) => fromRow<Testimonial>(row, TESTIMONIAL_FIELDS));
+    result.imported = result.testimonials.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,38 @@
+/**
+ * Testimonials Module
+ *
+ * Import of patient reviews from review platforms, PHI redaction,
+ * moderation and the ratings shown in Review/AggregateRating schema.
+ */
+
+export {
+  TESTIMONIAL_SOURCE_ADAPTERS,
+  getTestimonialSourceAdapter,
+  parseRating,
+  readReview,
+  type ImportedReview,
+  type ReviewRecord,
+  type TestimonialSourceAdapter,
+} from './adapters';
+
+export { parseCsv, parseCsvRecords } from './csv';
+
+export { ANONYMOUS_PATIENT, redactTestimonialRow, redactText, toInitials } from './redaction';
+
+export {
+  BEST_RATING,
+  WORST_RATING,
+  isPublishedTestimonial,
+  summarizeRatings,
+  summarizeTestimonialRatings,
+} from './ratings';
+
+export { MAX_IMPORT_RECORDS, importTestimonials, readImportRecords } from './importer';
+
+export {
+  TESTIMONIAL_MODERATION_STATUSES,
+  getTestimonialRatings,
+  listTestimonials,
+  moderateTestimonial,
+  type TestimonialFilters,
+} from './moderation';
@@ -0,0 +1,101 @@
+/**
+ * Testimonial Moderation
+ *
+ * Imported and submitted testimonials wait in a queue until a staff member
+ * approves them. Approval publishes the testimonial, which then counts
+ * towards the practice's ratings; rejecting takes it off the site.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Testimonial,
+  TestimonialModerationRequest,
+  TestimonialModerationStatus,
+  TestimonialRatings,
+} from '@/types/healthcare';
+import { TESTIMONIAL_FIELDS, fromRow, type DatabaseRow } from '../mappers';
+import { summarizeTestimonialRatings } from './ratings';
+
+export interface TestimonialFilters {
+  moderationStatus?: TestimonialModerationStatus;
+  locationId?: string;
+  serviceId?: string;
+}
+
+export const TESTIMONIAL_MODERATION_STATUSES: TestimonialModerationStatus[] = ['pending', 'approved', 'rejected'];
+
+export async function listTestimonials(
+  supabase: SupabaseClient,
+  practiceId: string,
+  filters: TestimonialFilters = {}
+): Promise<Testimonial[]> {
+  let query = supabase.from('testimonials').select('*').eq('practice_id', practiceId);
+  if (filters.moderationStatus) query = query.eq('moderation_status', filters.moderationStatus);
+  if (filters.locationId) query = query.eq('location_id', filters.locationId);
+  if (filters.serviceId) query = query.eq('service_id', filters.serviceId);
+
+  const { data, error } = await query
+    .order('display_order')
+    .order('reviewed_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  return (data as DatabaseRow[]).map((row) => fromRow<Testimonial>(row, TESTIMONIAL_FIELDS));
+}
+
+/**
+ * Approve or reject a testimonial. A testimonial can be moderated again,
+ * e.g. to take down one that was approved by mistake.
+ */
+export async function moderateTestimonial(
+  supabase: SupabaseClient,
+  testimonial: Testimonial,
+  decision: Required<Pick<TestimonialModerationRequest, 'decision'>> &
+    Omit<TestimonialModerationRequest, 'decision'> & { userId: string }
+): Promise<Testimonial> {
+  const now = new Date().toISOString();
+  const approved = decision.decision === 'approve';
+
+  const { data, error } = await supabase
+    .from('testimonials')
+    .update({
+      moderation_status: approved ? 'approved' : 'rejected',
+      moderated_by: decision.userId,
+      moderated_at: now,
+      moderation_note: decision.note ?? null,
+      published_at: approved ? testimonial.publishedAt ?? now : null,
+      ...(decision.verified !== undefined && { verified: decision.verified }),
+    })
+    .eq('id', testimonial.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRow<Testimonial>(data as DatabaseRow, TESTIMONIAL_FIELDS);
+}
+
+/**
+ * Ratings of the practice's approved testimonials, overall and for each
+ * location and service
+ */
+export async function getTestimonialRatings(
+  supabase: SupabaseClient,
+  practiceId: string
+): Promise<TestimonialRatings> {
+  const { data, error } = await supabase
+    .from('testimonials')
+    .select('rating, location_id, service_id')
+    .eq('practice_id', practiceId)
+    .eq('moderation_status', 'approved');
+
+  if (error) throw error;
+
+  return summarizeTestimonialRatings(
+    (data ?? []).map((row) => ({
+      rating: row.rating as number,
+      moderationStatus: 'approved' as const,
+      locationId: (row.location_id as string | null) ?? undefined,
+      serviceId: (row.service_id as string | null) ?? undefined,
+    }))
+  );
+}
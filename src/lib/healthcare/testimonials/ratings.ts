@@ -0,0 +1,71 @@
+/**
+ * Testimonial Ratings
+ *
+ * Aggregate ratings for AggregateRating schema. Only approved
+ * testimonials count - a pending or rejected review must never change
+ * the stars a practice shows in search results.
+ */
+
+import type { RatingSummary, Testimonial, TestimonialRatings } from '@/types/healthcare';
+
+type RatedTestimonial = Pick<Testimonial, 'rating' | 'moderationStatus' | 'locationId' | 'serviceId'>;
+
+export const BEST_RATING = 5;
+export const WORST_RATING = 1;
+
+/**
+ * Whether a testimonial may be shown and counted
+ */
+export function isPublishedTestimonial(testimonial: Pick<Testimonial, 'moderationStatus'>): boolean {
+  return testimonial.moderationStatus === 'approved';
+}
+
+/**
+ * Mean rating and review count of the approved testimonials; null when
+ * there are none, as AggregateRating requires at least one review
+ */
+export function summarizeRatings(testimonials: RatedTestimonial[]): RatingSummary | null {
+  const ratings = testimonials
+    .filter((testimonial) => isPublishedTestimonial(testimonial))
+    .map((testimonial) => testimonial.rating)
+    .filter((rating) => Number.isFinite(rating) && rating >= WORST_RATING && rating <= BEST_RATING);
+
+  if (ratings.length === 0) return null;
+
+  const mean = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+  return {
+    ratingValue: Math.round(mean * 10) / 10,
+    reviewCount: ratings.length,
+    bestRating: BEST_RATING,
+    worstRating: WORST_RATING,
+  };
+}
+
+function summarizeBy(
+  testimonials: RatedTestimonial[],
+  key: 'locationId' | 'serviceId'
+): Record<string, RatingSummary> {
+  const groups = new Map<string, RatedTestimonial[]>();
+  for (const testimonial of testimonials) {
+    const id = testimonial[key];
+    if (id) groups.set(id, [...(groups.get(id) ?? []), testimonial]);
+  }
+
+  const summaries: Record<string, RatingSummary> = {};
+  groups.forEach((group, id) => {
+    const summary = summarizeRatings(group);
+    if (summary) summaries[id] = summary;
+  });
+  return summaries;
+}
+
+/**
+ * Ratings for the whole practice and for each location and service
+ */
+export function summarizeTestimonialRatings(testimonials: RatedTestimonial[]): TestimonialRatings {
+  return {
+    practice: summarizeRatings(testimonials),
+    locations: summarizeBy(testimonials, 'locationId'),
+    services: summarizeBy(testimonials, 'serviceId'),
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { redactTestimonialRow, redactText, toInitials } from './redaction';
+
+describe('toInitials', () => {
+  it('keeps the first and last name', () => {
+    expect(toInitials('Jane Mary Doe')).toBe('J.D.');
+    expect(toInitials('Jane')).toBe('J.');
+    expect(toInitials('J.D.')).toBe('J.D.');
+    expect(toInitials('Élodie Dubois')).toBe('É.D.');
+    expect(toInitials('  ')).toBe('');
+  });
+});
+
+describe('redactText', () => {
+  it('reduces the patient name to initials', () => {
+    expect(redactText('Jane Doe here - Dr. Lee was great with Jane!', 'Jane Doe')).toBe(
+      'J.D. here - Dr. Lee was great with J.!'
+    );
+  });
+
+  it('redacts names with accented letters', () => {
+    expect(redactText('The staff helped José a lot', 'José García')).toBe('The staff helped J. a lot');
+    expect(redactText('"Thank you," said Élodie', 'Élodie Dubois')).toBe('"Thank you," said É.');
+    expect(redactText('ÉLODIE DUBOIS recommends them', 'Élodie Dubois')).toBe('É.D. recommends them');
+  });
+
+  it('leaves words that only contain the name', () => {
+    expect(redactText('Josélito and Annabelle came too', 'José Anna')).toBe('Josélito and Annabelle came too');
+  });
+
+  it('removes contact details', () => {
+    expect(redactText('Call me at (555) 123-4567 or jane@example.com')).toBe(
+      'Call me at [phone removed] or [email removed]'
+    );
+  });
+});
+
+describe('redactTestimonialRow', () => {
+  it('stores initials and redacts the text against the new name', () => {
+    expect(
+      redactTestimonialRow({ patient_name: 'José García', title: 'José is happy', content: 'Thanks from García', rating: 5 })
+    ).toEqual({
+      patient_name: 'J.G.',
+      patient_initials: 'J.G.',
+      title: 'J. is happy',
+      content: 'Thanks from G.',
+      rating: 5,
+    });
+  });
+
+  it('redacts changed text against the stored name', () => {
+    expect(redactTestimonialRow({ content: 'Mail J.D. at jd@example.com' }, 'J.D.')).toEqual({
+      content: 'Mail J.D. at [email removed]',
+    });
+  });
+
+  it('keeps anonymous testimonials anonymous', () => {
+    expect(redactTestimonialRow({ patient_name: 'Anonymous' })).toEqual({ patient_name: 'Anonymous' });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * PHI Redaction
+ *
+ * Review exports carry the patient's full name, and patients sometimes
+ * repeat it - or their phone number and email - in the review itself.
+ * Imported testimonials keep initials only, and contact details are
+ * removed from the text, so publishing a review never discloses who the
+ * practice treated. The same applies to testimonials entered by hand.
+ */
+
+import type { DatabaseRow } from '../mappers';
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const PHONE_PATTERN = /(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+
+/** Name parts shorter than this are left in the text - too likely to be ordinary words */
+const MIN_REDACTED_PART_LENGTH = 3;
+
+/** Patient name stored when a review has no usable name */
+export const ANONYMOUS_PATIENT = 'Anonymous';
+
+// Letters of any script, with their combining marks - `\b` only knows ASCII
+const LETTERS = '\\p{L}\\p{M}';
+const LETTER_PATTERN = new RegExp(`[${LETTERS}]`, 'u');
+const NON_NAME_PATTERN = new RegExp(`[^${LETTERS}'-]`, 'gu');
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Matches `value` as a whole word, case-insensitively */
+function wordPattern(value: string): RegExp {
+  return new RegExp(`(?<![${LETTERS}])${escapeRegExp(value)}(?![${LETTERS}])`, 'giu');
+}
+
+function nameParts(name: string): string[] {
+  return name
+    .split(/[\s.]+/)
+    .map((part) => part.replace(NON_NAME_PATTERN, ''))
+    .filter((part) => LETTER_PATTERN.test(part));
+}
+
+/**
+ * 'Jane Doe' -> 'J.D.', 'Jane' -> 'J.', 'J.D.' -> 'J.D.'; empty when the
+ * name has no letters
+ */
+export function toInitials(name: string): string {
+  const parts = nameParts(name);
+  if (parts.length === 0) return '';
+
+  const first = parts[0];
+  const last = parts.length > 1 ? parts[parts.length - 1] : undefined;
+  return [first, last]
+    .filter((part): part is string => Boolean(part))
+    .map((part) => `${part.match(LETTER_PATTERN)![0].toUpperCase()}.`)
+    .join('');
+}
+
+/**
+ * Review text with the patient's name reduced to initials and contact
+ * details removed
+ */
+export function redactText(text: string, patientName?: string): string {
+  let redacted = text.replace(EMAIL_PATTERN, '[email removed]').replace(PHONE_PATTERN, '[phone removed]');
+
+  if (patientName?.trim()) {
+    const fullName = patientName.trim().replace(/\s+/g, ' ');
+    const initials = toInitials(fullName);
+    redacted = redacted.replace(wordPattern(fullName), initials);
+
+    for (const part of nameParts(fullName)) {
+      if (part.length < MIN_REDACTED_PART_LENGTH) continue;
+      redacted = redacted.replace(wordPattern(part), `${part.match(LETTER_PATTERN)![0].toUpperCase()}.`);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Testimonial columns about to be written, with the patient reduced to
+ * initials: a `patient_name` is stored as initials, and the title and
+ * content are redacted against it - or against `storedName` when the
+ * name is not being changed
+ */
+export function redactTestimonialRow(row: DatabaseRow, storedName?: string): DatabaseRow {
+  const redacted = { ...row };
+  const patientName = typeof row.patient_name === 'string' ? row.patient_name : storedName;
+
+  if (typeof row.patient_name === 'string' && row.patient_name.trim().toLowerCase() !== ANONYMOUS_PATIENT.toLowerCase()) {
+    const initials = toInitials(row.patient_name);
+    redacted.patient_name = initials || ANONYMOUS_PATIENT;
+    redacted.patient_initials = initials || null;
+  }
+  for (const column of ['title', 'content']) {
+    if (typeof row[column] === 'string') redacted[column] = redactText(row[column] as string, patientName);
+  }
+
+  return redacted;
+}
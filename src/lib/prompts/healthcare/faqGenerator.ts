@@ -4,7 +4,8 @@
  * Generates FAQ content for any page type with proper medical compliance.
  */
 
-import type { FaqParams } from './types';
+import type { FaqDuplicateParams, FaqParams } from './types';
+import { extractJson } from './utils';
 
 /**
  * FAQ item structure
@@ -132,4 +133,78 @@ export function parseFaqResponse(response: string): FAQItem[] {
   return faqs;
 }
 
+/**
+ * A new question the model found to ask the same as another
+ */
+export interface FaqDuplicate {
+  /** Index into `candidates` */
+  candidate: number;
+  /** The question it repeats */
+  duplicateOf: string;
+}
+
+/**
+ * Generate a prompt asking which new questions repeat an existing or
+ * earlier new question in other words. Existing questions are labelled
+ * E1, E2, ... and new ones C1, C2, ...
+ */
+export function generateFaqDuplicatePrompt(params: FaqDuplicateParams): string {
+  const { topic, existingQuestions, candidates } = params;
+
+  return `You are reviewing FAQs for a healthcare page about "${topic}". Find the new questions that ask the same thing as a question the page already answers, or as an earlier new question, in different words.
+
+## Rules
+- Two questions are duplicates when one answer would fully answer both, e.g. "Who can get this treatment?" and "Am I a candidate?"
+- Questions about different aspects of the topic are not duplicates, e.g. cost vs insurance coverage, or recovery time vs how long results last
+- A new question can only duplicate an existing question (E) or a new question listed before it (C)
+
+## Questions the Page Already Answers
+${existingQuestions.length > 0 ? existingQuestions.map((q, i) => `E${i + 1}. ${q}`).join('\n') : 'None'}
+
+## New Questions
+${candidates.map((q, i) => `C${i + 1}. ${q}`).join('\n')}
+
+## Output Format
+Return a JSON object listing every duplicate new question, with an empty list when there are none:
+
+{
+  "duplicates": [
+    { "question": "C2", "duplicateOf": "E1" }
+  ]
+}`;
+}
+
+/**
+ * Parse the duplicate check response. Labels that do not resolve to an
+ * existing question or an earlier new question are ignored.
+ */
+export function parseFaqDuplicateResponse(response: string, params: FaqDuplicateParams): FaqDuplicate[] {
+  const parsed = extractJson<{ duplicates?: Array<{ question?: unknown; duplicateOf?: unknown }> }>(response);
+  if (!parsed || !Array.isArray(parsed.duplicates)) return [];
+
+  const label = (value: unknown) => {
+    const match = typeof value === 'string' ? value.trim().match(/^([EC])(\d+)$/i) : null;
+    return match ? { list: match[1].toUpperCase(), index: parseInt(match[2], 10) - 1 } : null;
+  };
+
+  const duplicates = new Map<number, string>();
+  for (const entry of parsed.duplicates) {
+    const candidate = label(entry?.question);
+    const original = label(entry?.duplicateOf);
+    if (candidate?.list !== 'C' || !original || candidate.index >= params.candidates.length) continue;
+
+    const duplicateOf =
+      original.list === 'E'
+        ? params.existingQuestions[original.index]
+        : original.index < candidate.index
+          ? params.candidates[original.index]
+          : undefined;
+    if (duplicateOf !== undefined && !duplicates.has(candidate.index)) {
+      duplicates.set(candidate.index, duplicateOf);
+    }
+  }
+
+  return Array.from(duplicates, ([candidate, duplicateOf]) => ({ candidate, duplicateOf }));
+}
+
 export default generateFaqPrompt;
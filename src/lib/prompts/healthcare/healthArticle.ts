@@ -204,6 +204,10 @@ export function parseHealthArticleResponse(response: string): GeneratedContent {
         faqs: parsed.faqs || [],
         suggestedCitations: parsed.suggestedCitations || [],
         internalLinks: parsed.internalLinks || [],
+        slug: parsed.slug,
+        excerpt: parsed.excerpt,
+        tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+        category: parsed.category,
       };
     }
   } catch {
@@ -10,8 +10,13 @@ export * from './types';
 // Prompt Generators
 export { generateLocalSeoPagePrompt, parseLocalSeoPageResponse } from './localSeoPage';
 export { generateHealthArticlePrompt, parseHealthArticleResponse } from './healthArticle';
-export { generateFaqPrompt, parseFaqResponse } from './faqGenerator';
-export type { FAQItem } from './faqGenerator';
+export {
+  generateFaqPrompt,
+  parseFaqResponse,
+  generateFaqDuplicatePrompt,
+  parseFaqDuplicateResponse,
+} from './faqGenerator';
+export type { FAQItem, FaqDuplicate } from './faqGenerator';
 
 // Utilities
 export {
@@ -151,13 +151,18 @@ export function parseLocalSeoPageResponse(response: string): GeneratedContent {
         metaTitle: parsed.metaTitle || '',
         metaDescription: parsed.metaDescription || '',
         h1: parsed.h1 || '',
-        content: parsed.sections
-          ? parsed.sections.map((s: { heading: string; content: string }) =>
-              `## ${s.heading}\n\n${s.content}`
-            ).join('\n\n')
-          : parsed.heroContent || '',
+        content: [
+          parsed.heroContent,
+          ...(parsed.sections || []).map((s: { heading: string; content: string }) =>
+            `## ${s.heading}\n\n${s.content}`
+          ),
+        ].filter(Boolean).join('\n\n'),
         faqs: parsed.faqs || [],
         internalLinks: parsed.internalLinks || [],
+        schemaData:
+          parsed.localBusinessSchema && typeof parsed.localBusinessSchema === 'object'
+            ? parsed.localBusinessSchema
+            : undefined,
       };
     }
   } catch {
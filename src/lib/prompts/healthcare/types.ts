@@ -95,6 +95,17 @@ export interface FaqParams {
   targetKeywords?: string[];
 }
 
+/**
+ * Parameters for the FAQ duplicate check
+ */
+export interface FaqDuplicateParams {
+  topic: string;
+  /** Questions the page already answers */
+  existingQuestions: string[];
+  /** New questions, each compared with the existing ones and the new ones before it */
+  candidates: string[];
+}
+
 /**
  * Page types for schema generation
  */
@@ -121,4 +132,9 @@ export interface GeneratedContent {
   faqs?: Array<{ question: string; answer: string }>;
   suggestedCitations?: Array<{ title: string; source: string; url: string }>;
   internalLinks?: Array<{ text: string; url: string }>;
+  slug?: string;
+  excerpt?: string;
+  tags?: string[];
+  category?: string;
+  schemaData?: Record<string, unknown>;
 }
@@ -0,0 +1,57 @@
+/**
+ * Page checks against the HTML fixtures in fixtures/seo-audit.
+ *
+ * expected.json records, per fixture, the status every check had when the
+ * checks matched markup with regexes (`legacy`), and the checks whose status
+ * the DOM-based checks changed on purpose (`improvements`, with the reason).
+ * Every other check must still report its legacy status.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { AuditRunner } from './runner';
+
+interface FixtureExpectation {
+  legacy: Record<string, string>;
+  improvements: Record<string, { status: string; reason: string }>;
+}
+
+const FIXTURES_DIR = path.resolve(process.cwd(), 'fixtures/seo-audit');
+const PAGE_URL = 'https://fixture.example.com/';
+
+const expected: Record<string, FixtureExpectation> = JSON.parse(
+  readFileSync(path.join(FIXTURES_DIR, 'expected.json'), 'utf8')
+);
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith('.html'))
+  .map((file) => file.replace(/\.html$/, ''));
+
+describe('page checks on HTML fixtures', () => {
+  it('has an expectation for every fixture', () => {
+    expect(fixtures.sort()).toEqual(Object.keys(expected).sort());
+  });
+
+  describe.each(fixtures)('%s', (fixture) => {
+    const { legacy, improvements } = expected[fixture];
+
+    it('matches the legacy result of every check, or improves on it', async () => {
+      const html = readFileSync(path.join(FIXTURES_DIR, `${fixture}.html`), 'utf8');
+      const results = await new AuditRunner().run({ url: PAGE_URL, html });
+      const statuses = Object.fromEntries(results.checks.map((check) => [check.checkId, check.status]));
+
+      const wanted = Object.fromEntries(
+        Object.entries(legacy).map(([checkId, status]) => [checkId, improvements[checkId]?.status ?? status])
+      );
+      expect(statuses).toEqual(wanted);
+    });
+
+    it('only lists improvements that change the legacy status', () => {
+      for (const [checkId, { status }] of Object.entries(improvements)) {
+        expect(legacy[checkId], checkId).toBeDefined();
+        expect(status, checkId).not.toBe(legacy[checkId]);
+      }
+    });
+  });
+});
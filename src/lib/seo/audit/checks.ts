@@ -5,6 +5,8 @@
  * Categories: Technical, Content, Local, Schema, E-E-A-T, AI Search
  */
 
+import { createPageQuery, type PageQuery } from './dom';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -62,8 +64,10 @@ export interface AuditContext {
   url: string;
   /** HTML content of the page */
   html: string;
-  /** Parsed document (if available) */
+  /** Parsed document (the runner parses `html` once per page) */
   document?: Document;
+  /** Query API over `document`; use getPageQuery() in checks */
+  page?: PageQuery;
   /** HTTP response headers */
   headers?: Record<string, string>;
   /** Business information */
@@ -116,41 +120,39 @@ export const CategoryWeights: Record<AuditCheckCategory, number> = {
 // HELPER FUNCTIONS
 // ============================================================================
 
-function extractMetaContent(html: string, name: string): string | null {
-  const regex = new RegExp(
-    `<meta[^>]*(?:name|property)=["']${name}["'][^>]*content=["']([^"']*)["']|<meta[^>]*content=["']([^"']*)["'][^>]*(?:name|property)=["']${name}["']`,
-    'i'
-  );
-  const match = html.match(regex);
-  return match ? match[1] || match[2] || null : null;
-}
-
-function extractTitle(html: string): string | null {
-  const match = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-  return match ? match[1].trim() : null;
-}
-
-function extractCanonical(html: string): string | null {
-  const match = html.match(/<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']*)["']/i);
-  return match ? match[1] : null;
-}
+const pageQueries = new WeakMap<AuditContext, PageQuery>();
 
-function countHeadings(html: string, level: number): number {
-  const regex = new RegExp(`<h${level}[^>]*>`, 'gi');
-  const matches = html.match(regex);
-  return matches ? matches.length : 0;
-}
+/**
+ * Query API for the page under audit - the runner's, or one parsed on first
+ * use when a check is called with a bare context
+ */
+export function getPageQuery(ctx: AuditContext): PageQuery {
+  if (ctx.page) return ctx.page;
 
-function hasElement(html: string, selector: string): boolean {
-  // Simple element detection for common patterns
-  const tagMatch = selector.match(/^([a-z]+)/i);
-  if (tagMatch) {
-    const tag = tagMatch[1];
-    return new RegExp(`<${tag}[^>]*>`, 'i').test(html);
+  let query = pageQueries.get(ctx);
+  if (!query) {
+    query = createPageQuery(ctx.document ?? ctx.html, ctx.url);
+    pageQueries.set(ctx, query);
   }
-  return false;
+  return query;
 }
 
+/** Schema.org types that describe the business behind a page */
+const ORGANIZATION_TYPES = new Set([
+  'Organization',
+  'Corporation',
+  'LocalBusiness',
+  'ProfessionalService',
+  'MedicalOrganization',
+  'MedicalBusiness',
+  'MedicalClinic',
+  'Physician',
+  'Dentist',
+  'Hospital',
+]);
+
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle', 'MedicalScholarlyArticle'];
+
 // ============================================================================
 // TECHNICAL SEO CHECKS
 // ============================================================================
@@ -164,7 +166,7 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 10,
     severity: 'critical',
     check: (ctx) => {
-      const title = extractTitle(ctx.html);
+      const title = getPageQuery(ctx).title();
       if (!title) {
         return {
           passed: false,
@@ -208,7 +210,7 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 9,
     severity: 'critical',
     check: (ctx) => {
-      const description = extractMetaContent(ctx.html, 'description');
+      const description = getPageQuery(ctx).meta('description');
       if (!description) {
         return {
           passed: false,
@@ -252,7 +254,7 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 8,
     severity: 'warning',
     check: (ctx) => {
-      const canonical = extractCanonical(ctx.html);
+      const canonical = getPageQuery(ctx).canonical();
       if (!canonical) {
         return {
           passed: false,
@@ -277,7 +279,7 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 8,
     severity: 'critical',
     check: (ctx) => {
-      const h1Count = countHeadings(ctx.html, 1);
+      const h1Count = getPageQuery(ctx).$$('h1').length;
       if (h1Count === 0) {
         return {
           passed: false,
@@ -313,9 +315,13 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 6,
     severity: 'warning',
     check: (ctx) => {
-      const h1 = countHeadings(ctx.html, 1);
-      const h2 = countHeadings(ctx.html, 2);
-      const h3 = countHeadings(ctx.html, 3);
+      const levels = getPageQuery(ctx)
+        .$$('h1, h2, h3, h4, h5, h6')
+        .map((heading) => Number(heading.tagName.slice(1)));
+      const count = (level: number) => levels.filter((l) => l === level).length;
+      const h1 = count(1);
+      const h2 = count(2);
+      const h3 = count(3);
 
       if (h1 === 0) {
         return {
@@ -324,12 +330,18 @@ export const TechnicalChecks: AuditCheck[] = [
           details: 'No H1 heading found',
         };
       }
-      if (h3 > 0 && h2 === 0) {
-        return {
-          passed: false,
-          status: 'warning',
-          details: 'H3 present without H2 - broken hierarchy',
-        };
+
+      // A heading may go back up any number of levels but down only one
+      let previous = 1;
+      for (const level of levels) {
+        if (level > previous + 1) {
+          return {
+            passed: false,
+            status: 'warning',
+            details: `H${level} follows H${previous} - broken hierarchy`,
+          };
+        }
+        previous = level;
       }
       return {
         passed: true,
@@ -347,9 +359,8 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 7,
     severity: 'warning',
     check: (ctx) => {
-      const imgRegex = /<img[^>]*>/gi;
-      const images = ctx.html.match(imgRegex) || [];
-      const withoutAlt = images.filter((img) => !img.includes('alt='));
+      const images = getPageQuery(ctx).$$('img');
+      const withoutAlt = images.filter((img) => !img.hasAttribute('alt'));
 
       if (images.length === 0) {
         return {
@@ -383,7 +394,7 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 8,
     severity: 'critical',
     check: (ctx) => {
-      const hasViewport = /<meta[^>]*name=["']viewport["'][^>]*>/i.test(ctx.html);
+      const hasViewport = getPageQuery(ctx).meta('viewport') !== null;
       if (!hasViewport) {
         return {
           passed: false,
@@ -407,20 +418,19 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 6,
     severity: 'warning',
     check: (ctx) => {
-      const hasLang = /<html[^>]*lang=["'][a-z]{2,}["']/i.test(ctx.html);
-      if (!hasLang) {
+      const lang = getPageQuery(ctx).document.documentElement.getAttribute('lang')?.trim();
+      if (!lang || !/^[a-z]{2,}\b/i.test(lang)) {
         return {
           passed: false,
           status: 'failed',
           details: 'No lang attribute on <html>',
         };
       }
-      const match = ctx.html.match(/<html[^>]*lang=["']([a-z]{2,})["']/i);
       return {
         passed: true,
         status: 'passed',
-        value: match?.[1],
-        details: `Language: ${match?.[1] || 'unknown'}`,
+        value: lang,
+        details: `Language: ${lang}`,
       };
     },
     fix: 'Add lang attribute to <html> element (e.g., lang="en")',
@@ -433,7 +443,7 @@ export const TechnicalChecks: AuditCheck[] = [
     weight: 9,
     severity: 'critical',
     check: (ctx) => {
-      const robotsContent = extractMetaContent(ctx.html, 'robots');
+      const robotsContent = getPageQuery(ctx).meta('robots');
       if (!robotsContent) {
         return {
           passed: true,
@@ -498,14 +508,7 @@ export const ContentChecks: AuditCheck[] = [
     weight: 8,
     severity: 'warning',
     check: (ctx) => {
-      // Strip HTML tags and count words
-      const textContent = ctx.html
-        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-        .replace(/<[^>]+>/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-      const wordCount = textContent.split(' ').filter((w) => w.length > 0).length;
+      const wordCount = getPageQuery(ctx).wordCount();
 
       if (wordCount < 300) {
         return {
@@ -559,17 +562,10 @@ export const ContentChecks: AuditCheck[] = [
     weight: 6,
     severity: 'info',
     check: (ctx) => {
-      const urlObj = new URL(ctx.url);
-      const domain = urlObj.hostname;
-      const linkRegex = /<a[^>]*href=["']([^"']*)["'][^>]*>/gi;
-      const links = [...ctx.html.matchAll(linkRegex)];
-
-      const internalLinks = links.filter((match) => {
-        const href = match[1];
-        if (href.startsWith('/') && !href.startsWith('//')) return true;
-        if (href.includes(domain)) return true;
-        return false;
-      });
+      // Links to another part of the same page don't count
+      const internalLinks = getPageQuery(ctx)
+        .links()
+        .filter((link) => link.internal && !link.href.startsWith('#'));
 
       if (internalLinks.length < 3) {
         return {
@@ -597,15 +593,9 @@ export const ContentChecks: AuditCheck[] = [
     weight: 4,
     severity: 'info',
     check: (ctx) => {
-      const urlObj = new URL(ctx.url);
-      const domain = urlObj.hostname;
-      const linkRegex = /<a[^>]*href=["'](https?:\/\/[^"']*)["'][^>]*>/gi;
-      const links = [...ctx.html.matchAll(linkRegex)];
-
-      const externalLinks = links.filter((match) => {
-        const href = match[1];
-        return !href.includes(domain);
-      });
+      const externalLinks = getPageQuery(ctx)
+        .links()
+        .filter((link) => link.url && !link.internal && /^https?:$/.test(link.url.protocol));
 
       return {
         passed: true,
@@ -802,8 +792,11 @@ export const SchemaChecks: AuditCheck[] = [
     weight: 8,
     severity: 'warning',
     check: (ctx) => {
-      const hasSchema = /application\/ld\+json/.test(ctx.html);
-      const hasMicrodata = /itemtype=.*schema\.org/i.test(ctx.html);
+      const page = getPageQuery(ctx);
+      const hasSchema = page.jsonLd().length > 0;
+      const hasMicrodata = page.$$('[itemtype]').some((element) =>
+        /schema\.org/i.test(element.getAttribute('itemtype') ?? '')
+      );
 
       if (!hasSchema && !hasMicrodata) {
         return {
@@ -828,7 +821,8 @@ export const SchemaChecks: AuditCheck[] = [
     weight: 7,
     severity: 'info',
     check: (ctx) => {
-      const hasOrg = /"@type"\s*:\s*"Organization"/i.test(ctx.html);
+      const types = Array.from(getPageQuery(ctx).schemaTypes());
+      const hasOrg = types.some((type) => ORGANIZATION_TYPES.has(type));
       if (!hasOrg) {
         return {
           passed: false,
@@ -852,7 +846,7 @@ export const SchemaChecks: AuditCheck[] = [
     weight: 5,
     severity: 'info',
     check: (ctx) => {
-      const hasBreadcrumb = /"@type"\s*:\s*"BreadcrumbList"/i.test(ctx.html);
+      const hasBreadcrumb = getPageQuery(ctx).schemaTypes().has('BreadcrumbList');
       if (!hasBreadcrumb) {
         return {
           passed: false,
@@ -877,8 +871,9 @@ export const SchemaChecks: AuditCheck[] = [
     severity: 'info',
     check: (ctx) => {
       // Check if page has FAQ content
-      const hasFAQContent = /faq|frequently asked|questions/i.test(ctx.html);
-      const hasFAQSchema = /"@type"\s*:\s*"FAQPage"/i.test(ctx.html);
+      const page = getPageQuery(ctx);
+      const hasFAQContent = /\bfaqs?\b|frequently asked|questions/i.test(page.text());
+      const hasFAQSchema = page.schemaTypes().has('FAQPage');
 
       if (hasFAQContent && !hasFAQSchema) {
         return {
@@ -910,10 +905,13 @@ export const SchemaChecks: AuditCheck[] = [
     weight: 6,
     severity: 'info',
     check: (ctx) => {
-      const hasArticle = /"@type"\s*:\s*"(Article|BlogPosting|NewsArticle)"/i.test(ctx.html);
+      const page = getPageQuery(ctx);
+      const types = page.schemaTypes();
+      const hasArticle = ARTICLE_TYPES.some((type) => types.has(type));
       // Check if it looks like an article page
-      const isArticlePage = /<article[^>]*>/i.test(ctx.html) ||
-        /published|posted|author/i.test(ctx.html);
+      const isArticlePage = page.$('article') !== null ||
+        page.$('[rel~="author"], [itemprop="author"], time[datetime]') !== null ||
+        /\b(published|posted)\b/i.test(page.text());
 
       if (isArticlePage && !hasArticle) {
         return {
@@ -1162,9 +1160,11 @@ export const AISearchChecks: AuditCheck[] = [
     weight: 7,
     severity: 'info',
     check: (ctx) => {
-      // Check for direct answer patterns in first 500 chars
-      const firstPart = ctx.html.slice(0, 2000);
-      const hasDirectFormat = /is|are|means|refers to|defined as/i.test(firstPart);
+      // Check the opening paragraph of the main content for a direct answer
+      const page = getPageQuery(ctx);
+      const opening = page.$('main p, article p') ?? page.$('p');
+      const hasDirectFormat = opening !== null &&
+        /\b(is|are|means|refers to|defined as)\b/i.test(page.text(opening));
 
       return {
         passed: hasDirectFormat,
@@ -1184,9 +1184,10 @@ export const AISearchChecks: AuditCheck[] = [
     weight: 6,
     severity: 'info',
     check: (ctx) => {
-      const hasHeaders = /<h[2-4][^>]*>/i.test(ctx.html);
-      const hasLists = /<[ou]l[^>]*>/i.test(ctx.html);
-      const hasTables = /<table[^>]*>/i.test(ctx.html);
+      const page = getPageQuery(ctx);
+      const hasHeaders = page.$('h2, h3, h4') !== null;
+      const hasLists = page.$('ul li, ol li') !== null;
+      const hasTables = page.$('table') !== null;
 
       const structureCount = [hasHeaders, hasLists, hasTables].filter(Boolean).length;
 
@@ -1213,8 +1214,9 @@ export const AISearchChecks: AuditCheck[] = [
     weight: 5,
     severity: 'info',
     check: (ctx) => {
-      const hasFAQ = /faq|frequently asked|common questions/i.test(ctx.html);
-      const hasQAFormat = /\?[\s]*<\/h[2-4]>/i.test(ctx.html); // Questions in headings
+      const page = getPageQuery(ctx);
+      const hasFAQ = /\bfaqs?\b|frequently asked|common questions/i.test(page.text());
+      const hasQAFormat = page.$$('h2, h3, h4').some((heading) => page.text(heading).endsWith('?')); // Questions in headings
 
       if (!hasFAQ && !hasQAFormat) {
         return {
@@ -1239,9 +1241,10 @@ export const AISearchChecks: AuditCheck[] = [
     weight: 6,
     severity: 'info',
     check: (ctx) => {
-      // Check for statistics patterns
-      const hasStats = /\d+%|\d+\s*(million|billion|thousand)/i.test(ctx.html);
-      const hasSources = /source|according to|study|research|report/i.test(ctx.html);
+      // Check for statistics patterns in the visible text
+      const text = getPageQuery(ctx).text();
+      const hasStats = /\d+%|\d+\s*(million|billion|thousand)/i.test(text);
+      const hasSources = /source|according to|study|research|report/i.test(text);
 
       if (hasStats && !hasSources) {
         return {
@@ -1266,10 +1269,11 @@ export const AISearchChecks: AuditCheck[] = [
     weight: 5,
     severity: 'info',
     check: (ctx) => {
-      const hasArticle = /<article[^>]*>/i.test(ctx.html);
-      const hasSection = /<section[^>]*>/i.test(ctx.html);
-      const hasMain = /<main[^>]*>/i.test(ctx.html);
-      const hasNav = /<nav[^>]*>/i.test(ctx.html);
+      const page = getPageQuery(ctx);
+      const hasArticle = page.$('article') !== null;
+      const hasSection = page.$('section') !== null;
+      const hasMain = page.$('main') !== null;
+      const hasNav = page.$('nav') !== null;
 
       const semanticCount = [hasArticle, hasSection, hasMain, hasNav].filter(Boolean).length;
 
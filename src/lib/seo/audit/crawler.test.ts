@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { crawlSite, extractInternalLinks, extractPageMeta, getCrawledPageQuery, type FetchedPage } from './crawler';
+
+const PAGE_URL = 'https://clinic.example.com/services';
+
+describe('extractPageMeta', () => {
+  it('reads meta tags in any attribute order', () => {
+    const html = `<head>
+      <title> Cardiology &amp; Vascular Care </title>
+      <meta content="Heart care in Springfield." name="description">
+      <meta content="NOINDEX" name="robots">
+      <link href="/services/" rel="canonical">
+    </head>`;
+
+    expect(extractPageMeta(html, PAGE_URL)).toEqual({
+      title: 'Cardiology & Vascular Care',
+      description: 'Heart care in Springfield.',
+      canonical: 'https://clinic.example.com/services',
+      robots: 'noindex',
+    });
+  });
+
+  it('ignores commented-out and scripted markup', () => {
+    const html = `<head>
+      <!-- <title>Old title</title> -->
+      <script>var tag = '<meta name="robots" content="noindex">';</script>
+    </head>`;
+
+    expect(extractPageMeta(html, PAGE_URL)).toEqual({
+      title: undefined,
+      description: undefined,
+      canonical: undefined,
+      robots: undefined,
+    });
+  });
+});
+
+describe('extractInternalLinks', () => {
+  it('returns same-origin links, normalized and deduplicated', () => {
+    const html = `
+      <a href="/about/">About</a>
+      <a href="/about#team">Team</a>
+      <a href="cardiology">Cardiology</a>
+      <a href="https://www.ada.org/">ADA</a>
+      <a href="tel:5551234567">Call</a>
+      <!-- <a href="/old-page">Old</a> -->
+      <script>document.write('<a href="/tracked">t</a>');</script>
+    `;
+
+    expect(extractInternalLinks(html, PAGE_URL)).toEqual([
+      'https://clinic.example.com/about',
+      'https://clinic.example.com/cardiology',
+    ]);
+  });
+});
+
+describe('crawlSite', () => {
+  it('parses each page once and shares the DOM with the checks', async () => {
+    const pages: Record<string, string> = {
+      'https://clinic.example.com/': '<title>Home</title><a href="/about">About</a>',
+      'https://clinic.example.com/about': '<title>About</title><a href="/">Home</a>',
+    };
+    const fetchPage = async (url: string): Promise<FetchedPage> =>
+      pages[url] ? { status: 200, body: pages[url] } : { status: 404, body: '' };
+
+    const site = await crawlSite('https://clinic.example.com/', fetchPage);
+
+    expect(site.pages.map((page) => [page.finalUrl, page.title, page.links])).toEqual([
+      ['https://clinic.example.com/', 'Home', ['https://clinic.example.com/about']],
+      ['https://clinic.example.com/about', 'About', ['https://clinic.example.com/']],
+    ]);
+    const query = getCrawledPageQuery(site.pages[1]);
+    expect(getCrawledPageQuery(site.pages[1])).toBe(query);
+    expect(query.title()).toBe('About');
+  });
+});
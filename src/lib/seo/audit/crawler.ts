@@ -0,0 +1,437 @@
+/**
+ * Site Crawler
+ *
+ * Walks a site breadth-first from its start page, following internal links
+ * up to a depth and page limit, then continues from sitemap URLs the links
+ * never reached. Works against a live origin over HTTP or against pages already
+ * rendered in memory (a project's generated site). The crawl is the input to
+ * the site-level checks in site-checks.ts.
+ */
+
+import { createPageQuery, type PageQuery } from './dom';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CrawledPage {
+  /** Normalized URL that was requested */
+  url: string;
+  /** URL the response came from after redirects */
+  finalUrl: string;
+  /** HTTP status; 0 when the request failed */
+  status: number;
+  /** Link hops from the start page, or from the sitemap or seed entry the page was reached through */
+  depth: number;
+  /** How the crawler found the page: a link, the sitemap or the list of pages it was given */
+  discoveredVia: 'start' | 'link' | 'sitemap' | 'seed';
+  /** HTML body; empty for errors and non-HTML responses */
+  html: string;
+  headers: Record<string, string>;
+  title?: string;
+  description?: string;
+  /** Canonical URL, resolved against the page URL */
+  canonical?: string;
+  /** Content of the robots meta tag */
+  robots?: string;
+  /** Internal links on the page, normalized */
+  links: string[];
+  /** Why the request failed */
+  error?: string;
+}
+
+export interface CrawledSite {
+  origin: string;
+  startUrl: string;
+  pages: CrawledPage[];
+  /** URLs listed in the sitemap; null when the site has no sitemap */
+  sitemapUrls: string[] | null;
+  /** URLs robots.txt disallowed, which were not fetched */
+  blocked: string[];
+  /** Whether the page limit stopped the crawl before every reachable page was visited */
+  truncated: boolean;
+}
+
+export interface CrawlOptions {
+  /** Link hops to follow from the start page (default: 3) */
+  maxDepth?: number;
+  /** Pages to fetch at most (default: 50) */
+  maxPages?: number;
+  /** Timeout per request in ms (default: 10000) */
+  timeout?: number;
+  /** Skip URLs robots.txt disallows (default: true) */
+  respectRobots?: boolean;
+  userAgent?: string;
+}
+
+/** Response the crawler works with, however the page was loaded */
+export interface FetchedPage {
+  status: number;
+  finalUrl?: string;
+  headers?: Record<string, string>;
+  body: string;
+  error?: string;
+}
+
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+export const DEFAULT_CRAWL_OPTIONS: Required<CrawlOptions> = {
+  maxDepth: 3,
+  maxPages: 50,
+  timeout: 10000,
+  respectRobots: true,
+  userAgent: 'Mozilla/5.0 (compatible; NuStackBot/1.0; +https://nustack.io)',
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Absolute form of a link without its fragment or trailing slash;
+ * null for links that are not http(s) (mailto:, tel:, javascript:)
+ */
+export function normalizeUrl(href: string, base: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || /^(mailto|tel|javascript|data):/i.test(trimmed)) return null;
+
+  try {
+    const url = new URL(trimmed, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '');
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+/** Parsed DOM of each crawled page, shared with the page checks */
+const pageQueries = new WeakMap<CrawledPage, PageQuery>();
+
+/**
+ * Query API over a crawled page, parsed once and reused by the crawler and
+ * every check that audits the page
+ */
+export function getCrawledPageQuery(page: CrawledPage): PageQuery {
+  let query = pageQueries.get(page);
+  if (!query) {
+    query = createPageQuery(page.html, page.finalUrl);
+    pageQueries.set(page, query);
+  }
+  return query;
+}
+
+function toQuery(source: string | PageQuery, pageUrl: string): PageQuery {
+  return typeof source === 'string' ? createPageQuery(source, pageUrl) : source;
+}
+
+/**
+ * Title, description, canonical and robots meta of a page
+ */
+export function extractPageMeta(
+  source: string | PageQuery,
+  pageUrl: string
+): Pick<CrawledPage, 'title' | 'description' | 'canonical' | 'robots'> {
+  const query = toQuery(source, pageUrl);
+  const canonicalHref = query.canonical();
+
+  return {
+    title: query.title() ?? undefined,
+    description: query.meta('description') || undefined,
+    canonical: canonicalHref ? normalizeUrl(canonicalHref, pageUrl) ?? undefined : undefined,
+    robots: query.meta('robots')?.toLowerCase(),
+  };
+}
+
+/**
+ * Links on a page to the same origin, normalized and deduplicated
+ */
+export function extractInternalLinks(source: string | PageQuery, pageUrl: string): string[] {
+  const origin = new URL(pageUrl).origin;
+  const links = new Set<string>();
+
+  for (const link of toQuery(source, pageUrl).links()) {
+    const url = normalizeUrl(link.href, pageUrl);
+    if (url && new URL(url).origin === origin) links.add(url);
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * <loc> entries of a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; isIndex: boolean } {
+  const urls: string[] = [];
+  const pattern = /<loc>\s*([^<]+?)\s*<\/loc>/gi;
+  let match;
+  while ((match = pattern.exec(xml)) !== null) {
+    urls.push(decodeEntities(match[1]));
+  }
+  return { urls, isIndex: /<sitemapindex\b/i.test(xml) };
+}
+
+/**
+ * Disallow rules for all user agents and the sitemaps robots.txt lists
+ */
+export function parseRobotsTxt(text: string): { disallow: string[]; sitemaps: string[] } {
+  const disallow: string[] = [];
+  const sitemaps: string[] = [];
+  let appliesToAll = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') appliesToAll = value === '*';
+    else if (field === 'disallow' && appliesToAll && value) disallow.push(value);
+    else if (field === 'sitemap' && value) sitemaps.push(value);
+  }
+
+  return { disallow, sitemaps };
+}
+
+function isDisallowed(url: string, disallow: string[]): boolean {
+  const { pathname, search } = new URL(url);
+  const path = `${pathname}${search}`;
+  return disallow.some((rule) => path.startsWith(rule));
+}
+
+// ============================================================================
+// CRAWL
+// ============================================================================
+
+export interface CrawlSiteOptions extends CrawlOptions {
+  /** Sitemap entries, visited after the links and reported for coverage */
+  sitemapUrls?: string[] | null;
+  /** Further URLs to visit after the links */
+  seedUrls?: string[];
+  /** Path prefixes that must not be fetched */
+  disallow?: string[];
+}
+
+/**
+ * Crawl a site through a page fetcher. Links are followed breadth-first up
+ * to `maxDepth`; sitemap and seed URLs the links did not reach are then
+ * crawled the same way, as further entry points.
+ */
+export async function crawlSite(
+  startUrl: string,
+  fetchPage: PageFetcher,
+  options: CrawlSiteOptions = {}
+): Promise<CrawledSite> {
+  const { maxDepth, maxPages } = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+  const start = normalizeUrl(startUrl, startUrl);
+  if (!start) throw new Error(`Cannot crawl ${startUrl}`);
+
+  const origin = new URL(start).origin;
+  const sitemapUrls = options.sitemapUrls ?? null;
+  const disallow = options.disallow ?? [];
+  const site: CrawledSite = { origin, startUrl: start, pages: [], sitemapUrls, blocked: [], truncated: false };
+
+  const seen = new Set<string>([start]);
+  const queue: Array<{ url: string; depth: number; discoveredVia: CrawledPage['discoveredVia'] }> = [
+    { url: start, depth: 0, discoveredVia: 'start' },
+  ];
+
+  const enqueue = (hrefs: string[], discoveredVia: 'sitemap' | 'seed') => {
+    for (const href of hrefs) {
+      const url = normalizeUrl(href, start);
+      if (!url || seen.has(url) || new URL(url).origin !== origin) continue;
+      seen.add(url);
+      queue.push({ url, depth: 0, discoveredVia });
+    }
+  };
+
+  let extrasQueued = false;
+  while (queue.length > 0 || !extrasQueued) {
+    if (queue.length === 0) {
+      enqueue(sitemapUrls ?? [], 'sitemap');
+      enqueue(options.seedUrls ?? [], 'seed');
+      extrasQueued = true;
+      continue;
+    }
+
+    const next = queue.shift()!;
+    if (site.pages.length >= maxPages) {
+      site.truncated = true;
+      break;
+    }
+    if (isDisallowed(next.url, disallow)) {
+      site.blocked.push(next.url);
+      continue;
+    }
+
+    const response = await fetchPage(next.url);
+    const finalUrl = normalizeUrl(response.finalUrl ?? next.url, next.url) ?? next.url;
+    const headers = response.headers ?? {};
+    const isHtml = !headers['content-type'] || /html/i.test(headers['content-type']);
+    const html = response.status >= 200 && response.status < 300 && isHtml ? response.body : '';
+    const query = html ? createPageQuery(html, finalUrl) : null;
+    const links = query ? extractInternalLinks(query, finalUrl) : [];
+
+    const page: CrawledPage = {
+      url: next.url,
+      finalUrl,
+      status: response.status,
+      depth: next.depth,
+      discoveredVia: next.discoveredVia,
+      html,
+      headers,
+      ...(query ? extractPageMeta(query, finalUrl) : {}),
+      links,
+      error: response.error,
+    };
+    if (query) pageQueries.set(page, query);
+    site.pages.push(page);
+
+    if (next.depth >= maxDepth) continue;
+    for (const link of links) {
+      if (seen.has(link)) continue;
+      seen.add(link);
+      queue.push({ url: link, depth: next.depth + 1, discoveredVia: 'link' });
+    }
+  }
+
+  return site;
+}
+
+/**
+ * Page fetcher over HTTP that follows redirects and never throws
+ */
+export function createHttpFetcher(options: Pick<CrawlOptions, 'timeout' | 'userAgent'> = {}): PageFetcher {
+  const { timeout, userAgent } = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+
+  return async (url) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': userAgent,
+          Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        },
+        redirect: 'follow',
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+
+      const readable = /html|xml|text\/plain/i.test(headers['content-type'] ?? 'text/html');
+      const body = readable ? await response.text() : '';
+      if (!readable) await response.body?.cancel();
+
+      return { status: response.status, finalUrl: response.url || url, headers, body };
+    } catch (error) {
+      const aborted = error instanceof Error && error.name === 'AbortError';
+      return {
+        status: 0,
+        body: '',
+        error: aborted ? `Timed out after ${timeout}ms` : error instanceof Error ? error.message : 'Request failed',
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * URLs of the sitemaps robots.txt lists (or /sitemap.xml), expanding
+ * sitemap indexes one level; null when there is no sitemap
+ */
+async function loadSitemapUrls(origin: string, sitemaps: string[], fetchPage: PageFetcher): Promise<string[] | null> {
+  const locations = sitemaps.length > 0 ? sitemaps : [`${origin}/sitemap.xml`];
+  let found = false;
+  const urls: string[] = [];
+
+  for (const location of locations) {
+    const response = await fetchPage(location);
+    if (response.status !== 200 || !/<(urlset|sitemapindex)\b/i.test(response.body)) continue;
+    found = true;
+
+    const sitemap = parseSitemap(response.body);
+    if (!sitemap.isIndex) {
+      urls.push(...sitemap.urls);
+      continue;
+    }
+
+    for (const child of sitemap.urls) {
+      const childResponse = await fetchPage(child);
+      if (childResponse.status === 200) urls.push(...parseSitemap(childResponse.body).urls);
+    }
+  }
+
+  return found ? urls : null;
+}
+
+/**
+ * Crawl a live site from a URL, honouring robots.txt and seeding the crawl
+ * with the site's sitemap
+ */
+export async function crawlUrl(startUrl: string, options: CrawlOptions = {}): Promise<CrawledSite> {
+  const settings = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+  const start = normalizeUrl(startUrl, startUrl);
+  if (!start) throw new Error(`Cannot crawl ${startUrl}`);
+
+  const origin = new URL(start).origin;
+  const fetchPage = createHttpFetcher(settings);
+
+  const robotsResponse = await fetchPage(`${origin}/robots.txt`);
+  const robots = robotsResponse.status === 200 ? parseRobotsTxt(robotsResponse.body) : { disallow: [], sitemaps: [] };
+  const sitemapUrls = await loadSitemapUrls(origin, robots.sitemaps, fetchPage);
+
+  return crawlSite(start, fetchPage, {
+    ...settings,
+    sitemapUrls,
+    disallow: settings.respectRobots ? robots.disallow : [],
+  });
+}
+
+/**
+ * Crawl pages that are already rendered, e.g. a project's generated site.
+ * Links to URLs outside `pages` come back as 404s.
+ */
+export async function crawlPages(
+  pages: Array<{ url: string; html: string }>,
+  options: CrawlOptions & { startUrl?: string; sitemapUrls?: string[] | null } = {}
+): Promise<CrawledSite> {
+  if (pages.length === 0) throw new Error('No pages to crawl');
+
+  const byUrl = new Map<string, string>();
+  for (const page of pages) {
+    const url = normalizeUrl(page.url, page.url);
+    if (url) byUrl.set(url, page.html);
+  }
+
+  const fetchPage: PageFetcher = async (url) => {
+    const html = byUrl.get(url);
+    return html === undefined
+      ? { status: 404, body: '' }
+      : { status: 200, body: html, headers: { 'content-type': 'text/html; charset=utf-8' } };
+  };
+
+  return crawlSite(options.startUrl ?? pages[0].url, fetchPage, {
+    ...options,
+    // Every rendered page is audited, however deep or rarely it is linked
+    maxPages: options.maxPages ?? Math.max(pages.length, DEFAULT_CRAWL_OPTIONS.maxPages),
+    seedUrls: pages.map((page) => page.url),
+  });
+}
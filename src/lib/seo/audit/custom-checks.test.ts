@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { compileCustomCheck, findBacktrackingHazard, validateCustomCheck, type CustomCheckDefinition } from './custom-checks';
+import { AuditRunner } from './runner';
+
+function textCheck(pattern: string): CustomCheckDefinition {
+  return {
+    key: 'phone-in-header',
+    name: 'Phone number in header',
+    category: 'local',
+    weight: 5,
+    severity: 'warning',
+    rule: { type: 'text', pattern, within: 'header' },
+  };
+}
+
+describe('findBacktrackingHazard', () => {
+  it.each([
+    '(a+)+$',
+    '(a*)*b',
+    '(?:\\w+\\s?)*$',
+    '((ab)+c?)+',
+    '(a|aa)+',
+    '(x+){2,}',
+    '(x+){10}',
+    '(a)\\1',
+    '(?<word>a)\\k<word>',
+  ])('rejects %s', (pattern) => {
+    expect(findBacktrackingHazard(pattern)).not.toBeNull();
+  });
+
+  it.each([
+    '\\(\\d{3}\\) \\d{3}-\\d{4}',
+    'book (an )?appointment',
+    '(?:Dr\\.|Doctor) [A-Z]\\w+',
+    '(\\d+)?',
+    '[(a+)+]+',
+    '\\(a+\\)+',
+    '^https://(www\\.)?example\\.com/',
+    '(?<=tel:)\\d+',
+  ])('accepts %s', (pattern) => {
+    expect(findBacktrackingHazard(pattern)).toBeNull();
+  });
+});
+
+describe('validateCustomCheck', () => {
+  it('reports patterns with catastrophic backtracking', () => {
+    expect(validateCustomCheck(textCheck('(a+)+$'))).toEqual([
+      'rule.pattern: nested quantifiers such as (a+)+ are not supported',
+    ]);
+    expect(validateCustomCheck(textCheck('\\(\\d{3}\\) \\d{3}-\\d{4}'))).toEqual([]);
+  });
+});
+
+describe('custom pattern matching', () => {
+  it('fails the check when a pattern runs too long instead of blocking the audit', async () => {
+    // Polynomial backtracking that validation lets through
+    const definition = textCheck('\\w*\\w*\\w*\\w*\\w*!');
+    const html = `<header>${'a'.repeat(3000)}</header>`;
+    const runner = new AuditRunner({ checkIds: [compileCustomCheck(definition).id], customChecks: [definition] });
+
+    const started = Date.now();
+    const results = await runner.run({ url: 'https://clinic.example.com/', html });
+
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(results.checks).toHaveLength(1);
+    expect(results.checks[0].status).toBe('failed');
+    expect(results.checks[0].details).toMatch(/took longer than \d+ms to match/);
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Custom Audit Checks
+ *
+ * House rules written as data - "every page has a tel: link in the header",
+ * "no images from stock-photo sites" - and compiled into `AuditCheck`s that
+ * run and score alongside the built-in checks. A rule is one of:
+ *
+ * - selector: an element matching a CSS selector is present (or absent)
+ * - text: the visible text, optionally inside an element, matches (or does
+ *   not match) a regular expression
+ * - attribute: every element matching a selector has (or does not have) an
+ *   attribute, optionally matching a regular expression
+ * - count: the number of elements matching a selector is within bounds
+ */
+
+import {
+  getCheckCategories,
+  getPageQuery,
+  type AuditCheck,
+  type AuditCheckCategory,
+  type CheckResult,
+  type CheckSeverity,
+} from './checks';
+import { createContext, Script } from 'vm';
+import { parseDocument, type PageQuery } from './dom';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type CustomCheckMode = 'require' | 'forbid';
+
+export interface SelectorRule {
+  type: 'selector';
+  selector: string;
+  /** false: the page must not contain a match (default true) */
+  present?: boolean;
+}
+
+export interface TextRule {
+  type: 'text';
+  /** Regular expression source */
+  pattern: string;
+  /** Regular expression flags: i, m, s, u */
+  flags?: string;
+  /** Only the text inside the first element matching this selector */
+  within?: string;
+  /** require: the text must match; forbid: it must not (default require) */
+  mode?: CustomCheckMode;
+}
+
+export interface AttributeRule {
+  type: 'attribute';
+  selector: string;
+  attribute: string;
+  /** Regular expression the attribute value is tested against */
+  pattern?: string;
+  flags?: string;
+  /**
+   * require: every element has the attribute (matching `pattern`);
+   * forbid: no element has it (matching `pattern`). Default require.
+   */
+  mode?: CustomCheckMode;
+}
+
+export interface CountRule {
+  type: 'count';
+  selector: string;
+  min?: number;
+  max?: number;
+}
+
+export type CustomCheckRule = SelectorRule | TextRule | AttributeRule | CountRule;
+
+export interface CustomCheckDefinition {
+  /** Identifier, unique within the workspace, e.g. 'header-phone-link' */
+  key: string;
+  name: string;
+  /** Defaults to a description of the rule */
+  description?: string;
+  category: AuditCheckCategory;
+  /** Weight for scoring (1-10) */
+  weight: number;
+  severity: CheckSeverity;
+  fix?: string;
+  rule: CustomCheckRule;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Compiled check IDs are the definition key with this prefix */
+export const CUSTOM_CHECK_PREFIX = 'custom-';
+
+export const CUSTOM_CHECK_RULE_TYPES: CustomCheckRule['type'][] = ['selector', 'text', 'attribute', 'count'];
+
+const SEVERITIES: CheckSeverity[] = ['critical', 'warning', 'info'];
+const MODES: CustomCheckMode[] = ['require', 'forbid'];
+const ALLOWED_FLAGS = /^[imsu]*$/;
+const KEY_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_KEY_LENGTH = 60;
+/** Long patterns are where catastrophic backtracking hides */
+const MAX_PATTERN_LENGTH = 500;
+/** `{n}`, `{n,}` and `{n,m}` quantifiers */
+const BOUNDS_PATTERN = /^\{(\d+)(,(\d*))?\}/;
+/** Longest one pattern may run against one value before the check fails */
+const MATCH_TIMEOUT_MS = 100;
+/** Offending values listed in a failed result */
+const SAMPLE_SIZE = 5;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function selectorError(selector: unknown, field: string): string | null {
+  if (!isNonEmptyString(selector)) return `${field} is required`;
+  try {
+    parseDocument('').querySelectorAll(selector);
+    return null;
+  } catch {
+    return `${field} is not a valid CSS selector`;
+  }
+}
+
+/**
+ * Constructs that make a backtracking engine take exponential time: a
+ * repeated group that itself contains a quantifier or alternatives, as in
+ * `(a+)+` or `(a|aa)*`, and backreferences. Null when there are none.
+ */
+export function findBacktrackingHazard(pattern: string): string | null {
+  // One frame per open group: whether it contains a quantifier or a `|`
+  const groups: Array<{ quantified: boolean; alternation: boolean }> = [{ quantified: false, alternation: false }];
+  let lastGroup: { quantified: boolean; alternation: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+    const atomGroup = lastGroup;
+    lastGroup = null;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'backreferences are not supported';
+      i++;
+    } else if (char === '[') {
+      // Skip the character class - nothing in it is a quantifier
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+      // (?:, (?=, (?!, (?<=, (?<!, (?<name>
+      if (pattern[i + 1] === '?') i += pattern[i + 2] === '<' && /[=!]/.test(pattern[i + 3] ?? '') ? 3 : 2;
+    } else if (char === ')') {
+      if (groups.length > 1) {
+        const group = groups.pop()!;
+        groups[groups.length - 1].quantified ||= group.quantified;
+        lastGroup = group;
+      }
+    } else if (char === '|') {
+      current.alternation = true;
+    } else if (char === '*' || char === '+' || char === '?' || (char === '{' && BOUNDS_PATTERN.test(pattern.slice(i)))) {
+      let max = char === '?' ? 1 : Infinity;
+      if (char === '{') {
+        const [bounds, min, range, upper] = pattern.slice(i).match(BOUNDS_PATTERN)!;
+        max = range === undefined ? Number(min) : upper ? Number(upper) : Infinity;
+        i += bounds.length - 1;
+      }
+      if (max > 1 && atomGroup?.quantified) return 'nested quantifiers such as (a+)+ are not supported';
+      if (max > 1 && atomGroup?.alternation) return 'repeated alternatives such as (a|b)+ are not supported';
+      current.quantified = true;
+      if (pattern[i + 1] === '?') i++;
+    }
+  }
+
+  return null;
+}
+
+function patternError(pattern: unknown, flags: unknown, field: string): string | null {
+  if (!isNonEmptyString(pattern)) return `${field} is required`;
+  if (pattern.length > MAX_PATTERN_LENGTH) return `${field} must be at most ${MAX_PATTERN_LENGTH} characters`;
+  if (flags !== undefined && (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags))) {
+    return 'flags may only contain i, m, s and u';
+  }
+  try {
+    new RegExp(pattern, flags as string | undefined);
+  } catch {
+    return `${field} is not a valid regular expression`;
+  }
+  const hazard = findBacktrackingHazard(pattern);
+  return hazard ? `${field}: ${hazard}` : null;
+}
+
+function modeError(mode: unknown): string | null {
+  return mode === undefined || MODES.includes(mode as CustomCheckMode) ? null : 'mode must be require or forbid';
+}
+
+function ruleErrors(rule: unknown): string[] {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) return ['rule must be an object'];
+
+  const value = rule as Record<string, unknown>;
+  switch (value.type) {
+    case 'selector':
+      return [
+        selectorError(value.selector, 'rule.selector'),
+        value.present === undefined || typeof value.present === 'boolean' ? null : 'rule.present must be a boolean',
+      ].filter((error): error is string => error !== null);
+    case 'text':
+      return [
+        patternError(value.pattern, value.flags, 'rule.pattern'),
+        value.within === undefined ? null : selectorError(value.within, 'rule.within'),
+        modeError(value.mode),
+      ].filter((error): error is string => error !== null);
+    case 'attribute':
+      return [
+        selectorError(value.selector, 'rule.selector'),
+        isNonEmptyString(value.attribute) ? null : 'rule.attribute is required',
+        value.pattern === undefined ? null : patternError(value.pattern, value.flags, 'rule.pattern'),
+        modeError(value.mode),
+      ].filter((error): error is string => error !== null);
+    case 'count': {
+      const errors = [selectorError(value.selector, 'rule.selector')].filter((error): error is string => error !== null);
+      if (value.min === undefined && value.max === undefined) errors.push('rule.min or rule.max is required');
+      if (value.min !== undefined && !isCount(value.min)) errors.push('rule.min must be a whole number');
+      if (value.max !== undefined && !isCount(value.max)) errors.push('rule.max must be a whole number');
+      if (isCount(value.min) && isCount(value.max) && value.min > value.max) {
+        errors.push('rule.min must not be greater than rule.max');
+      }
+      return errors;
+    }
+    default:
+      return [`rule.type must be one of ${CUSTOM_CHECK_RULE_TYPES.join(', ')}`];
+  }
+}
+
+/**
+ * Problems with a custom check definition; empty when it can be compiled
+ */
+export function validateCustomCheck(input: Partial<CustomCheckDefinition>): string[] {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(input.key) || !KEY_PATTERN.test(input.key) || input.key.length > MAX_KEY_LENGTH) {
+    errors.push(`key must be lowercase letters, numbers and dashes (at most ${MAX_KEY_LENGTH} characters)`);
+  }
+  if (!isNonEmptyString(input.name)) errors.push('name is required');
+  if (!getCheckCategories().includes(input.category as AuditCheckCategory)) {
+    errors.push(`category must be one of ${getCheckCategories().join(', ')}`);
+  }
+  if (typeof input.weight !== 'number' || !Number.isInteger(input.weight) || input.weight < 1 || input.weight > 10) {
+    errors.push('weight must be a whole number from 1 to 10');
+  }
+  if (!SEVERITIES.includes(input.severity as CheckSeverity)) {
+    errors.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+
+  return [...errors, ...ruleErrors(input.rule)];
+}
+
+// ============================================================================
+// COMPILATION
+// ============================================================================
+
+/**
+ * Plain-language description of a rule, used when a definition has none
+ */
+export function describeRule(rule: CustomCheckRule): string {
+  switch (rule.type) {
+    case 'selector':
+      return rule.present === false
+        ? `Page has no element matching ${rule.selector}`
+        : `Page has an element matching ${rule.selector}`;
+    case 'text': {
+      const where = rule.within ? ` in ${rule.within}` : '';
+      return rule.mode === 'forbid'
+        ? `Page text${where} does not match /${rule.pattern}/`
+        : `Page text${where} matches /${rule.pattern}/`;
+    }
+    case 'attribute': {
+      const value = rule.pattern ? ` matching /${rule.pattern}/` : '';
+      return rule.mode === 'forbid'
+        ? `No ${rule.selector} has a ${rule.attribute} attribute${value}`
+        : `Every ${rule.selector} has a ${rule.attribute} attribute${value}`;
+    }
+    case 'count':
+      if (rule.min !== undefined && rule.max !== undefined) {
+        return `Page has ${rule.min} to ${rule.max} elements matching ${rule.selector}`;
+      }
+      return rule.max !== undefined
+        ? `Page has at most ${rule.max} elements matching ${rule.selector}`
+        : `Page has at least ${rule.min} elements matching ${rule.selector}`;
+  }
+}
+
+const matchScript = new Script('pattern.lastIndex = 0; pattern.exec(text)');
+let matchContext: ReturnType<typeof createContext> | undefined;
+
+/**
+ * `pattern.exec(text)` that gives up after MATCH_TIMEOUT_MS. Validation
+ * rejects the exponential cases, but adjacent quantifiers can still run
+ * for a long time on a large page; the runner reports the throw as a
+ * failed check.
+ */
+function execPattern(pattern: RegExp, text: string): RegExpExecArray | null {
+  matchContext ??= createContext({});
+  matchContext.pattern = pattern;
+  matchContext.text = text;
+  try {
+    return matchScript.runInContext(matchContext, { timeout: MATCH_TIMEOUT_MS });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(`Pattern /${pattern.source}/ took longer than ${MATCH_TIMEOUT_MS}ms to match`);
+    }
+    throw error;
+  } finally {
+    matchContext.text = '';
+  }
+}
+
+function evaluateSelector(rule: SelectorRule, page: PageQuery): CheckResult {
+  const count = page.$$(rule.selector).length;
+
+  if (rule.present === false) {
+    return count === 0
+      ? { passed: true, status: 'passed', details: `No element matches ${rule.selector}` }
+      : { passed: false, status: 'failed', details: `${count} element(s) match ${rule.selector}`, value: count };
+  }
+  return count > 0
+    ? { passed: true, status: 'passed', details: `${count} element(s) match ${rule.selector}`, value: count }
+    : { passed: false, status: 'failed', details: `No element matches ${rule.selector}` };
+}
+
+function evaluateText(rule: TextRule, pattern: RegExp, page: PageQuery): CheckResult {
+  const root = rule.within ? page.$(rule.within) : null;
+  if (rule.within && !root) {
+    return rule.mode === 'forbid'
+      ? { passed: true, status: 'passed', details: `No element matches ${rule.within}` }
+      : { passed: false, status: 'failed', details: `No element matches ${rule.within}` };
+  }
+
+  const match = execPattern(pattern, page.text(root ?? undefined));
+  if (rule.mode === 'forbid') {
+    return match
+      ? { passed: false, status: 'failed', details: `Found "${match[0].slice(0, 80)}"`, value: match[0] }
+      : { passed: true, status: 'passed', details: 'No match found' };
+  }
+  return match
+    ? { passed: true, status: 'passed', details: `Found "${match[0].slice(0, 80)}"`, value: match[0] }
+    : { passed: false, status: 'failed', details: `Text does not match /${rule.pattern}/` };
+}
+
+function evaluateAttribute(rule: AttributeRule, pattern: RegExp | null, page: PageQuery): CheckResult {
+  const elements = page.$$(rule.selector);
+  if (elements.length === 0) {
+    return { passed: true, status: 'skipped', details: `No element matches ${rule.selector}` };
+  }
+
+  const offending = elements.filter((element) => {
+    const value = element.getAttribute(rule.attribute);
+    const matches = value !== null && (!pattern || execPattern(pattern, value) !== null);
+    return rule.mode === 'forbid' ? matches : !matches;
+  });
+
+  if (offending.length === 0) {
+    return { passed: true, status: 'passed', details: `All ${elements.length} element(s) comply` };
+  }
+
+  const problem =
+    rule.mode === 'forbid'
+      ? `have a ${rule.attribute}${pattern ? ` matching /${rule.pattern}/` : ''}`
+      : `lack a ${rule.attribute}${pattern ? ` matching /${rule.pattern}/` : ''}`;
+  return {
+    passed: false,
+    status: 'failed',
+    details: `${offending.length} of ${elements.length} ${rule.selector} element(s) ${problem}`,
+    value: offending.length,
+    data: {
+      values: offending.slice(0, SAMPLE_SIZE).map((element) => element.getAttribute(rule.attribute)),
+    },
+  };
+}
+
+function evaluateCount(rule: CountRule, page: PageQuery): CheckResult {
+  const count = page.$$(rule.selector).length;
+  const expected =
+    rule.min !== undefined && rule.max !== undefined
+      ? `${rule.min}-${rule.max}`
+      : rule.max !== undefined
+        ? `at most ${rule.max}`
+        : `at least ${rule.min}`;
+
+  if ((rule.min !== undefined && count < rule.min) || (rule.max !== undefined && count > rule.max)) {
+    return {
+      passed: false,
+      status: 'failed',
+      details: `${count} element(s) match ${rule.selector}, expected ${expected}`,
+      value: count,
+      expected,
+    };
+  }
+  return { passed: true, status: 'passed', details: `${count} element(s) match ${rule.selector}`, value: count, expected };
+}
+
+/**
+ * Compile a definition into an audit check. Definitions are expected to be
+ * valid (see `validateCustomCheck`); regular expressions are built once here.
+ */
+export function compileCustomCheck(definition: CustomCheckDefinition): AuditCheck {
+  const { rule } = definition;
+  const pattern =
+    (rule.type === 'text' || rule.type === 'attribute') && rule.pattern ? new RegExp(rule.pattern, rule.flags) : null;
+
+  return {
+    id: `${CUSTOM_CHECK_PREFIX}${definition.key}`,
+    name: definition.name,
+    description: definition.description || describeRule(rule),
+    category: definition.category,
+    weight: definition.weight,
+    severity: definition.severity,
+    check: (ctx) => {
+      const page = getPageQuery(ctx);
+      switch (rule.type) {
+        case 'selector':
+          return evaluateSelector(rule, page);
+        case 'text':
+          return evaluateText(rule, pattern!, page);
+        case 'attribute':
+          return evaluateAttribute(rule, pattern, page);
+        case 'count':
+          return evaluateCount(rule, page);
+      }
+    },
+    fix: definition.fix,
+  };
+}
+
+/**
+ * Compile definitions, leaving out any that are not valid
+ */
+export function compileCustomChecks(definitions: CustomCheckDefinition[]): AuditCheck[] {
+  return definitions
+    .filter((definition) => validateCustomCheck(definition).length === 0)
+    .map(compileCustomCheck);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createPageQuery, parseDocument } from './dom';
+
+const LINKS = `
+  <a href="/about">About</a>
+  <a href="services/cardiology">Cardiology</a>
+  <a href="#team">Team</a>
+  <a href="https://www.ada.org/">ADA</a>
+  <a href="//cdn.example.net/brochure.pdf">Brochure</a>
+  <a href="mailto:front@clinic.example.com">Email</a>
+`;
+
+describe('createPageQuery links', () => {
+  it('decides internal links by host when the page URL is absolute', () => {
+    const links = createPageQuery(LINKS, 'https://clinic.example.com/').links();
+
+    expect(links.map((link) => [link.href, link.internal])).toEqual([
+      ['/about', true],
+      ['services/cardiology', true],
+      ['#team', true],
+      ['https://www.ada.org/', false],
+      ['//cdn.example.net/brochure.pdf', false],
+      ['mailto:front@clinic.example.com', false],
+    ]);
+    expect(links[1].url?.toString()).toBe('https://clinic.example.com/services/cardiology');
+  });
+
+  it('treats relative links as internal when the page URL is not absolute', () => {
+    const links = createPageQuery(LINKS, '/preview').links();
+
+    expect(links.map((link) => [link.href, link.internal])).toEqual([
+      ['/about', true],
+      ['services/cardiology', true],
+      ['#team', true],
+      ['https://www.ada.org/', false],
+      ['//cdn.example.net/brochure.pdf', false],
+      ['mailto:front@clinic.example.com', false],
+    ]);
+    expect(links[0].url?.pathname).toBe('/about');
+    expect(links[5].url).toBeNull();
+  });
+});
+
+describe('parseDocument', () => {
+  it('lowercases attribute names', () => {
+    const document = parseDocument('<HTML LANG="en"><HEAD><META NAME=description CONTENT="Care"></HEAD></HTML>');
+
+    expect(document.documentElement.getAttribute('lang')).toBe('en');
+    expect(createPageQuery(document, 'https://clinic.example.com/').meta('description')).toBe('Care');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Page DOM for Audit Checks
+ *
+ * Parses a page's HTML once into a server-side DOM (linkedom) and wraps it
+ * in a small query API, so checks read elements and attributes instead of
+ * matching markup with regexes - which breaks on attribute order, comments,
+ * inline scripts and templated markup.
+ */
+
+import { parseHTML } from 'linkedom';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface PageLink {
+  /** href as written */
+  href: string;
+  /**
+   * Resolved URL; null for mailto:, tel:, javascript: and unparseable links.
+   * Without an absolute page URL, relative links resolve against a placeholder
+   * host (RELATIVE_BASE).
+   */
+  url: URL | null;
+  /** Whether the link stays on the page's host; relative links always do */
+  internal: boolean;
+  rel: string[];
+  text: string;
+}
+
+export interface PageQuery {
+  /** The parsed document */
+  document: Document;
+  /** First element matching a CSS selector */
+  $(selector: string): Element | null;
+  /** All elements matching a CSS selector */
+  $$(selector: string): Element[];
+  /** Content of <meta name> or <meta property>, e.g. 'description', 'og:image' */
+  meta(name: string): string | null;
+  /** Text of <title> */
+  title(): string | null;
+  /** href of <link rel="canonical"> */
+  canonical(): string | null;
+  /** Visible text of the page or an element - scripts, styles and templates left out */
+  text(root?: Element): string;
+  /** Words in the visible text */
+  wordCount(root?: Element): number;
+  /** Links on the page */
+  links(): PageLink[];
+  /** Parsed JSON-LD blocks; blocks that are not valid JSON are skipped */
+  jsonLd(): unknown[];
+  /** Schema.org types declared in JSON-LD (including @graph and nested items) and microdata */
+  schemaTypes(): Set<string>;
+}
+
+/** Base for relative links when the page URL is unknown */
+const RELATIVE_BASE = 'http://page.invalid/';
+
+/** Elements whose text is never shown */
+const HIDDEN_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'HEAD']);
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse HTML into a document. Fragments (a page body without <html>) are
+ * wrapped in a document first so <head> and <body> always exist, and
+ * attribute names are lowercased as a browser would.
+ */
+export function parseDocument(html: string): Document {
+  let markup = html;
+  if (!/<html[\s>]/i.test(markup)) {
+    markup = /<(head|body)[\s>]/i.test(markup)
+      ? `<!DOCTYPE html><html>${markup}</html>`
+      : `<!DOCTYPE html><html><head></head><body>${markup}</body></html>`;
+  }
+  const { document } = parseHTML(markup);
+
+  // Browsers lowercase attribute names (<META NAME=...>); linkedom keeps them as written
+  for (const element of Array.from(document.querySelectorAll('*'))) {
+    for (const { name, value } of Array.from(element.attributes)) {
+      const lower = name.toLowerCase();
+      if (lower === name) continue;
+      element.removeAttribute(name);
+      if (!element.hasAttribute(lower)) element.setAttribute(lower, value);
+    }
+  }
+  return document;
+}
+
+function collectText(node: Node, parts: string[]): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === 3) {
+      parts.push(child.textContent ?? '');
+    } else if (child.nodeType === 1 && !HIDDEN_ELEMENTS.has((child as Element).tagName.toUpperCase())) {
+      collectText(child, parts);
+    }
+  }
+}
+
+function collectTypes(value: unknown, types: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectTypes(item, types));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  for (const [key, nested] of Object.entries(value)) {
+    if (key === '@type') {
+      for (const type of Array.isArray(nested) ? nested : [nested]) {
+        if (typeof type === 'string') types.add(type.replace(/^https?:\/\/schema\.org\//i, ''));
+      }
+    } else {
+      collectTypes(nested, types);
+    }
+  }
+}
+
+/**
+ * Query API over a page. `url` resolves relative links and decides which
+ * absolute links are internal; when it is not an absolute URL, only relative
+ * links count as internal.
+ */
+export function createPageQuery(source: string | Document, url: string): PageQuery {
+  const document = typeof source === 'string' ? parseDocument(source) : source;
+  let pageUrl: URL | null = null;
+  try {
+    pageUrl = new URL(url);
+  } catch {
+    pageUrl = null;
+  }
+
+  const $$ = (selector: string) => Array.from(document.querySelectorAll(selector));
+
+  const text = (root?: Element) => {
+    const parts: string[] = [];
+    collectText(root ?? document.body ?? document.documentElement, parts);
+    return parts.join(' ').replace(/\s+/g, ' ').trim();
+  };
+
+  let links: PageLink[] | undefined;
+  let jsonLd: unknown[] | undefined;
+
+  const query: PageQuery = {
+    document,
+    $: (selector) => document.querySelector(selector),
+    $$,
+    meta: (name) => {
+      const target = name.toLowerCase();
+      const element = $$('meta').find(
+        (meta) => (meta.getAttribute('name') ?? meta.getAttribute('property'))?.trim().toLowerCase() === target
+      );
+      return element?.getAttribute('content')?.trim() ?? null;
+    },
+    title: () => {
+      const title = document.querySelector('title')?.textContent?.replace(/\s+/g, ' ').trim();
+      return title || null;
+    },
+    canonical: () => {
+      const link = $$('link[rel]').find((element) =>
+        (element.getAttribute('rel') ?? '').toLowerCase().split(/\s+/).includes('canonical')
+      );
+      return link?.getAttribute('href')?.trim() || null;
+    },
+    text,
+    wordCount: (root) => text(root).split(' ').filter((word) => word.length > 0).length,
+    links: () => {
+      links ??= $$('a[href]').map((anchor) => {
+        const href = anchor.getAttribute('href')?.trim() ?? '';
+        let resolved: URL | null = null;
+        if (href && !/^(mailto|tel|javascript|data):/i.test(href)) {
+          try {
+            resolved = new URL(href, pageUrl ?? RELATIVE_BASE);
+          } catch {
+            resolved = null;
+          }
+        }
+        const relative = !/^([a-z][a-z\d+.-]*:|\/\/)/i.test(href);
+        return {
+          href,
+          url: resolved,
+          internal: Boolean(resolved && (pageUrl ? resolved.hostname === pageUrl.hostname : relative)),
+          rel: (anchor.getAttribute('rel') ?? '').toLowerCase().split(/\s+/).filter(Boolean),
+          text: text(anchor),
+        };
+      });
+      return links;
+    },
+    jsonLd: () => {
+      jsonLd ??= $$('script[type]')
+        .filter((script) => script.getAttribute('type')?.trim().toLowerCase() === 'application/ld+json')
+        .flatMap((script) => {
+          try {
+            return [JSON.parse(script.textContent ?? '')];
+          } catch {
+            return [];
+          }
+        });
+      return jsonLd;
+    },
+    schemaTypes: () => {
+      const types = new Set<string>();
+      collectTypes(query.jsonLd(), types);
+      for (const element of $$('[itemtype]')) {
+        for (const type of (element.getAttribute('itemtype') ?? '').split(/\s+/)) {
+          const match = type.match(/schema\.org\/([A-Za-z]+)/i);
+          if (match) types.add(match[1]);
+        }
+      }
+      return types;
+    },
+  };
+
+  return query;
+}
@@ -0,0 +1,194 @@
+/**
+ * Audit History
+ *
+ * Compares two audit runs of the same site: score and per-category trends,
+ * and regressions - checks that passed last run and fail now. Checks are
+ * matched by ID and, for page checks, the page they ran on.
+ */
+
+import type { AuditCheckCategory, CheckStatus } from './checks';
+import type { AuditCheckResult, AuditResults } from './runner';
+import { getScoreTrend } from './scoring';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ScoreTrend = ReturnType<typeof getScoreTrend>;
+
+export interface CheckOutcome {
+  status: CheckStatus;
+  details?: string;
+  value?: string | number;
+}
+
+export interface CheckChange {
+  checkId: string;
+  checkName: string;
+  category: AuditCheckCategory;
+  severity: AuditCheckResult['severity'];
+  scope: AuditCheckResult['scope'];
+  /** Page the check ran on (page checks) */
+  url?: string;
+  /** URLs the current result is about (site checks) */
+  affectedUrls?: string[];
+  fix?: string;
+  previous: CheckOutcome;
+  current: CheckOutcome;
+}
+
+export interface CategoryComparison {
+  previous: number | null;
+  current: number | null;
+  trend: ScoreTrend | null;
+}
+
+export interface AuditComparison {
+  previous: { timestamp: string; score: number };
+  current: { timestamp: string; score: number };
+  trend: ScoreTrend;
+  categories: Partial<Record<AuditCheckCategory, CategoryComparison>>;
+  /** Checks that passed in the previous run and fail now */
+  regressions: CheckChange[];
+  /** Checks that failed in the previous run and pass now */
+  fixed: CheckChange[];
+}
+
+/** One run in a score history */
+export interface AuditTrendPoint {
+  timestamp: string;
+  /** Overall score; absent for runs not comparable with the rest */
+  score?: number;
+  categories: Partial<Record<AuditCheckCategory, number>>;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function isPassing(result: AuditCheckResult): boolean {
+  return result.passed && result.status !== 'skipped';
+}
+
+function isFailing(result: AuditCheckResult): boolean {
+  return !result.passed && result.status !== 'skipped';
+}
+
+/**
+ * Key matching a check across runs: site checks have one result per run,
+ * page checks one per page
+ */
+function checkKey(result: AuditCheckResult): string {
+  return result.scope === 'page' && result.url ? `${result.checkId}@${result.url}` : result.checkId;
+}
+
+function toOutcome(result: AuditCheckResult): CheckOutcome {
+  return { status: result.status, details: result.details, value: result.value };
+}
+
+function toChange(previous: AuditCheckResult, current: AuditCheckResult): CheckChange {
+  return {
+    checkId: current.checkId,
+    checkName: current.checkName,
+    category: current.category,
+    severity: current.severity,
+    scope: current.scope,
+    url: current.url,
+    affectedUrls: current.affectedUrls,
+    fix: current.fix,
+    previous: toOutcome(previous),
+    current: toOutcome(current),
+  };
+}
+
+function diffChecks(
+  previous: AuditResults,
+  current: AuditResults,
+  changed: (before: AuditCheckResult, after: AuditCheckResult) => boolean
+): CheckChange[] {
+  const before = new Map(previous.checks.map((result) => [checkKey(result), result]));
+
+  return current.checks.flatMap((result) => {
+    const earlier = before.get(checkKey(result));
+    return earlier && changed(earlier, result) ? [toChange(earlier, result)] : [];
+  });
+}
+
+const SEVERITY_ORDER: Record<AuditCheckResult['severity'], number> = {
+  critical: 0,
+  warning: 1,
+  info: 2,
+};
+
+function bySeverity(a: CheckChange, b: CheckChange): number {
+  return SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.checkName.localeCompare(b.checkName);
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Scores of the categories that ran. Categories whose checks were all
+ * skipped (or not selected) are left out rather than reported as 0.
+ */
+export function getCategoryScores(results: AuditResults): Partial<Record<AuditCheckCategory, number>> {
+  const scores: Partial<Record<AuditCheckCategory, number>> = {};
+  for (const [category, categoryResults] of Object.entries(results.categories)) {
+    if (categoryResults.results.some((result) => result.status !== 'skipped')) {
+      scores[category as AuditCheckCategory] = categoryResults.score;
+    }
+  }
+  return scores;
+}
+
+/**
+ * Checks that passed in the previous run and fail in the current one,
+ * most severe first
+ */
+export function detectRegressions(previous: AuditResults, current: AuditResults): CheckChange[] {
+  return diffChecks(previous, current, (before, after) => isPassing(before) && isFailing(after)).sort(bySeverity);
+}
+
+/**
+ * Compare two runs of the same site
+ */
+export function compareAudits(previous: AuditResults, current: AuditResults): AuditComparison {
+  const previousScores = getCategoryScores(previous);
+  const currentScores = getCategoryScores(current);
+
+  const categories: AuditComparison['categories'] = {};
+  const ran = new Set([...Object.keys(previousScores), ...Object.keys(currentScores)] as AuditCheckCategory[]);
+  ran.forEach((category) => {
+    const before = previousScores[category] ?? null;
+    const after = currentScores[category] ?? null;
+    categories[category] = {
+      previous: before,
+      current: after,
+      trend: before !== null && after !== null ? getScoreTrend(after, before) : null,
+    };
+  });
+
+  return {
+    previous: { timestamp: previous.timestamp, score: previous.score },
+    current: { timestamp: current.timestamp, score: current.score },
+    trend: getScoreTrend(current.score, previous.score),
+    categories,
+    regressions: detectRegressions(previous, current),
+    fixed: diffChecks(previous, current, (before, after) => isFailing(before) && isPassing(after)).sort(bySeverity),
+  };
+}
+
+/**
+ * Scores of one category across runs, oldest first. Runs where the
+ * category did not run are skipped.
+ */
+export function getCategoryTrend(
+  points: AuditTrendPoint[],
+  category: AuditCheckCategory | 'overall'
+): Array<{ timestamp: string; score: number }> {
+  return points.flatMap((point) => {
+    const score = category === 'overall' ? point.score : point.categories[category];
+    return score === undefined ? [] : [{ timestamp: point.timestamp, score }];
+  });
+}
@@ -7,6 +7,18 @@
 // Checks
 export * from './checks';
 
+// Custom checks
+export * from './custom-checks';
+
+// Site checks
+export * from './site-checks';
+
+// Crawler
+export * from './crawler';
+
+// DOM
+export * from './dom';
+
 // Runner
 export * from './runner';
 
@@ -15,3 +27,6 @@ export * from './scoring';
 
 // Recommendations
 export * from './recommendations';
+
+// History
+export * from './history';
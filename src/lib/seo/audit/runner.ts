@@ -13,6 +13,10 @@ import {
   getChecksByCategory,
   getCheckCategories,
 } from './checks';
+import { crawlUrl, getCrawledPageQuery, CrawlOptions, CrawledSite } from './crawler';
+import { compileCustomChecks, CustomCheckDefinition } from './custom-checks';
+import { createPageQuery, parseDocument } from './dom';
+import { SiteChecks, SiteCheck, SiteCheckResult } from './site-checks';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -33,6 +37,12 @@ export interface AuditCheckResult extends CheckResult {
   fix?: string;
   /** Execution time in ms */
   executionTime: number;
+  /** Whether the check looked at one page or across the site */
+  scope: 'page' | 'site';
+  /** Page the result is for (page checks) */
+  url?: string;
+  /** URLs the result is about (site checks) */
+  affectedUrls?: string[];
 }
 
 export interface CategoryResults {
@@ -80,6 +90,8 @@ export interface AuditResults {
     checksRun: number;
     checksSkipped: number;
   };
+  /** Per-page results of a site audit; `checks` then holds every page and site check result */
+  pages?: AuditResults[];
 }
 
 export interface RunnerOptions {
@@ -95,6 +107,8 @@ export interface RunnerOptions {
   industry?: string;
   /** Timeout per check in ms */
   checkTimeout?: number;
+  /** Declarative checks, e.g. a workspace's house rules, run and scored with the built-ins */
+  customChecks?: CustomCheckDefinition[];
 }
 
 // ============================================================================
@@ -103,6 +117,7 @@ export interface RunnerOptions {
 
 export class AuditRunner {
   private checks: AuditCheck[];
+  private siteChecks: SiteCheck[];
   private options: RunnerOptions;
 
   constructor(options: RunnerOptions = {}) {
@@ -114,12 +129,16 @@ export class AuditRunner {
     };
 
     // Determine which checks to run
+    const pageChecks = [...AllChecks, ...compileCustomChecks(options.customChecks ?? [])];
     if (options.checkIds && options.checkIds.length > 0) {
-      this.checks = AllChecks.filter((c) => options.checkIds!.includes(c.id));
+      this.checks = pageChecks.filter((c) => options.checkIds!.includes(c.id));
+      this.siteChecks = SiteChecks.filter((c) => options.checkIds!.includes(c.id));
     } else if (options.categories && options.categories.length > 0) {
-      this.checks = AllChecks.filter((c) => options.categories!.includes(c.category));
+      this.checks = pageChecks.filter((c) => options.categories!.includes(c.category));
+      this.siteChecks = SiteChecks.filter((c) => options.categories!.includes(c.category));
     } else {
-      this.checks = AllChecks;
+      this.checks = pageChecks;
+      this.siteChecks = SiteChecks;
     }
   }
 
@@ -130,9 +149,14 @@ export class AuditRunner {
     const startTime = Date.now();
     const results: AuditCheckResult[] = [];
 
+    // Parse the page once; every check queries the same document
+    const document = context.document ?? parseDocument(context.html);
+
     // Merge options into context
     const ctx: AuditContext = {
       ...context,
+      document,
+      page: context.page ?? createPageQuery(document, context.url),
       options: {
         checkLocal: this.options.checkLocal,
         checkEEAT: this.options.checkEEAT,
@@ -144,32 +168,7 @@ export class AuditRunner {
     // Run each check
     for (const check of this.checks) {
       const checkStart = Date.now();
-      let result: CheckResult;
-
-      try {
-        const checkResult = check.check(ctx);
-        if (checkResult instanceof Promise) {
-          result = await Promise.race([
-            checkResult,
-            new Promise<CheckResult>((_, reject) =>
-              setTimeout(
-                () => reject(new Error('Check timeout')),
-                this.options.checkTimeout
-              )
-            ),
-          ]);
-        } else {
-          result = checkResult;
-        }
-      } catch (error) {
-        result = {
-          passed: false,
-          status: 'failed',
-          details: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      }
-
-      const executionTime = Date.now() - checkStart;
+      const result = await this.execute(() => check.check(ctx));
 
       results.push({
         ...result,
@@ -179,10 +178,95 @@ export class AuditRunner {
         weight: check.weight,
         severity: check.severity,
         fix: check.fix,
-        executionTime,
+        executionTime: Date.now() - checkStart,
+        scope: 'page',
+        url: context.url,
       });
     }
 
+    return this.summarize(context.url, results, startTime);
+  }
+
+  /**
+   * Audit every crawled page, then run the site checks across the crawl.
+   * Page and site check results are scored together.
+   */
+  async runSite(
+    site: CrawledSite,
+    context: Omit<AuditContext, 'url' | 'html' | 'document' | 'headers' | 'meta'> = {}
+  ): Promise<AuditResults> {
+    const startTime = Date.now();
+    const pages: AuditResults[] = [];
+
+    for (const page of site.pages) {
+      if (page.status < 200 || page.status >= 300 || !page.html) continue;
+      // Reuse the DOM the crawler parsed instead of parsing the page again
+      const query = getCrawledPageQuery(page);
+      pages.push(
+        await this.run({
+          ...context,
+          url: page.finalUrl,
+          html: page.html,
+          headers: page.headers,
+          document: query.document,
+          page: query,
+        })
+      );
+    }
+
+    const siteResults: AuditCheckResult[] = [];
+    for (const check of this.siteChecks) {
+      const checkStart = Date.now();
+      const result: SiteCheckResult = await this.execute(() => check.check(site));
+
+      siteResults.push({
+        ...result,
+        checkId: check.id,
+        checkName: check.name,
+        category: check.category,
+        weight: check.weight,
+        severity: check.severity,
+        fix: check.fix,
+        executionTime: Date.now() - checkStart,
+        scope: 'site',
+      });
+    }
+
+    const results = [...pages.flatMap((page) => page.checks), ...siteResults];
+    return { ...this.summarize(site.startUrl, results, startTime), pages };
+  }
+
+  /**
+   * Run a check with the configured timeout; errors and timeouts fail the check
+   */
+  private async execute<T extends CheckResult>(run: () => T | Promise<T>): Promise<T | CheckResult> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const checkResult = run();
+      if (!(checkResult instanceof Promise)) return checkResult;
+
+      return await Promise.race([
+        checkResult,
+        new Promise<CheckResult>((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Check timeout')), this.options.checkTimeout);
+        }),
+      ]);
+    } catch (error) {
+      return {
+        passed: false,
+        status: 'failed',
+        details: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Score check results and build the audit summary
+   */
+  private summarize(url: string, results: AuditCheckResult[], startTime: number): AuditResults {
     // Organize results by category
     const categories = this.organizeByCategory(results);
 
@@ -207,7 +291,7 @@ export class AuditRunner {
     };
 
     return {
-      url: context.url,
+      url,
       timestamp: new Date().toISOString(),
       score,
       status,
@@ -369,3 +453,16 @@ export async function runHealthcareAudit(
     options: { industry: 'healthcare', checkEEAT: true },
   });
 }
+
+/**
+ * Crawl a live site and audit its pages together with the site checks
+ */
+export async function runCrawlAudit(
+  url: string,
+  options: RunnerOptions & CrawlOptions = {}
+): Promise<AuditResults & { crawl: CrawledSite }> {
+  const crawl = await crawlUrl(url, options);
+  const runner = new AuditRunner(options);
+  const results = await runner.runSite(crawl);
+  return { ...results, crawl };
+}
@@ -0,0 +1,294 @@
+/**
+ * Site-Level Audit Checks
+ *
+ * Checks that look across every crawled page rather than at one page:
+ * duplicate titles and descriptions, orphan pages, broken internal links,
+ * canonical chains and sitemap coverage. Results name the URLs involved.
+ */
+
+import type { AuditCheckCategory, CheckResult, CheckSeverity } from './checks';
+import type { CrawledPage, CrawledSite } from './crawler';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SiteCheckResult extends CheckResult {
+  /** URLs the result is about */
+  affectedUrls?: string[];
+}
+
+export interface SiteCheck {
+  /** Unique check identifier */
+  id: string;
+  /** Check name */
+  name: string;
+  /** Check description */
+  description: string;
+  /** Category for grouping */
+  category: AuditCheckCategory;
+  /** Weight for scoring (1-10) */
+  weight: number;
+  /** Severity if check fails */
+  severity: CheckSeverity;
+  /** Check function */
+  check: (site: CrawledSite) => SiteCheckResult | Promise<SiteCheckResult>;
+  /** How to fix if failed */
+  fix?: string;
+  /** Link to documentation */
+  docsUrl?: string;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function isOk(page: CrawledPage): boolean {
+  return page.status >= 200 && page.status < 300;
+}
+
+function isRedirected(page: CrawledPage): boolean {
+  return page.finalUrl !== page.url;
+}
+
+/**
+ * HTML pages search engines would index: fetched, not noindex and not
+ * canonicalized to another URL
+ */
+function indexablePages(site: CrawledSite): CrawledPage[] {
+  return site.pages.filter(
+    (page) =>
+      isOk(page) &&
+      page.html &&
+      !page.robots?.includes('noindex') &&
+      (!page.canonical || page.canonical === page.finalUrl)
+  );
+}
+
+function findPage(site: CrawledSite, url: string): CrawledPage | undefined {
+  return site.pages.find((page) => page.url === url || page.finalUrl === url);
+}
+
+/**
+ * Pages sharing a value, e.g. the same title
+ */
+function findDuplicates(pages: CrawledPage[], value: (page: CrawledPage) => string | undefined): CrawledPage[][] {
+  const groups = new Map<string, CrawledPage[]>();
+  for (const page of pages) {
+    const key = value(page)?.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), page]);
+  }
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+function duplicateResult(groups: CrawledPage[][], label: string): SiteCheckResult {
+  if (groups.length === 0) {
+    return { passed: true, status: 'passed', details: `All ${label}s are unique` };
+  }
+
+  const affectedUrls = groups.flat().map((page) => page.finalUrl);
+  return {
+    passed: false,
+    status: 'failed',
+    details: `${groups.length} ${label}(s) shared by ${affectedUrls.length} pages`,
+    value: affectedUrls.length,
+    affectedUrls,
+    data: {
+      groups: groups.map((group) => group.map((page) => page.finalUrl)),
+    },
+  };
+}
+
+// ============================================================================
+// SITE CHECKS
+// ============================================================================
+
+export const SiteChecks: SiteCheck[] = [
+  {
+    id: 'duplicate-titles',
+    name: 'Unique Page Titles',
+    description: 'Every indexable page has its own title',
+    category: 'technical',
+    weight: 8,
+    severity: 'warning',
+    check: (site) => duplicateResult(findDuplicates(indexablePages(site), (page) => page.title), 'title'),
+    fix: 'Write a distinct title for each page that describes its own content',
+  },
+  {
+    id: 'duplicate-descriptions',
+    name: 'Unique Meta Descriptions',
+    description: 'Every indexable page has its own meta description',
+    category: 'technical',
+    weight: 6,
+    severity: 'warning',
+    check: (site) =>
+      duplicateResult(findDuplicates(indexablePages(site), (page) => page.description), 'description'),
+    fix: 'Write a distinct meta description for each page',
+  },
+  {
+    id: 'orphan-pages',
+    name: 'Orphan Pages',
+    description: 'Every page is linked from another page of the site',
+    category: 'technical',
+    weight: 7,
+    severity: 'warning',
+    check: (site) => {
+      if (site.truncated) {
+        return { passed: true, status: 'skipped', details: 'Crawl stopped at the page limit' };
+      }
+
+      const linked = new Set<string>();
+      for (const page of site.pages) {
+        for (const link of page.links) {
+          if (link !== page.url && link !== page.finalUrl) linked.add(link);
+        }
+      }
+
+      const orphans = indexablePages(site).filter(
+        (page) =>
+          page.discoveredVia !== 'start' &&
+          page.finalUrl !== site.startUrl &&
+          !linked.has(page.url) &&
+          !linked.has(page.finalUrl)
+      );
+
+      if (orphans.length === 0) {
+        return { passed: true, status: 'passed', details: 'All pages are linked internally' };
+      }
+      return {
+        passed: false,
+        status: 'failed',
+        details: `${orphans.length} page(s) have no internal links pointing to them`,
+        value: orphans.length,
+        affectedUrls: orphans.map((page) => page.finalUrl),
+      };
+    },
+    fix: 'Link to orphan pages from navigation or related pages, or remove them',
+  },
+  {
+    id: 'broken-internal-links',
+    name: 'Broken Internal Links',
+    description: 'Internal links point to pages that load',
+    category: 'technical',
+    weight: 9,
+    severity: 'critical',
+    check: (site) => {
+      const broken: Array<{ from: string; to: string; status: number }> = [];
+      for (const page of site.pages) {
+        for (const link of page.links) {
+          const target = findPage(site, link);
+          if (target && (target.status === 0 || target.status >= 400)) {
+            broken.push({ from: page.finalUrl, to: link, status: target.status });
+          }
+        }
+      }
+
+      if (broken.length === 0) {
+        return { passed: true, status: 'passed', details: 'No broken internal links found' };
+      }
+
+      const targets = Array.from(new Set(broken.map((link) => link.to)));
+      return {
+        passed: false,
+        status: 'failed',
+        details: `${broken.length} link(s) to ${targets.length} missing page(s)`,
+        value: broken.length,
+        affectedUrls: Array.from(new Set(broken.map((link) => link.from))),
+        data: { links: broken },
+      };
+    },
+    fix: 'Update or remove links to pages that no longer exist, or redirect the old URLs',
+  },
+  {
+    id: 'canonical-chains',
+    name: 'Canonical Chains',
+    description: 'Canonical URLs point directly at a page that loads and is its own canonical',
+    category: 'technical',
+    weight: 6,
+    severity: 'warning',
+    check: (site) => {
+      const problems: Array<{ url: string; canonical: string; reason: string }> = [];
+
+      for (const page of site.pages) {
+        if (!page.canonical || page.canonical === page.finalUrl) continue;
+
+        const target = findPage(site, page.canonical);
+        if (!target) continue;
+
+        if (!isOk(target)) {
+          problems.push({ url: page.finalUrl, canonical: page.canonical, reason: `canonical returns ${target.status || 'an error'}` });
+        } else if (isRedirected(target)) {
+          problems.push({ url: page.finalUrl, canonical: page.canonical, reason: 'canonical redirects' });
+        } else if (target.canonical && target.canonical !== target.finalUrl) {
+          problems.push({ url: page.finalUrl, canonical: page.canonical, reason: `canonical points on to ${target.canonical}` });
+        }
+      }
+
+      if (problems.length === 0) {
+        return { passed: true, status: 'passed', details: 'No canonical chains found' };
+      }
+      return {
+        passed: false,
+        status: 'failed',
+        details: `${problems.length} page(s) with a chained or broken canonical`,
+        value: problems.length,
+        affectedUrls: problems.map((problem) => problem.url),
+        data: { canonicals: problems },
+      };
+    },
+    fix: 'Point each canonical straight at the final URL of the preferred page',
+  },
+  {
+    id: 'sitemap-coverage',
+    name: 'Sitemap Coverage',
+    description: 'The sitemap lists every indexable page and nothing else',
+    category: 'technical',
+    weight: 7,
+    severity: 'warning',
+    check: (site) => {
+      if (!site.sitemapUrls) {
+        return { passed: false, status: 'failed', details: 'No sitemap found' };
+      }
+
+      const listed = new Set(site.sitemapUrls);
+      const missing = indexablePages(site).filter((page) => !listed.has(page.url) && !listed.has(page.finalUrl));
+      const invalid = site.sitemapUrls
+        .map((url) => findPage(site, url))
+        .filter((page): page is CrawledPage => Boolean(page && (!isOk(page) || isRedirected(page))));
+
+      if (missing.length === 0 && invalid.length === 0) {
+        return {
+          passed: true,
+          status: 'passed',
+          details: `Sitemap lists all ${site.sitemapUrls.length} indexable page(s)`,
+        };
+      }
+
+      const details = [
+        missing.length ? `${missing.length} page(s) missing from the sitemap` : '',
+        invalid.length ? `${invalid.length} sitemap URL(s) redirect or fail` : '',
+      ].filter(Boolean);
+
+      return {
+        passed: false,
+        status: 'warning',
+        details: details.join('; '),
+        value: missing.length + invalid.length,
+        affectedUrls: [...missing.map((page) => page.finalUrl), ...invalid.map((page) => page.url)],
+        data: {
+          missing: missing.map((page) => page.finalUrl),
+          invalid: invalid.map((page) => page.url),
+        },
+      };
+    },
+    fix: 'Regenerate the sitemap from the live pages, listing only final, indexable URLs',
+  },
+];
+
+/**
+ * Get a site check by ID
+ */
+export function getSiteCheckById(id: string): SiteCheck | undefined {
+  return SiteChecks.find((c) => c.id === id);
+}
@@ -527,6 +527,24 @@ export function getCategoryFromIndustry(industry: string): ContentCategory {
   return 'general';
 }
 
+/**
+ * Days between reviews for each update frequency
+ */
+export const UPDATE_FREQUENCY_DAYS: Record<'monthly' | 'quarterly' | 'annually', number> = {
+  monthly: 30,
+  quarterly: 90,
+  annually: 365,
+};
+
+/**
+ * How often content of a category must be re-reviewed, in days; null when
+ * the category has no review cadence
+ */
+export function getReviewCadenceDays(category: ContentCategory): number | null {
+  const frequency = EEAT_REQUIREMENTS[category].contentRequirements.updateFrequency;
+  return frequency ? UPDATE_FREQUENCY_DAYS[frequency] : null;
+}
+
 /**
  * Check if content category is YMYL
  */
@@ -59,6 +59,18 @@ export const CoreWebVitalsThresholds = {
   },
 } as const;
 
+/**
+ * Budget for the render-blocking stylesheet of a published page (bytes).
+ * Every byte of CSS is downloaded and parsed before first paint, so it
+ * feeds directly into FCP and LCP.
+ */
+export const StylesheetBudget = {
+  /** Good: ≤50 KB */
+  good: 50_000,
+  /** Needs Improvement: >50 KB and ≤100 KB */
+  needsImprovement: 100_000,
+} as const;
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -143,6 +155,15 @@ export function getMetricRating(
   return 'poor';
 }
 
+/**
+ * Get the performance rating for a stylesheet size in bytes
+ */
+export function getStylesheetRating(bytes: number): PerformanceRating {
+  if (bytes <= StylesheetBudget.good) return 'good';
+  if (bytes <= StylesheetBudget.needsImprovement) return 'needs_improvement';
+  return 'poor';
+}
+
 /**
  * Calculate overall performance score (0-100) based on Core Web Vitals
  *
@@ -41,7 +41,8 @@ export type HealthcareSpecialty =
   | 'hospital'
   | 'dermatology'
   | 'podiatry'
-  | 'mens_health';
+  | 'mens_health'
+  | 'behavioral_health';
 
 /** Legal specialties */
 export type LegalSpecialty =
@@ -144,6 +145,7 @@ const SCHEMA_TYPE_MAPPING: Record<string, string> = {
   'healthcare:dermatology': 'MedicalClinic',
   'healthcare:podiatry': 'MedicalClinic',
   'healthcare:mens_health': 'MedicalClinic',
+  'healthcare:behavioral_health': 'MedicalClinic',
   'healthcare': 'MedicalBusiness',
 
   // Legal
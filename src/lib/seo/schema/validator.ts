@@ -75,6 +75,7 @@ const REQUIRED_FIELDS: Record<SchemaType, string[]> = {
 
   // Person
   Person: ['name'],
+  Physician: ['name', 'address'],
 
   // FAQ
   FAQPage: ['mainEntity'],
@@ -98,6 +99,7 @@ const RECOMMENDED_FIELDS: Record<SchemaType, string[]> = {
   Product: ['description', 'brand', 'aggregateRating', 'review'],
   Organization: ['logo', 'description', 'contactPoint', 'sameAs'],
   Person: ['image', 'jobTitle', 'description', 'sameAs'],
+  Physician: ['telephone', 'image', 'medicalSpecialty', 'description', 'url'],
   FAQPage: [],
   BreadcrumbList: [],
   WebSite: ['description', 'potentialAction'],
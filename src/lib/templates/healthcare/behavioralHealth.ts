@@ -0,0 +1,156 @@
+/**
+ * Behavioral Health Template
+ *
+ * Complete template configuration for outpatient mental health and
+ * psychiatry practices including therapy, medication management and
+ * telehealth.
+ */
+
+import type { HealthcareTemplate } from '@/types/healthcare';
+
+export const behavioralHealthTemplate: HealthcareTemplate = {
+  id: 'behavioral-health',
+  name: 'Behavioral Health Practice',
+  description: 'Therapy, Psychiatry, Medication Management, Telehealth',
+  industry: 'healthcare',
+  subCategory: 'behavioral_health',
+  thumbnail: '/templates/behavioral-health-thumb.png',
+
+  features: [
+    'Multi-location and telehealth support',
+    'Condition pages (anxiety, depression, ADHD, PTSD)',
+    'Local SEO pages (location × service)',
+    'Clinician profiles with approaches and licenses',
+    'Crisis resources on every page',
+    'Insurance and sliding-scale information',
+    'Privacy-first intake request forms',
+    'Mental health library with E-E-A-T compliance',
+  ],
+
+  defaultServices: [
+    {
+      name: 'Individual Therapy',
+      slug: 'individual-therapy',
+      category: 'mental_health',
+      treatments: ['Cognitive Behavioral Therapy (CBT)', 'Dialectical Behavior Therapy (DBT)', 'EMDR', 'Psychodynamic Therapy'],
+    },
+    {
+      name: 'Psychiatry & Medication Management',
+      slug: 'psychiatry',
+      category: 'mental_health',
+      treatments: ['Psychiatric Evaluation', 'Medication Management', 'Genetic Testing for Medication Response'],
+    },
+    {
+      name: 'Couples & Family Therapy',
+      slug: 'couples-family-therapy',
+      category: 'mental_health',
+      treatments: ['Couples Counseling', 'Family Therapy', 'Parenting Support'],
+    },
+    {
+      name: 'Child & Adolescent Services',
+      slug: 'child-adolescent',
+      category: 'mental_health',
+      treatments: ['Play Therapy', 'ADHD Evaluation', 'Teen Therapy'],
+    },
+    {
+      name: 'Interventional Psychiatry',
+      slug: 'interventional-psychiatry',
+      category: 'mental_health',
+      treatments: ['TMS Therapy', 'Spravato (Esketamine)'],
+    },
+    {
+      name: 'Telehealth',
+      slug: 'telehealth',
+      category: 'mental_health',
+      treatments: ['Online Therapy', 'Virtual Medication Management'],
+    },
+  ],
+
+  pages: [
+    { path: '/', name: 'Homepage', description: 'Hero, how we help, getting started, insurance, crisis banner' },
+    { path: '/about', name: 'About Us', description: 'Mission, approach, accreditation' },
+    { path: '/team', name: 'Our Clinicians', description: 'Psychiatrists, therapists and NPs with licenses' },
+    { path: '/team/[physician]', name: 'Clinician Profile', description: 'Individual clinician page with approaches' },
+    { path: '/services', name: 'Services Index', description: 'All services and formats (in person, telehealth)' },
+    { path: '/services/[service]', name: 'Service Page', description: 'Individual service details' },
+    { path: '/services/[service]/[treatment]', name: 'Approach Page', description: 'Specific therapy approach or treatment' },
+    { path: '/conditions', name: 'Conditions Index', description: 'Conditions we treat' },
+    { path: '/conditions/[condition]', name: 'Condition Page', description: 'Signs, treatment options and when to seek help' },
+    { path: '/locations', name: 'Locations Index', description: 'All offices and telehealth coverage states' },
+    { path: '/locations/[location]', name: 'Location Page', description: 'Individual office with NAP' },
+    { path: '/locations/[location]/[service]', name: 'Local SEO Page', description: 'Location + Service combo' },
+    { path: '/getting-started', name: 'Getting Started', description: 'Intake process, first appointment, what to expect' },
+    { path: '/insurance-fees', name: 'Insurance & Fees', description: 'Accepted plans, self-pay, sliding scale, Good Faith Estimate' },
+    { path: '/crisis-resources', name: 'Crisis Resources', description: '988, 911 and local emergency resources' },
+    { path: '/resources', name: 'Mental Health Library', description: 'Articles index' },
+    { path: '/resources/[slug]', name: 'Article Page', description: 'Individual article with E-E-A-T' },
+    { path: '/request-appointment', name: 'Request Appointment', description: 'Minimal intake request form' },
+    { path: '/contact', name: 'Contact', description: 'Contact form with all locations' },
+    { path: '/privacy-policy', name: 'Privacy Policy', description: 'Privacy, HIPAA and 42 CFR Part 2 information' },
+  ],
+
+  schemaTypes: [
+    'Organization',
+    'MedicalClinic',
+    'MedicalBusiness',
+    'LocalBusiness',
+    'Physician',
+    'FAQPage',
+    'Article',
+    'MedicalWebPage',
+    'MedicalCondition',
+    'BreadcrumbList',
+    'Service',
+    'MedicalTherapy',
+  ],
+
+  complianceNotes: [
+    'Show the 988 Suicide & Crisis Lifeline and 911 on every page; the practice must not imply it provides emergency care',
+    'Patient testimonials are discouraged - APA and ACA ethics codes prohibit soliciting them from current clients',
+    'Intake forms must not ask for diagnoses or symptoms before a BAA-covered system is in place; substance use records fall under 42 CFR Part 2',
+    'No Surprises Act: self-pay patients must be offered a Good Faith Estimate - link it from the fees page',
+    'Telehealth availability depends on the clinician\'s state licenses - list the states each clinician can see patients in',
+    'Do not use retargeting pixels on condition or appointment pages; they can disclose health information to ad platforms',
+  ],
+
+  requiredIntegrations: ['supabase', 'resend'],
+  optionalIntegrations: ['simplepractice', 'doxy', 'ga4', 'gtm'],
+
+  setupWizard: [
+    {
+      step: 1,
+      title: 'Practice Information',
+      fields: ['practice_name', 'specialty', 'year_established', 'phone', 'email'],
+    },
+    {
+      step: 2,
+      title: 'Clinical Director',
+      fields: ['director_name', 'credentials', 'npi', 'bio', 'image', 'specialties'],
+    },
+    {
+      step: 3,
+      title: 'Offices',
+      fields: ['locations_array'],
+      minimum: 1,
+      canAddCustom: true,
+    },
+    {
+      step: 4,
+      title: 'Services',
+      fields: ['services_selection'],
+      canAddCustom: true,
+    },
+    {
+      step: 5,
+      title: 'Branding',
+      fields: ['logo', 'primary_color', 'secondary_color', 'fonts'],
+    },
+    {
+      step: 6,
+      title: 'Domain & Deployment',
+      fields: ['domain', 'subdomain', 'ssl'],
+    },
+  ],
+};
+
+export default behavioralHealthTemplate;
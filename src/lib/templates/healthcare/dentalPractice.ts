@@ -0,0 +1,156 @@
+/**
+ * Dental Practice Template
+ *
+ * Complete template configuration for general and cosmetic dental
+ * practices including implants, orthodontics and emergency care.
+ */
+
+import type { HealthcareTemplate } from '@/types/healthcare';
+
+export const dentalPracticeTemplate: HealthcareTemplate = {
+  id: 'dental-practice',
+  name: 'Dental Practice',
+  description: 'General, Cosmetic, Implants, Orthodontics',
+  industry: 'healthcare',
+  subCategory: 'dental',
+  thumbnail: '/templates/dental-practice-thumb.png',
+
+  features: [
+    'Multi-location support',
+    'Procedure pages with before/after galleries',
+    'Local SEO pages (location × service)',
+    'Insurance and financing information',
+    'Emergency dental care callouts',
+    'New patient forms and specials',
+    'Dentist schema markup',
+    'Patient testimonials with schema',
+    'Dental health library with E-E-A-T compliance',
+  ],
+
+  defaultServices: [
+    {
+      name: 'General & Family Dentistry',
+      slug: 'general-dentistry',
+      category: 'dental',
+      treatments: ['Exams & Cleanings', 'Fillings', 'Sealants', 'Fluoride Treatment', 'Digital X-Rays'],
+    },
+    {
+      name: 'Cosmetic Dentistry',
+      slug: 'cosmetic-dentistry',
+      category: 'dental',
+      treatments: ['Teeth Whitening', 'Porcelain Veneers', 'Dental Bonding', 'Smile Makeover'],
+    },
+    {
+      name: 'Dental Implants',
+      slug: 'dental-implants',
+      category: 'dental',
+      treatments: ['Single Tooth Implants', 'Implant-Supported Bridges', 'All-on-4 Implants', 'Bone Grafting'],
+    },
+    {
+      name: 'Orthodontics',
+      slug: 'orthodontics',
+      category: 'dental',
+      treatments: ['Invisalign', 'Traditional Braces', 'Retainers'],
+    },
+    {
+      name: 'Restorative Dentistry',
+      slug: 'restorative-dentistry',
+      category: 'dental',
+      treatments: ['Crowns', 'Bridges', 'Dentures', 'Root Canal Therapy'],
+    },
+    {
+      name: 'Emergency Dental Care',
+      slug: 'emergency-dentist',
+      category: 'dental',
+      treatments: ['Toothache Relief', 'Broken Tooth Repair', 'Tooth Extraction'],
+    },
+  ],
+
+  pages: [
+    { path: '/', name: 'Homepage', description: 'Hero, services, new patient offer, reviews, insurance logos' },
+    { path: '/about', name: 'About Us', description: 'Practice story, technology, office tour' },
+    { path: '/team', name: 'Our Team', description: 'Dentists and hygienists with credentials' },
+    { path: '/team/[physician]', name: 'Dentist Profile', description: 'Individual dentist page' },
+    { path: '/services', name: 'Services Index', description: 'All dental services by category' },
+    { path: '/services/[service]', name: 'Service Page', description: 'Individual service details' },
+    { path: '/services/[service]/[treatment]', name: 'Procedure Page', description: 'Specific procedure with FAQs' },
+    { path: '/locations', name: 'Locations Index', description: 'All offices' },
+    { path: '/locations/[location]', name: 'Location Page', description: 'Individual office with NAP and hours' },
+    { path: '/locations/[location]/[service]', name: 'Local SEO Page', description: 'Location + Service combo' },
+    { path: '/smile-gallery', name: 'Smile Gallery', description: 'Before/after photos with consent notices' },
+    { path: '/new-patients', name: 'New Patients', description: 'What to expect, forms, first visit special' },
+    { path: '/insurance-financing', name: 'Insurance & Financing', description: 'Accepted plans, membership plan, financing' },
+    { path: '/emergency-dentist', name: 'Emergency Dentist', description: 'Same-day emergency care and after-hours contact' },
+    { path: '/dental-library', name: 'Dental Library', description: 'Articles index with categories' },
+    { path: '/dental-library/[category]/[slug]', name: 'Article Page', description: 'Individual article with E-E-A-T' },
+    { path: '/book-appointment', name: 'Book Appointment', description: 'Appointment request form' },
+    { path: '/patient-reviews', name: 'Reviews', description: 'Testimonials with aggregate rating' },
+    { path: '/contact', name: 'Contact', description: 'Contact form with all offices' },
+    { path: '/privacy-policy', name: 'Privacy Policy', description: 'Privacy and HIPAA information' },
+  ],
+
+  schemaTypes: [
+    'Organization',
+    'Dentist',
+    'LocalBusiness',
+    'Physician',
+    'FAQPage',
+    'Article',
+    'MedicalWebPage',
+    'BreadcrumbList',
+    'Review',
+    'AggregateRating',
+    'Service',
+    'MedicalProcedure',
+    'Offer',
+  ],
+
+  complianceNotes: [
+    'HIPAA: before/after photos and patient testimonials require written patient authorization',
+    'State dental boards restrict specialty claims - only dentists with an ADA-recognized specialty may advertise as a "specialist" in it',
+    'Advertised fees and new patient specials must state what is included and any insurance exclusions',
+    'ADA Code: do not claim superiority over other dentists or guarantee results',
+    'Emergency pages must direct life-threatening symptoms (facial swelling affecting breathing) to 911',
+  ],
+
+  requiredIntegrations: ['supabase', 'resend'],
+  optionalIntegrations: ['twilio', 'nexhealth', 'ga4', 'gtm', 'carecredit'],
+
+  setupWizard: [
+    {
+      step: 1,
+      title: 'Practice Information',
+      fields: ['practice_name', 'specialty', 'year_established', 'phone', 'email'],
+    },
+    {
+      step: 2,
+      title: 'Lead Dentist',
+      fields: ['director_name', 'credentials', 'npi', 'bio', 'image', 'specialties'],
+    },
+    {
+      step: 3,
+      title: 'Offices',
+      fields: ['locations_array'],
+      minimum: 1,
+      canAddCustom: true,
+    },
+    {
+      step: 4,
+      title: 'Services',
+      fields: ['services_selection'],
+      canAddCustom: true,
+    },
+    {
+      step: 5,
+      title: 'Branding',
+      fields: ['logo', 'primary_color', 'secondary_color', 'fonts'],
+    },
+    {
+      step: 6,
+      title: 'Domain & Deployment',
+      fields: ['domain', 'subdomain', 'ssl'],
+    },
+  ],
+};
+
+export default dentalPracticeTemplate;
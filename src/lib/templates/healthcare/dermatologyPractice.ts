@@ -0,0 +1,158 @@
+/**
+ * Dermatology Practice Template
+ *
+ * Complete template configuration for medical, surgical and cosmetic
+ * dermatology practices.
+ */
+
+import type { HealthcareTemplate } from '@/types/healthcare';
+
+export const dermatologyPracticeTemplate: HealthcareTemplate = {
+  id: 'dermatology-practice',
+  name: 'Dermatology Practice',
+  description: 'Medical, Skin Cancer, Mohs Surgery, Cosmetic',
+  industry: 'healthcare',
+  subCategory: 'dermatology',
+  thumbnail: '/templates/dermatology-thumb.png',
+
+  features: [
+    'Multi-location support',
+    'Condition library (acne, eczema, psoriasis, skin cancer)',
+    'Local SEO pages (location × service)',
+    'Board-certified dermatologist profiles',
+    'Skin cancer screening booking',
+    'Cosmetic treatment pages with galleries',
+    'Insurance information for medical visits',
+    'Patient testimonials with schema',
+    'Skin health library with E-E-A-T compliance',
+  ],
+
+  defaultServices: [
+    {
+      name: 'Medical Dermatology',
+      slug: 'medical-dermatology',
+      category: 'skin',
+      treatments: ['Acne Treatment', 'Eczema Treatment', 'Psoriasis Treatment', 'Rosacea Treatment', 'Biologic Therapy'],
+    },
+    {
+      name: 'Skin Cancer Screening & Treatment',
+      slug: 'skin-cancer',
+      category: 'skin',
+      treatments: ['Full-Body Skin Exam', 'Biopsy', 'Excision', 'Cryotherapy'],
+    },
+    {
+      name: 'Mohs Surgery',
+      slug: 'mohs-surgery',
+      category: 'skin',
+      treatments: ['Mohs Micrographic Surgery', 'Reconstructive Closure'],
+    },
+    {
+      name: 'Cosmetic Dermatology',
+      slug: 'cosmetic-dermatology',
+      category: 'aesthetics',
+      treatments: ['Botox', 'Dermal Fillers', 'Chemical Peels', 'Laser Resurfacing'],
+    },
+    {
+      name: 'Hair & Nail Disorders',
+      slug: 'hair-nail-disorders',
+      category: 'hair',
+      treatments: ['Alopecia Treatment', 'PRP for Hair Loss', 'Nail Fungus Treatment'],
+    },
+    {
+      name: 'Pediatric Dermatology',
+      slug: 'pediatric-dermatology',
+      category: 'skin',
+      treatments: ['Birthmark Evaluation', 'Warts & Molluscum Treatment', 'Pediatric Eczema Care'],
+    },
+  ],
+
+  pages: [
+    { path: '/', name: 'Homepage', description: 'Hero, medical and cosmetic services, screening CTA, reviews' },
+    { path: '/about', name: 'About Us', description: 'Practice story, board certifications, affiliations' },
+    { path: '/team', name: 'Our Team', description: 'Dermatologists, PAs and NPs with credentials' },
+    { path: '/team/[physician]', name: 'Dermatologist Profile', description: 'Individual provider page' },
+    { path: '/services', name: 'Services Index', description: 'Medical, surgical and cosmetic services' },
+    { path: '/services/[service]', name: 'Service Page', description: 'Individual service details' },
+    { path: '/services/[service]/[treatment]', name: 'Treatment Page', description: 'Specific treatment option' },
+    { path: '/conditions', name: 'Conditions Index', description: 'Skin, hair and nail conditions A-Z' },
+    { path: '/conditions/[condition]', name: 'Condition Page', description: 'Symptoms, diagnosis and treatment options' },
+    { path: '/locations', name: 'Locations Index', description: 'All office locations' },
+    { path: '/locations/[location]', name: 'Location Page', description: 'Individual office with NAP' },
+    { path: '/locations/[location]/[service]', name: 'Local SEO Page', description: 'Location + Service combo' },
+    { path: '/skin-cancer-screening', name: 'Skin Cancer Screening', description: 'ABCDEs, who should be screened, booking' },
+    { path: '/cosmetic-gallery', name: 'Cosmetic Gallery', description: 'Before/after photos with consent notices' },
+    { path: '/insurance', name: 'Insurance & Billing', description: 'Accepted plans, cosmetic pricing, financing' },
+    { path: '/skin-health-library', name: 'Skin Health Library', description: 'Articles index with categories' },
+    { path: '/skin-health-library/[category]/[slug]', name: 'Article Page', description: 'Individual article with E-E-A-T' },
+    { path: '/book-appointment', name: 'Book Appointment', description: 'Appointment request form' },
+    { path: '/patient-reviews', name: 'Reviews', description: 'Testimonials with aggregate rating' },
+    { path: '/contact', name: 'Contact', description: 'Contact form with all locations' },
+    { path: '/privacy-policy', name: 'Privacy Policy', description: 'Privacy and HIPAA information' },
+  ],
+
+  schemaTypes: [
+    'Organization',
+    'MedicalClinic',
+    'MedicalBusiness',
+    'LocalBusiness',
+    'Physician',
+    'FAQPage',
+    'Article',
+    'MedicalWebPage',
+    'MedicalCondition',
+    'BreadcrumbList',
+    'Review',
+    'AggregateRating',
+    'Service',
+    'MedicalProcedure',
+  ],
+
+  complianceNotes: [
+    '"Board-certified dermatologist" is reserved for physicians certified by the ABD or AOBD - label PAs and NPs by their own credentials',
+    'Skin cancer content is YMYL: cite AAD or NCI guidance and tell readers to see a clinician about changing moles rather than self-diagnose',
+    'Cosmetic before/after photos need written consent and a "results vary" disclaimer; clinical photos of medical conditions need separate authorization',
+    'Distinguish insured medical visits from self-pay cosmetic services so patients are not misled about coverage',
+    'FDA: describe prescription treatments (isotretinoin, biologics) only for approved indications and mention they require a prescriber evaluation',
+  ],
+
+  requiredIntegrations: ['supabase', 'resend'],
+  optionalIntegrations: ['twilio', 'modmed', 'ga4', 'gtm', 'pixel'],
+
+  setupWizard: [
+    {
+      step: 1,
+      title: 'Practice Information',
+      fields: ['practice_name', 'specialty', 'year_established', 'phone', 'email'],
+    },
+    {
+      step: 2,
+      title: 'Lead Dermatologist',
+      fields: ['director_name', 'credentials', 'npi', 'bio', 'image', 'specialties'],
+    },
+    {
+      step: 3,
+      title: 'Locations',
+      fields: ['locations_array'],
+      minimum: 1,
+      canAddCustom: true,
+    },
+    {
+      step: 4,
+      title: 'Services',
+      fields: ['services_selection'],
+      canAddCustom: true,
+    },
+    {
+      step: 5,
+      title: 'Branding',
+      fields: ['logo', 'primary_color', 'secondary_color', 'fonts'],
+    },
+    {
+      step: 6,
+      title: 'Domain & Deployment',
+      fields: ['domain', 'subdomain', 'ssl'],
+    },
+  ],
+};
+
+export default dermatologyPracticeTemplate;
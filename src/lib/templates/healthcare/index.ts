@@ -5,14 +5,21 @@
  */
 
 export { mensHealthClinicTemplate } from './mensHealthClinic';
+export { dentalPracticeTemplate } from './dentalPractice';
+export { medSpaTemplate } from './medSpa';
+export { physicalTherapyTemplate } from './physicalTherapy';
+export { dermatologyPracticeTemplate } from './dermatologyPractice';
+export { behavioralHealthTemplate } from './behavioralHealth';
 
 // Additional templates to be implemented:
-// export { medSpaTemplate } from './medSpa';
-// export { dentalPracticeTemplate } from './dentalPractice';
 // export { chiropracticClinicTemplate } from './chiropracticClinic';
-// export { physicalTherapyTemplate } from './physicalTherapy';
 
 import { mensHealthClinicTemplate } from './mensHealthClinic';
+import { dentalPracticeTemplate } from './dentalPractice';
+import { medSpaTemplate } from './medSpa';
+import { physicalTherapyTemplate } from './physicalTherapy';
+import { dermatologyPracticeTemplate } from './dermatologyPractice';
+import { behavioralHealthTemplate } from './behavioralHealth';
 import type { HealthcareTemplate } from '@/types/healthcare';
 
 /**
@@ -20,6 +27,11 @@ import type { HealthcareTemplate } from '@/types/healthcare';
  */
 export const healthcareTemplates: HealthcareTemplate[] = [
   mensHealthClinicTemplate,
+  dentalPracticeTemplate,
+  medSpaTemplate,
+  physicalTherapyTemplate,
+  dermatologyPracticeTemplate,
+  behavioralHealthTemplate,
   // Add more templates here as they're created
 ];
 
@@ -31,8 +43,10 @@ export function getTemplateById(id: string): HealthcareTemplate | undefined {
 }
 
 /**
- * Get templates by specialty
+ * Get templates by specialty. Aesthetic practices use the med spa
+ * template.
  */
 export function getTemplatesBySpecialty(specialty: string): HealthcareTemplate[] {
-  return healthcareTemplates.filter((t) => t.subCategory === specialty);
+  const subCategory = specialty === 'aesthetic' ? 'med_spa' : specialty;
+  return healthcareTemplates.filter((t) => t.subCategory === subCategory);
 }
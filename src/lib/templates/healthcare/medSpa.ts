@@ -0,0 +1,157 @@
+/**
+ * Med Spa Template
+ *
+ * Complete template configuration for medical spas and aesthetic
+ * practices including injectables, laser and skin treatments.
+ */
+
+import type { HealthcareTemplate } from '@/types/healthcare';
+
+export const medSpaTemplate: HealthcareTemplate = {
+  id: 'med-spa',
+  name: 'Med Spa & Aesthetics',
+  description: 'Injectables, Laser, Skin Rejuvenation, Body Contouring',
+  industry: 'healthcare',
+  subCategory: 'med_spa',
+  thumbnail: '/templates/med-spa-thumb.png',
+
+  features: [
+    'Multi-location support',
+    'Treatment pages with before/after galleries',
+    'Local SEO pages (location × treatment)',
+    'Memberships and package pricing',
+    'Medical director and injector profiles',
+    'Online consultation booking',
+    'Special offers with schema',
+    'Patient testimonials with schema',
+    'Aesthetics journal with E-E-A-T compliance',
+  ],
+
+  defaultServices: [
+    {
+      name: 'Injectables',
+      slug: 'injectables',
+      category: 'aesthetics',
+      treatments: ['Botox', 'Dysport', 'Dermal Fillers', 'Lip Filler', 'Kybella'],
+    },
+    {
+      name: 'Laser Treatments',
+      slug: 'laser-treatments',
+      category: 'aesthetics',
+      treatments: ['Laser Hair Removal', 'IPL Photofacial', 'Fractional Laser Resurfacing'],
+    },
+    {
+      name: 'Skin Rejuvenation',
+      slug: 'skin-rejuvenation',
+      category: 'skin',
+      treatments: ['Microneedling', 'Chemical Peels', 'HydraFacial', 'PRP Facial'],
+    },
+    {
+      name: 'Body Contouring',
+      slug: 'body-contouring',
+      category: 'aesthetics',
+      treatments: ['CoolSculpting', 'Radiofrequency Skin Tightening', 'EMSculpt'],
+    },
+    {
+      name: 'Medical Weight Loss',
+      slug: 'weight-loss',
+      category: 'weight',
+      treatments: ['GLP-1 Medications', 'B12 Injections', 'Nutrition Coaching'],
+    },
+    {
+      name: 'Wellness Therapies',
+      slug: 'wellness',
+      category: 'preventive',
+      treatments: ['IV Hydration', 'Vitamin Injections', 'Hormone Optimization'],
+    },
+  ],
+
+  pages: [
+    { path: '/', name: 'Homepage', description: 'Hero, featured treatments, results, memberships, reviews' },
+    { path: '/about', name: 'About Us', description: 'Philosophy, medical oversight, the spa' },
+    { path: '/team', name: 'Our Team', description: 'Medical director, nurse injectors and aestheticians' },
+    { path: '/team/[physician]', name: 'Provider Profile', description: 'Individual provider page' },
+    { path: '/treatments', name: 'Treatments Index', description: 'All treatments by concern and area' },
+    { path: '/treatments/[service]', name: 'Treatment Category', description: 'Treatment category details' },
+    { path: '/treatments/[service]/[treatment]', name: 'Treatment Page', description: 'Specific treatment with downtime and FAQs' },
+    { path: '/concerns/[concern]', name: 'Concern Page', description: 'Wrinkles, acne scars, volume loss - treatments that help' },
+    { path: '/locations', name: 'Locations Index', description: 'All spa locations' },
+    { path: '/locations/[location]', name: 'Location Page', description: 'Individual location with NAP' },
+    { path: '/locations/[location]/[service]', name: 'Local SEO Page', description: 'Location + Treatment combo' },
+    { path: '/results', name: 'Before & After', description: 'Results gallery with consent and disclaimers' },
+    { path: '/pricing', name: 'Pricing', description: 'Treatment prices, packages and financing' },
+    { path: '/memberships', name: 'Memberships', description: 'Membership tiers and perks' },
+    { path: '/special-offers', name: 'Special Offers', description: 'Current promotions' },
+    { path: '/journal', name: 'Journal', description: 'Aesthetics articles index' },
+    { path: '/journal/[slug]', name: 'Article Page', description: 'Individual article with E-E-A-T' },
+    { path: '/book-consultation', name: 'Book Consultation', description: 'Consultation request form' },
+    { path: '/patient-reviews', name: 'Reviews', description: 'Testimonials with aggregate rating' },
+    { path: '/contact', name: 'Contact', description: 'Contact form with all locations' },
+    { path: '/privacy-policy', name: 'Privacy Policy', description: 'Privacy and HIPAA information' },
+  ],
+
+  schemaTypes: [
+    'Organization',
+    'MedicalBusiness',
+    'HealthAndBeautyBusiness',
+    'LocalBusiness',
+    'Physician',
+    'FAQPage',
+    'Article',
+    'BreadcrumbList',
+    'Review',
+    'AggregateRating',
+    'Service',
+    'MedicalProcedure',
+    'Offer',
+  ],
+
+  complianceNotes: [
+    'FDA: refer to botulinum toxins by brand name only for approved indications and never promote off-label uses',
+    'Before/after photos need written consent, unretouched images, comparable lighting and a "results vary" disclaimer',
+    'Injectables and laser treatments must be shown as performed by licensed providers under a named medical director',
+    'Promotional pricing and package offers must disclose expiry, eligibility and that a consultation determines candidacy',
+    'Compounded GLP-1 medications must not be described as FDA-approved or equivalent to brand-name drugs',
+  ],
+
+  requiredIntegrations: ['supabase', 'resend'],
+  optionalIntegrations: ['twilio', 'boulevard', 'mindbody', 'ga4', 'gtm', 'pixel', 'cherry'],
+
+  setupWizard: [
+    {
+      step: 1,
+      title: 'Spa Information',
+      fields: ['practice_name', 'specialty', 'year_established', 'phone', 'email'],
+    },
+    {
+      step: 2,
+      title: 'Medical Director',
+      fields: ['director_name', 'credentials', 'npi', 'bio', 'image', 'specialties'],
+    },
+    {
+      step: 3,
+      title: 'Locations',
+      fields: ['locations_array'],
+      minimum: 1,
+      canAddCustom: true,
+    },
+    {
+      step: 4,
+      title: 'Treatments',
+      fields: ['services_selection'],
+      canAddCustom: true,
+    },
+    {
+      step: 5,
+      title: 'Branding',
+      fields: ['logo', 'primary_color', 'secondary_color', 'fonts'],
+    },
+    {
+      step: 6,
+      title: 'Domain & Deployment',
+      fields: ['domain', 'subdomain', 'ssl'],
+    },
+  ],
+};
+
+export default medSpaTemplate;
@@ -96,6 +96,14 @@ export const mensHealthClinicTemplate: HealthcareTemplate = {
     'Offer',
   ],
 
+  complianceNotes: [
+    'HIPAA: contact and booking forms must not collect symptoms or medical history without a signed BAA with the form and email providers',
+    'FDA: testosterone and GLP-1 medications may only be promoted for approved indications; compounded semaglutide and tirzepatide must not be presented as FDA-approved',
+    'FTC: results in testimonials must reflect typical outcomes or carry a clear "results vary" disclosure',
+    'Shockwave therapy for ED is not FDA-cleared for that indication - describe it as an off-label or investigational treatment',
+    'Health library articles need a named medical reviewer and a last-reviewed date (YMYL)',
+  ],
+
   requiredIntegrations: ['supabase', 'resend'],
   optionalIntegrations: ['twilio', 'calendly', 'ga4', 'gtm', 'pixel'],
 
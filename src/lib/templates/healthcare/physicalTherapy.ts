@@ -0,0 +1,157 @@
+/**
+ * Physical Therapy Template
+ *
+ * Complete template configuration for outpatient physical therapy
+ * clinics including orthopedic, sports and post-surgical rehab.
+ */
+
+import type { HealthcareTemplate } from '@/types/healthcare';
+
+export const physicalTherapyTemplate: HealthcareTemplate = {
+  id: 'physical-therapy',
+  name: 'Physical Therapy Clinic',
+  description: 'Orthopedic, Sports, Post-Surgical, Vestibular Rehab',
+  industry: 'healthcare',
+  subCategory: 'physical_therapy',
+  thumbnail: '/templates/physical-therapy-thumb.png',
+
+  features: [
+    'Multi-location support',
+    'Condition and treatment pages',
+    'Local SEO pages (location × service)',
+    'Direct access information by state',
+    'Insurance and self-pay rates',
+    'Therapist profiles with specializations',
+    'Free screening booking',
+    'Patient success stories with schema',
+    'Exercise and recovery library with E-E-A-T compliance',
+  ],
+
+  defaultServices: [
+    {
+      name: 'Orthopedic Physical Therapy',
+      slug: 'orthopedic-therapy',
+      category: 'rehabilitation',
+      treatments: ['Manual Therapy', 'Therapeutic Exercise', 'Dry Needling', 'Joint Mobilization'],
+    },
+    {
+      name: 'Sports Injury Rehabilitation',
+      slug: 'sports-rehab',
+      category: 'rehabilitation',
+      treatments: ['Return-to-Sport Testing', 'ACL Rehabilitation', 'Running Gait Analysis'],
+    },
+    {
+      name: 'Post-Surgical Rehabilitation',
+      slug: 'post-surgical-rehab',
+      category: 'rehabilitation',
+      treatments: ['Joint Replacement Rehab', 'Rotator Cuff Repair Rehab', 'Spinal Surgery Rehab'],
+    },
+    {
+      name: 'Back & Neck Pain',
+      slug: 'back-neck-pain',
+      category: 'pain',
+      treatments: ['McKenzie Method', 'Spinal Traction', 'Postural Training'],
+    },
+    {
+      name: 'Vestibular Rehabilitation',
+      slug: 'vestibular-rehab',
+      category: 'rehabilitation',
+      treatments: ['Canalith Repositioning', 'Balance Training', 'Gaze Stabilization'],
+    },
+    {
+      name: 'Pelvic Health',
+      slug: 'pelvic-health',
+      category: 'rehabilitation',
+      treatments: ['Pelvic Floor Therapy', 'Prenatal & Postpartum Care', 'Biofeedback'],
+    },
+  ],
+
+  pages: [
+    { path: '/', name: 'Homepage', description: 'Hero, conditions treated, free screening offer, outcomes, reviews' },
+    { path: '/about', name: 'About Us', description: 'Clinic story, approach, outcomes tracking' },
+    { path: '/team', name: 'Our Team', description: 'Physical therapists with specializations' },
+    { path: '/team/[physician]', name: 'Therapist Profile', description: 'Individual therapist page' },
+    { path: '/services', name: 'Services Index', description: 'All therapy services' },
+    { path: '/services/[service]', name: 'Service Page', description: 'Individual service details' },
+    { path: '/services/[service]/[treatment]', name: 'Treatment Page', description: 'Specific technique and what to expect' },
+    { path: '/conditions', name: 'Conditions Index', description: 'Conditions treated by body region' },
+    { path: '/conditions/[condition]', name: 'Condition Page', description: 'Symptoms, causes and how PT helps' },
+    { path: '/locations', name: 'Locations Index', description: 'All clinic locations' },
+    { path: '/locations/[location]', name: 'Location Page', description: 'Individual clinic with NAP' },
+    { path: '/locations/[location]/[service]', name: 'Local SEO Page', description: 'Location + Service combo' },
+    { path: '/insurance', name: 'Insurance & Rates', description: 'Accepted insurance, self-pay rates, direct access' },
+    { path: '/first-visit', name: 'Your First Visit', description: 'Evaluation, what to wear, paperwork' },
+    { path: '/resources', name: 'Recovery Library', description: 'Articles and exercise guides index' },
+    { path: '/resources/[slug]', name: 'Article Page', description: 'Individual article with E-E-A-T' },
+    { path: '/book-appointment', name: 'Book Appointment', description: 'Evaluation request form' },
+    { path: '/patient-stories', name: 'Patient Stories', description: 'Testimonials with aggregate rating' },
+    { path: '/contact', name: 'Contact', description: 'Contact form with all locations' },
+    { path: '/privacy-policy', name: 'Privacy Policy', description: 'Privacy and HIPAA information' },
+  ],
+
+  schemaTypes: [
+    'Organization',
+    'MedicalClinic',
+    'MedicalBusiness',
+    'LocalBusiness',
+    'Physician',
+    'FAQPage',
+    'Article',
+    'MedicalWebPage',
+    'MedicalCondition',
+    'BreadcrumbList',
+    'Review',
+    'AggregateRating',
+    'Service',
+    'MedicalTherapy',
+  ],
+
+  complianceNotes: [
+    'Direct access rules differ by state - state any referral or visit limits for the clinic\'s state on the insurance page',
+    'Only therapists holding a current license may use "PT" or "DPT"; list board specializations (OCS, SCS) only when certified',
+    'Medicare patients: free screenings must not be offered as an inducement to book billable services',
+    'Exercise content must advise readers to consult a licensed clinician before starting and to stop if pain increases',
+    'Outcome claims (e.g. "90% of patients improve") need a documented source such as the clinic\'s outcomes registry',
+  ],
+
+  requiredIntegrations: ['supabase', 'resend'],
+  optionalIntegrations: ['twilio', 'webpt', 'ga4', 'gtm'],
+
+  setupWizard: [
+    {
+      step: 1,
+      title: 'Clinic Information',
+      fields: ['practice_name', 'specialty', 'year_established', 'phone', 'email'],
+    },
+    {
+      step: 2,
+      title: 'Clinic Director',
+      fields: ['director_name', 'credentials', 'npi', 'bio', 'image', 'specialties'],
+    },
+    {
+      step: 3,
+      title: 'Clinics',
+      fields: ['locations_array'],
+      minimum: 1,
+      canAddCustom: true,
+    },
+    {
+      step: 4,
+      title: 'Services',
+      fields: ['services_selection'],
+      canAddCustom: true,
+    },
+    {
+      step: 5,
+      title: 'Branding',
+      fields: ['logo', 'primary_color', 'secondary_color', 'fonts'],
+    },
+    {
+      step: 6,
+      title: 'Domain & Deployment',
+      fields: ['domain', 'subdomain', 'ssl'],
+    },
+  ],
+};
+
+export default physicalTherapyTemplate;
@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Normalize a domain or URL to an origin ('example.com' -> 'https://example.com')
+ */
+export function toOrigin(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null
+  const trimmed = value.trim()
+  try {
+    return new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`).origin
+  } catch {
+    return null
+  }
+}
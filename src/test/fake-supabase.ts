@@ -0,0 +1,247 @@
+/**
+ * In-memory Supabase client for tests
+ *
+ * Supports the query builder calls the library code makes - select,
+ * insert, update, upsert, delete, the filters below, order, limit,
+ * single/maybeSingle and rpc - against plain arrays of rows. Selected
+ * columns and embeds are ignored: queries return whole rows.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, unknown>;
+
+export interface FakeError {
+  code?: string;
+  message: string;
+}
+
+export interface FakeSupabaseOptions {
+  /** Rows per table; mutated by writes */
+  tables?: Record<string, Row[]>;
+  /** rpc functions by name */
+  functions?: Record<string, (args: Row, tables: Record<string, Row[]>) => unknown>;
+  /** Tables whose every query fails with this error */
+  failures?: Record<string, FakeError>;
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  /** Calls made, as `table.operation` or `rpc.name` */
+  calls: string[];
+}
+
+type Result = { data: unknown; error: FakeError | null; count?: number | null };
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+let nextId = 1;
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private operation: Operation = 'select';
+  private payload: Row[] = [];
+  private values: Row = {};
+  private filters: Array<(row: Row) => boolean> = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private limitCount: number | null = null;
+  private cardinality: 'single' | 'maybe' | null = null;
+  private onConflict: string[] = [];
+
+  constructor(
+    private readonly fake: FakeSupabase,
+    private readonly table: string,
+    private readonly failure: FakeError | undefined
+  ) {}
+
+  select(): this {
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.onConflict = (options.onConflict ?? 'id').split(',').map((column) => column.trim());
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where((row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where((row) => row[column] !== value);
+  }
+
+  is(column: string, value: unknown): this {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) > 0);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) >= 0);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) < 0);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) <= 0);
+  }
+
+  contains(column: string, values: unknown[]): this {
+    return this.where((row) => values.every((value) => ((row[column] as unknown[]) ?? []).includes(value)));
+  }
+
+  containedBy(column: string, values: unknown[]): this {
+    return this.where((row) => ((row[column] as unknown[]) ?? []).every((value) => values.includes(value)));
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybe';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(filter: (row: Row) => boolean): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private rows(): Row[] {
+    this.fake.tables[this.table] ??= [];
+    return this.fake.tables[this.table];
+  }
+
+  private matching(): Row[] {
+    return this.rows().filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private execute(): Result {
+    this.fake.calls.push(`${this.table}.${this.operation}`);
+    if (this.failure) return { data: null, error: this.failure };
+
+    let result: Row[];
+    switch (this.operation) {
+      case 'insert':
+        result = this.payload.map((row) => this.store(row));
+        break;
+      case 'upsert':
+        result = this.payload.map((row) => {
+          const existing = this.rows().find((candidate) =>
+            this.onConflict.every((column) => candidate[column] === row[column])
+          );
+          return existing ? Object.assign(existing, row) : this.store(row);
+        });
+        break;
+      case 'update':
+        result = this.matching().map((row) => Object.assign(row, this.values));
+        break;
+      case 'delete': {
+        result = this.matching();
+        this.fake.tables[this.table] = this.rows().filter((row) => !result.includes(row));
+        break;
+      }
+      default:
+        result = this.matching();
+    }
+
+    result = [...result].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const order = compare(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+    if (this.limitCount !== null) result = result.slice(0, this.limitCount);
+    const data = result.map((row) => ({ ...row }));
+
+    if (!this.cardinality) return { data, error: null, count: data.length };
+    if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected one row, found ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+
+  private store(row: Row): Row {
+    const stored = { id: `${this.table}-${nextId++}`, created_at: new Date().toISOString(), ...row };
+    this.rows().push(stored);
+    return stored;
+  }
+}
+
+/**
+ * Client over in-memory tables
+ */
+export function createFakeSupabase(options: FakeSupabaseOptions = {}): FakeSupabase {
+  const fake = { tables: options.tables ?? {}, calls: [] as string[] } as FakeSupabase;
+
+  const client = {
+    from: (table: string) => new FakeQuery(fake, table, options.failures?.[table]),
+    rpc: async (name: string, args: Row = {}) => {
+      fake.calls.push(`rpc.${name}`);
+      const failure = options.failures?.[`rpc.${name}`];
+      if (failure) return { data: null, error: failure };
+      const fn = options.functions?.[name];
+      if (!fn) return { data: null, error: { code: 'PGRST202', message: `Unknown function ${name}` } };
+      return { data: fn(args, fake.tables), error: null };
+    },
+  };
+
+  fake.client = client as unknown as SupabaseClient;
+  return fake;
+}
@@ -22,7 +22,8 @@ export type MedicalSpecialtyType =
   | 'chiropractic'
   | 'physical_therapy'
   | 'weight_loss'
-  | 'aesthetic';
+  | 'aesthetic'
+  | 'behavioral_health';
 
 /** Service category types */
 export type ServiceCategory =
@@ -33,11 +34,23 @@ export type ServiceCategory =
   | 'aesthetics'
   | 'preventive'
   | 'pain'
-  | 'dental';
+  | 'dental'
+  | 'skin'
+  | 'rehabilitation'
+  | 'mental_health';
 
 /** Content status types */
 export type ContentStatus = 'draft' | 'review' | 'published';
 
+/** Content that goes through medical review before publishing */
+export type ReviewableContentType = 'health_article' | 'location_service_page' | 'medical_service';
+
+/** Why a review was opened */
+export type ContentReviewReason = 'requested' | 'freshness';
+
+/** Content review status types */
+export type ContentReviewStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
 /** SEO landing page types */
 export type LandingPageType =
   | 'symptom'
@@ -49,6 +62,9 @@ export type LandingPageType =
 /** Testimonial source types */
 export type TestimonialSource = 'google' | 'healthgrades' | 'internal' | 'facebook' | 'yelp';
 
+/** Testimonial moderation status */
+export type TestimonialModerationStatus = 'pending' | 'approved' | 'rejected';
+
 /** Business hours structure */
 export interface BusinessHours {
   monday?: DayHours;
@@ -200,6 +216,7 @@ export interface MedicalService {
   metaDescription?: string;
   schemaType?: string;
   medicalSpecialty?: string;
+  lastReviewedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -251,6 +268,8 @@ export interface HealthArticle {
   authorCredentials?: string;
   authorImageUrl?: string;
   authorBio?: string;
+  /** Physician who approved the current version */
+  medicalReviewerId?: string;
   medicalReviewerName?: string;
   medicalReviewerCredentials?: string;
   medicalReviewerImageUrl?: string;
@@ -280,6 +299,16 @@ export interface ArticleFAQ {
   createdAt: string;
 }
 
+/** Service FAQ entity */
+export interface ServiceFAQ {
+  id: string;
+  serviceId: string;
+  question: string;
+  answer: string;
+  displayOrder: number;
+  createdAt: string;
+}
+
 /** SEO landing page entity */
 export interface SEOLandingPage {
   id: string;
@@ -321,10 +350,29 @@ export interface Testimonial {
   verified: boolean;
   source?: TestimonialSource;
   sourceUrl?: string;
+  /** Review id on the source platform */
+  externalId?: string;
+  /** When the patient wrote the review */
+  reviewedAt?: string;
   displayOnHomepage: boolean;
   displayOrder: number;
+  moderationStatus: TestimonialModerationStatus;
+  moderatedBy?: string;
+  moderatedAt?: string;
+  moderationNote?: string;
+  importedAt?: string;
   publishedAt?: string;
   createdAt: string;
+  updatedAt?: string;
+}
+
+/** Aggregate rating of approved testimonials */
+export interface RatingSummary {
+  /** Mean rating, rounded to one decimal */
+  ratingValue: number;
+  reviewCount: number;
+  bestRating: number;
+  worstRating: number;
 }
 
 /** Physician profile entity */
@@ -347,12 +395,57 @@ export interface PhysicianProfile {
   yearsExperience?: number;
   languages: string[];
   npiNumber?: string;
+  /** Result of the last NPI registry check */
+  npiStatus?: NPIVerificationStatus;
+  npiVerifiedAt?: string;
+  npiTaxonomies?: NPITaxonomy[];
+  npiMismatches?: CredentialMismatch[];
   metaTitle?: string;
   metaDescription?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Outcome of checking a physician against the NPI registry */
+export type NPIVerificationStatus = 'verified' | 'mismatch' | 'not_found' | 'invalid';
+
+/** Provider taxonomy (specialty) from the NPI registry */
+export interface NPITaxonomy {
+  /** NUCC taxonomy code, e.g. '208800000X' */
+  code: string;
+  /** Registry description, e.g. 'Internal Medicine, Endocrinology, Diabetes & Metabolism' */
+  description: string;
+  /** Normalized specialty name, e.g. 'Endocrinology' */
+  specialty: string;
+  primary: boolean;
+  state?: string;
+  license?: string;
+}
+
+/** A provider as listed in the NPI registry */
+export interface NPIRecord {
+  npi: string;
+  /** NPI-1 (individual) or NPI-2 (organization) */
+  enumerationType: 'NPI-1' | 'NPI-2';
+  active: boolean;
+  firstName?: string;
+  lastName?: string;
+  /** Credentials as registered, normalized, e.g. ['MD'] */
+  credentials: string[];
+  taxonomies: NPITaxonomy[];
+  lastUpdated?: string;
+}
+
+/** A difference between a physician profile and the NPI registry */
+export interface CredentialMismatch {
+  field: 'npi' | 'name' | 'credentials' | 'specialties' | 'status';
+  /** error: the profile makes a claim the registry contradicts; warning: worth a look */
+  severity: 'error' | 'warning';
+  message: string;
+  listed?: string;
+  registry?: string;
+}
+
 /** Location service page entity */
 export interface LocationServicePage {
   id: string;
@@ -367,10 +460,44 @@ export interface LocationServicePage {
   schemaData?: Record<string, unknown>;
   status: ContentStatus;
   publishedAt?: string;
+  lastReviewedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Medical review of a piece of content */
+export interface ContentReview {
+  id: string;
+  practiceId: string;
+  contentType: ReviewableContentType;
+  contentId: string;
+  reviewerId?: string;
+  reviewerName: string;
+  reviewerCredentials?: string;
+  status: ContentReviewStatus;
+  reason: ContentReviewReason;
+  /** When the content is due for review */
+  dueAt?: string;
+  lastNotifiedAt?: string;
+  notificationCount: number;
+  requestedBy: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Comment on a content review */
+export interface ContentReviewComment {
+  id: string;
+  reviewId: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  createdAt: string;
+}
+
 // ============================================================================
 // SCHEMA.ORG TYPES
 // ============================================================================
@@ -758,26 +885,159 @@ export interface AuthorBioProps {
 /** Generate local pages request */
 export interface GenerateLocalPagesRequest {
   projectId: string;
+  /** Defaults to every location */
   locationIds?: string[];
+  /** Defaults to every service */
   serviceIds?: string[];
+  /** Regenerate pages that already exist instead of skipping them */
   overwrite?: boolean;
+  /** Pages generated in parallel */
+  concurrency?: number;
 }
 
-/** Generate local pages response */
-export interface GenerateLocalPagesResponse {
-  success: boolean;
-  pagesGenerated: number;
-  pages: Array<{
-    locationId: string;
-    serviceId: string;
-    slug: string;
-    status: 'created' | 'updated' | 'skipped';
-  }>;
-  errors?: Array<{
-    locationId: string;
-    serviceId: string;
-    error: string;
-  }>;
+/** Generate local pages response - the queued job */
+export type GenerateLocalPagesResponse = APISuccessResponse<GenerationJobProgress>;
+
+/** Generation job status */
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Generation job item status */
+export type GenerationItemStatus = 'pending' | 'running' | 'created' | 'updated' | 'skipped' | 'failed';
+
+/** Background bulk generation job */
+export interface GenerationJob {
+  id: string;
+  projectId: string;
+  userId: string;
+  kind: 'local_pages';
+  status: GenerationJobStatus;
+  overwrite: boolean;
+  concurrency: number;
+  error?: string;
+  startedAt?: string;
+  heartbeatAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One location × service page of a generation job */
+export interface GenerationJobItem {
+  id: string;
+  jobId: string;
+  locationId: string;
+  serviceId: string;
+  status: GenerationItemStatus;
+  pageId?: string;
+  slug?: string;
+  error?: string;
+  attempts: number;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Progress snapshot of a generation job */
+export interface GenerationJobProgress {
+  job: GenerationJob;
+  items: GenerationJobItem[];
+  counts: Record<GenerationItemStatus, number> & { total: number };
+  /** Finished items as a percentage of all items */
+  percent: number;
+  /** The job will make no further progress */
+  done: boolean;
+}
+
+/** Event of the newline-delimited generation job progress stream */
+export type GenerationJobStreamEvent =
+  | { type: 'progress'; progress: GenerationJobProgress }
+  | { type: 'done' }
+  | { type: 'timeout' }
+  | { type: 'error'; message: string };
+
+/** Request a medical review */
+export interface RequestContentReviewRequest {
+  contentType: ReviewableContentType;
+  contentId: string;
+  /** Physician profile of the reviewer */
+  reviewerId: string;
+  /** Opening comment for the reviewer */
+  comment?: string;
+}
+
+/** Add a comment to a review */
+export interface ContentReviewCommentRequest {
+  body: string;
+  /** Defaults to the signed-in user, e.g. set to the physician when relaying their feedback */
+  authorName?: string;
+}
+
+/** Approve or reject a review */
+export interface ContentReviewDecisionRequest {
+  decision: 'approve' | 'reject';
+  /** Required when rejecting */
+  note?: string;
+}
+
+/** A review with its discussion and the content it is about */
+export interface ContentReviewDetail {
+  review: ContentReview;
+  comments: ContentReviewComment[];
+  content: {
+    type: ReviewableContentType;
+    id: string;
+    title: string;
+    status: ContentStatus;
+  } | null;
+}
+
+/** Import a review export */
+export interface ImportTestimonialsRequest {
+  source: TestimonialSource;
+  format: 'csv' | 'json';
+  /** The export file contents */
+  data: string;
+  /** Attribute every imported review to this location */
+  locationId?: string;
+  /** Attribute every imported review to this service */
+  serviceId?: string;
+}
+
+/** Outcome of a review import */
+export interface TestimonialImportResult {
+  imported: number;
+  /** Reviews already imported from the same source */
+  duplicates: number;
+  /** Records that could not be read, by 1-based record number */
+  invalid: Array<{ record: number; error: string }>;
+  testimonials: Testimonial[];
+}
+
+/** Approve or reject a testimonial */
+export interface TestimonialModerationRequest {
+  decision: 'approve' | 'reject';
+  note?: string;
+  /** Mark the reviewer as a verified patient */
+  verified?: boolean;
+}
+
+/** Ratings of approved testimonials for the practice, each location and each service */
+export interface TestimonialRatings {
+  practice: RatingSummary | null;
+  locations: Record<string, RatingSummary>;
+  services: Record<string, RatingSummary>;
+}
+
+/** Result of enriching a physician profile from the NPI registry */
+export interface PhysicianEnrichmentResult {
+  physician: PhysicianProfile;
+  /** Registry entry; null when the NPI is invalid or not registered */
+  record: NPIRecord | null;
+  status: NPIVerificationStatus;
+  mismatches: CredentialMismatch[];
+  /** Profile properties filled in from the registry */
+  changes: Array<keyof PhysicianProfile>;
 }
 
 /** Generate article request */
@@ -794,15 +1054,10 @@ export interface GenerateArticleRequest {
 /** Generate article response */
 export interface GenerateArticleResponse {
   success: boolean;
-  article: {
-    id: string;
-    title: string;
-    slug: string;
-    content: string;
-    metaTitle: string;
-    metaDescription: string;
-    faqs: FAQItem[];
-    suggestedCitations: Citation[];
+  /** The stored draft */
+  article: HealthArticle & {
+    faqs: ArticleFAQ[];
+    internalLinks: Array<{ text: string; url: string }>;
   };
 }
 
@@ -834,16 +1089,36 @@ export interface GenerateLandingPageResponse {
 /** Generate FAQs request */
 export interface GenerateFAQsRequest {
   projectId: string;
-  topic: string;
-  pageType: string;
+  /** Defaults to the target's name or title */
+  topic?: string;
+  pageType?: string;
   count?: number;
   existingFaqs?: string[];
+  targetKeywords?: string[];
+  /** Page the FAQs are added to; without one they are only returned */
+  target?: FAQTarget;
+}
+
+/** Page that stores FAQs */
+export interface FAQTarget {
+  type: 'service' | 'article' | 'location_service_page';
+  id: string;
 }
 
 /** Generate FAQs response */
 export interface GenerateFAQsResponse {
   success: boolean;
+  /** New FAQs, stored on the target when one was given */
   faqs: FAQItem[];
+  /** Generated questions dropped as repeats of existing ones */
+  duplicates: Array<{ question: string; matches: string; similarity: number; method: 'lexical' | 'semantic' }>;
+  /** FAQPage JSON-LD for every FAQ on the page, old and new */
+  schema: FAQPageSchema;
+  richResults: {
+    eligible: boolean;
+    errors: string[];
+    warnings: string[];
+  };
 }
 
 /** Generate schema request */
@@ -922,6 +1197,12 @@ export interface SEOAuditResult {
   };
   issues: SEOIssue[];
   recommendations: SEORecommendation[];
+  /** Paths of the pages that were audited */
+  pages?: string[];
+  /** Dynamic pages (e.g. /treatments/[service]) that have no HTML to audit */
+  skippedPages?: string[];
+  /** Stored audit run (seo_audits) this result belongs to */
+  auditId?: string;
 }
 
 /** SEO audit request */
@@ -1005,6 +1286,8 @@ export interface HealthcareTemplate {
     description: string;
   }>;
   schemaTypes: string[];
+  /** Advertising and privacy rules the site's content has to follow */
+  complianceNotes: string[];
   requiredIntegrations: string[];
   optionalIntegrations: string[];
   setupWizard: Array<{
@@ -1016,6 +1299,97 @@ export interface HealthcareTemplate {
   }>;
 }
 
+/** A setup wizard field, as named in `HealthcareTemplate.setupWizard` */
+export type TemplateSetupField =
+  | 'practice_name'
+  | 'specialty'
+  | 'year_established'
+  | 'phone'
+  | 'email'
+  | 'director_name'
+  | 'credentials'
+  | 'npi'
+  | 'bio'
+  | 'image'
+  | 'specialties'
+  | 'locations_array'
+  | 'services_selection'
+  | 'logo'
+  | 'primary_color'
+  | 'secondary_color'
+  | 'fonts'
+  | 'domain'
+  | 'subdomain'
+  | 'ssl';
+
+/** A location entered in the setup wizard */
+export type TemplateSetupLocation = Pick<
+  PracticeLocation,
+  'name' | 'addressLine1' | 'city' | 'state' | 'zip' | 'phone'
+> &
+  Partial<Pick<PracticeLocation, 'addressLine2' | 'email'>>;
+
+/** A service added in the setup wizard that the template doesn't offer */
+export interface TemplateSetupCustomService {
+  name: string;
+  category?: ServiceCategory;
+  treatments?: string[];
+}
+
+/**
+ * Everything the setup wizard collects to instantiate a template
+ */
+export interface TemplateSetupRequest {
+  templateId: string;
+  practice: {
+    name: string;
+    specialty?: MedicalSpecialtyType;
+    yearEstablished?: number;
+    phone?: string;
+    email?: string;
+  };
+  /** Medical director; also created as the first physician profile */
+  director?: {
+    name: string;
+    credentials?: string;
+    npiNumber?: string;
+    bio?: string;
+    imageUrl?: string;
+    specialties?: string[];
+  };
+  locations: TemplateSetupLocation[];
+  services: {
+    /** Slugs of the template's default services to offer */
+    selected: string[];
+    custom?: TemplateSetupCustomService[];
+  };
+  branding?: {
+    logoUrl?: string;
+    primaryColor?: string;
+    secondaryColor?: string;
+    headingFont?: string;
+    bodyFont?: string;
+  };
+  deployment?: {
+    domain?: string;
+    subdomain?: string;
+    ssl?: boolean;
+  };
+}
+
+/**
+ * Records created by instantiating a template
+ */
+export interface TemplateSetupResult {
+  practice: MedicalPractice;
+  locations: PracticeLocation[];
+  services: MedicalService[];
+  treatmentOptions: TreatmentOption[];
+  physicians: PhysicianProfile[];
+  /** Paths of the page skeleton created in the site */
+  pages: string[];
+}
+
 /** Content generation prompt params */
 export interface ContentGenerationParams {
   businessName: string;
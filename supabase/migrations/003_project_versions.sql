@@ -0,0 +1,77 @@
+-- Project Versions Migration
+-- Server-persisted version history for builder sites
+
+-- ============================================================================
+-- PREREQUISITE: 001_base_schema.sql must be run first (creates projects table)
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: project_versions
+-- Snapshot of the site model on every save and AI generation
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS project_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    label VARCHAR(255), -- 'before client review'
+    source VARCHAR(20) NOT NULL DEFAULT 'save' CHECK (source IN ('save', 'ai_generation', 'snapshot', 'restore')),
+    site JSONB NOT NULL, -- SiteModel snapshot
+    page_count INTEGER DEFAULT 0,
+    created_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(project_id, version_number)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_project_versions_project ON project_versions(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_versions_created ON project_versions(project_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions for their projects"
+    ON project_versions FOR SELECT
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert versions for their projects"
+    ON project_versions FOR INSERT
+    WITH CHECK (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update versions for their projects"
+    ON project_versions FOR UPDATE
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete versions for their projects"
+    ON project_versions FOR DELETE
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE project_versions IS 'Version history of builder sites with optional labels';
+COMMENT ON COLUMN project_versions.source IS 'What created the version: save, ai_generation, snapshot, or restore';
+COMMENT ON COLUMN project_versions.site IS 'Full SiteModel snapshot (pages, layout, navigation)';
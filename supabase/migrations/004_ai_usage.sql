@@ -0,0 +1,94 @@
+-- AI Usage Migration
+-- Token usage and cost for every Claude call, plus monthly quotas
+
+-- ============================================================================
+-- PREREQUISITE: 001_base_schema.sql must be run first (creates projects table)
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: ai_usage
+-- One row per Claude API call
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+    route VARCHAR(100) NOT NULL, -- 'build', 'healthcare/generate-article'
+    model VARCHAR(100) NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TABLE: ai_quotas
+-- Monthly token limits overriding the AI_MONTHLY_*_TOKEN_QUOTA defaults.
+-- A row without project_id applies to the user, a row with one to the project.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_quotas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    monthly_token_limit BIGINT, -- NULL = unlimited
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (user_id, project_id)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_project_created ON ai_usage(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_quotas_user ON ai_quotas(user_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+    ON ai_usage FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own AI usage"
+    ON ai_usage FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (
+            project_id IS NULL
+            OR project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+        )
+    );
+
+-- Quotas are managed with the service role; users can only read them
+CREATE POLICY "Users can view their own AI quotas"
+    ON ai_quotas FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_ai_quotas_updated_at
+    BEFORE UPDATE ON ai_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE ai_usage IS 'Token usage and estimated cost of each Claude API call, for billing';
+COMMENT ON COLUMN ai_usage.route IS 'API route that made the call';
+COMMENT ON COLUMN ai_usage.cost_usd IS 'Estimated cost from the model price list at the time of the call';
+COMMENT ON TABLE ai_quotas IS 'Per-user and per-project monthly token quotas';
+COMMENT ON COLUMN ai_quotas.monthly_token_limit IS 'Input plus output tokens allowed per calendar month (UTC); NULL for unlimited';
@@ -0,0 +1,152 @@
+-- Generation Jobs Migration
+-- Persisted background jobs for bulk AI content generation
+
+-- ============================================================================
+-- PREREQUISITE: 002_healthcare_module.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: generation_jobs
+-- One bulk generation request, e.g. all location x service pages
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    kind VARCHAR(50) NOT NULL DEFAULT 'local_pages', -- 'local_pages'
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    overwrite BOOLEAN NOT NULL DEFAULT false,
+    concurrency INTEGER NOT NULL DEFAULT 3,
+    error TEXT,
+    started_at TIMESTAMPTZ,
+    heartbeat_at TIMESTAMPTZ, -- last time a worker made progress
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TABLE: generation_job_items
+-- One location x service page within a job
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS generation_job_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES generation_jobs(id) ON DELETE CASCADE,
+    location_id UUID NOT NULL REFERENCES practice_locations(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES medical_services(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'created', 'updated', 'skipped', 'failed')),
+    page_id UUID REFERENCES location_service_pages(id) ON DELETE SET NULL,
+    slug VARCHAR(200),
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(job_id, location_id, service_id)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_project ON generation_jobs(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_generation_job_items_job_status ON generation_job_items(job_id, status);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view generation jobs for their projects"
+    ON generation_jobs FOR SELECT
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert generation jobs for their projects"
+    ON generation_jobs FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update generation jobs for their projects"
+    ON generation_jobs FOR UPDATE
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete generation jobs for their projects"
+    ON generation_jobs FOR DELETE
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view generation job items for their jobs"
+    ON generation_job_items FOR SELECT
+    USING (
+        job_id IN (
+            SELECT gj.id FROM generation_jobs gj
+            JOIN projects p ON gj.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert generation job items for their jobs"
+    ON generation_job_items FOR INSERT
+    WITH CHECK (
+        job_id IN (
+            SELECT gj.id FROM generation_jobs gj
+            JOIN projects p ON gj.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update generation job items for their jobs"
+    ON generation_job_items FOR UPDATE
+    USING (
+        job_id IN (
+            SELECT gj.id FROM generation_jobs gj
+            JOIN projects p ON gj.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_generation_jobs_updated_at
+    BEFORE UPDATE ON generation_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_generation_job_items_updated_at
+    BEFORE UPDATE ON generation_job_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE generation_jobs IS 'Background jobs generating AI content in bulk';
+COMMENT ON COLUMN generation_jobs.overwrite IS 'Regenerate pages that already exist instead of skipping them';
+COMMENT ON COLUMN generation_jobs.concurrency IS 'Items generated in parallel by the worker';
+COMMENT ON COLUMN generation_jobs.heartbeat_at IS 'Updated as items finish; a running job without a recent heartbeat can be resumed';
+COMMENT ON TABLE generation_job_items IS 'Per-page status of a generation job';
+COMMENT ON COLUMN generation_job_items.status IS 'pending -> running -> created | updated | skipped | failed';
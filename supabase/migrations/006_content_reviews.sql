@@ -0,0 +1,181 @@
+-- Content Reviews Migration
+-- Medical review and approval workflow for YMYL healthcare content
+
+-- ============================================================================
+-- PREREQUISITE: 002_healthcare_module.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: content_reviews
+-- A request for a physician to review a piece of content, and the decision
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS content_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    practice_id UUID NOT NULL REFERENCES medical_practices(id) ON DELETE CASCADE,
+    content_type VARCHAR(50) NOT NULL CHECK (content_type IN ('health_article', 'location_service_page')),
+    content_id UUID NOT NULL, -- health_articles.id or location_service_pages.id
+    reviewer_id UUID REFERENCES physician_profiles(id) ON DELETE SET NULL,
+    reviewer_name VARCHAR(255) NOT NULL, -- kept if the physician is removed
+    reviewer_credentials VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    requested_by UUID NOT NULL,
+    decided_by UUID,
+    decided_at TIMESTAMPTZ,
+    decision_note TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TABLE: content_review_comments
+-- Discussion on a review
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS content_review_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    review_id UUID NOT NULL REFERENCES content_reviews(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL,
+    author_name VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- REVIEWED CONTENT
+-- ============================================================================
+
+ALTER TABLE health_articles
+    ADD COLUMN IF NOT EXISTS medical_reviewer_id UUID REFERENCES physician_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE location_service_pages
+    ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_content_reviews_practice_status ON content_reviews(practice_id, status);
+CREATE INDEX IF NOT EXISTS idx_content_reviews_content ON content_reviews(content_type, content_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_reviews_reviewer ON content_reviews(reviewer_id);
+CREATE INDEX IF NOT EXISTS idx_content_review_comments_review ON content_review_comments(review_id, created_at);
+
+-- Only one open review per piece of content
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reviews_one_pending
+    ON content_reviews(content_type, content_id)
+    WHERE status = 'pending';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE content_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_review_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view content reviews for their practices"
+    ON content_reviews FOR SELECT
+    USING (
+        practice_id IN (
+            SELECT mp.id FROM medical_practices mp
+            JOIN projects p ON mp.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert content reviews for their practices"
+    ON content_reviews FOR INSERT
+    WITH CHECK (
+        auth.uid() = requested_by
+        AND practice_id IN (
+            SELECT mp.id FROM medical_practices mp
+            JOIN projects p ON mp.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update content reviews for their practices"
+    ON content_reviews FOR UPDATE
+    USING (
+        practice_id IN (
+            SELECT mp.id FROM medical_practices mp
+            JOIN projects p ON mp.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view review comments for their practices"
+    ON content_review_comments FOR SELECT
+    USING (
+        review_id IN (
+            SELECT cr.id FROM content_reviews cr
+            JOIN medical_practices mp ON cr.practice_id = mp.id
+            JOIN projects p ON mp.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert review comments for their practices"
+    ON content_review_comments FOR INSERT
+    WITH CHECK (
+        auth.uid() = author_id
+        AND review_id IN (
+            SELECT cr.id FROM content_reviews cr
+            JOIN medical_practices mp ON cr.practice_id = mp.id
+            JOIN projects p ON mp.project_id = p.id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Content can only be published once a medical review has been approved
+CREATE OR REPLACE FUNCTION require_approved_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'published'
+        AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'published')
+        AND NOT EXISTS (
+            SELECT 1 FROM content_reviews
+            WHERE content_type = TG_ARGV[0]
+              AND content_id = NEW.id
+              AND status = 'approved'
+        )
+    THEN
+        RAISE EXCEPTION 'Content must be approved by a medical reviewer before it is published'
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_content_reviews_updated_at
+    BEFORE UPDATE ON content_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER require_review_before_publishing_health_articles
+    BEFORE INSERT OR UPDATE OF status ON health_articles
+    FOR EACH ROW
+    EXECUTE FUNCTION require_approved_review('health_article');
+
+CREATE TRIGGER require_review_before_publishing_location_service_pages
+    BEFORE INSERT OR UPDATE OF status ON location_service_pages
+    FOR EACH ROW
+    EXECUTE FUNCTION require_approved_review('location_service_page');
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE content_reviews IS 'Medical review requests for YMYL content; approval publishes the content';
+COMMENT ON COLUMN content_reviews.reviewer_name IS 'Reviewer name at the time of the request, shown if the physician profile is deleted';
+COMMENT ON COLUMN content_reviews.status IS 'pending -> approved | rejected | cancelled';
+COMMENT ON TABLE content_review_comments IS 'Comments from the reviewer and editors on a content review';
+COMMENT ON COLUMN health_articles.medical_reviewer_id IS 'Physician who approved the current version';
+COMMENT ON COLUMN location_service_pages.last_reviewed_at IS 'When a medical reviewer last approved the page';
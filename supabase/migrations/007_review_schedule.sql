@@ -0,0 +1,44 @@
+-- Review Schedule Migration
+-- Periodic freshness re-reviews of published YMYL content
+
+-- ============================================================================
+-- PREREQUISITE: 006_content_reviews.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- CONTENT REVIEWS
+-- ============================================================================
+
+ALTER TABLE content_reviews
+    ADD COLUMN IF NOT EXISTS reason VARCHAR(20) NOT NULL DEFAULT 'requested' CHECK (reason IN ('requested', 'freshness')),
+    ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_notified_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS notification_count INTEGER NOT NULL DEFAULT 0;
+
+-- Service pages are re-reviewed too
+ALTER TABLE content_reviews DROP CONSTRAINT IF EXISTS content_reviews_content_type_check;
+ALTER TABLE content_reviews
+    ADD CONSTRAINT content_reviews_content_type_check
+    CHECK (content_type IN ('health_article', 'location_service_page', 'medical_service'));
+
+-- ============================================================================
+-- REVIEWED CONTENT
+-- ============================================================================
+
+ALTER TABLE medical_services
+    ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_content_reviews_due ON content_reviews(status, due_at);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN content_reviews.reason IS 'requested: by an editor; freshness: opened by the re-review scheduler';
+COMMENT ON COLUMN content_reviews.due_at IS 'When the content is due for review under its category cadence';
+COMMENT ON COLUMN content_reviews.last_notified_at IS 'Last time the reviewer was notified; reminders repeat while the review is pending';
+COMMENT ON COLUMN medical_services.last_reviewed_at IS 'When a medical reviewer last approved the service page';
@@ -0,0 +1,54 @@
+-- Testimonial Moderation Migration
+-- Imported patient reviews and the moderation queue that publishes them
+
+-- ============================================================================
+-- PREREQUISITE: 002_healthcare_module.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- TESTIMONIALS
+-- ============================================================================
+
+ALTER TABLE testimonials
+    ADD COLUMN IF NOT EXISTS moderation_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (moderation_status IN ('pending', 'approved', 'rejected')),
+    ADD COLUMN IF NOT EXISTS moderated_by UUID,
+    ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS moderation_note TEXT,
+    ADD COLUMN IF NOT EXISTS external_id VARCHAR(255), -- review id on the source platform
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ, -- when the patient wrote the review
+    ADD COLUMN IF NOT EXISTS imported_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Testimonials already on the site were approved before moderation existed
+UPDATE testimonials
+    SET moderation_status = 'approved', moderated_at = published_at
+    WHERE published_at IS NOT NULL AND moderation_status = 'pending';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_testimonials_moderation ON testimonials(practice_id, moderation_status);
+
+-- Re-importing an export skips reviews that are already in
+CREATE UNIQUE INDEX IF NOT EXISTS idx_testimonials_external
+    ON testimonials(practice_id, source, external_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_testimonials_updated_at
+    BEFORE UPDATE ON testimonials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN testimonials.moderation_status IS 'pending -> approved | rejected; only approved testimonials are shown and counted in ratings';
+COMMENT ON COLUMN testimonials.external_id IS 'Review id on the source platform, or a hash of the review when the export has none';
+COMMENT ON COLUMN testimonials.reviewed_at IS 'When the patient posted the review on the source platform; datePublished in Review schema';
+COMMENT ON COLUMN testimonials.patient_name IS 'Initials only for imported reviews - full patient names are redacted on import';
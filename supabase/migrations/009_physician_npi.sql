@@ -0,0 +1,31 @@
+-- Physician NPI Migration
+-- Credentials checked against the NPPES NPI registry
+
+-- ============================================================================
+-- PREREQUISITE: 002_healthcare_module.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- PHYSICIAN PROFILES
+-- ============================================================================
+
+ALTER TABLE physician_profiles
+    ADD COLUMN IF NOT EXISTS npi_status VARCHAR(20)
+        CHECK (npi_status IN ('verified', 'mismatch', 'not_found', 'invalid')),
+    ADD COLUMN IF NOT EXISTS npi_verified_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS npi_taxonomies JSONB DEFAULT '[]',
+    ADD COLUMN IF NOT EXISTS npi_mismatches JSONB DEFAULT '[]';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_physician_profiles_npi ON physician_profiles(npi_number);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN physician_profiles.npi_status IS 'Result of the last registry check: verified | mismatch | not_found | invalid';
+COMMENT ON COLUMN physician_profiles.npi_taxonomies IS 'Provider taxonomies from the NPI registry, with normalized specialty names';
+COMMENT ON COLUMN physician_profiles.npi_mismatches IS 'Differences between the profile and the registry found by the last check';
@@ -0,0 +1,77 @@
+-- SEO Audits Migration
+-- Stored SEO audit runs for score history and regression detection
+
+-- ============================================================================
+-- PREREQUISITE: 002_healthcare_module.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: seo_audits
+-- One audit run over a project's site
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS seo_audits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    previous_audit_id UUID REFERENCES seo_audits(id) ON DELETE SET NULL,
+    base_url TEXT NOT NULL,
+    categories TEXT[] NOT NULL DEFAULT '{}',
+    score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pass', 'fail', 'warning')),
+    category_scores JSONB NOT NULL DEFAULT '{}',
+    page_count INTEGER NOT NULL DEFAULT 0,
+    results JSONB NOT NULL,
+    summary JSONB NOT NULL,
+    regressions JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_seo_audits_project ON seo_audits(project_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE seo_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view SEO audits for their projects"
+    ON seo_audits FOR SELECT
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert SEO audits for their projects"
+    ON seo_audits FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete SEO audits for their projects"
+    ON seo_audits FOR DELETE
+    USING (
+        project_id IN (
+            SELECT id FROM projects WHERE user_id = auth.uid()
+        )
+    );
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE seo_audits IS 'SEO audit runs; rows are never updated';
+COMMENT ON COLUMN seo_audits.previous_audit_id IS 'Run the regressions were detected against';
+COMMENT ON COLUMN seo_audits.categories IS 'Check categories the run covered';
+COMMENT ON COLUMN seo_audits.category_scores IS 'Score per check category that ran, for trend charts without loading results';
+COMMENT ON COLUMN seo_audits.results IS 'Full AuditResults of the run, including per-page results';
+COMMENT ON COLUMN seo_audits.summary IS 'SEOAuditResult shown on the SEO dashboard';
+COMMENT ON COLUMN seo_audits.regressions IS 'Checks that passed in the previous run and failed in this one';
@@ -0,0 +1,74 @@
+-- Custom Audit Checks Migration
+-- Declarative house-rule checks run by every SEO audit of a workspace's projects
+
+-- ============================================================================
+-- PREREQUISITE: 001_base_schema.sql must be run first (creates update_updated_at_column)
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: custom_audit_checks
+-- One check, owned by the account (workspace) whose projects it audits
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS custom_audit_checks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    key VARCHAR(60) NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('technical', 'content', 'local', 'schema', 'eeat', 'ai-search')),
+    weight INTEGER NOT NULL DEFAULT 5 CHECK (weight BETWEEN 1 AND 10),
+    severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('critical', 'warning', 'info')),
+    fix TEXT,
+    rule JSONB NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, key)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_custom_audit_checks_user ON custom_audit_checks(user_id, enabled);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE custom_audit_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their custom audit checks"
+    ON custom_audit_checks FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their custom audit checks"
+    ON custom_audit_checks FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their custom audit checks"
+    ON custom_audit_checks FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their custom audit checks"
+    ON custom_audit_checks FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_custom_audit_checks_updated_at
+    BEFORE UPDATE ON custom_audit_checks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE custom_audit_checks IS 'Declarative SEO audit checks; apply to every project of the owning account';
+COMMENT ON COLUMN custom_audit_checks.key IS 'Check identifier; audit results report it as custom-<key>';
+COMMENT ON COLUMN custom_audit_checks.rule IS 'selector | text | attribute | count rule, see src/lib/seo/audit/custom-checks.ts';
+COMMENT ON COLUMN custom_audit_checks.enabled IS 'Disabled checks are kept but not run';
@@ -0,0 +1,39 @@
+-- AI Usage Totals Migration
+-- Per-project token and cost sums, so quota checks don't read every usage row
+
+-- ============================================================================
+-- PREREQUISITE: 004_ai_usage.sql must be run first
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- A user's usage since the start of the quota period, one row per project
+-- (project_id NULL for calls without one). Runs as the caller, so row level
+-- security limits users to their own usage.
+CREATE OR REPLACE FUNCTION ai_usage_totals(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+    project_id UUID,
+    calls BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cost_usd NUMERIC
+) AS $$
+    SELECT
+        u.project_id,
+        COUNT(*),
+        COALESCE(SUM(u.input_tokens), 0),
+        COALESCE(SUM(u.output_tokens), 0),
+        COALESCE(SUM(u.cost_usd), 0)
+    FROM ai_usage u
+    WHERE u.user_id = p_user_id
+      AND u.created_at >= p_since
+    GROUP BY u.project_id;
+$$ language 'sql' STABLE SECURITY INVOKER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION ai_usage_totals(UUID, TIMESTAMPTZ) IS 'Calls, tokens and cost per project of a user since a date; used for quota checks';